@@ -1,6 +1,8 @@
 import pkg from 'pg';
 import bcrypt from 'bcryptjs';
 import { migrateBooleanFields } from './migrate-booleans.js';
+import { migrateApartmentAttributes } from './migrate-apartment-attributes.js';
+import { migrateBookingOverlapConstraint } from './migrate-booking-overlaps.js';
 
 const { Pool } = pkg;
 
@@ -65,6 +67,37 @@ export const dbAll = async (sql, params = []) => {
 
 export { pool as db };
 
+// Run several queries on one client inside a transaction. The callback
+// receives the client; any thrown error rolls every statement back.
+export const withTransaction = async (callback) => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await callback(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+// Add a column to an existing table if an older schema is missing it
+const addColumnIfMissing = async (table, column, definition) => {
+  const columnExists = await query(`
+    SELECT column_name 
+    FROM information_schema.columns 
+    WHERE table_name = $1 AND column_name = $2
+  `, [table, column]);
+
+  if (columnExists.rows.length === 0) {
+    await query(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    console.log(`Migration: Added ${column} column to ${table} table`);
+  }
+};
+
 export const initDatabase = async () => {
   try {
     // Create users table
@@ -95,6 +128,37 @@ export const initDatabase = async () => {
       )
     `);
 
+    // Create rate plans table (one per apartment; seasons stored as JSON)
+    await query(`
+      CREATE TABLE IF NOT EXISTS rate_plans (
+        id VARCHAR(255) PRIMARY KEY,
+        apartment_id VARCHAR(255) UNIQUE NOT NULL REFERENCES apartments(id) ON DELETE CASCADE,
+        currency VARCHAR(3) NOT NULL DEFAULT 'EUR',
+        base_price NUMERIC(10, 2) NOT NULL CHECK (base_price >= 0),
+        weekend_price NUMERIC(10, 2) CHECK (weekend_price >= 0),
+        min_stay INTEGER NOT NULL DEFAULT 1 CHECK (min_stay >= 1),
+        seasons TEXT NOT NULL DEFAULT '[]',
+        created_by INTEGER REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Create external calendars table (Airbnb, Booking.com iCal exports)
+    await query(`
+      CREATE TABLE IF NOT EXISTS external_calendars (
+        id VARCHAR(255) PRIMARY KEY,
+        apartment_id VARCHAR(255) NOT NULL REFERENCES apartments(id) ON DELETE CASCADE,
+        url TEXT NOT NULL,
+        label VARCHAR(255),
+        last_synced_at TIMESTAMP,
+        last_error TEXT,
+        created_by INTEGER REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
     // Create bookings table
     await query(`
       CREATE TABLE IF NOT EXISTS bookings (
@@ -104,12 +168,132 @@ export const initDatabase = async () => {
         check_out TIMESTAMP NOT NULL,
         apartment_id VARCHAR(255) REFERENCES apartments(id) ON DELETE CASCADE,
         temporary_apartment VARCHAR(255),
+        status VARCHAR(50) NOT NULL DEFAULT 'confirmed' CHECK (status IN ('tentative', 'confirmed', 'checked_in', 'checked_out', 'cancelled', 'no_show')),
+        source VARCHAR(50) NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'external')),
+        external_calendar_id VARCHAR(255) REFERENCES external_calendars(id) ON DELETE CASCADE,
+        external_uid VARCHAR(500),
+        total_price NUMERIC(10, 2),
+        currency VARCHAR(3),
+        price_breakdown TEXT,
         created_by INTEGER REFERENCES users(id),
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       )
     `);
 
+    // Create guests table (patient profiles that bookings link to)
+    await query(`
+      CREATE TABLE IF NOT EXISTS guests (
+        id VARCHAR(255) PRIMARY KEY,
+        full_name VARCHAR(255) NOT NULL,
+        email VARCHAR(255),
+        phone VARCHAR(50),
+        nationality VARCHAR(2),
+        passport_number VARCHAR(50),
+        date_of_birth DATE,
+        notes TEXT,
+        created_by INTEGER REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Create treatment appointments table (clinic visits during a stay).
+    // TIMESTAMPTZ so the times aggregated into booking rows keep their offset.
+    await query(`
+      CREATE TABLE IF NOT EXISTS treatment_appointments (
+        id VARCHAR(255) PRIMARY KEY,
+        booking_id VARCHAR(255) NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+        scheduled_at TIMESTAMPTZ NOT NULL,
+        type VARCHAR(50) NOT NULL CHECK (type IN ('consultation', 'implant_surgery', 'extraction', 'follow_up', 'prosthetic_fitting', 'other')),
+        doctor VARCHAR(255),
+        notes TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await query('CREATE INDEX IF NOT EXISTS treatment_appointments_booking_idx ON treatment_appointments (booking_id)');
+
+    // Create payments table (deposits, payments and refunds per booking)
+    await query(`
+      CREATE TABLE IF NOT EXISTS payments (
+        id VARCHAR(255) PRIMARY KEY,
+        booking_id VARCHAR(255) NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+        type VARCHAR(50) NOT NULL DEFAULT 'payment' CHECK (type IN ('deposit', 'payment', 'refund')),
+        amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+        currency VARCHAR(3) NOT NULL,
+        method VARCHAR(50) NOT NULL CHECK (method IN ('cash', 'card', 'bank_transfer', 'other')),
+        paid_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        notes TEXT,
+        recorded_by INTEGER REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await query('CREATE INDEX IF NOT EXISTS payments_booking_idx ON payments (booking_id)');
+
+    // Create invoices table (line items are a snapshot taken when issued)
+    await query(`
+      CREATE TABLE IF NOT EXISTS invoices (
+        id VARCHAR(255) PRIMARY KEY,
+        invoice_number VARCHAR(50) UNIQUE NOT NULL,
+        guest_name VARCHAR(255) NOT NULL,
+        currency VARCHAR(3) NOT NULL,
+        line_items TEXT NOT NULL,
+        subtotal NUMERIC(10, 2) NOT NULL,
+        tax_rate NUMERIC(5, 2) NOT NULL DEFAULT 0,
+        tax_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+        total NUMERIC(10, 2) NOT NULL,
+        paid_at TIMESTAMP,
+        issued_by INTEGER REFERENCES users(id),
+        issued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS invoice_bookings (
+        invoice_id VARCHAR(255) NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+        booking_id VARCHAR(255) NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+        PRIMARY KEY (invoice_id, booking_id)
+      )
+    `);
+
+    // Last invoice number handed out per year
+    await query(`
+      CREATE TABLE IF NOT EXISTS invoice_sequences (
+        year INTEGER PRIMARY KEY,
+        last_number INTEGER NOT NULL
+      )
+    `);
+
+    // Create apartment blocks table (maintenance, cleaning, owner use)
+    await query(`
+      CREATE TABLE IF NOT EXISTS apartment_blocks (
+        id VARCHAR(255) PRIMARY KEY,
+        apartment_id VARCHAR(255) NOT NULL REFERENCES apartments(id) ON DELETE CASCADE,
+        start_date TIMESTAMP NOT NULL,
+        end_date TIMESTAMP NOT NULL,
+        type VARCHAR(50) NOT NULL CHECK (type IN ('maintenance', 'cleaning', 'owner_use')),
+        reason TEXT,
+        created_by INTEGER REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Create calendar feeds table (token-protected .ics subscriptions)
+    await query(`
+      CREATE TABLE IF NOT EXISTS calendar_feeds (
+        id VARCHAR(255) PRIMARY KEY,
+        token VARCHAR(255) UNIQUE NOT NULL,
+        apartment_id VARCHAR(255) REFERENCES apartments(id) ON DELETE CASCADE,
+        label VARCHAR(255),
+        created_by INTEGER REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        last_accessed_at TIMESTAMP
+      )
+    `);
+
     // Create audit log table for tracking changes
     await query(`
       CREATE TABLE IF NOT EXISTS audit_logs (
@@ -163,18 +347,61 @@ export const initDatabase = async () => {
       console.log('Please change the default password after first login!');
     }
 
-    // Check if temporary_apartment column exists, if not add it
+    // Add columns introduced after the initial schema
     try {
-      const columnExists = await query(`
-        SELECT column_name 
-        FROM information_schema.columns 
-        WHERE table_name = 'bookings' AND column_name = 'temporary_apartment'
+      await addColumnIfMissing('bookings', 'temporary_apartment', 'VARCHAR(255)');
+      await addColumnIfMissing(
+        'bookings',
+        'status',
+        `VARCHAR(50) NOT NULL DEFAULT 'confirmed' CHECK (status IN ('tentative', 'confirmed', 'checked_in', 'checked_out', 'cancelled', 'no_show'))`
+      );
+      await addColumnIfMissing(
+        'bookings',
+        'source',
+        `VARCHAR(50) NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'external'))`
+      );
+      await addColumnIfMissing('bookings', 'external_calendar_id', 'VARCHAR(255) REFERENCES external_calendars(id) ON DELETE CASCADE');
+      await addColumnIfMissing('bookings', 'external_uid', 'VARCHAR(500)');
+      await addColumnIfMissing('bookings', 'total_price', 'NUMERIC(10, 2)');
+      await addColumnIfMissing('bookings', 'currency', 'VARCHAR(3)');
+      await addColumnIfMissing('bookings', 'price_breakdown', 'TEXT');
+      await addColumnIfMissing('bookings', 'guest_id', 'VARCHAR(255) REFERENCES guests(id) ON DELETE SET NULL');
+      await addColumnIfMissing('bookings', 'adults', 'INTEGER NOT NULL DEFAULT 1 CHECK (adults >= 1)');
+      await addColumnIfMissing('bookings', 'children', 'INTEGER NOT NULL DEFAULT 0 CHECK (children >= 0)');
+      await addColumnIfMissing('bookings', 'companions', "TEXT[] NOT NULL DEFAULT '{}'");
+      await addColumnIfMissing('apartments', 'max_guests', 'INTEGER CHECK (max_guests > 0)');
+      await addColumnIfMissing('apartments', 'beds', 'TEXT'); // JSON array of { type, count }
+      await addColumnIfMissing('apartments', 'bedrooms', 'INTEGER CHECK (bedrooms >= 0)');
+      await addColumnIfMissing('apartments', 'floor', 'INTEGER');
+      await addColumnIfMissing('apartments', 'has_elevator', 'BOOLEAN');
+      await addColumnIfMissing('apartments', 'wheelchair_accessible', 'BOOLEAN');
+      await addColumnIfMissing('apartments', 'clinic_distance_m', 'INTEGER CHECK (clinic_distance_m >= 0)');
+      await addColumnIfMissing('apartments', 'address', 'TEXT');
+      await addColumnIfMissing('apartments', 'latitude', 'DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90)');
+      await addColumnIfMissing('apartments', 'longitude', 'DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180)');
+      // Soft delete: deleted rows stay in the trash until purged
+      await addColumnIfMissing('apartments', 'deleted_at', 'TIMESTAMP');
+      await addColumnIfMissing('apartments', 'deleted_by', 'INTEGER REFERENCES users(id)');
+      await addColumnIfMissing('bookings', 'deleted_at', 'TIMESTAMP');
+      await addColumnIfMissing('bookings', 'deleted_by', 'INTEGER REFERENCES users(id)');
+      // SHA-256 of backup files kept on the server, checked before a restore
+      await addColumnIfMissing('backup_metadata', 'checksum', 'VARCHAR(64)');
+      await addColumnIfMissing('external_calendars', 'last_conflicts', 'TEXT'); // JSON array of overlaps from the last sync
+      await query('CREATE INDEX IF NOT EXISTS bookings_guest_idx ON bookings (guest_id)');
+      // Date-window lookups for calendars and overlap checks
+      await query('CREATE INDEX IF NOT EXISTS bookings_apartment_dates_idx ON bookings (apartment_id, check_in, check_out)');
+      // Record history and the audit log browser, newest first
+      await query('CREATE INDEX IF NOT EXISTS audit_logs_record_idx ON audit_logs (table_name, record_id)');
+      await query('CREATE INDEX IF NOT EXISTS audit_logs_timestamp_idx ON audit_logs (timestamp DESC)');
+      // The trash and the retention job
+      await query('CREATE INDEX IF NOT EXISTS apartments_deleted_idx ON apartments (deleted_at) WHERE deleted_at IS NOT NULL');
+      await query('CREATE INDEX IF NOT EXISTS bookings_deleted_idx ON bookings (deleted_at) WHERE deleted_at IS NOT NULL');
+
+      // One booking per event in each external calendar
+      await query(`
+        CREATE UNIQUE INDEX IF NOT EXISTS bookings_external_event_idx
+        ON bookings (external_calendar_id, external_uid)
       `);
-      
-      if (columnExists.rows.length === 0) {
-        await query('ALTER TABLE bookings ADD COLUMN temporary_apartment VARCHAR(255)');
-        console.log('Migration: Added temporary_apartment column to bookings table');
-      }
     } catch (error) {
       console.error('Migration error:', error);
     }
@@ -186,6 +413,20 @@ export const initDatabase = async () => {
       console.error('Boolean migration error:', error);
     }
 
+    // Move free-text apartment tags into the typed attribute columns
+    try {
+      await migrateApartmentAttributes();
+    } catch (error) {
+      console.error('Apartment attribute migration error:', error);
+    }
+
+    // Enforce non-overlapping bookings in the database, or report why not
+    try {
+      await migrateBookingOverlapConstraint();
+    } catch (error) {
+      console.error('Booking overlap migration error:', error);
+    }
+
     console.log('Database initialized successfully');
   } catch (error) {
     console.error('Database initialization error:', error);
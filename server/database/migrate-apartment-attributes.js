@@ -0,0 +1,74 @@
+import { dbAll, dbRun } from './init.js';
+
+// Apartments used to describe themselves with free-text tags such as
+// "2 bedrooms", "ground floor" or "lift". Tags that clearly describe a typed
+// attribute are moved into its column; everything else stays a tag.
+
+const ORDINAL_FLOOR = /^(\d+)(?:st|nd|rd|th)?\s+floor$/i;
+const FLOOR_NUMBER = /^floor\s+(\d+)$/i;
+const BEDROOMS = /^(\d+)\s*(?:bedrooms?|bed\s?rooms?|br)$/i;
+const CLINIC_DISTANCE = /^(\d+(?:[.,]\d+)?)\s*(m|km)\b.*clinic/i;
+
+// Returns the attribute columns a tag sets, or null when it is not one
+export const parseAttributeTag = (tag) => {
+  const text = tag.trim();
+  let match;
+
+  if (/^studio$/i.test(text)) return { bedrooms: 0 };
+  if ((match = text.match(BEDROOMS))) return { bedrooms: Number(match[1]) };
+
+  if (/^ground\s+floor$/i.test(text)) return { floor: 0 };
+  if ((match = text.match(ORDINAL_FLOOR) || text.match(FLOOR_NUMBER))) return { floor: Number(match[1]) };
+
+  if (/^(?:elevator|lift)$/i.test(text)) return { has_elevator: true };
+  if (/^no\s+(?:elevator|lift)$/i.test(text)) return { has_elevator: false };
+
+  if (/^wheelchair(?:\s+(?:accessible|access|friendly))?$/i.test(text)) return { wheelchair_accessible: true };
+
+  if ((match = text.match(CLINIC_DISTANCE))) {
+    const distance = Number(match[1].replace(',', '.'));
+    return { clinic_distance_m: Math.round(match[2].toLowerCase() === 'km' ? distance * 1000 : distance) };
+  }
+
+  return null;
+};
+
+export const migrateApartmentAttributes = async () => {
+  // Only apartments nobody has given attributes yet
+  const apartments = await dbAll(`
+    SELECT id, properties FROM apartments
+    WHERE bedrooms IS NULL AND floor IS NULL AND has_elevator IS NULL
+      AND wheelchair_accessible IS NULL AND clinic_distance_m IS NULL
+  `);
+
+  let migratedCount = 0;
+
+  for (const apartment of apartments) {
+    const tags = JSON.parse(apartment.properties || '[]');
+    const attributes = {};
+    const remainingTags = [];
+
+    for (const tag of tags) {
+      const parsed = parseAttributeTag(tag);
+      if (parsed) {
+        Object.assign(attributes, parsed);
+      } else {
+        remainingTags.push(tag);
+      }
+    }
+
+    const columns = Object.keys(attributes);
+    if (columns.length === 0) continue;
+
+    await dbRun(`
+      UPDATE apartments SET ${columns.map((column, index) => `${column} = $${index + 1}`).join(', ')},
+      properties = $${columns.length + 1}, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $${columns.length + 2}
+    `, [...Object.values(attributes), JSON.stringify(remainingTags), apartment.id]);
+    migratedCount++;
+  }
+
+  if (migratedCount > 0) {
+    console.log(`Migration: Moved attribute tags into typed columns for ${migratedCount} apartments`);
+  }
+};
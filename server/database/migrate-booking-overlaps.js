@@ -0,0 +1,83 @@
+import { dbAll, dbGet, query, withTransaction } from './init.js';
+import { activeBookingCondition } from '../services/bookingStatus.js';
+import { BOOKING_OVERLAP_CONSTRAINT } from '../services/availability.js';
+import { formatDay } from '../services/dates.js';
+
+// The routes check for overlaps before writing, but two simultaneous requests
+// can both pass the check. The exclusion constraint makes PostgreSQL refuse
+// the second one. External bookings are left out: their platform is the
+// source of truth and calendar sync reports overlaps with them instead.
+// Bookings in the trash are left out too.
+//
+// The constraint is deferred to commit so a transaction can swap two stays
+// between apartments.
+
+// Pairs of active manual bookings that already double-book an apartment
+export const findBookingOverlaps = () => dbAll(`
+  SELECT b1.id, b1.guest_name, b1.check_in, b1.check_out, b1.apartment_id, a.name as apartment_name,
+         b2.id as conflicting_id, b2.guest_name as conflicting_guest_name,
+         b2.check_in as conflicting_check_in, b2.check_out as conflicting_check_out
+  FROM bookings b1
+  JOIN bookings b2 ON b2.apartment_id = b1.apartment_id
+    AND b1.id < b2.id
+    AND b1.check_in < b2.check_out
+    AND b1.check_out > b2.check_in
+  LEFT JOIN apartments a ON b1.apartment_id = a.id
+  WHERE b1.source = 'manual' AND b2.source = 'manual'
+    AND ${activeBookingCondition('b1')}
+    AND ${activeBookingCondition('b2')}
+  ORDER BY a.name, b1.check_in
+`);
+
+export const migrateBookingOverlapConstraint = async () => {
+  const existing = await dbGet(`
+    SELECT pg_get_constraintdef(oid) as definition FROM pg_constraint WHERE conname = $1
+  `, [BOOKING_OVERLAP_CONSTRAINT]);
+  if (existing?.definition.includes('deleted_at')) return;
+
+  // The constraint cannot be added while conflicts exist, so list them for an
+  // admin to resolve; the migration runs again on the next start. A constraint
+  // from before soft delete stays in place until then. PostgreSQL cannot add
+  // an exclusion constraint NOT VALID.
+  const overlaps = await findBookingOverlaps();
+  if (overlaps.length > 0) {
+    console.warn(
+      existing
+        ? `Migration: Double-booking protection still covers bookings in the trash until ${overlaps.length} overlapping booking pairs are resolved:`
+        : `Migration: Double-booking protection is not enabled until ${overlaps.length} overlapping booking pairs are resolved:`
+    );
+    for (const overlap of overlaps) {
+      console.warn(
+        `  ${overlap.apartment_name || overlap.apartment_id}: ` +
+        `${overlap.guest_name} (${formatDay(overlap.check_in)} - ${formatDay(overlap.check_out)}, ${overlap.id}) overlaps ` +
+        `${overlap.conflicting_guest_name} (${formatDay(overlap.conflicting_check_in)} - ${formatDay(overlap.conflicting_check_out)}, ${overlap.conflicting_id})`
+      );
+    }
+    return;
+  }
+
+  // Lets a GiST index compare apartment IDs with =
+  await query('CREATE EXTENSION IF NOT EXISTS btree_gist');
+
+  // Replaced in one transaction so bookings are never unprotected: if an
+  // overlap was written since the check, adding fails and the old one stays
+  await withTransaction(async (client) => {
+    // Constraints from before soft delete also cover bookings in the trash
+    if (existing) {
+      await client.query(`ALTER TABLE bookings DROP CONSTRAINT ${BOOKING_OVERLAP_CONSTRAINT}`);
+    }
+
+    // check_in/check_out are UTC timestamps without a zone
+    await client.query(`
+      ALTER TABLE bookings ADD CONSTRAINT ${BOOKING_OVERLAP_CONSTRAINT}
+      EXCLUDE USING gist (
+        apartment_id WITH =,
+        tstzrange(check_in AT TIME ZONE 'UTC', check_out AT TIME ZONE 'UTC', '[)') WITH &&
+      )
+      WHERE (apartment_id IS NOT NULL AND source = 'manual' AND ${activeBookingCondition()})
+      DEFERRABLE INITIALLY DEFERRED
+    `);
+  });
+
+  console.log('Migration: Enabled double-booking protection on bookings');
+};
@@ -11,8 +11,23 @@ import apartmentRoutes from './routes/apartments.js';
 import bookingRoutes from './routes/bookings.js';
 import backupRoutes from './routes/backup.js';
 import userRoutes from './routes/users.js';
+import eventRoutes from './routes/events.js';
+import blockRoutes from './routes/blocks.js';
+import calendarRoutes from './routes/calendar.js';
+import calendarFeedRoutes from './routes/calendarFeeds.js';
+import externalCalendarRoutes from './routes/externalCalendars.js';
+import ratePlanRoutes from './routes/ratePlans.js';
+import invoiceRoutes from './routes/invoices.js';
+import paymentRoutes from './routes/payments.js';
+import guestRoutes from './routes/guests.js';
+import reportRoutes from './routes/reports.js';
+import auditLogRoutes from './routes/auditLogs.js';
+import trashRoutes from './routes/trash.js';
 import { initDatabase } from './database/init.js';
 import { authenticateToken } from './middleware/auth.js';
+import { startExternalCalendarSync } from './services/externalCalendars.js';
+import { startTrashRetention } from './services/trash.js';
+import { startBackupSchedule } from './services/storedBackups.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -78,8 +93,20 @@ app.use(express.urlencoded({ extended: true }));
 app.use('/api/auth', authRoutes);
 app.use('/api/apartments', authenticateToken, apartmentRoutes);
 app.use('/api/bookings', authenticateToken, bookingRoutes);
+app.use('/api/blocks', authenticateToken, blockRoutes);
+app.use('/api/external-calendars', authenticateToken, externalCalendarRoutes);
+app.use('/api/rate-plans', authenticateToken, ratePlanRoutes);
+app.use('/api/invoices', authenticateToken, invoiceRoutes);
+app.use('/api/payments', authenticateToken, paymentRoutes);
+app.use('/api/guests', authenticateToken, guestRoutes);
+app.use('/api/reports', authenticateToken, reportRoutes);
+app.use('/api/audit-logs', authenticateToken, auditLogRoutes);
+app.use('/api/trash', authenticateToken, trashRoutes);
 app.use('/api/backup', authenticateToken, backupRoutes);
 app.use('/api/users', authenticateToken, userRoutes);
+app.use('/api/events', eventRoutes); // Authenticated per route
+app.use('/api/calendar-feeds', authenticateToken, calendarFeedRoutes);
+app.use('/api/calendar', calendarRoutes); // Authenticated by feed token
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
@@ -134,4 +161,7 @@ app.use((req, res) => {
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
   console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
+  startExternalCalendarSync();
+  startTrashRetention();
+  startBackupSchedule();
 }); 
\ No newline at end of file
@@ -3,6 +3,21 @@ import { dbGet } from '../database/init.js';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-this';
 
+// Live event streams authenticate with their own short-lived token, since
+// EventSource cannot send an Authorization header and a query parameter ends
+// up in logs and browser history
+const STREAM_TOKEN_TYPE = 'events';
+const STREAM_TOKEN_EXPIRY = '1m';
+
+// Get user from database to ensure they still exist and are active
+const getActiveUser = async (userId) => {
+  const user = await dbGet(
+    'SELECT id, username, email, role, active FROM users WHERE id = $1',
+    [userId]
+  );
+  return user && user.active ? user : null;
+};
+
 export const authenticateToken = async (req, res, next) => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
@@ -13,14 +28,45 @@ export const authenticateToken = async (req, res, next) => {
 
   try {
     const decoded = jwt.verify(token, JWT_SECRET);
-    
-    // Get user from database to ensure they still exist and are active
-    const user = await dbGet(
-      'SELECT id, username, email, role, active FROM users WHERE id = $1',
-      [decoded.userId]
-    );
-
-    if (!user || !user.active) {
+
+    // A stream token only opens the event stream
+    if (decoded.type === STREAM_TOKEN_TYPE) {
+      return res.status(403).json({ message: 'Invalid token' });
+    }
+
+    const user = await getActiveUser(decoded.userId);
+    if (!user) {
+      return res.status(403).json({ message: 'User not found or inactive' });
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    if (error.name === 'TokenExpiredError') {
+      return res.status(401).json({ message: 'Token expired' });
+    }
+    return res.status(403).json({ message: 'Invalid token' });
+  }
+};
+
+// Accepts only a stream token, passed as ?token=. It is checked when the
+// stream opens; an open stream outlives it.
+export const authenticateStreamToken = async (req, res, next) => {
+  const { token } = req.query;
+
+  if (typeof token !== 'string' || !token) {
+    return res.status(401).json({ message: 'Stream token required' });
+  }
+
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET);
+
+    if (decoded.type !== STREAM_TOKEN_TYPE) {
+      return res.status(403).json({ message: 'Invalid token' });
+    }
+
+    const user = await getActiveUser(decoded.userId);
+    if (!user) {
       return res.status(403).json({ message: 'User not found or inactive' });
     }
 
@@ -94,4 +140,10 @@ export const generateTokens = (userId) => {
   );
 
   return { accessToken, refreshToken };
-}; 
\ No newline at end of file
+};
+
+export const generateStreamToken = (userId) => jwt.sign(
+  { userId, type: STREAM_TOKEN_TYPE },
+  JWT_SECRET,
+  { expiresIn: STREAM_TOKEN_EXPIRY }
+);
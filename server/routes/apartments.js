@@ -3,9 +3,44 @@ import { body, validationResult } from 'express-validator';
 import { v4 as uuidv4 } from 'uuid';
 import { dbRun, dbGet, dbAll } from '../database/init.js';
 import { hasPermission } from '../middleware/auth.js';
+import { broadcast } from '../services/events.js';
+import { ATTRIBUTE_COLUMNS, BED_TYPES, formatApartment } from '../services/apartments.js';
 
 const router = express.Router();
 
+// Sleeping capacity: an explicit guest limit and/or the bed configuration
+const capacityValidators = [
+  body('maxGuests').optional({ nullable: true }).isInt({ min: 1 }).withMessage('Max guests must be a positive integer'),
+  body('beds').optional().isArray().withMessage('Beds must be an array'),
+  body('beds.*.type').isIn(BED_TYPES).withMessage('Invalid bed type'),
+  body('beds.*.count').isInt({ min: 1 }).withMessage('Bed count must be a positive integer')
+];
+
+// Typed attributes; only admins may set them
+const attributeValidators = [
+  body('attributes').optional().isObject().withMessage('Attributes must be an object'),
+  body('attributes.bedrooms').optional({ nullable: true }).isInt({ min: 0 }).withMessage('Bedrooms must be zero or more'),
+  body('attributes.floor').optional({ nullable: true }).isInt().withMessage('Floor must be a whole number'),
+  body('attributes.hasElevator').optional({ nullable: true }).isBoolean().withMessage('Elevator must be true or false'),
+  body('attributes.wheelchairAccessible').optional({ nullable: true }).isBoolean()
+    .withMessage('Wheelchair accessible must be true or false'),
+  body('attributes.clinicDistanceM').optional({ nullable: true }).isInt({ min: 0 })
+    .withMessage('Distance to the clinic must be zero or more metres'),
+  body('attributes.address').optional({ nullable: true }).isString().withMessage('Address must be a string'),
+  body('attributes.latitude').optional({ nullable: true }).isFloat({ min: -90, max: 90 }).withMessage('Latitude must be between -90 and 90'),
+  body('attributes.longitude').optional({ nullable: true }).isFloat({ min: -180, max: 180 })
+    .withMessage('Longitude must be between -180 and 180')
+];
+
+const ATTRIBUTES_ADMIN_MESSAGE = 'Only admins can change apartment attributes';
+
+// Attribute values to store, for the attributes present in the request
+const toAttributeColumns = (attributes = {}) => Object.fromEntries(
+  Object.entries(ATTRIBUTE_COLUMNS)
+    .filter(([attribute]) => attributes[attribute] !== undefined)
+    .map(([attribute, column]) => [column, attributes[attribute] === '' ? null : attributes[attribute]])
+);
+
 // Get all apartments
 router.get('/', async (req, res) => {
   try {
@@ -13,15 +48,11 @@ router.get('/', async (req, res) => {
       SELECT a.*, u.username as created_by_username 
       FROM apartments a
       LEFT JOIN users u ON a.created_by = u.id
+      WHERE a.deleted_at IS NULL
       ORDER BY a.created_at DESC
     `);
 
-    // Parse properties JSON string back to array
-    const formattedApartments = apartments.map(apt => ({
-      ...apt,
-      properties: JSON.parse(apt.properties || '[]'),
-      isFavorite: Boolean(apt.is_favorite)
-    }));
+    const formattedApartments = apartments.map(formatApartment);
 
     res.json(formattedApartments);
   } catch (error) {
@@ -37,18 +68,14 @@ router.get('/:id', async (req, res) => {
       SELECT a.*, u.username as created_by_username 
       FROM apartments a
       LEFT JOIN users u ON a.created_by = u.id
-      WHERE a.id = $1
+      WHERE a.id = $1 AND a.deleted_at IS NULL
     `, [req.params.id]);
 
     if (!apartment) {
       return res.status(404).json({ message: 'Apartment not found' });
     }
 
-    const formattedApartment = {
-      ...apartment,
-      properties: JSON.parse(apartment.properties || '[]'),
-      isFavorite: Boolean(apartment.is_favorite)
-    };
+    const formattedApartment = formatApartment(apartment);
 
     res.json(formattedApartment);
   } catch (error) {
@@ -61,7 +88,9 @@ router.get('/:id', async (req, res) => {
 router.post('/', [
   hasPermission('manager'),
   body('name').trim().notEmpty().withMessage('Name is required'),
-  body('properties').isArray().withMessage('Properties must be an array')
+  body('properties').isArray().withMessage('Properties must be an array'),
+  ...capacityValidators,
+  ...attributeValidators
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -69,19 +98,26 @@ router.post('/', [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { name, properties } = req.body;
+    const { name, properties, maxGuests = null, beds = [], attributes } = req.body;
+
+    if (attributes !== undefined && req.user.role !== 'admin') {
+      return res.status(403).json({ message: ATTRIBUTES_ADMIN_MESSAGE });
+    }
+
     const id = uuidv4();
+    const attributeColumns = toAttributeColumns(attributes);
+    const columns = Object.keys(attributeColumns);
 
     await dbRun(`
-      INSERT INTO apartments (id, name, properties, created_by)
-      VALUES ($1, $2, $3, $4)
-    `, [id, name, JSON.stringify(properties), req.user.id]);
+      INSERT INTO apartments (id, name, properties, max_guests, beds, created_by${columns.map(column => `, ${column}`).join('')})
+      VALUES ($1, $2, $3, $4, $5, $6${columns.map((_, index) => `, $${index + 7}`).join('')})
+    `, [id, name, JSON.stringify(properties), maxGuests, JSON.stringify(beds), req.user.id, ...Object.values(attributeColumns)]);
 
     // Log the action
     await dbRun(`
       INSERT INTO audit_logs (user_id, action, table_name, record_id, new_values)
       VALUES ($1, $2, $3, $4, $5)
-    `, [req.user.id, 'CREATE', 'apartments', id, JSON.stringify({ name, properties })]);
+    `, [req.user.id, 'CREATE', 'apartments', id, JSON.stringify({ name, properties, maxGuests, beds, attributes })]);
 
     const newApartment = await dbGet(`
       SELECT a.*, u.username as created_by_username 
@@ -90,11 +126,9 @@ router.post('/', [
       WHERE a.id = $1
     `, [id]);
 
-    const formattedApartment = {
-      ...newApartment,
-      properties: JSON.parse(newApartment.properties || '[]'),
-      isFavorite: Boolean(newApartment.is_favorite)
-    };
+    const formattedApartment = formatApartment(newApartment);
+
+    broadcast('apartment.created', formattedApartment, req.user.id);
 
     res.status(201).json(formattedApartment);
   } catch (error) {
@@ -107,7 +141,9 @@ router.post('/', [
 router.put('/:id', [
   hasPermission('manager'),
   body('name').optional().trim().notEmpty().withMessage('Name cannot be empty'),
-  body('properties').optional().isArray().withMessage('Properties must be an array')
+  body('properties').optional().isArray().withMessage('Properties must be an array'),
+  ...capacityValidators,
+  ...attributeValidators
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -118,8 +154,12 @@ router.put('/:id', [
     const { id } = req.params;
     const updates = req.body;
 
+    if (updates.attributes !== undefined && req.user.role !== 'admin') {
+      return res.status(403).json({ message: ATTRIBUTES_ADMIN_MESSAGE });
+    }
+
     // Get old values for audit log
-    const oldApartment = await dbGet('SELECT * FROM apartments WHERE id = $1', [id]);
+    const oldApartment = await dbGet('SELECT * FROM apartments WHERE id = $1 AND deleted_at IS NULL', [id]);
     
     if (!oldApartment) {
       return res.status(404).json({ message: 'Apartment not found' });
@@ -141,6 +181,24 @@ router.put('/:id', [
       paramCount++;
     }
 
+    if (updates.maxGuests !== undefined) {
+      updateFields.push(`max_guests = $${paramCount}`);
+      updateValues.push(updates.maxGuests);
+      paramCount++;
+    }
+
+    if (updates.beds !== undefined) {
+      updateFields.push(`beds = $${paramCount}`);
+      updateValues.push(JSON.stringify(updates.beds));
+      paramCount++;
+    }
+
+    for (const [column, value] of Object.entries(toAttributeColumns(updates.attributes))) {
+      updateFields.push(`${column} = $${paramCount}`);
+      updateValues.push(value);
+      paramCount++;
+    }
+
     if (updates.isFavorite !== undefined) {
       updateFields.push(`is_favorite = $${paramCount}`);
       updateValues.push(updates.isFavorite);
@@ -172,11 +230,9 @@ router.put('/:id', [
       WHERE a.id = $1
     `, [id]);
 
-    const formattedApartment = {
-      ...updatedApartment,
-      properties: JSON.parse(updatedApartment.properties || '[]'),
-      isFavorite: Boolean(updatedApartment.is_favorite)
-    };
+    const formattedApartment = formatApartment(updatedApartment);
+
+    broadcast('apartment.updated', formattedApartment, req.user.id);
 
     res.json(formattedApartment);
   } catch (error) {
@@ -191,14 +247,14 @@ router.delete('/:id', hasPermission('admin'), async (req, res) => {
     const { id } = req.params;
 
     // Get apartment for audit log
-    const apartment = await dbGet('SELECT * FROM apartments WHERE id = $1', [id]);
+    const apartment = await dbGet('SELECT * FROM apartments WHERE id = $1 AND deleted_at IS NULL', [id]);
     
     if (!apartment) {
       return res.status(404).json({ message: 'Apartment not found' });
     }
 
     // Check if apartment has bookings
-    const bookingCount = await dbGet('SELECT COUNT(*) as count FROM bookings WHERE apartment_id = $1', [id]);
+    const bookingCount = await dbGet('SELECT COUNT(*) as count FROM bookings WHERE apartment_id = $1 AND deleted_at IS NULL', [id]);
     
     if (bookingCount.count > 0) {
       return res.status(400).json({ 
@@ -207,15 +263,22 @@ router.delete('/:id', hasPermission('admin'), async (req, res) => {
       });
     }
 
-    await dbRun('DELETE FROM apartments WHERE id = $1', [id]);
+    // Move it to the trash; its blocks, rate plan and calendars stay with it
+    await dbRun(`
+      UPDATE apartments SET deleted_at = CURRENT_TIMESTAMP, deleted_by = $1
+      WHERE id = $2
+    `, [req.user.id, id]);
 
     // Log the action
-    await dbRun(`
+    const auditLog = await dbGet(`
       INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values)
       VALUES ($1, $2, $3, $4, $5)
+      RETURNING id
     `, [req.user.id, 'DELETE', 'apartments', id, JSON.stringify(apartment)]);
 
-    res.json({ message: 'Apartment deleted successfully' });
+    broadcast('apartment.deleted', { id }, req.user.id);
+
+    res.json({ message: 'Apartment deleted successfully', auditLogId: auditLog.id });
   } catch (error) {
     console.error('Delete apartment error:', error);
     res.status(500).json({ message: 'Internal server error' });
@@ -227,7 +290,7 @@ router.patch('/:id/favorite', hasPermission('manager'), async (req, res) => {
   try {
     const { id } = req.params;
 
-    const apartment = await dbGet('SELECT * FROM apartments WHERE id = $1', [id]);
+    const apartment = await dbGet('SELECT * FROM apartments WHERE id = $1 AND deleted_at IS NULL', [id]);
     
     if (!apartment) {
       return res.status(404).json({ message: 'Apartment not found' });
@@ -248,6 +311,11 @@ router.patch('/:id/favorite', hasPermission('manager'), async (req, res) => {
         JSON.stringify({ is_favorite: apartment.is_favorite }), 
         JSON.stringify({ is_favorite: newFavoriteValue })]);
 
+    broadcast('apartment.updated', formatApartment({
+      ...apartment,
+      is_favorite: newFavoriteValue
+    }), req.user.id);
+
     res.json({ message: 'Apartment favorite status updated', isFavorite: Boolean(newFavoriteValue) });
   } catch (error) {
     console.error('Toggle favorite error:', error);
@@ -0,0 +1,159 @@
+import express from 'express';
+import { query, validationResult } from 'express-validator';
+import { dbGet, dbAll, withTransaction } from '../database/init.js';
+import { hasPermission } from '../middleware/auth.js';
+import { HISTORY_TABLES, formatAuditLog } from '../services/auditLogs.js';
+import { RESTORABLE_TABLES, RestoreConflictError, broadcastRestored, restoreDeletedRecord } from '../services/restore.js';
+import { describeBookingConflict, isBookingOverlapError } from '../services/availability.js';
+
+const router = express.Router();
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Get a page of audit log entries, newest first. Admins can browse the whole
+// log; managers can read the history of one booking or apartment.
+router.get('/', [
+  hasPermission('manager'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer').toInt(),
+  query('limit').optional().isInt({ min: 1, max: MAX_PAGE_SIZE })
+    .withMessage(`Limit must be between 1 and ${MAX_PAGE_SIZE}`).toInt(),
+  query('user_id').optional().isInt().withMessage('User ID must be an integer').toInt(),
+  query('from').optional().isISO8601().withMessage('Valid from date is required'),
+  query('to').optional().isISO8601().withMessage('Valid to date is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { page = 1, limit = DEFAULT_PAGE_SIZE, user_id, table, action, record_id, from, to } = req.query;
+
+    if (req.user.role !== 'admin' && !(HISTORY_TABLES.includes(table) && record_id)) {
+      return res.status(403).json({ message: 'Only admins can browse the audit log' });
+    }
+
+    const conditions = [];
+    const params = [];
+    const addCondition = (sql, value) => {
+      params.push(value);
+      conditions.push(sql.replace('?', `$${params.length}`));
+    };
+
+    if (user_id) addCondition('al.user_id = ?', user_id);
+    if (table) addCondition('al.table_name = ?', table);
+    if (action) addCondition('al.action = ?', action);
+    if (record_id) addCondition('al.record_id = ?', record_id);
+    if (from) addCondition('al.timestamp >= ?', from);
+    if (to) addCondition('al.timestamp < ?', to);
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const { total } = await dbGet(`
+      SELECT COUNT(*)::int as total
+      FROM audit_logs al
+      ${whereClause}
+    `, params);
+
+    const logs = await dbAll(`
+      SELECT al.*, u.username
+      FROM audit_logs al
+      LEFT JOIN users u ON al.user_id = u.id
+      ${whereClause}
+      ORDER BY al.timestamp DESC, al.id DESC
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+    `, [...params, limit, (page - 1) * limit]);
+
+    res.json({
+      data: logs.map(formatAuditLog),
+      pagination: {
+        page,
+        limit,
+        total,
+        total_pages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('Get audit logs error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Tables, actions and users that appear in the log, for the filter menus (admin only)
+router.get('/facets', hasPermission('admin'), async (req, res) => {
+  try {
+    const tables = await dbAll('SELECT DISTINCT table_name FROM audit_logs ORDER BY table_name');
+    const actions = await dbAll('SELECT DISTINCT action FROM audit_logs ORDER BY action');
+    const users = await dbAll(`
+      SELECT DISTINCT u.id, u.username
+      FROM audit_logs al
+      JOIN users u ON al.user_id = u.id
+      ORDER BY u.username
+    `);
+
+    res.json({
+      tables: tables.map(row => row.table_name),
+      actions: actions.map(row => row.action),
+      users
+    });
+  } catch (error) {
+    console.error('Get audit log facets error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Undo a deletion: bring back the booking or apartment a DELETE entry logged.
+// Restoring an apartment needs the same admin rights as deleting one.
+router.post('/:id/restore', hasPermission('manager'), async (req, res) => {
+  try {
+    const entry = await dbGet('SELECT * FROM audit_logs WHERE id = $1', [req.params.id]);
+
+    if (!entry) {
+      return res.status(404).json({ message: 'Audit log entry not found' });
+    }
+
+    if (entry.action !== 'DELETE' || !RESTORABLE_TABLES.includes(entry.table_name) || !entry.old_values) {
+      return res.status(400).json({ message: 'Only deleted bookings and apartments can be restored' });
+    }
+
+    if (entry.table_name === 'apartments' && req.user.role !== 'admin') {
+      return res.status(403).json({ message: 'Only admins can restore apartments' });
+    }
+
+    let restored;
+    try {
+      restored = await withTransaction(async (client) => {
+        const record = await restoreDeletedRecord(client, entry);
+
+        await client.query(`
+          INSERT INTO audit_logs (user_id, action, table_name, record_id, new_values)
+          VALUES ($1, $2, $3, $4, $5)
+        `, [req.user.id, 'RESTORE', entry.table_name, entry.record_id, JSON.stringify({ ...record, restored_from: entry.id })]);
+
+        return record;
+      });
+    } catch (error) {
+      if (error instanceof RestoreConflictError) {
+        return res.status(409).json({ message: error.message, ...error.details });
+      }
+      if (!isBookingOverlapError(error)) throw error;
+      // Another booking took the dates between the check and the commit
+      const booking = JSON.parse(entry.old_values);
+      return res.status(409).json(await describeBookingConflict(booking.apartment_id, booking.check_in, booking.check_out));
+    }
+
+    const record = await broadcastRestored(entry.table_name, restored.id, req.user.id);
+
+    res.json({
+      message: `${entry.table_name === 'bookings' ? 'Booking' : 'Apartment'} restored successfully`,
+      table: entry.table_name,
+      record
+    });
+  } catch (error) {
+    console.error('Restore audit log entry error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -3,9 +3,21 @@ import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import multer from 'multer';
-import { v4 as uuidv4 } from 'uuid';
 import { dbRun, dbGet, dbAll } from '../database/init.js';
 import { hasPermission } from '../middleware/auth.js';
+import { broadcast } from '../services/events.js';
+import { findOverlappingBooking, isBookingOverlapError, parseBookingOverlapDetail } from '../services/availability.js';
+import { BackupFormatError, buildBackup, importBackup, parseBackup, summarizeDiff } from '../services/backup.js';
+import {
+  StoredBackupError,
+  createStoredBackup,
+  getBackupSchedule,
+  getRetention,
+  getStoredBackupPath,
+  listStoredBackups,
+  readStoredBackup,
+  verifyStoredBackup
+} from '../services/storedBackups.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -44,38 +56,7 @@ const upload = multer({
 // Export data (admin only)
 router.get('/export', hasPermission('admin'), async (req, res) => {
   try {
-    // Get all data from database
-    const apartments = await dbAll('SELECT * FROM apartments ORDER BY created_at');
-    const bookings = await dbAll('SELECT * FROM bookings ORDER BY created_at');
-    const users = await dbAll('SELECT id, username, email, role, active, created_at, last_login FROM users ORDER BY created_at');
-    const auditLogs = await dbAll('SELECT * FROM audit_logs ORDER BY timestamp DESC LIMIT 1000'); // Last 1000 audit logs
-
-    // Format data for export
-    const exportData = {
-      version: '1.0',
-      exported_at: new Date().toISOString(),
-      exported_by: req.user.username,
-      data: {
-        apartments: apartments.map(apt => ({
-          ...apt,
-          properties: JSON.parse(apt.properties || '[]'),
-          isFavorite: Boolean(apt.is_favorite)
-        })),
-        bookings: bookings.map(booking => ({
-          ...booking,
-          checkIn: booking.check_in,
-          checkOut: booking.check_out
-        })),
-        users,
-        auditLogs
-      },
-      statistics: {
-        apartmentCount: apartments.length,
-        bookingCount: bookings.length,
-        userCount: users.length,
-        auditLogCount: auditLogs.length
-      }
-    };
+    const exportData = await buildBackup(req.user.username);
 
     // Create filename with timestamp
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
@@ -105,7 +86,89 @@ router.get('/export', hasPermission('admin'), async (req, res) => {
   }
 });
 
-// Import data (admin only)
+// The booking the constraint matched. The import rolled back, so it is
+// looked for among the backup's own bookings and then in the database.
+const findImportConflict = async (backup, error) => {
+  const overlap = parseBookingOverlapDetail(error.detail);
+  if (!overlap) return null;
+
+  const { existing } = overlap;
+  const imported = backup.data.bookings.find(booking =>
+    booking.apartment_id === existing.apartmentId &&
+    new Date(booking.check_in).getTime() === existing.checkIn.getTime() &&
+    new Date(booking.check_out).getTime() === existing.checkOut.getTime()
+  );
+  return imported || await findOverlappingBooking(existing.apartmentId, existing.checkIn.toISOString(), existing.checkOut.toISOString()) || null;
+};
+
+// Validate and import a parsed backup file, or with dryRun only report what
+// importing it would change. source names the file in the backup history.
+const respondWithImport = async (req, res, raw, { source, fileSize, replace, dryRun }) => {
+  let backup;
+  try {
+    backup = parseBackup(raw);
+  } catch (error) {
+    if (error instanceof BackupFormatError) {
+      return res.status(400).json({ message: error.message, issues: error.issues });
+    }
+    throw error;
+  }
+
+  let diff;
+  try {
+    diff = await importBackup(backup, { replace, dryRun });
+  } catch (importError) {
+    // Checked row by row, but the deferred constraint has the last word
+    if (isBookingOverlapError(importError)) {
+      return res.status(409).json({
+        message: 'The backup would double-book an apartment. Nothing was imported.',
+        conflictingBooking: await findImportConflict(backup, importError)
+      });
+    }
+    throw importError;
+  }
+
+  const summary = summarizeDiff(diff);
+
+  if (dryRun) {
+    return res.json({ dryRun, replaceMode: replace, version: backup.upgradedFrom, summary, diff });
+  }
+
+  // Save import metadata
+  await dbRun(`
+    INSERT INTO backup_metadata (filename, file_size, created_by)
+    VALUES ($1, $2, $3)
+  `, [source, fileSize, req.user.id]);
+
+  // Get the inserted backup ID for audit log
+  const importRecord = await dbGet('SELECT id FROM backup_metadata WHERE filename = $1 ORDER BY id DESC LIMIT 1', [source]);
+
+  // Log the action
+  await dbRun(`
+    INSERT INTO audit_logs (user_id, action, table_name, record_id, new_values)
+    VALUES ($1, $2, $3, $4, $5)
+  `, [req.user.id, 'IMPORT', 'backup', importRecord.id, JSON.stringify({
+    filename: source,
+    version: backup.upgradedFrom,
+    summary,
+    replaceMode: replace
+  })]);
+
+  // Imported data can touch every row, so clients reload instead of patching
+  broadcast('data.reset', { summary }, req.user.id);
+
+  res.json({
+    message: 'Data imported successfully',
+    dryRun,
+    replaceMode: replace,
+    version: backup.upgradedFrom,
+    summary,
+    diff
+  });
+};
+
+// Import data (admin only). With dry_run the import is rolled back and only
+// its diff is returned.
 router.post('/import', [hasPermission('admin'), upload.single('backup')], async (req, res) => {
   try {
     if (!req.file) {
@@ -114,174 +177,113 @@ router.post('/import', [hasPermission('admin'), upload.single('backup')], async
 
     // Read and parse the uploaded file
     const fileContent = await fs.readFile(req.file.path, 'utf-8');
-    let backupData;
+    await fs.unlink(req.file.path);
+    let raw;
 
     try {
-      backupData = JSON.parse(fileContent);
+      raw = JSON.parse(fileContent);
     } catch (parseError) {
       return res.status(400).json({ message: 'Invalid JSON file' });
     }
 
-    // Validate backup data structure
-    if (!backupData.data || !backupData.version) {
-      return res.status(400).json({ message: 'Invalid backup file format' });
+    // Multipart fields arrive as strings
+    await respondWithImport(req, res, raw, {
+      source: `import-${req.file.filename}`,
+      fileSize: req.file.size,
+      replace: req.body.replace === 'true',
+      dryRun: req.body.dry_run === 'true'
+    });
+  } catch (error) {
+    console.error('Import data error:', error);
+    // Clean up uploaded file if it exists
+    if (req.file) {
+      await fs.unlink(req.file.path).catch(() => {});
     }
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
 
-    const { apartments = [], bookings = [], users = [] } = backupData.data;
-    const { replace = false } = req.body; // Option to replace existing data
+// Get the backups stored on the server and the schedule that writes them (admin only)
+router.get('/stored', hasPermission('admin'), async (req, res) => {
+  try {
+    res.json({
+      schedule: getBackupSchedule(),
+      retention: getRetention(),
+      backups: await listStoredBackups()
+    });
+  } catch (error) {
+    console.error('Get stored backups error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
 
-    let importedCounts = {
-      apartments: 0,
-      bookings: 0,
-      users: 0
-    };
+// Store a backup on the server now (admin only)
+router.post('/stored', hasPermission('admin'), async (req, res) => {
+  try {
+    const backup = await createStoredBackup(req.user.id, req.user.username);
 
-    // Begin transaction-like operations
-    try {
-      // If replace mode, clear existing data (except current user)
-      if (replace) {
-        await dbRun('DELETE FROM bookings');
-        await dbRun('DELETE FROM apartments');
-        await dbRun('DELETE FROM users WHERE id != $1', [req.user.id]);
-      }
-
-      // Import apartments
-      for (const apartment of apartments) {
-        try {
-          await dbRun(`
-            INSERT INTO apartments (id, name, properties, is_favorite, created_by, created_at, updated_at)
-            VALUES ($1, $2, $3, $4, $5, $6, $7)
-            ON CONFLICT (id) DO UPDATE SET
-            name = EXCLUDED.name,
-            properties = EXCLUDED.properties,
-            is_favorite = EXCLUDED.is_favorite,
-            updated_at = EXCLUDED.updated_at
-          `, [
-            apartment.id,
-            apartment.name,
-            JSON.stringify(apartment.properties || []),
-            apartment.isFavorite ? true : false,
-            req.user.id, // Set current user as creator for imported data
-            apartment.created_at || new Date().toISOString(),
-            apartment.updated_at || new Date().toISOString()
-          ]);
-          importedCounts.apartments++;
-        } catch (error) {
-          console.error('Error importing apartment:', apartment.id, error);
-        }
-      }
-
-      // Import bookings
-      for (const booking of bookings) {
-        try {
-          await dbRun(`
-            INSERT INTO bookings (id, guest_name, check_in, check_out, apartment_id, created_by, created_at, updated_at)
-            VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-            ON CONFLICT (id) DO UPDATE SET
-            guest_name = EXCLUDED.guest_name,
-            check_in = EXCLUDED.check_in,
-            check_out = EXCLUDED.check_out,
-            apartment_id = EXCLUDED.apartment_id,
-            updated_at = EXCLUDED.updated_at
-          `, [
-            booking.id,
-            booking.guest_name,
-            booking.checkIn || booking.check_in,
-            booking.checkOut || booking.check_out,
-            booking.apartment_id,
-            req.user.id, // Set current user as creator for imported data
-            booking.created_at || new Date().toISOString(),
-            booking.updated_at || new Date().toISOString()
-          ]);
-          importedCounts.bookings++;
-        } catch (error) {
-          console.error('Error importing booking:', booking.id, error);
-        }
-      }
-
-      // Import users
-      for (const user of users) {
-        try {
-          if (replace) {
-            // In replace mode, import all users except if they have the same ID as current user
-            if (user.id !== req.user.id) {
-              await dbRun(`
-                INSERT INTO users (username, email, password, role, active, created_at, last_login)
-                VALUES ($1, $2, $3, $4, $5, $6, $7)
-              `, [
-                user.username,
-                user.email,
-                user.password || '$2a$10$defaulthash', // Default hash, user will need to reset password
-                user.role || 'viewer',
-                user.active !== undefined ? user.active : true,
-                user.created_at || new Date().toISOString(),
-                user.last_login
-              ]);
-              importedCounts.users++;
-            }
-          } else {
-            // In non-replace mode, only import users that don't already exist
-            const existingUser = await dbGet('SELECT id FROM users WHERE username = $1 OR email = $2', [user.username, user.email]);
-            if (!existingUser) {
-              await dbRun(`
-                INSERT INTO users (username, email, password, role, active, created_at, last_login)
-                VALUES ($1, $2, $3, $4, $5, $6, $7)
-              `, [
-                user.username,
-                user.email,
-                user.password || '$2a$10$defaulthash', // Default hash, user will need to reset password
-                user.role || 'viewer',
-                user.active !== undefined ? user.active : true,
-                user.created_at || new Date().toISOString(),
-                user.last_login
-              ]);
-              importedCounts.users++;
-            }
-          }
-        } catch (error) {
-          console.error('Error importing user:', user.username, error);
-        }
-      }
-
-      // Save import metadata
-      await dbRun(`
-        INSERT INTO backup_metadata (filename, file_size, created_by)
-        VALUES ($1, $2, $3)
-      `, [`import-${req.file.filename}`, req.file.size, req.user.id]);
-
-      // Get the inserted backup ID for audit log
-      const importRecord = await dbGet('SELECT id FROM backup_metadata WHERE filename = $1 ORDER BY id DESC LIMIT 1', [`import-${req.file.filename}`]);
-
-      // Log the action
-      await dbRun(`
-        INSERT INTO audit_logs (user_id, action, table_name, record_id, new_values)
-        VALUES ($1, $2, $3, $4, $5)
-      `, [req.user.id, 'IMPORT', 'backup', importRecord.id, JSON.stringify({ 
-        filename: req.file.filename, 
-        importedCounts,
-        replaceMode: replace
-      })]);
-
-      // Clean up uploaded file
-      await fs.unlink(req.file.path);
-
-      res.json({
-        message: 'Data imported successfully',
-        imported: importedCounts,
-        replaceMode: replace
-      });
-    } catch (importError) {
-      console.error('Import transaction error:', importError);
-      // Clean up uploaded file
-      await fs.unlink(req.file.path);
-      res.status(500).json({ message: 'Error importing data' });
+    await dbRun(`
+      INSERT INTO audit_logs (user_id, action, table_name, record_id, new_values)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [req.user.id, 'EXPORT', 'backup', backup.filename, JSON.stringify({ filename: backup.filename, statistics: backup.statistics })]);
+
+    res.status(201).json(backup);
+  } catch (error) {
+    console.error('Create stored backup error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Download a stored backup (admin only)
+router.get('/stored/:filename', hasPermission('admin'), async (req, res) => {
+  try {
+    const filePath = await getStoredBackupPath(req.params.filename);
+    res.download(filePath, req.params.filename);
+  } catch (error) {
+    if (error instanceof StoredBackupError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Download stored backup error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Check a stored backup's checksum and contents (admin only)
+router.post('/stored/:filename/verify', hasPermission('admin'), async (req, res) => {
+  try {
+    res.json(await verifyStoredBackup(req.params.filename));
+  } catch (error) {
+    if (error instanceof StoredBackupError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Verify stored backup error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Restore a stored backup, or preview it with dry_run (admin only)
+router.post('/stored/:filename/restore', hasPermission('admin'), async (req, res) => {
+  try {
+    const { replace = false, dry_run = false } = req.body;
+    const { filename } = req.params;
+
+    const verification = await verifyStoredBackup(filename);
+    if (verification.checksumMatches === false) {
+      return res.status(422).json({ message: verification.message });
     }
+
+    const raw = await readStoredBackup(filename);
+    await respondWithImport(req, res, raw, {
+      source: `restore-${filename}`,
+      fileSize: (await fs.stat(await getStoredBackupPath(filename))).size,
+      replace: replace === true,
+      dryRun: dry_run === true
+    });
   } catch (error) {
-    console.error('Import data error:', error);
-    // Clean up uploaded file if it exists
-    if (req.file) {
-      await fs.unlink(req.file.path).catch(() => {});
+    if (error instanceof StoredBackupError) {
+      return res.status(error.status).json({ message: error.message });
     }
+    console.error('Restore stored backup error:', error);
     res.status(500).json({ message: 'Internal server error' });
   }
 });
@@ -307,8 +309,8 @@ router.get('/history', hasPermission('admin'), async (req, res) => {
 // Get database statistics (admin only)
 router.get('/stats', hasPermission('admin'), async (req, res) => {
   try {
-    const apartmentCount = await dbGet('SELECT COUNT(*) as count FROM apartments');
-    const bookingCount = await dbGet('SELECT COUNT(*) as count FROM bookings');
+    const apartmentCount = await dbGet('SELECT COUNT(*) as count FROM apartments WHERE deleted_at IS NULL');
+    const bookingCount = await dbGet('SELECT COUNT(*) as count FROM bookings WHERE deleted_at IS NULL');
     const userCount = await dbGet('SELECT COUNT(*) as count FROM users WHERE active = true');
     const auditLogCount = await dbGet('SELECT COUNT(*) as count FROM audit_logs');
     const backupCount = await dbGet('SELECT COUNT(*) as count FROM backup_metadata');
@@ -0,0 +1,265 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import { v4 as uuidv4 } from 'uuid';
+import { dbRun, dbGet, dbAll } from '../database/init.js';
+import { hasPermission } from '../middleware/auth.js';
+import { broadcast } from '../services/events.js';
+import { findOverlappingBooking, findOverlappingBlock } from '../services/availability.js';
+
+const router = express.Router();
+
+const BLOCK_TYPES = ['maintenance', 'cleaning', 'owner_use'];
+
+const getBlockWithDetails = (id) => dbGet(`
+  SELECT ab.*, a.name as apartment_name, u.username as created_by_username
+  FROM apartment_blocks ab
+  LEFT JOIN apartments a ON ab.apartment_id = a.id
+  LEFT JOIN users u ON ab.created_by = u.id
+  WHERE ab.id = $1
+`, [id]);
+
+// Check that a block does not collide with bookings or other blocks
+const findBlockConflict = async (apartmentId, startDate, endDate, excludeBlockId = null) => {
+  const overlappingBooking = await findOverlappingBooking(apartmentId, startDate, endDate);
+  if (overlappingBooking) {
+    return {
+      message: 'Apartment has bookings during the selected dates',
+      conflictingBooking: overlappingBooking
+    };
+  }
+
+  const overlappingBlock = await findOverlappingBlock(apartmentId, startDate, endDate, excludeBlockId);
+  if (overlappingBlock) {
+    return {
+      message: 'Apartment is already blocked for the selected dates',
+      conflictingBlock: overlappingBlock
+    };
+  }
+
+  return null;
+};
+
+// Get all blocks, optionally for one apartment or date range
+router.get('/', async (req, res) => {
+  try {
+    const { apartment_id, from, to } = req.query;
+
+    // Blocks of apartments in the trash are hidden with them
+    const conditions = ['a.deleted_at IS NULL'];
+    const queryParams = [];
+
+    if (apartment_id) {
+      queryParams.push(apartment_id);
+      conditions.push(`ab.apartment_id = $${queryParams.length}`);
+    }
+
+    if (from) {
+      queryParams.push(from);
+      conditions.push(`ab.end_date > $${queryParams.length}`);
+    }
+
+    if (to) {
+      queryParams.push(to);
+      conditions.push(`ab.start_date < $${queryParams.length}`);
+    }
+
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+    const blocks = await dbAll(`
+      SELECT ab.*, a.name as apartment_name, u.username as created_by_username
+      FROM apartment_blocks ab
+      LEFT JOIN apartments a ON ab.apartment_id = a.id
+      LEFT JOIN users u ON ab.created_by = u.id
+      ${whereClause}
+      ORDER BY ab.start_date ASC
+    `, queryParams);
+
+    res.json(blocks);
+  } catch (error) {
+    console.error('Get blocks error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Get block by ID
+router.get('/:id', async (req, res) => {
+  try {
+    const block = await getBlockWithDetails(req.params.id);
+
+    if (!block) {
+      return res.status(404).json({ message: 'Block not found' });
+    }
+
+    res.json(block);
+  } catch (error) {
+    console.error('Get block error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Create block (manager or admin)
+router.post('/', [
+  hasPermission('manager'),
+  body('apartment_id').isString().notEmpty().withMessage('Apartment ID is required'),
+  body('start_date').isISO8601().withMessage('Valid start date is required'),
+  body('end_date').isISO8601().withMessage('Valid end date is required'),
+  body('type').isIn(BLOCK_TYPES).withMessage('Valid block type is required'),
+  body('reason').optional({ nullable: true }).isString().withMessage('Reason must be a string')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { apartment_id, start_date, end_date, type, reason } = req.body;
+    const id = uuidv4();
+
+    if (new Date(end_date) <= new Date(start_date)) {
+      return res.status(400).json({ message: 'End date must be after start date' });
+    }
+
+    const apartment = await dbGet('SELECT id FROM apartments WHERE id = $1 AND deleted_at IS NULL', [apartment_id]);
+    if (!apartment) {
+      return res.status(404).json({ message: 'Apartment not found' });
+    }
+
+    const conflict = await findBlockConflict(apartment_id, start_date, end_date);
+    if (conflict) {
+      return res.status(409).json(conflict);
+    }
+
+    await dbRun(`
+      INSERT INTO apartment_blocks (id, apartment_id, start_date, end_date, type, reason, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `, [id, apartment_id, start_date, end_date, type, reason || null, req.user.id]);
+
+    // Log the action
+    await dbRun(`
+      INSERT INTO audit_logs (user_id, action, table_name, record_id, new_values)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [req.user.id, 'CREATE', 'apartment_blocks', id, JSON.stringify({ apartment_id, start_date, end_date, type, reason })]);
+
+    const newBlock = await getBlockWithDetails(id);
+
+    broadcast('block.created', newBlock, req.user.id);
+
+    res.status(201).json(newBlock);
+  } catch (error) {
+    console.error('Create block error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Update block (manager or admin)
+router.put('/:id', [
+  hasPermission('manager'),
+  body('start_date').optional().isISO8601().withMessage('Valid start date is required'),
+  body('end_date').optional().isISO8601().withMessage('Valid end date is required'),
+  body('type').optional().isIn(BLOCK_TYPES).withMessage('Valid block type is required'),
+  body('reason').optional({ nullable: true }).isString().withMessage('Reason must be a string')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const updates = req.body;
+
+    const oldBlock = await dbGet('SELECT * FROM apartment_blocks WHERE id = $1', [id]);
+
+    if (!oldBlock) {
+      return res.status(404).json({ message: 'Block not found' });
+    }
+
+    if (updates.start_date || updates.end_date) {
+      const startDate = new Date(updates.start_date || oldBlock.start_date);
+      const endDate = new Date(updates.end_date || oldBlock.end_date);
+
+      if (endDate <= startDate) {
+        return res.status(400).json({ message: 'End date must be after start date' });
+      }
+
+      const conflict = await findBlockConflict(
+        oldBlock.apartment_id,
+        startDate.toISOString(),
+        endDate.toISOString(),
+        id
+      );
+      if (conflict) {
+        return res.status(409).json(conflict);
+      }
+    }
+
+    const updateFields = [];
+    const updateValues = [];
+    let paramCount = 1;
+
+    for (const field of ['start_date', 'end_date', 'type', 'reason']) {
+      if (updates[field] !== undefined) {
+        updateFields.push(`${field} = $${paramCount}`);
+        updateValues.push(updates[field]);
+        paramCount++;
+      }
+    }
+
+    if (updateFields.length === 0) {
+      return res.status(400).json({ message: 'No valid fields to update' });
+    }
+
+    updateFields.push('updated_at = CURRENT_TIMESTAMP');
+    updateValues.push(id);
+
+    await dbRun(`
+      UPDATE apartment_blocks SET ${updateFields.join(', ')}
+      WHERE id = $${paramCount}
+    `, updateValues);
+
+    // Log the action
+    await dbRun(`
+      INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values, new_values)
+      VALUES ($1, $2, $3, $4, $5, $6)
+    `, [req.user.id, 'UPDATE', 'apartment_blocks', id, JSON.stringify(oldBlock), JSON.stringify(updates)]);
+
+    const updatedBlock = await getBlockWithDetails(id);
+
+    broadcast('block.updated', updatedBlock, req.user.id);
+
+    res.json(updatedBlock);
+  } catch (error) {
+    console.error('Update block error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Delete block (manager or admin)
+router.delete('/:id', hasPermission('manager'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const block = await dbGet('SELECT * FROM apartment_blocks WHERE id = $1', [id]);
+
+    if (!block) {
+      return res.status(404).json({ message: 'Block not found' });
+    }
+
+    await dbRun('DELETE FROM apartment_blocks WHERE id = $1', [id]);
+
+    // Log the action
+    await dbRun(`
+      INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [req.user.id, 'DELETE', 'apartment_blocks', id, JSON.stringify(block)]);
+
+    broadcast('block.deleted', { id }, req.user.id);
+
+    res.json({ message: 'Block deleted successfully' });
+  } catch (error) {
+    console.error('Delete block error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+export default router;
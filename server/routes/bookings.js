@@ -1,44 +1,120 @@
 import express from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, query, validationResult } from 'express-validator';
 import { v4 as uuidv4 } from 'uuid';
-import { dbRun, dbGet, dbAll } from '../database/init.js';
+import { dbRun, dbGet, dbAll, withTransaction } from '../database/init.js';
 import { hasPermission } from '../middleware/auth.js';
+import { broadcast } from '../services/events.js';
+import {
+  describeBookingConflict,
+  findOverlappingBooking,
+  findOverlappingBlock,
+  getUnavailableApartmentIds,
+  isBookingOverlapError
+} from '../services/availability.js';
+import { BOOKING_STATUSES, activeBookingCondition, canTransition, isActiveStatus } from '../services/bookingStatus.js';
+import { planAssignments } from '../services/autoAssign.js';
+import { BATCH_MODES, importBookingRows } from '../services/batchImport.js';
+import { formatRatePlan, priceBooking, toPriceColumns } from '../services/pricing.js';
+import { bookingFilterValidators, buildBookingFilters } from '../services/bookingFilters.js';
+import { AMOUNT_PAID_COLUMN } from '../services/payments.js';
+import {
+  APPOINTMENT_TYPES,
+  APPOINTMENTS_COLUMN,
+  describeUncoveredAppointment,
+  findUncoveredAppointment,
+  saveAppointments
+} from '../services/appointments.js';
+import { describeOverCapacity, fitsParty, formatApartment, getPartySize, matchesAttributeFilters } from '../services/apartments.js';
 
 const router = express.Router();
 
-// Get all bookings with apartment details
-router.get('/', async (req, res) => {
-  try {
-    const { page = 1, limit = 50, apartment_id, guest_name } = req.query;
-    const offset = (page - 1) * limit;
+const EXTERNAL_BOOKING_MESSAGE = 'External bookings are read-only. Change them on the platform they were booked on.';
 
-    let whereClause = '';
-    let queryParams = [];
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
 
-    let paramCount = 1;
+// Treatment appointments sent with a booking replace the stored ones
+const appointmentValidators = [
+  body('appointments').optional().isArray().withMessage('Appointments must be a list'),
+  body('appointments.*.scheduled_at').isISO8601().withMessage('Valid appointment date is required'),
+  body('appointments.*.type').isIn(APPOINTMENT_TYPES).withMessage('Valid appointment type is required'),
+  body('appointments.*.doctor').optional({ nullable: true }).isString().withMessage('Doctor must be a string'),
+  body('appointments.*.notes').optional({ nullable: true }).isString().withMessage('Notes must be a string')
+];
 
-    if (apartment_id) {
-      whereClause += ` WHERE b.apartment_id = $${paramCount}`;
-      queryParams.push(apartment_id);
-      paramCount++;
-    }
+// Bookings link to a guest profile; guest_name stays as booked
+const guestIdValidator = body('guest_id').optional().custom((value) => {
+  if (value === null || typeof value === 'string') {
+    return true;
+  }
+  throw new Error('Guest ID must be a string or null');
+});
 
-    if (guest_name) {
-      whereClause += whereClause ? ' AND' : ' WHERE';
-      whereClause += ` b.guest_name LIKE $${paramCount}`;
-      queryParams.push(`%${guest_name}%`);
-      paramCount++;
+// The party staying: adults and children, and the names of everyone
+// travelling with the main guest
+const partyValidators = [
+  body('adults').optional().isInt({ min: 1 }).withMessage('At least one adult is required'),
+  body('children').optional().isInt({ min: 0 }).withMessage('Children must be zero or more'),
+  body('companions').optional().isArray().withMessage('Companions must be a list'),
+  body('companions.*').isString().trim().notEmpty().withMessage('Companion names cannot be empty')
+];
+
+const withAppointmentIds = (appointments) => appointments.map(appointment => ({ ...appointment, id: uuidv4() }));
+
+// Raised inside a transaction to roll it back with a 409
+class BookingConflictError extends Error {
+  constructor(message, details = {}) {
+    super(message);
+    this.details = details;
+  }
+}
+
+// A transaction moving several stays failed on the overlap constraint at
+// commit, so another request took some of the dates in the meantime. Find
+// the first stay that now collides.
+const describeStaysConflict = async (stays) => {
+  for (const stay of stays) {
+    if (!stay.apartment_id) continue;
+    const conflict = await describeBookingConflict(stay.apartment_id, stay.check_in, stay.check_out, stay.id);
+    if (conflict.conflictingBooking) {
+      return { ...conflict, bookingId: stay.id };
     }
+  }
+  return { message: 'Apartment is not available for the selected dates', conflictingBooking: null };
+};
+
+// Get a page of bookings with apartment details. Filters combine with AND;
+// from/to select stays overlapping that window.
+router.get('/', [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer').toInt(),
+  query('limit').optional().isInt({ min: 1, max: MAX_PAGE_SIZE })
+    .withMessage(`Limit must be between 1 and ${MAX_PAGE_SIZE}`).toInt(),
+  ...bookingFilterValidators
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { page = 1, limit = DEFAULT_PAGE_SIZE } = req.query;
+    const { whereClause, orderClause, params } = buildBookingFilters(req.query);
+
+    const { total } = await dbGet(`
+      SELECT COUNT(*)::int as total
+      FROM bookings b
+      ${whereClause}
+    `, params);
 
     const bookings = await dbAll(`
-      SELECT b.*, a.name as apartment_name, u.username as created_by_username
+      SELECT b.*, a.name as apartment_name, u.username as created_by_username, ${AMOUNT_PAID_COLUMN}, ${APPOINTMENTS_COLUMN}
       FROM bookings b
       LEFT JOIN apartments a ON b.apartment_id = a.id
       LEFT JOIN users u ON b.created_by = u.id
       ${whereClause}
-      ORDER BY b.check_in DESC
-      LIMIT $${paramCount} OFFSET $${paramCount + 1}
-    `, [...queryParams, limit, offset]);
+      ${orderClause}
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+    `, [...params, limit, (page - 1) * limit]);
 
     // Convert ISO strings back to Date objects for frontend compatibility
     const formattedBookings = bookings.map(booking => ({
@@ -47,22 +123,78 @@ router.get('/', async (req, res) => {
       checkOut: new Date(booking.check_out)
     }));
 
-    res.json(formattedBookings);
+    res.json({
+      data: formattedBookings,
+      pagination: {
+        page,
+        limit,
+        total,
+        total_pages: Math.ceil(total / limit)
+      }
+    });
   } catch (error) {
     console.error('Get bookings error:', error);
     res.status(500).json({ message: 'Internal server error' });
   }
 });
 
+// Every booking whose stay overlaps [from, to), for calendars. Unpaginated,
+// so callers should keep the window to a few months.
+router.get('/range', [
+  query('from').isISO8601().withMessage('Valid from date is required'),
+  query('to').isISO8601().withMessage('Valid to date is required'),
+  query('apartment_id').optional().isString().withMessage('Apartment ID must be a string')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { from, to, apartment_id } = req.query;
+
+    if (new Date(from) >= new Date(to)) {
+      return res.status(400).json({ message: 'The end of the range must be after its start' });
+    }
+
+    const params = [to, from];
+    let apartmentCondition = '';
+    if (apartment_id) {
+      params.push(apartment_id);
+      apartmentCondition = 'AND b.apartment_id = $3';
+    }
+
+    const bookings = await dbAll(`
+      SELECT b.*, a.name as apartment_name, u.username as created_by_username, ${AMOUNT_PAID_COLUMN}, ${APPOINTMENTS_COLUMN}
+      FROM bookings b
+      LEFT JOIN apartments a ON b.apartment_id = a.id
+      LEFT JOIN users u ON b.created_by = u.id
+      WHERE b.deleted_at IS NULL AND b.check_in < $1 AND b.check_out > $2 ${apartmentCondition}
+      ORDER BY b.check_in, b.id
+    `, params);
+
+    const formattedBookings = bookings.map(booking => ({
+      ...booking,
+      checkIn: new Date(booking.check_in),
+      checkOut: new Date(booking.check_out)
+    }));
+
+    res.json(formattedBookings);
+  } catch (error) {
+    console.error('Get bookings in range error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
 // Get booking by ID
 router.get('/:id', async (req, res) => {
   try {
     const booking = await dbGet(`
-      SELECT b.*, a.name as apartment_name, u.username as created_by_username
+      SELECT b.*, a.name as apartment_name, u.username as created_by_username, ${AMOUNT_PAID_COLUMN}, ${APPOINTMENTS_COLUMN}
       FROM bookings b
       LEFT JOIN apartments a ON b.apartment_id = a.id
       LEFT JOIN users u ON b.created_by = u.id
-      WHERE b.id = $1
+      WHERE b.id = $1 AND b.deleted_at IS NULL
     `, [req.params.id]);
 
     if (!booking) {
@@ -94,7 +226,11 @@ router.post('/', [
     }
     throw new Error('Apartment ID must be a string or null');
   }),
-  body('temporary_apartment').optional().isString().withMessage('Temporary apartment must be a string')
+  body('temporary_apartment').optional().isString().withMessage('Temporary apartment must be a string'),
+  body('status').optional().isIn(['tentative', 'confirmed']).withMessage('New bookings must be tentative or confirmed'),
+  guestIdValidator,
+  ...partyValidators,
+  ...appointmentValidators
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -102,7 +238,11 @@ router.post('/', [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { guest_name, check_in, check_out, apartment_id, temporary_apartment } = req.body;
+    const {
+      guest_name, guest_id, check_in, check_out, apartment_id, temporary_apartment, status = 'confirmed',
+      adults = 1, children = 0, companions = [], appointments = []
+    } = req.body;
+    const partySize = getPartySize({ adults, children });
     const id = uuidv4();
 
     // Validate dates
@@ -113,13 +253,22 @@ router.post('/', [
       return res.status(400).json({ message: 'Check-out date must be after check-in date' });
     }
 
+    const uncoveredAppointment = findUncoveredAppointment(checkInDate, checkOutDate, appointments);
+    if (uncoveredAppointment) {
+      return res.status(400).json({ message: describeUncoveredAppointment(uncoveredAppointment) });
+    }
+
+    if (companions.length >= partySize) {
+      return res.status(400).json({ message: 'There are more companions than guests in the party' });
+    }
+
+    if (guest_id && !(await dbGet('SELECT id FROM guests WHERE id = $1', [guest_id]))) {
+      return res.status(404).json({ message: 'Guest not found' });
+    }
+
     // Check for overlapping bookings if apartment is specified
     if (apartment_id) {
-      const overlappingBooking = await dbGet(`
-        SELECT * FROM bookings 
-        WHERE apartment_id = $1 
-        AND ((check_in <= $2 AND check_out > $2) OR (check_in < $3 AND check_out >= $3))
-      `, [apartment_id, check_in, check_in, check_out, check_out]);
+      const overlappingBooking = await findOverlappingBooking(apartment_id, check_in, check_out);
 
       if (overlappingBooking) {
         return res.status(409).json({ 
@@ -128,26 +277,58 @@ router.post('/', [
         });
       }
 
+      const overlappingBlock = await findOverlappingBlock(apartment_id, check_in, check_out);
+
+      if (overlappingBlock) {
+        return res.status(409).json({ 
+          message: 'Apartment is blocked for the selected dates',
+          conflictingBlock: overlappingBlock
+        });
+      }
+
       // Verify apartment exists
-      const apartment = await dbGet('SELECT * FROM apartments WHERE id = $1', [apartment_id]);
+      const apartment = await dbGet('SELECT * FROM apartments WHERE id = $1 AND deleted_at IS NULL', [apartment_id]);
       if (!apartment) {
         return res.status(404).json({ message: 'Apartment not found' });
       }
+
+      if (!fitsParty(apartment, partySize)) {
+        return res.status(400).json({ message: describeOverCapacity(apartment, partySize) });
+      }
     }
 
-    await dbRun(`
-      INSERT INTO bookings (id, guest_name, check_in, check_out, apartment_id, temporary_apartment, created_by)
-      VALUES ($1, $2, $3, $4, $5, $6, $7)
-    `, [id, guest_name, check_in, check_out, apartment_id || null, temporary_apartment || null, req.user.id]);
+    const quote = await priceBooking(apartment_id, check_in, check_out);
+    if (quote && !quote.meetsMinimumStay) {
+      return res.status(400).json({ message: `Minimum stay for this apartment is ${quote.minStay} nights` });
+    }
 
-    // Log the action
-    await dbRun(`
-      INSERT INTO audit_logs (user_id, action, table_name, record_id, new_values)
-      VALUES ($1, $2, $3, $4, $5)
-    `, [req.user.id, 'CREATE', 'bookings', id, JSON.stringify({ guest_name, check_in, check_out, apartment_id, temporary_apartment })]);
+    // A simultaneous request may have taken the dates since the check above.
+    // The overlap constraint is deferred, so that shows when the booking, its
+    // appointments and the audit entry commit together.
+    try {
+      await withTransaction(async (client) => {
+        await client.query(`
+          INSERT INTO bookings (id, guest_name, guest_id, check_in, check_out, apartment_id, temporary_apartment, status, adults, children, companions, total_price, currency, price_breakdown, created_by)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+        `, [id, guest_name, guest_id || null, check_in, check_out, apartment_id || null, temporary_apartment || null, status, adults, children, companions, ...toPriceColumns(quote), req.user.id]);
+
+        if (appointments.length > 0) {
+          await saveAppointments(id, withAppointmentIds(appointments), client);
+        }
+
+        // Log the action
+        await client.query(`
+          INSERT INTO audit_logs (user_id, action, table_name, record_id, new_values)
+          VALUES ($1, $2, $3, $4, $5)
+        `, [req.user.id, 'CREATE', 'bookings', id, JSON.stringify({ guest_name, guest_id, check_in, check_out, apartment_id, temporary_apartment, status, adults, children, companions, appointments })]);
+      });
+    } catch (error) {
+      if (!isBookingOverlapError(error)) throw error;
+      return res.status(409).json(await describeBookingConflict(apartment_id, check_in, check_out));
+    }
 
     const newBooking = await dbGet(`
-      SELECT b.*, a.name as apartment_name, u.username as created_by_username
+      SELECT b.*, a.name as apartment_name, u.username as created_by_username, ${AMOUNT_PAID_COLUMN}, ${APPOINTMENTS_COLUMN}
       FROM bookings b
       LEFT JOIN apartments a ON b.apartment_id = a.id
       LEFT JOIN users u ON b.created_by = u.id
@@ -160,6 +341,8 @@ router.post('/', [
       checkOut: new Date(newBooking.check_out)
     };
 
+    broadcast('booking.created', formattedBooking, req.user.id);
+
     res.status(201).json(formattedBooking);
   } catch (error) {
     console.error('Create booking error:', error);
@@ -184,7 +367,10 @@ router.put('/:id', [
       return true;
     }
     throw new Error('Temporary apartment must be a string or null');
-  })
+  }),
+  guestIdValidator,
+  ...partyValidators,
+  ...appointmentValidators
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -196,30 +382,50 @@ router.put('/:id', [
     const updates = req.body;
 
     // Get old booking for audit log
-    const oldBooking = await dbGet('SELECT * FROM bookings WHERE id = $1', [id]);
+    const oldBooking = await dbGet('SELECT * FROM bookings WHERE id = $1 AND deleted_at IS NULL', [id]);
     
     if (!oldBooking) {
       return res.status(404).json({ message: 'Booking not found' });
     }
 
+    if (oldBooking.source === 'external') {
+      return res.status(403).json({ message: EXTERNAL_BOOKING_MESSAGE });
+    }
+
     // Validate date updates
-    if (updates.check_in || updates.check_out) {
-      const checkInDate = new Date(updates.check_in || oldBooking.check_in);
-      const checkOutDate = new Date(updates.check_out || oldBooking.check_out);
+    const checkInDate = new Date(updates.check_in || oldBooking.check_in);
+    const checkOutDate = new Date(updates.check_out || oldBooking.check_out);
 
-      if (checkOutDate <= checkInDate) {
-        return res.status(400).json({ message: 'Check-out date must be after check-in date' });
-      }
+    if ((updates.check_in || updates.check_out) && checkOutDate <= checkInDate) {
+      return res.status(400).json({ message: 'Check-out date must be after check-in date' });
+    }
 
-      // Check for overlapping bookings
+    // Moving the stay must not leave existing appointments outside it
+    const oldAppointments = await dbAll(
+      'SELECT id, scheduled_at, type, doctor, notes FROM treatment_appointments WHERE booking_id = $1 ORDER BY scheduled_at',
+      [id]
+    );
+    const appointments = updates.appointments !== undefined ? updates.appointments : oldAppointments;
+    const uncoveredAppointment = findUncoveredAppointment(checkInDate, checkOutDate, appointments);
+    if (uncoveredAppointment) {
+      return res.status(400).json({ message: describeUncoveredAppointment(uncoveredAppointment) });
+    }
+
+    if (updates.guest_id && !(await dbGet('SELECT id FROM guests WHERE id = $1', [updates.guest_id]))) {
+      return res.status(404).json({ message: 'Guest not found' });
+    }
+
+    // Check for overlapping bookings when the stay moves or changes apartment
+    if ((updates.check_in || updates.check_out || updates.apartment_id) && isActiveStatus(oldBooking.status)) {
       const apartmentId = updates.apartment_id !== undefined ? updates.apartment_id : oldBooking.apartment_id;
       
       if (apartmentId) {
-        const overlappingBooking = await dbGet(`
-          SELECT * FROM bookings 
-          WHERE apartment_id = $1 AND id != $2
-          AND ((check_in <= $3 AND check_out > $3) OR (check_in < $4 AND check_out >= $4))
-        `, [apartmentId, id, checkInDate.toISOString(), checkOutDate.toISOString()]);
+        const overlappingBooking = await findOverlappingBooking(
+          apartmentId,
+          checkInDate.toISOString(),
+          checkOutDate.toISOString(),
+          id
+        );
 
         if (overlappingBooking) {
           return res.status(409).json({ 
@@ -227,6 +433,53 @@ router.put('/:id', [
             conflictingBooking: overlappingBooking
           });
         }
+
+        const overlappingBlock = await findOverlappingBlock(
+          apartmentId,
+          checkInDate.toISOString(),
+          checkOutDate.toISOString()
+        );
+
+        if (overlappingBlock) {
+          return res.status(409).json({ 
+            message: 'Apartment is blocked for the selected dates',
+            conflictingBlock: overlappingBlock
+          });
+        }
+      }
+    }
+
+    // Re-price only when the stay itself changes, so later rate plan edits do
+    // not rewrite the price the guest was quoted
+    const newApartmentId = updates.apartment_id !== undefined ? (updates.apartment_id || null) : oldBooking.apartment_id;
+    const stayChanged = newApartmentId !== oldBooking.apartment_id ||
+      checkInDate.getTime() !== new Date(oldBooking.check_in).getTime() ||
+      checkOutDate.getTime() !== new Date(oldBooking.check_out).getTime();
+
+    // A bigger party or a smaller apartment must still fit
+    const partySize = getPartySize({ adults: updates.adults ?? oldBooking.adults, children: updates.children ?? oldBooking.children });
+    const companions = updates.companions !== undefined ? updates.companions : oldBooking.companions;
+    const partyChanged = updates.adults !== undefined || updates.children !== undefined;
+
+    if (companions.length >= partySize) {
+      return res.status(400).json({ message: 'There are more companions than guests in the party' });
+    }
+
+    if (newApartmentId && (partyChanged || newApartmentId !== oldBooking.apartment_id)) {
+      const apartment = await dbGet('SELECT * FROM apartments WHERE id = $1 AND deleted_at IS NULL', [newApartmentId]);
+      if (!apartment) {
+        return res.status(404).json({ message: 'Apartment not found' });
+      }
+      if (!fitsParty(apartment, partySize)) {
+        return res.status(400).json({ message: describeOverCapacity(apartment, partySize) });
+      }
+    }
+
+    let quote = null;
+    if (stayChanged) {
+      quote = await priceBooking(newApartmentId, checkInDate.toISOString(), checkOutDate.toISOString());
+      if (quote && !quote.meetsMinimumStay) {
+        return res.status(400).json({ message: `Minimum stay for this apartment is ${quote.minStay} nights` });
       }
     }
 
@@ -240,6 +493,12 @@ router.put('/:id', [
       paramCount++;
     }
 
+    if (updates.guest_id !== undefined) {
+      updateFields.push(`guest_id = $${paramCount}`);
+      updateValues.push(updates.guest_id || null);
+      paramCount++;
+    }
+
     if (updates.check_in !== undefined) {
       updateFields.push(`check_in = $${paramCount}`);
       updateValues.push(updates.check_in);
@@ -264,26 +523,153 @@ router.put('/:id', [
       paramCount++;
     }
 
-    if (updateFields.length === 0) {
+    for (const field of ['adults', 'children', 'companions']) {
+      if (updates[field] !== undefined) {
+        updateFields.push(`${field} = $${paramCount}`);
+        updateValues.push(updates[field]);
+        paramCount++;
+      }
+    }
+
+    if (stayChanged) {
+      updateFields.push(`total_price = $${paramCount}`, `currency = $${paramCount + 1}`, `price_breakdown = $${paramCount + 2}`);
+      updateValues.push(...toPriceColumns(quote));
+      paramCount += 3;
+    }
+
+    if (updateFields.length === 0 && updates.appointments === undefined) {
       return res.status(400).json({ message: 'No valid fields to update' });
     }
 
     updateFields.push('updated_at = CURRENT_TIMESTAMP');
     updateValues.push(id);
 
-    await dbRun(`
-      UPDATE bookings SET ${updateFields.join(', ')}
-      WHERE id = $${paramCount}
-    `, updateValues);
+    // The update, its appointments and the audit entry commit together
+    try {
+      await withTransaction(async (client) => {
+        await client.query(`
+          UPDATE bookings SET ${updateFields.join(', ')}
+          WHERE id = $${paramCount}
+        `, updateValues);
+
+        if (updates.appointments !== undefined) {
+          await saveAppointments(id, withAppointmentIds(updates.appointments), client);
+        }
+
+        // Log the action
+        await client.query(`
+          INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values, new_values)
+          VALUES ($1, $2, $3, $4, $5, $6)
+        `, [req.user.id, 'UPDATE', 'bookings', id, JSON.stringify({ ...oldBooking, appointments: oldAppointments }), JSON.stringify(updates)]);
+      });
+    } catch (error) {
+      if (!isBookingOverlapError(error)) throw error;
+      return res.status(409).json(
+        await describeBookingConflict(newApartmentId, checkInDate.toISOString(), checkOutDate.toISOString(), id)
+      );
+    }
+
+    const updatedBooking = await dbGet(`
+      SELECT b.*, a.name as apartment_name, u.username as created_by_username, ${AMOUNT_PAID_COLUMN}, ${APPOINTMENTS_COLUMN}
+      FROM bookings b
+      LEFT JOIN apartments a ON b.apartment_id = a.id
+      LEFT JOIN users u ON b.created_by = u.id
+      WHERE b.id = $1
+    `, [id]);
+
+    const formattedBooking = {
+      ...updatedBooking,
+      checkIn: new Date(updatedBooking.check_in),
+      checkOut: new Date(updatedBooking.check_out)
+    };
+
+    broadcast('booking.updated', formattedBooking, req.user.id);
+
+    res.json(formattedBooking);
+  } catch (error) {
+    console.error('Update booking error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Change booking status (manager or admin)
+router.patch('/:id/status', [
+  hasPermission('manager'),
+  body('status').isIn(BOOKING_STATUSES).withMessage('Valid status is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const { status } = req.body;
+
+    const booking = await dbGet('SELECT * FROM bookings WHERE id = $1 AND deleted_at IS NULL', [id]);
+    
+    if (!booking) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    if (booking.source === 'external') {
+      return res.status(403).json({ message: EXTERNAL_BOOKING_MESSAGE });
+    }
+
+    if (!canTransition(booking.status, status)) {
+      return res.status(400).json({ 
+        message: `Cannot change booking status from ${booking.status} to ${status}`,
+        current: booking.status,
+        requested: status
+      });
+    }
+
+    // Reinstating a cancelled booking needs its apartment to still be free
+    if (!isActiveStatus(booking.status) && isActiveStatus(status) && booking.apartment_id) {
+      const overlappingBooking = await findOverlappingBooking(
+        booking.apartment_id,
+        booking.check_in,
+        booking.check_out,
+        id
+      );
+
+      if (overlappingBooking) {
+        return res.status(409).json({ 
+          message: 'Apartment is not available for the selected dates',
+          conflictingBooking: overlappingBooking
+        });
+      }
+
+      const overlappingBlock = await findOverlappingBlock(booking.apartment_id, booking.check_in, booking.check_out);
+
+      if (overlappingBlock) {
+        return res.status(409).json({ 
+          message: 'Apartment is blocked for the selected dates',
+          conflictingBlock: overlappingBlock
+        });
+      }
+    }
+
+    try {
+      await dbRun(`
+        UPDATE bookings SET status = $1, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $2
+      `, [status, id]);
+    } catch (error) {
+      if (!isBookingOverlapError(error)) throw error;
+      return res.status(409).json(await describeBookingConflict(booking.apartment_id, booking.check_in, booking.check_out, id));
+    }
 
     // Log the action
     await dbRun(`
       INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values, new_values)
       VALUES ($1, $2, $3, $4, $5, $6)
-    `, [req.user.id, 'UPDATE', 'bookings', id, JSON.stringify(oldBooking), JSON.stringify(updates)]);
+    `, [req.user.id, 'UPDATE', 'bookings', id, 
+        JSON.stringify({ status: booking.status }), 
+        JSON.stringify({ status })]);
 
     const updatedBooking = await dbGet(`
-      SELECT b.*, a.name as apartment_name, u.username as created_by_username
+      SELECT b.*, a.name as apartment_name, u.username as created_by_username, ${AMOUNT_PAID_COLUMN}, ${APPOINTMENTS_COLUMN}
       FROM bookings b
       LEFT JOIN apartments a ON b.apartment_id = a.id
       LEFT JOIN users u ON b.created_by = u.id
@@ -296,9 +682,11 @@ router.put('/:id', [
       checkOut: new Date(updatedBooking.check_out)
     };
 
+    broadcast('booking.updated', formattedBooking, req.user.id);
+
     res.json(formattedBooking);
   } catch (error) {
-    console.error('Update booking error:', error);
+    console.error('Update booking status error:', error);
     res.status(500).json({ message: 'Internal server error' });
   }
 });
@@ -309,31 +697,49 @@ router.delete('/:id', hasPermission('manager'), async (req, res) => {
     const { id } = req.params;
 
     // Get booking for audit log
-    const booking = await dbGet('SELECT * FROM bookings WHERE id = $1', [id]);
+    const booking = await dbGet('SELECT * FROM bookings WHERE id = $1 AND deleted_at IS NULL', [id]);
     
     if (!booking) {
       return res.status(404).json({ message: 'Booking not found' });
     }
 
-    await dbRun('DELETE FROM bookings WHERE id = $1', [id]);
+    if (booking.source === 'external') {
+      return res.status(403).json({ message: EXTERNAL_BOOKING_MESSAGE });
+    }
 
-    // Log the action
+    // Move it to the trash; payments and appointments stay with it
     await dbRun(`
+      UPDATE bookings SET deleted_at = CURRENT_TIMESTAMP, deleted_by = $1
+      WHERE id = $2
+    `, [req.user.id, id]);
+
+    // Log the action
+    const auditLog = await dbGet(`
       INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values)
       VALUES ($1, $2, $3, $4, $5)
+      RETURNING id
     `, [req.user.id, 'DELETE', 'bookings', id, JSON.stringify(booking)]);
 
-    res.json({ message: 'Booking deleted successfully' });
+    broadcast('booking.deleted', { id }, req.user.id);
+
+    res.json({ message: 'Booking deleted successfully', auditLogId: auditLog.id });
   } catch (error) {
     console.error('Delete booking error:', error);
     res.status(500).json({ message: 'Internal server error' });
   }
 });
 
-// Get available apartments for date range
+// Get available apartments for date range, optionally only those that sleep
+// the whole party and have the requested attributes
 router.post('/available-apartments', [
   body('check_in').isISO8601().withMessage('Valid check-in date is required'),
-  body('check_out').isISO8601().withMessage('Valid check-out date is required')
+  body('check_out').isISO8601().withMessage('Valid check-out date is required'),
+  body('party_size').optional({ nullable: true }).isInt({ min: 1 }).withMessage('Party size must be a positive integer'),
+  body('min_bedrooms').optional().isInt({ min: 0 }).toInt().withMessage('Minimum bedrooms must be zero or more'),
+  body('max_floor').optional().isInt().toInt().withMessage('Maximum floor must be a whole number'),
+  body('elevator').optional().isBoolean().toBoolean().withMessage('Elevator must be true or false'),
+  body('wheelchair_accessible').optional().isBoolean().toBoolean().withMessage('Wheelchair accessible must be true or false'),
+  body('max_clinic_distance_m').optional().isInt({ min: 0 }).toInt().withMessage('Maximum distance must be zero or more metres')
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -341,28 +747,22 @@ router.post('/available-apartments', [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { check_in, check_out } = req.body;
+    const { check_in, check_out, party_size } = req.body;
 
     // Get all apartments
-    const allApartments = await dbAll('SELECT * FROM apartments ORDER BY is_favorite DESC, name ASC');
+    const allApartments = await dbAll('SELECT * FROM apartments WHERE deleted_at IS NULL ORDER BY is_favorite DESC, name ASC');
 
-    // Get apartments that have overlapping bookings
-    const unavailableApartments = await dbAll(`
-      SELECT DISTINCT apartment_id FROM bookings
-      WHERE apartment_id IS NOT NULL
-      AND ((check_in <= $1 AND check_out > $1) OR (check_in < $2 AND check_out >= $2))
-    `, [check_in, check_out]);
-
-    const unavailableIds = unavailableApartments.map(apt => apt.apartment_id);
+    // Get apartments that have overlapping active bookings
+    const unavailableIds = await getUnavailableApartmentIds(check_in, check_out);
 
     // Filter out unavailable apartments
-    const availableApartments = allApartments.filter(apt => !unavailableIds.includes(apt.id));
+    const availableApartments = allApartments.filter(apt =>
+      !unavailableIds.includes(apt.id) &&
+      (!party_size || fitsParty(apt, Number(party_size))) &&
+      matchesAttributeFilters(apt, req.body)
+    );
 
-    const formattedApartments = availableApartments.map(apt => ({
-      ...apt,
-      properties: JSON.parse(apt.properties || '[]'),
-      isFavorite: Boolean(apt.is_favorite)
-    }));
+    const formattedApartments = availableApartments.map(formatApartment);
 
     res.json(formattedApartments);
   } catch (error) {
@@ -371,13 +771,11 @@ router.post('/available-apartments', [
   }
 });
 
-// Batch create bookings (manager or admin)
+// Batch create bookings (manager or admin), reporting on every row
 router.post('/batch', [
   hasPermission('manager'),
-  body('bookings').isArray().withMessage('Bookings must be an array'),
-  body('bookings.*.guest_name').trim().notEmpty().withMessage('Guest name is required'),
-  body('bookings.*.check_in').isISO8601().withMessage('Valid check-in date is required'),
-  body('bookings.*.check_out').isISO8601().withMessage('Valid check-out date is required')
+  body('bookings').isArray({ min: 1 }).withMessage('Bookings must be a non-empty array'),
+  body('mode').optional().isIn(BATCH_MODES).withMessage(`Mode must be one of ${BATCH_MODES.join(', ')}`)
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -385,42 +783,281 @@ router.post('/batch', [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { bookings } = req.body;
-    const createdBookings = [];
+    const { bookings, mode = 'all_or_nothing' } = req.body;
 
-    for (const booking of bookings) {
-      const id = uuidv4();
-      const { guest_name, check_in, check_out, apartment_id } = booking;
+    const results = await withTransaction(async (client) => {
+      const rowResults = await importBookingRows(client, bookings, req.user.id);
+
+      if (mode === 'all_or_nothing' && rowResults.some(result => result.status !== 'created')) {
+        throw new BookingConflictError('No bookings were created because some rows have problems', {
+          mode,
+          createdCount: 0,
+          results: rowResults.map(result => (result.status === 'created' ? { row: result.row, status: 'ready' } : result)),
+          bookings: []
+        });
+      }
 
-      // Validate dates
-      const checkInDate = new Date(check_in);
-      const checkOutDate = new Date(check_out);
+      return rowResults;
+    });
 
-      if (checkOutDate <= checkInDate) {
-        continue; // Skip invalid bookings
+    const createdIds = results.filter(result => result.status === 'created').map(result => result.booking_id);
+    let formattedBookings = [];
+
+    if (createdIds.length > 0) {
+      const newBookings = await dbAll(`
+        SELECT b.*, a.name as apartment_name, u.username as created_by_username, ${AMOUNT_PAID_COLUMN}, ${APPOINTMENTS_COLUMN}
+        FROM bookings b
+        LEFT JOIN apartments a ON b.apartment_id = a.id
+        LEFT JOIN users u ON b.created_by = u.id
+        WHERE b.id = ANY($1)
+      `, [createdIds]);
+
+      formattedBookings = newBookings.map(booking => ({
+        ...booking,
+        checkIn: new Date(booking.check_in),
+        checkOut: new Date(booking.check_out)
+      }));
+
+      for (const booking of formattedBookings) {
+        broadcast('booking.created', booking, req.user.id);
       }
+    }
 
-      await dbRun(`
-        INSERT INTO bookings (id, guest_name, check_in, check_out, apartment_id, created_by)
-        VALUES ($1, $2, $3, $4, $5, $6)
-      `, [id, guest_name, check_in, check_out, apartment_id || null, req.user.id]);
+    res.status(createdIds.length > 0 ? 201 : 200).json({
+      message: `${createdIds.length} of ${bookings.length} bookings created`,
+      mode,
+      createdCount: createdIds.length,
+      results,
+      bookings: formattedBookings
+    });
+  } catch (error) {
+    if (error instanceof BookingConflictError) {
+      return res.status(409).json({ message: error.message, ...error.details });
+    }
+    console.error('Batch create bookings error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
 
-      // Log the action
-      await dbRun(`
-        INSERT INTO audit_logs (user_id, action, table_name, record_id, new_values)
-        VALUES ($1, $2, $3, $4, $5)
-      `, [req.user.id, 'CREATE', 'bookings', id, JSON.stringify(booking)]);
+// Plan an optimal assignment of unassigned bookings (manager or admin)
+router.post('/auto-assign', [
+  hasPermission('manager'),
+  body('allow_reshuffle').optional().isBoolean().withMessage('allow_reshuffle must be a boolean')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const allowReshuffle = Boolean(req.body.allow_reshuffle);
+
+    const apartments = await dbAll('SELECT id, name, is_favorite, max_guests, beds FROM apartments WHERE deleted_at IS NULL ORDER BY name ASC');
+    const bookings = await dbAll(`
+      SELECT id, guest_name, check_in, check_out, apartment_id, temporary_apartment, status, source, adults, children
+      FROM bookings
+      WHERE ${activeBookingCondition()}
+    `);
+    const blocks = await dbAll('SELECT apartment_id, start_date, end_date FROM apartment_blocks');
+    const ratePlans = (await dbAll('SELECT * FROM rate_plans')).map(formatRatePlan);
+
+    const plan = planAssignments({ apartments, bookings, blocks, ratePlans, allowReshuffle });
+
+    const apartmentNames = new Map(apartments.map(apartment => [apartment.id, apartment.name]));
+    const bookingsById = new Map(bookings.map(booking => [booking.id, booking]));
+
+    const changes = plan.changes.map(({ bookingId, fromApartmentId, toApartmentId }) => {
+      const booking = bookingsById.get(bookingId);
+      return {
+        booking_id: bookingId,
+        guest_name: booking.guest_name,
+        check_in: booking.check_in,
+        check_out: booking.check_out,
+        status: booking.status,
+        from_apartment_id: fromApartmentId,
+        from_apartment_name: fromApartmentId ? apartmentNames.get(fromApartmentId) : null,
+        to_apartment_id: toApartmentId,
+        to_apartment_name: apartmentNames.get(toApartmentId)
+      };
+    });
+
+    const unassigned = plan.unassignedBookingIds.map(bookingId => {
+      const booking = bookingsById.get(bookingId);
+      return {
+        booking_id: bookingId,
+        guest_name: booking.guest_name,
+        check_in: booking.check_in,
+        check_out: booking.check_out
+      };
+    });
+
+    res.json({
+      changes,
+      unassigned,
+      summary: {
+        assigned: changes.filter(change => !change.from_apartment_id).length,
+        moved: changes.filter(change => change.from_apartment_id).length,
+        unassigned: unassigned.length,
+        idle_gap_nights_before: plan.idleGapNightsBefore,
+        idle_gap_nights_after: plan.idleGapNightsAfter
+      }
+    });
+  } catch (error) {
+    console.error('Plan auto-assign error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Apply an auto-assign plan in one transaction (manager or admin)
+router.post('/auto-assign/apply', [
+  hasPermission('manager'),
+  body('assignments').isArray({ min: 1 }).withMessage('Assignments must be a non-empty array'),
+  body('assignments.*.booking_id').isString().notEmpty().withMessage('Booking ID is required'),
+  body('assignments.*.apartment_id').isString().notEmpty().withMessage('Apartment ID is required'),
+  body('assignments.*.expected_apartment_id').optional({ nullable: true }).isString()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { assignments } = req.body;
+    const bookingIds = assignments.map(assignment => assignment.booking_id);
+
+    const previousBookings = await withTransaction(async (client) => {
+      // Lock the bookings so nobody edits them between the check and the update
+      const { rows: current } = await client.query(
+        'SELECT * FROM bookings WHERE id = ANY($1) FOR UPDATE',
+        [bookingIds]
+      );
+      const currentById = new Map(current.map(booking => [booking.id, booking]));
+
+      for (const assignment of assignments) {
+        const booking = currentById.get(assignment.booking_id);
+        if (!booking || booking.deleted_at || !isActiveStatus(booking.status) || booking.source === 'external') {
+          throw new BookingConflictError('A booking in the plan no longer exists or was cancelled', {
+            bookingId: assignment.booking_id
+          });
+        }
+        if ((booking.apartment_id || null) !== (assignment.expected_apartment_id || null)) {
+          throw new BookingConflictError('A booking in the plan was changed by someone else', {
+            bookingId: assignment.booking_id
+          });
+        }
+      }
+
+      for (const assignment of assignments) {
+        const booking = currentById.get(assignment.booking_id);
+        const { rows: [apartment] } = await client.query(
+          'SELECT * FROM apartments WHERE id = $1 AND deleted_at IS NULL',
+          [assignment.apartment_id]
+        );
+        if (!apartment) {
+          throw new BookingConflictError('An apartment in the plan no longer exists', {
+            bookingId: assignment.booking_id
+          });
+        }
+        if (!fitsParty(apartment, getPartySize(booking))) {
+          throw new BookingConflictError(describeOverCapacity(apartment, getPartySize(booking)), {
+            bookingId: assignment.booking_id
+          });
+        }
+
+        const quote = await priceBooking(assignment.apartment_id, booking.check_in, booking.check_out, client);
+
+        await client.query(`
+          UPDATE bookings SET apartment_id = $1, temporary_apartment = NULL,
+          total_price = $2, currency = $3, price_breakdown = $4, updated_at = CURRENT_TIMESTAMP
+          WHERE id = $5
+        `, [assignment.apartment_id, ...toPriceColumns(quote), assignment.booking_id]);
+      }
+
+      const { rows: overlaps } = await client.query(`
+        SELECT b1.id, b1.guest_name, b2.id as conflicting_id, b2.guest_name as conflicting_guest_name
+        FROM bookings b1
+        JOIN bookings b2 ON b1.apartment_id = b2.apartment_id
+          AND b1.id != b2.id
+          AND b1.check_in < b2.check_out
+          AND b1.check_out > b2.check_in
+        WHERE b1.id = ANY($1)
+          AND ${activeBookingCondition('b2')}
+        LIMIT 1
+      `, [bookingIds]);
+
+      if (overlaps.length > 0) {
+        throw new BookingConflictError('The plan would double-book an apartment', {
+          conflictingBooking: overlaps[0]
+        });
+      }
+
+      const { rows: blocked } = await client.query(`
+        SELECT b.id, b.guest_name, ab.id as block_id, ab.type as block_type
+        FROM bookings b
+        JOIN apartment_blocks ab ON ab.apartment_id = b.apartment_id
+          AND ab.start_date < b.check_out
+          AND ab.end_date > b.check_in
+        WHERE b.id = ANY($1)
+        LIMIT 1
+      `, [bookingIds]);
+
+      if (blocked.length > 0) {
+        throw new BookingConflictError('The plan would place a booking on blocked dates', {
+          conflictingBlock: blocked[0]
+        });
+      }
+
+      for (const assignment of assignments) {
+        const oldBooking = currentById.get(assignment.booking_id);
+        await client.query(`
+          INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values, new_values)
+          VALUES ($1, $2, $3, $4, $5, $6)
+        `, [req.user.id, 'UPDATE', 'bookings', assignment.booking_id, JSON.stringify(oldBooking), JSON.stringify({
+          apartment_id: assignment.apartment_id,
+          auto_assigned: true
+        })]);
+      }
 
-      createdBookings.push(id);
+      return current;
+    });
+
+    const updatedBookings = await dbAll(`
+      SELECT b.*, a.name as apartment_name, u.username as created_by_username, ${AMOUNT_PAID_COLUMN}, ${APPOINTMENTS_COLUMN}
+      FROM bookings b
+      LEFT JOIN apartments a ON b.apartment_id = a.id
+      LEFT JOIN users u ON b.created_by = u.id
+      WHERE b.id = ANY($1)
+    `, [bookingIds]);
+
+    const formattedBookings = updatedBookings.map(booking => ({
+      ...booking,
+      checkIn: new Date(booking.check_in),
+      checkOut: new Date(booking.check_out)
+    }));
+
+    for (const booking of formattedBookings) {
+      broadcast('booking.updated', booking, req.user.id);
     }
 
-    res.status(201).json({ 
-      message: `${createdBookings.length} bookings created successfully`,
-      createdCount: createdBookings.length,
-      bookingIds: createdBookings
+    res.json({
+      message: `${previousBookings.length} bookings assigned successfully`,
+      updatedCount: previousBookings.length,
+      bookings: formattedBookings
     });
   } catch (error) {
-    console.error('Batch create bookings error:', error);
+    if (error instanceof BookingConflictError) {
+      return res.status(409).json({ message: error.message, ...error.details });
+    }
+    if (isBookingOverlapError(error)) {
+      const stays = await dbAll('SELECT id, check_in, check_out FROM bookings WHERE id = ANY($1)', [
+        req.body.assignments.map(assignment => assignment.booking_id)
+      ]);
+      const apartmentIds = new Map(req.body.assignments.map(assignment => [assignment.booking_id, assignment.apartment_id]));
+      return res.status(409).json(await describeStaysConflict(
+        stays.map(stay => ({ ...stay, apartment_id: apartmentIds.get(stay.id) }))
+      ));
+    }
+    console.error('Apply auto-assign error:', error);
     res.status(500).json({ message: 'Internal server error' });
   }
 });
@@ -428,15 +1065,19 @@ router.post('/batch', [
 // Delete all bookings (admin only)
 router.delete('/', hasPermission('admin'), async (req, res) => {
   try {
-    // Get all bookings for audit log
-    const allBookings = await dbAll('SELECT * FROM bookings');
+    // Get all bookings for audit log. External bookings belong to their
+    // calendar sync and are left alone.
+    const allBookings = await dbAll(`SELECT id FROM bookings WHERE deleted_at IS NULL AND source = 'manual'`);
     
     if (allBookings.length === 0) {
       return res.json({ message: 'No bookings to delete', deletedCount: 0 });
     }
 
-    // Delete all bookings
-    await dbRun('DELETE FROM bookings');
+    // Move them all to the trash, where they can be restored one by one
+    await dbRun(`
+      UPDATE bookings SET deleted_at = CURRENT_TIMESTAMP, deleted_by = $1
+      WHERE deleted_at IS NULL AND source = 'manual'
+    `, [req.user.id]);
 
     // Log the action
     await dbRun(`
@@ -444,6 +1085,8 @@ router.delete('/', hasPermission('admin'), async (req, res) => {
       VALUES ($1, $2, $3, $4, $5)
     `, [req.user.id, 'DELETE_ALL', 'bookings', 'ALL', JSON.stringify({ count: allBookings.length })]);
 
+    broadcast('bookings.cleared', {}, req.user.id);
+
     res.json({ 
       message: `${allBookings.length} bookings deleted successfully`,
       deletedCount: allBookings.length
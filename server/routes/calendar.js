@@ -0,0 +1,99 @@
+import express from 'express';
+import { dbRun, dbGet, dbAll } from '../database/init.js';
+import { activeBookingCondition } from '../services/bookingStatus.js';
+import { renderCalendar } from '../services/ical.js';
+
+const router = express.Router();
+
+// Feeds are fetched by calendar apps, so they authenticate with the feed
+// token in the query string instead of a JWT
+const findFeed = async (token) => {
+  if (!token) return null;
+  return dbGet('SELECT * FROM calendar_feeds WHERE token = $1', [token]);
+};
+
+// Skip stays that ended long ago to keep subscriptions small
+const FEED_HISTORY_DAYS = 90;
+
+const toEvent = (booking) => ({
+  uid: booking.id,
+  start: booking.check_in,
+  end: booking.check_out,
+  summary: booking.guest_name,
+  location: booking.apartment_name || booking.temporary_apartment,
+  description: booking.temporary_apartment && !booking.apartment_id
+    ? `Temporary accommodation: ${booking.temporary_apartment}`
+    : null,
+  status: booking.status === 'tentative' ? 'TENTATIVE' : 'CONFIRMED',
+  updatedAt: booking.updated_at
+});
+
+const sendCalendar = async (res, feed, name, events) => {
+  await dbRun('UPDATE calendar_feeds SET last_accessed_at = CURRENT_TIMESTAMP WHERE id = $1', [feed.id]);
+
+  res.set({
+    'Content-Type': 'text/calendar; charset=utf-8',
+    'Content-Disposition': `inline; filename="${feed.apartment_id ? 'apartment' : 'all'}.ics"`,
+    'Cache-Control': 'no-cache'
+  });
+  res.send(renderCalendar({ name, events }));
+};
+
+// All bookings across the portfolio, including temporary accommodation
+router.get('/all.ics', async (req, res) => {
+  try {
+    const feed = await findFeed(req.query.token);
+    if (!feed || feed.apartment_id) {
+      return res.status(401).json({ message: 'Invalid calendar feed token' });
+    }
+
+    const bookings = await dbAll(`
+      SELECT b.*, a.name as apartment_name
+      FROM bookings b
+      LEFT JOIN apartments a ON b.apartment_id = a.id
+      WHERE ${activeBookingCondition('b')}
+        AND b.check_out > CURRENT_TIMESTAMP - INTERVAL '${FEED_HISTORY_DAYS} days'
+        AND (b.apartment_id IS NOT NULL OR b.temporary_apartment IS NOT NULL)
+      ORDER BY b.check_in ASC
+    `);
+
+    await sendCalendar(res, feed, 'All apartments', bookings.map(toEvent));
+  } catch (error) {
+    console.error('Get portfolio calendar error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Bookings for a single apartment
+router.get('/:apartmentId.ics', async (req, res) => {
+  try {
+    const { apartmentId } = req.params;
+
+    const feed = await findFeed(req.query.token);
+    if (!feed || feed.apartment_id !== apartmentId) {
+      return res.status(401).json({ message: 'Invalid calendar feed token' });
+    }
+
+    const apartment = await dbGet('SELECT id, name FROM apartments WHERE id = $1 AND deleted_at IS NULL', [apartmentId]);
+    if (!apartment) {
+      return res.status(404).json({ message: 'Apartment not found' });
+    }
+
+    const bookings = await dbAll(`
+      SELECT b.*, a.name as apartment_name
+      FROM bookings b
+      LEFT JOIN apartments a ON b.apartment_id = a.id
+      WHERE b.apartment_id = $1
+        AND ${activeBookingCondition('b')}
+        AND b.check_out > CURRENT_TIMESTAMP - INTERVAL '${FEED_HISTORY_DAYS} days'
+      ORDER BY b.check_in ASC
+    `, [apartmentId]);
+
+    await sendCalendar(res, feed, apartment.name, bookings.map(toEvent));
+  } catch (error) {
+    console.error('Get apartment calendar error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+export default router;
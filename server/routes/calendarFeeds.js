@@ -0,0 +1,105 @@
+import express from 'express';
+import crypto from 'crypto';
+import { body, validationResult } from 'express-validator';
+import { v4 as uuidv4 } from 'uuid';
+import { dbRun, dbGet, dbAll } from '../database/init.js';
+import { hasPermission } from '../middleware/auth.js';
+
+const router = express.Router();
+
+const getFeedWithDetails = (id) => dbGet(`
+  SELECT cf.*, a.name as apartment_name, u.username as created_by_username
+  FROM calendar_feeds cf
+  LEFT JOIN apartments a ON cf.apartment_id = a.id
+  LEFT JOIN users u ON cf.created_by = u.id
+  WHERE cf.id = $1
+`, [id]);
+
+// Get all calendar feeds (manager or admin)
+router.get('/', hasPermission('manager'), async (req, res) => {
+  try {
+    const feeds = await dbAll(`
+      SELECT cf.*, a.name as apartment_name, u.username as created_by_username
+      FROM calendar_feeds cf
+      LEFT JOIN apartments a ON cf.apartment_id = a.id
+      LEFT JOIN users u ON cf.created_by = u.id
+      ORDER BY cf.created_at DESC
+    `);
+
+    res.json(feeds);
+  } catch (error) {
+    console.error('Get calendar feeds error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Generate a feed for one apartment, or for all when apartment_id is null
+router.post('/', [
+  hasPermission('manager'),
+  body('apartment_id').optional({ nullable: true }).isString().withMessage('Apartment ID must be a string or null'),
+  body('label').optional({ nullable: true }).isString().trim().isLength({ max: 255 }).withMessage('Label must be at most 255 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { apartment_id, label } = req.body;
+    const id = uuidv4();
+    const token = crypto.randomBytes(24).toString('hex');
+
+    if (apartment_id) {
+      const apartment = await dbGet('SELECT id FROM apartments WHERE id = $1 AND deleted_at IS NULL', [apartment_id]);
+      if (!apartment) {
+        return res.status(404).json({ message: 'Apartment not found' });
+      }
+    }
+
+    await dbRun(`
+      INSERT INTO calendar_feeds (id, token, apartment_id, label, created_by)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [id, token, apartment_id || null, label || null, req.user.id]);
+
+    // Log the action without the token itself
+    await dbRun(`
+      INSERT INTO audit_logs (user_id, action, table_name, record_id, new_values)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [req.user.id, 'CREATE', 'calendar_feeds', id, JSON.stringify({ apartment_id: apartment_id || null, label })]);
+
+    const feed = await getFeedWithDetails(id);
+
+    res.status(201).json(feed);
+  } catch (error) {
+    console.error('Create calendar feed error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Revoke a feed (manager or admin)
+router.delete('/:id', hasPermission('manager'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const feed = await dbGet('SELECT id, apartment_id, label FROM calendar_feeds WHERE id = $1', [id]);
+
+    if (!feed) {
+      return res.status(404).json({ message: 'Calendar feed not found' });
+    }
+
+    await dbRun('DELETE FROM calendar_feeds WHERE id = $1', [id]);
+
+    // Log the action
+    await dbRun(`
+      INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [req.user.id, 'DELETE', 'calendar_feeds', id, JSON.stringify(feed)]);
+
+    res.json({ message: 'Calendar feed revoked successfully' });
+  } catch (error) {
+    console.error('Revoke calendar feed error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,17 @@
+import express from 'express';
+import { authenticateStreamToken, authenticateToken, generateStreamToken } from '../middleware/auth.js';
+import { addClient } from '../services/events.js';
+
+const router = express.Router();
+
+// Get a short-lived token to open the event stream with
+router.post('/token', authenticateToken, (req, res) => {
+  res.json({ token: generateStreamToken(req.user.id) });
+});
+
+// Subscribe to live booking and apartment changes
+router.get('/', authenticateStreamToken, (req, res) => {
+  addClient(req, res);
+});
+
+export default router;
@@ -0,0 +1,171 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import { v4 as uuidv4 } from 'uuid';
+import { dbRun, dbGet, dbAll } from '../database/init.js';
+import { hasPermission } from '../middleware/auth.js';
+import { broadcast } from '../services/events.js';
+import { allowsFileCalendars, syncExternalCalendar, syncAllExternalCalendars } from '../services/externalCalendars.js';
+
+const router = express.Router();
+
+const formatCalendar = (calendar) => calendar && {
+  ...calendar,
+  last_conflicts: JSON.parse(calendar.last_conflicts || '[]')
+};
+
+const getCalendarWithDetails = async (id) => formatCalendar(await dbGet(`
+  SELECT ec.*, a.name as apartment_name,
+    (SELECT COUNT(*) FROM bookings b WHERE b.external_calendar_id = ec.id AND b.deleted_at IS NULL)::int as booking_count
+  FROM external_calendars ec
+  LEFT JOIN apartments a ON ec.apartment_id = a.id
+  WHERE ec.id = $1
+`, [id]));
+
+// file:// fixtures are only accepted with ALLOW_FILE_CALENDARS=1
+const isCalendarUrl = (value) => {
+  const parsed = new URL(value.replace(/^webcals?:\/\//i, 'https://'));
+  const protocols = allowsFileCalendars() ? ['http:', 'https:', 'file:'] : ['http:', 'https:'];
+  if (!protocols.includes(parsed.protocol)) {
+    throw new Error('Calendar URL must use http, https or webcal');
+  }
+  return true;
+};
+
+// Get external calendars, optionally for one apartment (manager or admin:
+// feed URLs carry the platforms' secret tokens)
+router.get('/', hasPermission('manager'), async (req, res) => {
+  try {
+    const { apartment_id } = req.query;
+
+    const calendars = await dbAll(`
+      SELECT ec.*, a.name as apartment_name,
+        (SELECT COUNT(*) FROM bookings b WHERE b.external_calendar_id = ec.id AND b.deleted_at IS NULL)::int as booking_count
+      FROM external_calendars ec
+      LEFT JOIN apartments a ON ec.apartment_id = a.id
+      ${apartment_id ? 'WHERE ec.apartment_id = $1' : ''}
+      ORDER BY ec.created_at ASC
+    `, apartment_id ? [apartment_id] : []);
+
+    res.json(calendars.map(formatCalendar));
+  } catch (error) {
+    console.error('Get external calendars error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Add an external calendar and run a first sync (manager or admin)
+router.post('/', [
+  hasPermission('manager'),
+  body('apartment_id').isString().notEmpty().withMessage('Apartment ID is required'),
+  body('url').trim().notEmpty().withMessage('Calendar URL is required')
+    .custom(isCalendarUrl).withMessage('Valid calendar URL is required'),
+  body('label').optional({ nullable: true }).isString().trim().isLength({ max: 255 }).withMessage('Label must be at most 255 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { apartment_id, url, label } = req.body;
+    const id = uuidv4();
+
+    const apartment = await dbGet('SELECT id FROM apartments WHERE id = $1 AND deleted_at IS NULL', [apartment_id]);
+    if (!apartment) {
+      return res.status(404).json({ message: 'Apartment not found' });
+    }
+
+    await dbRun(`
+      INSERT INTO external_calendars (id, apartment_id, url, label, created_by)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [id, apartment_id, url, label || null, req.user.id]);
+
+    // Log the action
+    await dbRun(`
+      INSERT INTO audit_logs (user_id, action, table_name, record_id, new_values)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [req.user.id, 'CREATE', 'external_calendars', id, JSON.stringify({ apartment_id, url, label })]);
+
+    // A broken feed is still saved; the error is shown on the calendar
+    let syncResult = null;
+    try {
+      syncResult = await syncExternalCalendar(await dbGet('SELECT * FROM external_calendars WHERE id = $1', [id]));
+    } catch (error) {
+      console.error('Initial external calendar sync error:', error.message);
+    }
+
+    const calendar = await getCalendarWithDetails(id);
+
+    res.status(201).json({ ...calendar, syncResult });
+  } catch (error) {
+    console.error('Create external calendar error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Sync all external calendars now (manager or admin)
+router.post('/sync', hasPermission('manager'), async (req, res) => {
+  try {
+    const results = await syncAllExternalCalendars();
+    res.json({ results });
+  } catch (error) {
+    console.error('Sync external calendars error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Sync one external calendar now (manager or admin)
+router.post('/:id/sync', hasPermission('manager'), async (req, res) => {
+  try {
+    const calendar = await dbGet('SELECT * FROM external_calendars WHERE id = $1', [req.params.id]);
+
+    if (!calendar) {
+      return res.status(404).json({ message: 'External calendar not found' });
+    }
+
+    try {
+      const syncResult = await syncExternalCalendar(calendar);
+      res.json({ ...(await getCalendarWithDetails(calendar.id)), syncResult });
+    } catch (error) {
+      res.status(502).json({ message: `Calendar sync failed: ${error.message}` });
+    }
+  } catch (error) {
+    console.error('Sync external calendar error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Remove an external calendar and its bookings (manager or admin)
+router.delete('/:id', hasPermission('manager'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const calendar = await dbGet('SELECT * FROM external_calendars WHERE id = $1', [id]);
+
+    if (!calendar) {
+      return res.status(404).json({ message: 'External calendar not found' });
+    }
+
+    const bookings = await dbAll('SELECT id FROM bookings WHERE external_calendar_id = $1', [id]);
+
+    // Bookings from this calendar are removed by the foreign key cascade
+    await dbRun('DELETE FROM external_calendars WHERE id = $1', [id]);
+
+    // Log the action
+    await dbRun(`
+      INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [req.user.id, 'DELETE', 'external_calendars', id, JSON.stringify({ ...calendar, bookingCount: bookings.length })]);
+
+    for (const booking of bookings) {
+      broadcast('booking.deleted', { id: booking.id }, req.user.id);
+    }
+
+    res.json({ message: 'External calendar removed successfully' });
+  } catch (error) {
+    console.error('Delete external calendar error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,230 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import { v4 as uuidv4 } from 'uuid';
+import { dbRun, dbGet, dbAll } from '../database/init.js';
+import { hasPermission } from '../middleware/auth.js';
+import { broadcast } from '../services/events.js';
+import { AMOUNT_PAID_COLUMN } from '../services/payments.js';
+import { APPOINTMENTS_COLUMN } from '../services/appointments.js';
+import { GUEST_COLUMNS, findPossibleDuplicates, isLikelySameGuest } from '../services/guests.js';
+
+const router = express.Router();
+
+const GUEST_FIELDS = ['full_name', 'email', 'phone', 'nationality', 'passport_number', 'date_of_birth', 'notes'];
+
+const GUEST_SELECT = `
+  SELECT ${GUEST_COLUMNS}, u.username as created_by_username,
+         (SELECT COUNT(*)::int FROM bookings b WHERE b.guest_id = g.id AND b.deleted_at IS NULL) as stay_count,
+         (SELECT MAX(b.check_in) FROM bookings b WHERE b.guest_id = g.id AND b.deleted_at IS NULL) as last_check_in
+  FROM guests g
+  LEFT JOIN users u ON g.created_by = u.id
+`;
+
+const guestValidators = (required) => [
+  required
+    ? body('full_name').trim().notEmpty().withMessage('Full name is required')
+    : body('full_name').optional().trim().notEmpty().withMessage('Full name cannot be empty'),
+  body('email').optional({ nullable: true, checkFalsy: true }).trim().isEmail().withMessage('Valid email is required'),
+  body('phone').optional({ nullable: true }).trim().isLength({ max: 50 }).withMessage('Phone number is too long'),
+  body('nationality').optional({ nullable: true, checkFalsy: true }).trim().isISO31661Alpha2()
+    .withMessage('Nationality must be a two-letter country code'),
+  body('passport_number').optional({ nullable: true }).trim().isLength({ max: 50 }).withMessage('Passport number is too long'),
+  body('date_of_birth').optional({ nullable: true, checkFalsy: true }).isISO8601().withMessage('Valid date of birth is required'),
+  body('notes').optional({ nullable: true }).isString().withMessage('Notes must be a string')
+];
+
+// Empty strings from the form are stored as NULL; countries are stored upper case
+const toGuestValue = (field, value) => {
+  if (value === undefined || value === null || value === '') return null;
+  return field === 'nationality' ? value.toUpperCase() : value;
+};
+
+// Get all guests, optionally matching a search term
+router.get('/', async (req, res) => {
+  try {
+    const { search } = req.query;
+    const params = [];
+    let whereClause = '';
+
+    if (search) {
+      whereClause = 'WHERE g.full_name ILIKE $1 OR g.email ILIKE $1 OR g.phone ILIKE $1 OR g.passport_number ILIKE $1';
+      params.push(`%${search}%`);
+    }
+
+    const guests = await dbAll(`
+      ${GUEST_SELECT}
+      ${whereClause}
+      ORDER BY g.full_name
+    `, params);
+
+    res.json(guests);
+  } catch (error) {
+    console.error('Get guests error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Get a guest with their stays and unlinked bookings that look like theirs
+router.get('/:id', async (req, res) => {
+  try {
+    const guest = await dbGet(`${GUEST_SELECT} WHERE g.id = $1`, [req.params.id]);
+
+    if (!guest) {
+      return res.status(404).json({ message: 'Guest not found' });
+    }
+
+    const bookingSelect = `
+      SELECT b.*, a.name as apartment_name, u.username as created_by_username, ${AMOUNT_PAID_COLUMN}, ${APPOINTMENTS_COLUMN}
+      FROM bookings b
+      LEFT JOIN apartments a ON b.apartment_id = a.id
+      LEFT JOIN users u ON b.created_by = u.id
+    `;
+    const toBookingPayload = (booking) => ({
+      ...booking,
+      checkIn: new Date(booking.check_in),
+      checkOut: new Date(booking.check_out)
+    });
+
+    const bookings = await dbAll(`${bookingSelect} WHERE b.guest_id = $1 AND b.deleted_at IS NULL ORDER BY b.check_in DESC`, [guest.id]);
+    const unlinkedBookings = await dbAll(`${bookingSelect} WHERE b.guest_id IS NULL AND b.source = 'manual' AND b.deleted_at IS NULL ORDER BY b.check_in DESC`);
+
+    res.json({
+      ...guest,
+      bookings: bookings.map(toBookingPayload),
+      possible_bookings: unlinkedBookings
+        .filter(booking => isLikelySameGuest(guest.full_name, booking.guest_name))
+        .map(toBookingPayload)
+    });
+  } catch (error) {
+    console.error('Get guest error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Create guest (manager or admin); answers 409 with the likely duplicates
+// unless "force" is set
+router.post('/', [
+  hasPermission('manager'),
+  ...guestValidators(true),
+  body('force').optional().isBoolean().withMessage('Force must be a boolean')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!req.body.force) {
+      const guests = await dbAll(`${GUEST_SELECT} ORDER BY g.full_name`);
+      const duplicates = findPossibleDuplicates(req.body, guests);
+
+      if (duplicates.length > 0) {
+        return res.status(409).json({
+          message: 'A guest with similar details already exists',
+          duplicates: duplicates.slice(0, 5)
+        });
+      }
+    }
+
+    const id = uuidv4();
+    const values = GUEST_FIELDS.map(field => toGuestValue(field, req.body[field]));
+
+    await dbRun(`
+      INSERT INTO guests (id, ${GUEST_FIELDS.join(', ')}, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `, [id, ...values, req.user.id]);
+
+    // Log the action
+    await dbRun(`
+      INSERT INTO audit_logs (user_id, action, table_name, record_id, new_values)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [req.user.id, 'CREATE', 'guests', id, JSON.stringify(Object.fromEntries(GUEST_FIELDS.map((field, index) => [field, values[index]])))]);
+
+    const guest = await dbGet(`${GUEST_SELECT} WHERE g.id = $1`, [id]);
+
+    broadcast('guest.created', guest, req.user.id);
+
+    res.status(201).json(guest);
+  } catch (error) {
+    console.error('Create guest error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Update guest (manager or admin). Bookings keep the name they were made
+// under; only the profile changes.
+router.put('/:id', [
+  hasPermission('manager'),
+  ...guestValidators(false)
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const oldGuest = await dbGet(`SELECT ${GUEST_COLUMNS} FROM guests g WHERE g.id = $1`, [id]);
+
+    if (!oldGuest) {
+      return res.status(404).json({ message: 'Guest not found' });
+    }
+
+    const fields = GUEST_FIELDS.filter(field => req.body[field] !== undefined);
+
+    if (fields.length === 0) {
+      return res.status(400).json({ message: 'No valid fields to update' });
+    }
+
+    const updates = Object.fromEntries(fields.map(field => [field, toGuestValue(field, req.body[field])]));
+
+    await dbRun(`
+      UPDATE guests SET ${fields.map((field, index) => `${field} = $${index + 1}`).join(', ')}, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $${fields.length + 1}
+    `, [...Object.values(updates), id]);
+
+    // Log the action
+    await dbRun(`
+      INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values, new_values)
+      VALUES ($1, $2, $3, $4, $5, $6)
+    `, [req.user.id, 'UPDATE', 'guests', id, JSON.stringify(oldGuest), JSON.stringify(updates)]);
+
+    const guest = await dbGet(`${GUEST_SELECT} WHERE g.id = $1`, [id]);
+
+    broadcast('guest.updated', guest, req.user.id);
+
+    res.json(guest);
+  } catch (error) {
+    console.error('Update guest error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Delete guest (admin only); their bookings stay, unlinked
+router.delete('/:id', hasPermission('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const guest = await dbGet(`SELECT ${GUEST_COLUMNS} FROM guests g WHERE g.id = $1`, [id]);
+
+    if (!guest) {
+      return res.status(404).json({ message: 'Guest not found' });
+    }
+
+    await dbRun('DELETE FROM guests WHERE id = $1', [id]);
+
+    // Log the action
+    await dbRun(`
+      INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [req.user.id, 'DELETE', 'guests', id, JSON.stringify(guest)]);
+
+    broadcast('guest.deleted', { id }, req.user.id);
+
+    res.json({ message: 'Guest deleted successfully' });
+  } catch (error) {
+    console.error('Delete guest error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,258 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import { v4 as uuidv4 } from 'uuid';
+import { dbRun, dbGet, dbAll, withTransaction } from '../database/init.js';
+import { hasPermission } from '../middleware/auth.js';
+import {
+  buildInvoiceLines,
+  calculateTotals,
+  formatInvoice,
+  getTaxRate,
+  nextInvoiceNumber,
+  renderInvoicePdf
+} from '../services/invoices.js';
+import { INVOICE_AMOUNT_PAID_COLUMN } from '../services/payments.js';
+
+const router = express.Router();
+
+// Raised inside the invoice transaction to roll it back with a client error
+class InvoiceRequestError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const normalizeGuestName = (name) => name.trim().toLowerCase();
+
+const INVOICE_SELECT = `
+  SELECT i.*, u.username as issued_by_username,
+         COALESCE(
+           (SELECT json_agg(ib.booking_id) FROM invoice_bookings ib WHERE ib.invoice_id = i.id),
+           '[]'
+         ) as booking_ids,
+         ${INVOICE_AMOUNT_PAID_COLUMN}
+  FROM invoices i
+  LEFT JOIN users u ON i.issued_by = u.id
+`;
+
+// Get invoices, optionally only those covering one booking or issued to one guest
+router.get('/', async (req, res) => {
+  try {
+    const { booking_id, guest_name } = req.query;
+    const conditions = [];
+    const params = [];
+
+    if (booking_id) {
+      params.push(booking_id);
+      conditions.push(`i.id IN (SELECT invoice_id FROM invoice_bookings WHERE booking_id = $${params.length})`);
+    }
+    if (guest_name) {
+      params.push(normalizeGuestName(guest_name));
+      conditions.push(`LOWER(TRIM(i.guest_name)) = $${params.length}`);
+    }
+
+    const invoices = await dbAll(`
+      ${INVOICE_SELECT}
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY i.issued_at DESC
+    `, params);
+
+    res.json(invoices.map(formatInvoice));
+  } catch (error) {
+    console.error('Get invoices error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Get single invoice
+router.get('/:id', async (req, res) => {
+  try {
+    const invoice = await dbGet(`${INVOICE_SELECT} WHERE i.id = $1`, [req.params.id]);
+
+    if (!invoice) {
+      return res.status(404).json({ message: 'Invoice not found' });
+    }
+
+    res.json(formatInvoice(invoice));
+  } catch (error) {
+    console.error('Get invoice error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Download an invoice as PDF
+router.get('/:id/pdf', async (req, res) => {
+  try {
+    const invoice = await dbGet(`${INVOICE_SELECT} WHERE i.id = $1`, [req.params.id]);
+
+    if (!invoice) {
+      return res.status(404).json({ message: 'Invoice not found' });
+    }
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoice_number}.pdf"`);
+    renderInvoicePdf(formatInvoice(invoice), res);
+  } catch (error) {
+    console.error('Render invoice error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+});
+
+// Issue an invoice for one or more bookings of the same guest (manager or admin)
+router.post('/', [
+  hasPermission('manager'),
+  body('booking_ids').isArray({ min: 1 }).withMessage('At least one booking is required'),
+  body('booking_ids.*').isString().notEmpty().withMessage('Booking IDs must be strings')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const bookingIds = [...new Set(req.body.booking_ids)];
+    const taxRate = getTaxRate();
+
+    const invoiceId = await withTransaction(async (client) => {
+      // Lock the bookings so two people cannot invoice the same stay at once
+      const { rows: bookings } = await client.query(`
+        SELECT b.*, a.name as apartment_name
+        FROM bookings b
+        LEFT JOIN apartments a ON b.apartment_id = a.id
+        WHERE b.id = ANY($1) AND b.deleted_at IS NULL
+        ORDER BY b.check_in ASC
+        FOR UPDATE OF b
+      `, [bookingIds]);
+
+      if (bookings.length !== bookingIds.length) {
+        throw new InvoiceRequestError(404, 'Booking not found');
+      }
+
+      const guestNames = new Set(bookings.map(booking => normalizeGuestName(booking.guest_name)));
+      if (guestNames.size > 1) {
+        throw new InvoiceRequestError(400, 'All bookings on an invoice must belong to the same guest');
+      }
+
+      const cancelled = bookings.find(booking => booking.status === 'cancelled');
+      if (cancelled) {
+        throw new InvoiceRequestError(400, `Cancelled bookings cannot be invoiced (${cancelled.guest_name})`);
+      }
+
+      const unpriced = bookings.find(booking => booking.total_price === null);
+      if (unpriced) {
+        throw new InvoiceRequestError(400, 'Every booking on an invoice needs a price. Set up a rate plan for its apartment first.');
+      }
+
+      const currencies = new Set(bookings.map(booking => booking.currency));
+      if (currencies.size > 1) {
+        throw new InvoiceRequestError(400, 'All bookings on an invoice must use the same currency');
+      }
+
+      const { rows: invoiced } = await client.query(`
+        SELECT i.invoice_number FROM invoice_bookings ib
+        JOIN invoices i ON ib.invoice_id = i.id
+        WHERE ib.booking_id = ANY($1)
+        LIMIT 1
+      `, [bookingIds]);
+      if (invoiced.length > 0) {
+        throw new InvoiceRequestError(409, `A booking is already on invoice ${invoiced[0].invoice_number}`);
+      }
+
+      const id = uuidv4();
+      const invoiceNumber = await nextInvoiceNumber(client);
+      const lines = buildInvoiceLines(bookings);
+      const totals = calculateTotals(lines, taxRate);
+
+      await client.query(`
+        INSERT INTO invoices (id, invoice_number, guest_name, currency, line_items, subtotal, tax_rate, tax_amount, total, issued_by)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      `, [
+        id,
+        invoiceNumber,
+        bookings[0].guest_name.trim(),
+        bookings[0].currency,
+        JSON.stringify(lines),
+        totals.subtotal,
+        totals.tax_rate,
+        totals.tax_amount,
+        totals.total,
+        req.user.id
+      ]);
+
+      for (const booking of bookings) {
+        await client.query(
+          'INSERT INTO invoice_bookings (invoice_id, booking_id) VALUES ($1, $2)',
+          [id, booking.id]
+        );
+      }
+
+      // Log the action
+      await client.query(`
+        INSERT INTO audit_logs (user_id, action, table_name, record_id, new_values)
+        VALUES ($1, $2, $3, $4, $5)
+      `, [req.user.id, 'CREATE', 'invoices', id, JSON.stringify({ invoice_number: invoiceNumber, booking_ids: bookingIds, ...totals })]);
+
+      return id;
+    });
+
+    const invoice = await dbGet(`${INVOICE_SELECT} WHERE i.id = $1`, [invoiceId]);
+    res.status(201).json(formatInvoice(invoice));
+  } catch (error) {
+    if (error instanceof InvoiceRequestError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Create invoice error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Mark an invoice paid or unpaid (manager or admin)
+router.patch('/:id/payment', [
+  hasPermission('manager'),
+  body('paid').isBoolean().withMessage('Paid must be true or false')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const paid = req.body.paid === true || req.body.paid === 'true';
+
+    const oldInvoice = await dbGet('SELECT * FROM invoices WHERE id = $1', [id]);
+    if (!oldInvoice) {
+      return res.status(404).json({ message: 'Invoice not found' });
+    }
+
+    await dbRun(
+      `UPDATE invoices SET paid_at = ${paid ? 'COALESCE(paid_at, CURRENT_TIMESTAMP)' : 'NULL'} WHERE id = $1`,
+      [id]
+    );
+
+    const invoice = await dbGet(`${INVOICE_SELECT} WHERE i.id = $1`, [id]);
+
+    // Log the action
+    await dbRun(`
+      INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values, new_values)
+      VALUES ($1, $2, $3, $4, $5, $6)
+    `, [
+      req.user.id,
+      'UPDATE',
+      'invoices',
+      id,
+      JSON.stringify({ paid_at: oldInvoice.paid_at }),
+      JSON.stringify({ paid_at: invoice.paid_at })
+    ]);
+
+    res.json(formatInvoice(invoice));
+  } catch (error) {
+    console.error('Update invoice payment error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+export default router;
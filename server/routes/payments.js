@@ -0,0 +1,198 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import { v4 as uuidv4 } from 'uuid';
+import { dbRun, dbGet, dbAll } from '../database/init.js';
+import { hasPermission } from '../middleware/auth.js';
+import { broadcast } from '../services/events.js';
+import { DEFAULT_CURRENCY } from '../services/pricing.js';
+import { AMOUNT_PAID_COLUMN, PAYMENT_METHODS, PAYMENT_TYPES, formatPayment } from '../services/payments.js';
+import { APPOINTMENTS_COLUMN } from '../services/appointments.js';
+import { activeBookingCondition } from '../services/bookingStatus.js';
+
+const router = express.Router();
+
+// Booking payload as the bookings routes send it, with the new amount paid
+const getFormattedBooking = async (id) => {
+  const booking = await dbGet(`
+    SELECT b.*, a.name as apartment_name, u.username as created_by_username, ${AMOUNT_PAID_COLUMN}, ${APPOINTMENTS_COLUMN}
+    FROM bookings b
+    LEFT JOIN apartments a ON b.apartment_id = a.id
+    LEFT JOIN users u ON b.created_by = u.id
+    WHERE b.id = $1
+  `, [id]);
+
+  return {
+    ...booking,
+    checkIn: new Date(booking.check_in),
+    checkOut: new Date(booking.check_out)
+  };
+};
+
+// Get payments, optionally for one booking
+router.get('/', async (req, res) => {
+  try {
+    const { booking_id } = req.query;
+    const params = [];
+    // Payments of bookings in the trash are hidden with them
+    let whereClause = 'WHERE b.deleted_at IS NULL';
+
+    if (booking_id) {
+      whereClause += ' AND p.booking_id = $1';
+      params.push(booking_id);
+    }
+
+    const payments = await dbAll(`
+      SELECT p.*, b.guest_name, u.username as recorded_by_username
+      FROM payments p
+      LEFT JOIN bookings b ON p.booking_id = b.id
+      LEFT JOIN users u ON p.recorded_by = u.id
+      ${whereClause}
+      ORDER BY p.paid_at DESC, p.created_at DESC
+    `, params);
+
+    res.json(payments.map(formatPayment));
+  } catch (error) {
+    console.error('Get payments error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Bookings with a balance still to pay; cancelled and no-show stays owe
+// nothing (manager or admin)
+router.get('/outstanding', hasPermission('manager'), async (req, res) => {
+  try {
+    const bookings = await dbAll(`
+      SELECT * FROM (
+        SELECT b.id, b.guest_name, b.check_in, b.check_out, b.status, b.apartment_id, b.temporary_apartment,
+               b.total_price, b.currency, a.name as apartment_name, ${AMOUNT_PAID_COLUMN}
+        FROM bookings b
+        LEFT JOIN apartments a ON b.apartment_id = a.id
+        WHERE b.total_price IS NOT NULL AND ${activeBookingCondition('b')}
+      ) balances
+      WHERE total_price - amount_paid > 0
+      ORDER BY check_in ASC
+    `);
+
+    const formattedBookings = bookings.map(booking => {
+      const totalPrice = Number(booking.total_price);
+      const amountPaid = Number(booking.amount_paid);
+      return {
+        ...booking,
+        checkIn: new Date(booking.check_in),
+        checkOut: new Date(booking.check_out),
+        total_price: totalPrice,
+        amount_paid: amountPaid,
+        balance_due: Math.round((totalPrice - amountPaid) * 100) / 100
+      };
+    });
+
+    // Sum per currency; bookings are priced in their apartment's currency
+    const totals = formattedBookings.reduce((sums, booking) => {
+      sums[booking.currency] = Math.round(((sums[booking.currency] || 0) + booking.balance_due) * 100) / 100;
+      return sums;
+    }, {});
+
+    res.json({ bookings: formattedBookings, totals });
+  } catch (error) {
+    console.error('Get outstanding balances error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Record a payment against a booking (manager or admin)
+router.post('/', [
+  hasPermission('manager'),
+  body('booking_id').isString().notEmpty().withMessage('Booking ID is required'),
+  body('amount').isFloat({ gt: 0 }).withMessage('Amount must be greater than zero'),
+  body('type').optional().isIn(PAYMENT_TYPES).withMessage('Invalid payment type'),
+  body('method').isIn(PAYMENT_METHODS).withMessage('Invalid payment method'),
+  body('currency').optional().isString().isISO4217().withMessage('Currency must be an ISO 4217 code'),
+  body('paid_at').optional().isISO8601().withMessage('Valid payment date is required'),
+  body('notes').optional().isString()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { booking_id, amount, type = 'payment', method, paid_at, notes } = req.body;
+
+    const booking = await dbGet(`
+      SELECT b.*, ${AMOUNT_PAID_COLUMN}
+      FROM bookings b
+      WHERE b.id = $1 AND b.deleted_at IS NULL
+    `, [booking_id]);
+    if (!booking) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    if (booking.source === 'external') {
+      return res.status(400).json({ message: 'External bookings are paid on the platform they were booked on' });
+    }
+
+    const currency = (req.body.currency || booking.currency || DEFAULT_CURRENCY).toUpperCase();
+    if (booking.currency && currency !== booking.currency) {
+      return res.status(400).json({ message: `Payments for this booking must be in ${booking.currency}` });
+    }
+
+    if (type === 'refund' && Number(amount) > Number(booking.amount_paid)) {
+      return res.status(400).json({ message: 'Refund cannot exceed the amount paid' });
+    }
+
+    const id = uuidv4();
+    await dbRun(`
+      INSERT INTO payments (id, booking_id, type, amount, currency, method, paid_at, notes, recorded_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `, [id, booking_id, type, amount, currency, method, paid_at || new Date(), notes || null, req.user.id]);
+
+    const payment = formatPayment(await dbGet(`
+      SELECT p.*, u.username as recorded_by_username
+      FROM payments p
+      LEFT JOIN users u ON p.recorded_by = u.id
+      WHERE p.id = $1
+    `, [id]));
+
+    // Log the action
+    await dbRun(`
+      INSERT INTO audit_logs (user_id, action, table_name, record_id, new_values)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [req.user.id, 'CREATE', 'payments', id, JSON.stringify(payment)]);
+
+    broadcast('booking.updated', await getFormattedBooking(booking_id), req.user.id);
+
+    res.status(201).json(payment);
+  } catch (error) {
+    console.error('Create payment error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Delete a payment recorded by mistake (manager or admin)
+router.delete('/:id', hasPermission('manager'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const payment = await dbGet('SELECT * FROM payments WHERE id = $1', [id]);
+    if (!payment) {
+      return res.status(404).json({ message: 'Payment not found' });
+    }
+
+    await dbRun('DELETE FROM payments WHERE id = $1', [id]);
+
+    // Log the action
+    await dbRun(`
+      INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [req.user.id, 'DELETE', 'payments', id, JSON.stringify(formatPayment(payment))]);
+
+    broadcast('booking.updated', await getFormattedBooking(payment.booking_id), req.user.id);
+
+    res.json({ message: 'Payment deleted successfully' });
+  } catch (error) {
+    console.error('Delete payment error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,199 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import { v4 as uuidv4 } from 'uuid';
+import { dbRun, dbGet, dbAll } from '../database/init.js';
+import { hasPermission } from '../middleware/auth.js';
+import { DEFAULT_CURRENCY, formatRatePlan, getRatePlan, quoteStay } from '../services/pricing.js';
+
+const router = express.Router();
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Keep only the season fields the pricing service reads
+const normalizeSeasons = (seasons = []) => seasons.map(season => ({
+  name: season.name || null,
+  start_date: season.start_date,
+  end_date: season.end_date,
+  nightly_price: Number(season.nightly_price),
+  weekend_price: season.weekend_price === null || season.weekend_price === undefined || season.weekend_price === ''
+    ? null
+    : Number(season.weekend_price),
+  min_stay: season.min_stay ? Number(season.min_stay) : null
+}));
+
+// Get all rate plans
+router.get('/', async (req, res) => {
+  try {
+    const ratePlans = await dbAll(`
+      SELECT rp.*, a.name as apartment_name
+      FROM rate_plans rp
+      LEFT JOIN apartments a ON rp.apartment_id = a.id
+      WHERE a.deleted_at IS NULL
+      ORDER BY a.name ASC
+    `);
+
+    res.json(ratePlans.map(formatRatePlan));
+  } catch (error) {
+    console.error('Get rate plans error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Quote a stay using the apartment's rate plan
+router.post('/quote', [
+  body('apartment_id').isString().notEmpty().withMessage('Apartment ID is required'),
+  body('check_in').isISO8601().withMessage('Valid check-in date is required'),
+  body('check_out').isISO8601().withMessage('Valid check-out date is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { apartment_id, check_in, check_out } = req.body;
+
+    if (new Date(check_out) <= new Date(check_in)) {
+      return res.status(400).json({ message: 'Check-out date must be after check-in date' });
+    }
+
+    const ratePlan = await getRatePlan(apartment_id);
+    if (!ratePlan) {
+      return res.status(404).json({ message: 'This apartment has no rate plan' });
+    }
+
+    res.json(quoteStay(ratePlan, check_in, check_out));
+  } catch (error) {
+    console.error('Quote stay error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Get an apartment's rate plan
+router.get('/apartment/:apartmentId', async (req, res) => {
+  try {
+    const ratePlan = await getRatePlan(req.params.apartmentId);
+
+    if (!ratePlan) {
+      return res.status(404).json({ message: 'Rate plan not found' });
+    }
+
+    res.json(ratePlan);
+  } catch (error) {
+    console.error('Get rate plan error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Create or replace an apartment's rate plan (manager or admin)
+router.put('/apartment/:apartmentId', [
+  hasPermission('manager'),
+  body('currency').optional().isString().isISO4217().withMessage('Currency must be an ISO 4217 code'),
+  body('base_price').isFloat({ min: 0 }).withMessage('Base price must be a positive number'),
+  body('weekend_price').optional({ nullable: true, checkFalsy: true }).isFloat({ min: 0 }).withMessage('Weekend price must be a positive number'),
+  body('min_stay').optional().isInt({ min: 1 }).withMessage('Minimum stay must be at least 1 night'),
+  body('seasons').optional().isArray().withMessage('Seasons must be an array'),
+  body('seasons.*.start_date').matches(DATE_KEY).withMessage('Season start date must be YYYY-MM-DD'),
+  body('seasons.*.end_date').matches(DATE_KEY).withMessage('Season end date must be YYYY-MM-DD'),
+  body('seasons.*.nightly_price').isFloat({ min: 0 }).withMessage('Season nightly price must be a positive number'),
+  body('seasons.*.weekend_price').optional({ nullable: true, checkFalsy: true }).isFloat({ min: 0 }).withMessage('Season weekend price must be a positive number'),
+  body('seasons.*.min_stay').optional({ nullable: true, checkFalsy: true }).isInt({ min: 1 }).withMessage('Season minimum stay must be at least 1 night')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { apartmentId } = req.params;
+    const { currency, base_price, weekend_price, min_stay } = req.body;
+    const seasons = normalizeSeasons(req.body.seasons);
+
+    const apartment = await dbGet('SELECT id FROM apartments WHERE id = $1 AND deleted_at IS NULL', [apartmentId]);
+    if (!apartment) {
+      return res.status(404).json({ message: 'Apartment not found' });
+    }
+
+    if (seasons.some(season => season.end_date < season.start_date)) {
+      return res.status(400).json({ message: 'Season end date must not be before its start date' });
+    }
+
+    const sortedSeasons = [...seasons].sort((a, b) => a.start_date.localeCompare(b.start_date));
+    for (let i = 1; i < sortedSeasons.length; i++) {
+      if (sortedSeasons[i].start_date <= sortedSeasons[i - 1].end_date) {
+        return res.status(400).json({ message: 'Seasons must not overlap' });
+      }
+    }
+
+    const oldRatePlan = await getRatePlan(apartmentId);
+    const values = [
+      (currency || DEFAULT_CURRENCY).toUpperCase(),
+      base_price,
+      weekend_price === '' || weekend_price === undefined ? null : weekend_price,
+      min_stay || 1,
+      JSON.stringify(sortedSeasons)
+    ];
+
+    let id;
+    if (oldRatePlan) {
+      id = oldRatePlan.id;
+      await dbRun(`
+        UPDATE rate_plans SET currency = $1, base_price = $2, weekend_price = $3, min_stay = $4, seasons = $5,
+        updated_at = CURRENT_TIMESTAMP
+        WHERE id = $6
+      `, [...values, id]);
+    } else {
+      id = uuidv4();
+      await dbRun(`
+        INSERT INTO rate_plans (id, apartment_id, currency, base_price, weekend_price, min_stay, seasons, created_by)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      `, [id, apartmentId, ...values, req.user.id]);
+    }
+
+    const ratePlan = await getRatePlan(apartmentId);
+
+    // Log the action
+    await dbRun(`
+      INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values, new_values)
+      VALUES ($1, $2, $3, $4, $5, $6)
+    `, [
+      req.user.id,
+      oldRatePlan ? 'UPDATE' : 'CREATE',
+      'rate_plans',
+      id,
+      oldRatePlan ? JSON.stringify(oldRatePlan) : null,
+      JSON.stringify(ratePlan)
+    ]);
+
+    res.json(ratePlan);
+  } catch (error) {
+    console.error('Save rate plan error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Delete an apartment's rate plan (manager or admin)
+router.delete('/apartment/:apartmentId', hasPermission('manager'), async (req, res) => {
+  try {
+    const ratePlan = await getRatePlan(req.params.apartmentId);
+
+    if (!ratePlan) {
+      return res.status(404).json({ message: 'Rate plan not found' });
+    }
+
+    await dbRun('DELETE FROM rate_plans WHERE id = $1', [ratePlan.id]);
+
+    // Log the action
+    await dbRun(`
+      INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [req.user.id, 'DELETE', 'rate_plans', ratePlan.id, JSON.stringify(ratePlan)]);
+
+    res.json({ message: 'Rate plan deleted successfully' });
+  } catch (error) {
+    console.error('Delete rate plan error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,106 @@
+import express from 'express';
+import { query, validationResult } from 'express-validator';
+import { dbAll } from '../database/init.js';
+import { hasPermission } from '../middleware/auth.js';
+import { bookingFilterValidators, buildBookingFilters } from '../services/bookingFilters.js';
+import { addDays, fromDateKey, toDateKey } from '../services/dates.js';
+import {
+  MAX_OCCUPANCY_DAYS,
+  REPORT_FORMATS,
+  buildBookingsSheet,
+  buildOccupancySheet,
+  sendSheet
+} from '../services/reports.js';
+
+const router = express.Router();
+
+const formatValidator = query('format').optional().isIn(REPORT_FORMATS).withMessage('Format must be csv or xlsx');
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Export the bookings list with the same filters and order as GET /api/bookings (manager or admin)
+router.get('/bookings', [
+  hasPermission('manager'),
+  formatValidator,
+  ...bookingFilterValidators
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { format = 'csv' } = req.query;
+    const { whereClause, orderClause, params } = buildBookingFilters(req.query);
+
+    const bookings = await dbAll(`
+      SELECT b.*, a.name as apartment_name, u.username as created_by_username
+      FROM bookings b
+      LEFT JOIN apartments a ON b.apartment_id = a.id
+      LEFT JOIN users u ON b.created_by = u.id
+      ${whereClause}
+      ${orderClause}
+    `, params);
+
+    sendSheet(res, buildBookingsSheet(bookings), format, `bookings-${toDateKey(new Date())}`);
+  } catch (error) {
+    console.error('Export bookings error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Export the occupancy matrix for the clinic days [from, to) (manager or admin)
+router.get('/occupancy', [
+  hasPermission('manager'),
+  formatValidator,
+  query('from').matches(DATE_KEY_PATTERN).withMessage('From must be a YYYY-MM-DD date'),
+  query('to').matches(DATE_KEY_PATTERN).withMessage('To must be a YYYY-MM-DD date'),
+  query('apartment_id').optional().isString().withMessage('Apartment ID must be a string')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { format = 'csv', from, to, apartment_id } = req.query;
+
+    if (from >= to) {
+      return res.status(400).json({ message: 'The end of the range must be after its start' });
+    }
+    if (to > addDays(from, MAX_OCCUPANCY_DAYS)) {
+      return res.status(400).json({ message: `The range can be at most ${MAX_OCCUPANCY_DAYS} days` });
+    }
+
+    const start = fromDateKey(from);
+    const end = fromDateKey(to);
+    const apartmentParams = apartment_id ? [apartment_id] : [];
+
+    const apartments = await dbAll(`
+      SELECT id, name FROM apartments
+      WHERE deleted_at IS NULL ${apartment_id ? 'AND id = $1' : ''}
+      ORDER BY name
+    `, apartmentParams);
+
+    const bookings = await dbAll(`
+      SELECT apartment_id, guest_name, status, check_in, check_out
+      FROM bookings
+      WHERE apartment_id IS NOT NULL AND deleted_at IS NULL AND check_in < $1 AND check_out > $2
+      ${apartment_id ? 'AND apartment_id = $3' : ''}
+    `, [end, start, ...apartmentParams]);
+
+    const blocks = await dbAll(`
+      SELECT apartment_id, type, start_date, end_date
+      FROM apartment_blocks
+      WHERE start_date < $1 AND end_date > $2
+      ${apartment_id ? 'AND apartment_id = $3' : ''}
+    `, [end, start, ...apartmentParams]);
+
+    sendSheet(res, buildOccupancySheet(apartments, bookings, blocks, from, to), format, `occupancy-${from}-to-${to}`);
+  } catch (error) {
+    console.error('Export occupancy error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,99 @@
+import express from 'express';
+import { dbGet, dbAll, withTransaction } from '../database/init.js';
+import { hasPermission } from '../middleware/auth.js';
+import { describeBookingConflict, isBookingOverlapError } from '../services/availability.js';
+import { RestoreConflictError, broadcastRestored, restoreFromTrash } from '../services/restore.js';
+import { TRASH_TABLES, TrashRequestError, getRetentionDays, purgeRecord } from '../services/trash.js';
+
+const router = express.Router();
+
+// Get deleted apartments and bookings, most recently deleted first (admin only)
+router.get('/', hasPermission('admin'), async (req, res) => {
+  try {
+    const apartments = await dbAll(`
+      SELECT a.id, a.name, a.deleted_at, u.username as deleted_by_username,
+        (SELECT COUNT(*) FROM bookings b WHERE b.apartment_id = a.id)::int as booking_count
+      FROM apartments a
+      LEFT JOIN users u ON a.deleted_by = u.id
+      WHERE a.deleted_at IS NOT NULL
+      ORDER BY a.deleted_at DESC
+    `);
+
+    const bookings = await dbAll(`
+      SELECT b.id, b.guest_name, b.check_in, b.check_out, b.status, b.apartment_id, b.temporary_apartment,
+        b.deleted_at, a.name as apartment_name, u.username as deleted_by_username
+      FROM bookings b
+      LEFT JOIN apartments a ON b.apartment_id = a.id
+      LEFT JOIN users u ON b.deleted_by = u.id
+      WHERE b.deleted_at IS NOT NULL
+      ORDER BY b.deleted_at DESC
+    `);
+
+    res.json({ retention_days: getRetentionDays(), apartments, bookings });
+  } catch (error) {
+    console.error('Get trash error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Restore an item from the trash (admin only)
+router.post('/:table/:id/restore', hasPermission('admin'), async (req, res) => {
+  try {
+    const { table, id } = req.params;
+
+    if (!TRASH_TABLES.includes(table)) {
+      return res.status(404).json({ message: 'Not found in the trash' });
+    }
+
+    let restored;
+    try {
+      restored = await withTransaction(async (client) => {
+        const record = await restoreFromTrash(client, table, id);
+
+        await client.query(`
+          INSERT INTO audit_logs (user_id, action, table_name, record_id, new_values)
+          VALUES ($1, $2, $3, $4, $5)
+        `, [req.user.id, 'RESTORE', table, id, JSON.stringify(record)]);
+
+        return record;
+      });
+    } catch (error) {
+      if (error instanceof RestoreConflictError) {
+        return res.status(409).json({ message: error.message, ...error.details });
+      }
+      if (!isBookingOverlapError(error)) throw error;
+      const booking = await dbGet('SELECT apartment_id, check_in, check_out FROM bookings WHERE id = $1', [id]);
+      return res.status(409).json(await describeBookingConflict(booking.apartment_id, booking.check_in, booking.check_out));
+    }
+
+    const record = await broadcastRestored(table, restored.id, req.user.id);
+
+    res.json({ message: 'Restored successfully', table, record });
+  } catch (error) {
+    console.error('Restore from trash error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Permanently delete an item in the trash (admin only)
+router.delete('/:table/:id', hasPermission('admin'), async (req, res) => {
+  try {
+    const { table, id } = req.params;
+
+    if (!TRASH_TABLES.includes(table)) {
+      return res.status(404).json({ message: 'Not found in the trash' });
+    }
+
+    await withTransaction(client => purgeRecord(client, table, id, req.user.id));
+
+    res.json({ message: 'Permanently deleted' });
+  } catch (error) {
+    if (error instanceof TrashRequestError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Purge from trash error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+
+// Sync external iCal feeds once, outside the server's schedule.
+//
+//   node server/scripts/sync-external-calendars.js
+//   ALLOW_FILE_CALENDARS=1 node server/scripts/sync-external-calendars.js --preview file:///path/to/feed.ics
+//
+// --preview only fetches and parses a feed (a local fixture or a local HTTP
+// stand-in work too) and prints the bookings it would create. Local files
+// are only read with ALLOW_FILE_CALENDARS=1.
+
+import { db } from '../database/init.js';
+import { fetchCalendarText, syncAllExternalCalendars } from '../services/externalCalendars.js';
+import { parseCalendar } from '../services/ical.js';
+
+async function runSync() {
+  const previewIndex = process.argv.indexOf('--preview');
+
+  try {
+    if (previewIndex !== -1) {
+      const url = process.argv[previewIndex + 1];
+      if (!url) {
+        throw new Error('Usage: --preview <calendar url>');
+      }
+
+      const events = parseCalendar(await fetchCalendarText(url));
+      console.log(`${events.length} events found:`);
+      for (const event of events) {
+        console.log(`- ${event.start.toISOString()} -> ${event.end.toISOString()} ${event.summary || ''} (${event.uid})`);
+      }
+    } else {
+      console.log('Syncing external calendars...');
+      const results = await syncAllExternalCalendars();
+      for (const result of results) {
+        console.log(result.error
+          ? `- ${result.id}: failed (${result.error})`
+          : `- ${result.id}: ${result.created} created, ${result.updated} updated, ${result.removed} removed, ${result.conflicts.length} conflicts`);
+      }
+      console.log('Sync completed');
+    }
+    process.exitCode = 0;
+  } catch (error) {
+    console.error('Sync failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await db.end();
+  }
+}
+
+runSync();
@@ -0,0 +1,75 @@
+// Apartment payloads, typed attributes and sleeping capacity.
+//
+// An apartment's capacity is its max_guests when set, otherwise what its
+// beds sleep. Apartments with neither have no known capacity and accept any
+// party. A booking's party is its adults plus its children.
+
+export const BED_TYPES = ['single', 'double', 'sofa_bed', 'bunk', 'cot'];
+
+const BED_SLEEPS = {
+  single: 1,
+  double: 2,
+  sofa_bed: 2,
+  bunk: 2,
+  cot: 1
+};
+
+// API attribute name -> apartments column. Unknown attributes are NULL.
+export const ATTRIBUTE_COLUMNS = {
+  bedrooms: 'bedrooms',
+  floor: 'floor',
+  hasElevator: 'has_elevator',
+  wheelchairAccessible: 'wheelchair_accessible',
+  clinicDistanceM: 'clinic_distance_m',
+  address: 'address',
+  latitude: 'latitude',
+  longitude: 'longitude'
+};
+
+// Convert an apartments row (JSON text columns) to the API format
+export const formatApartment = (apartment) => ({
+  ...apartment,
+  properties: JSON.parse(apartment.properties || '[]'),
+  beds: JSON.parse(apartment.beds || '[]'),
+  isFavorite: Boolean(apartment.is_favorite),
+  maxGuests: apartment.max_guests ?? null,
+  attributes: Object.fromEntries(
+    Object.entries(ATTRIBUTE_COLUMNS).map(([attribute, column]) => [attribute, apartment[column] ?? null])
+  )
+});
+
+// Filters from /available-apartments. An apartment whose attribute is unknown
+// does not match a filter on it.
+export const matchesAttributeFilters = (apartment, filters) => {
+  const { min_bedrooms, max_floor, elevator, wheelchair_accessible, max_clinic_distance_m } = filters;
+
+  if (min_bedrooms !== undefined && !(apartment.bedrooms !== null && apartment.bedrooms >= min_bedrooms)) return false;
+  if (max_floor !== undefined && !(apartment.floor !== null && apartment.floor <= max_floor)) return false;
+  if (elevator && apartment.has_elevator !== true) return false;
+  if (wheelchair_accessible && apartment.wheelchair_accessible !== true) return false;
+  if (max_clinic_distance_m !== undefined &&
+    !(apartment.clinic_distance_m !== null && apartment.clinic_distance_m <= max_clinic_distance_m)) return false;
+
+  return true;
+};
+
+// Accepts a row or a formatted apartment
+export const getApartmentCapacity = (apartment) => {
+  if (apartment.max_guests) return apartment.max_guests;
+
+  const beds = typeof apartment.beds === 'string' ? JSON.parse(apartment.beds || '[]') : apartment.beds || [];
+  const sleeps = beds.reduce((total, bed) => total + (BED_SLEEPS[bed.type] || 0) * bed.count, 0);
+  return sleeps > 0 ? sleeps : null;
+};
+
+export const getPartySize = (booking) => Number(booking.adults ?? 1) + Number(booking.children ?? 0);
+
+export const fitsParty = (apartment, partySize) => {
+  const capacity = getApartmentCapacity(apartment);
+  return capacity === null || partySize <= capacity;
+};
+
+export const describeOverCapacity = (apartment, partySize) => {
+  const capacity = getApartmentCapacity(apartment);
+  return `A party of ${partySize} exceeds the capacity of ${apartment.name} (${capacity} guest${capacity === 1 ? '' : 's'})`;
+};
@@ -0,0 +1,66 @@
+import { dbRun } from '../database/init.js';
+import { toDateKey } from './dates.js';
+
+// Treatment appointments scheduled at the clinic during a patient's stay.
+//
+// A stay must cover every appointment: each appointment is scheduled between
+// check-in and check-out (both inclusive).
+
+export const APPOINTMENT_TYPES = [
+  'consultation',
+  'implant_surgery',
+  'extraction',
+  'follow_up',
+  'prosthetic_fitting',
+  'other'
+];
+
+// Select column for queries that alias bookings as "b"
+export const APPOINTMENTS_COLUMN = `
+  COALESCE((
+    SELECT json_agg(json_build_object(
+      'id', ta.id,
+      'scheduled_at', ta.scheduled_at,
+      'type', ta.type,
+      'doctor', ta.doctor,
+      'notes', ta.notes
+    ) ORDER BY ta.scheduled_at)
+    FROM treatment_appointments ta WHERE ta.booking_id = b.id
+  ), '[]') as appointments
+`;
+
+// First appointment outside the stay, or null when all are covered
+export const findUncoveredAppointment = (checkIn, checkOut, appointments = []) => {
+  const start = new Date(checkIn).getTime();
+  const end = new Date(checkOut).getTime();
+
+  return appointments.find(appointment => {
+    const time = new Date(appointment.scheduled_at).getTime();
+    return time < start || time > end;
+  }) || null;
+};
+
+export const describeUncoveredAppointment = (appointment) => {
+  return `The stay must cover every treatment appointment (${appointment.type.replace(/_/g, ' ')} on ${toDateKey(appointment.scheduled_at)})`;
+};
+
+// Replace a booking's appointments with the given list
+export const saveAppointments = async (bookingId, appointments, client = null) => {
+  const run = (sql, params) => (client ? client.query(sql, params) : dbRun(sql, params));
+
+  await run('DELETE FROM treatment_appointments WHERE booking_id = $1', [bookingId]);
+
+  for (const appointment of appointments) {
+    await run(`
+      INSERT INTO treatment_appointments (id, booking_id, scheduled_at, type, doctor, notes)
+      VALUES ($1, $2, $3, $4, $5, $6)
+    `, [
+      appointment.id,
+      bookingId,
+      new Date(appointment.scheduled_at),
+      appointment.type,
+      appointment.doctor || null,
+      appointment.notes || null
+    ]);
+  }
+};
@@ -0,0 +1,37 @@
+// Reading the audit trail. Every mutation inserts an audit_logs row with the
+// record's values before (old_values) and/or after (new_values) as JSON
+// text; UPDATE rows usually hold the whole old record but only the changed
+// fields as new values. DELETE rows of bookings and apartments also hold the
+// rows the deletion cascaded to, under _cascade (see restore.js).
+
+// Tables whose per-record history managers may read; the full log is admin only
+export const HISTORY_TABLES = ['bookings', 'apartments'];
+
+// Never sent to the browser, whichever table they were logged for
+const REDACTED_FIELDS = ['password', 'password_hash', 'token', 'refresh_token', 'token_hash'];
+
+// Also redacts rows nested in the values, like the cascaded rows of a deletion
+const redact = (values) => {
+  if (Array.isArray(values)) return values.map(redact);
+  if (!values || typeof values !== 'object') return values;
+  return Object.fromEntries(Object.entries(values).map(([field, value]) => [
+    field,
+    REDACTED_FIELDS.includes(field) ? '[redacted]' : redact(value)
+  ]));
+};
+
+const parseValues = (text) => {
+  if (!text) return null;
+  try {
+    return redact(JSON.parse(text));
+  } catch {
+    return text;
+  }
+};
+
+// Row (joined with users.username) to the API format
+export const formatAuditLog = (log) => ({
+  ...log,
+  old_values: parseValues(log.old_values),
+  new_values: parseValues(log.new_values)
+});
@@ -0,0 +1,257 @@
+import { isActiveStatus } from './bookingStatus.js';
+import { getNightKeys } from './dates.js';
+import { getMinimumStay } from './pricing.js';
+import { getApartmentCapacity, getPartySize } from './apartments.js';
+
+// Auto-assignment planner.
+//
+// Bookings are intervals and apartments are the colours of an interval
+// graph. Each apartment keeps a timeline of occupied intervals (blocks and
+// bookings). Unassigned bookings are first placed greedily in check-in order
+// into the apartment they fit most tightly, preferring favorites and stays
+// that continue the same guest's previous stay.
+//
+// Capacities, minimum stays and blocks limit which apartments a booking may
+// use, and with those limits greedy colouring can miss a packing that places
+// everything. So when the greedy pass leaves bookings over, a branch-and-bound
+// search tries every placement of the movable bookings, in check-in order and
+// cheapest apartment first, for one that places more. It is exact unless a
+// very crowded calendar exhausts its step budget; then the best placement
+// found so far is used.
+
+const DAY = 24 * 60 * 60 * 1000;
+const MAX_GAP_DAYS = 30; // Longer gaps count as an empty calendar
+const MAX_SEARCH_STEPS = 100000;
+
+// Costs are measured in idle nights
+const FAVORITE_BONUS = 7;
+const CONTINUITY_BONUS = 10;
+
+// Only stays that have not started yet may be moved to another apartment.
+// External bookings always stay where their platform put them.
+const RESHUFFLE_STATUSES = ['tentative', 'confirmed'];
+
+const overlaps = (a, b) => a.start < b.end && a.end > b.start;
+
+const normalizeGuest = (name) => (name || '').trim().toLowerCase();
+
+const gapDays = (from, to) => Math.min(Math.max(0, (to - from) / DAY), MAX_GAP_DAYS);
+
+const cloneTimelines = (timelines) => {
+  const copy = new Map();
+  for (const [apartmentId, entries] of timelines) {
+    copy.set(apartmentId, [...entries]);
+  }
+  return copy;
+};
+
+// Total idle nights between consecutive stays, ignoring long empty stretches
+const countIdleGapNights = (timelines) => {
+  let total = 0;
+  for (const entries of timelines.values()) {
+    const sorted = entries.filter(entry => entry.bookingId).sort((a, b) => a.start - b.start);
+    for (let i = 1; i < sorted.length; i++) {
+      const gap = (sorted[i].start - sorted[i - 1].end) / DAY;
+      if (gap > 0 && gap < MAX_GAP_DAYS) {
+        total += Math.round(gap);
+      }
+    }
+  }
+  return total;
+};
+
+export const planAssignments = ({ apartments, bookings, blocks = [], ratePlans = [], allowReshuffle = false, now = new Date() }) => {
+  const apartmentIds = new Set(apartments.map(apartment => apartment.id));
+  const favoriteIds = new Set(apartments.filter(apartment => apartment.is_favorite).map(apartment => apartment.id));
+  const apartmentOrder = [...apartments].sort((a, b) => a.name.localeCompare(b.name)).map(apartment => apartment.id);
+  const ratePlansByApartment = new Map(ratePlans.map(ratePlan => [ratePlan.apartment_id, ratePlan]));
+  const capacities = new Map(apartments.map(apartment => [apartment.id, getApartmentCapacity(apartment)]));
+
+  let timelines = new Map(apartmentOrder.map(id => [id, []]));
+
+  const toEntry = (booking, movable) => ({
+    bookingId: booking.id,
+    guest: normalizeGuest(booking.guest_name),
+    start: new Date(booking.check_in).getTime(),
+    end: new Date(booking.check_out).getTime(),
+    nights: getNightKeys(booking.check_in, booking.check_out).length,
+    partySize: getPartySize(booking),
+    movable
+  });
+
+  for (const block of blocks) {
+    if (!apartmentIds.has(block.apartment_id)) continue;
+    timelines.get(block.apartment_id).push({
+      bookingId: null,
+      guest: null,
+      start: new Date(block.start_date).getTime(),
+      end: new Date(block.end_date).getTime(),
+      movable: false
+    });
+  }
+
+  const pending = [];
+  const originalApartment = new Map();
+
+  for (const booking of bookings) {
+    if (!isActiveStatus(booking.status) || booking.temporary_apartment) continue;
+
+    originalApartment.set(booking.id, booking.apartment_id || null);
+
+    if (!booking.apartment_id) {
+      pending.push(toEntry(booking, true));
+    } else if (apartmentIds.has(booking.apartment_id)) {
+      const movable = allowReshuffle &&
+        booking.source !== 'external' &&
+        RESHUFFLE_STATUSES.includes(booking.status) &&
+        new Date(booking.check_in) > now;
+      timelines.get(booking.apartment_id).push(toEntry(booking, movable));
+    }
+  }
+
+  const idleGapNightsBefore = countIdleGapNights(timelines);
+
+  // Whether the apartment could take the stay at all, ignoring its calendar
+  const suits = (apartmentId, entry) => {
+    const capacity = capacities.get(apartmentId);
+    if (capacity !== null && entry.partySize > capacity) {
+      return false;
+    }
+    const ratePlan = ratePlansByApartment.get(apartmentId);
+    return !(ratePlan && entry.nights < getMinimumStay(ratePlan, entry.start));
+  };
+
+  const fits = (apartmentId, entry) =>
+    suits(apartmentId, entry) && !timelines.get(apartmentId).some(existing => overlaps(existing, entry));
+
+  // Lower is better: tight fits leave fewer idle nights around the stay
+  const placementCost = (apartmentId, entry) => {
+    let previous = null;
+    let next = null;
+
+    for (const existing of timelines.get(apartmentId)) {
+      if (existing.end <= entry.start && (!previous || existing.end > previous.end)) {
+        previous = existing;
+      }
+      if (existing.start >= entry.end && (!next || existing.start < next.start)) {
+        next = existing;
+      }
+    }
+
+    let cost = (previous ? gapDays(previous.end, entry.start) : MAX_GAP_DAYS) +
+      (next ? gapDays(entry.end, next.start) : MAX_GAP_DAYS);
+
+    if (favoriteIds.has(apartmentId)) {
+      cost -= FAVORITE_BONUS;
+    }
+
+    // Keep a returning guest in the apartment they are already staying in
+    const continues = (neighbour, gap) => neighbour && neighbour.guest && neighbour.guest === entry.guest && gap < 1;
+    if (continues(previous, previous && gapDays(previous.end, entry.start)) ||
+        continues(next, next && gapDays(entry.end, next.start))) {
+      cost -= CONTINUITY_BONUS;
+    }
+
+    return cost;
+  };
+
+  const placeBest = (entry) => {
+    let bestApartment = null;
+    let bestCost = Infinity;
+
+    for (const apartmentId of apartmentOrder) {
+      if (!fits(apartmentId, entry)) continue;
+      const cost = placementCost(apartmentId, entry);
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestApartment = apartmentId;
+      }
+    }
+
+    if (bestApartment) {
+      timelines.get(bestApartment).push(entry);
+    }
+    return bestApartment;
+  };
+
+  // Earlier check-ins first, longer stays first on the same day
+  const byCheckIn = (a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start);
+  pending.sort(byCheckIn);
+
+  let unplaced = pending.filter(entry => !placeBest(entry));
+
+  if (unplaced.length > 0) {
+    const greedyTimelines = cloneTimelines(timelines);
+
+    // Movable bookings, including the pending ones the greedy pass placed,
+    // are placed again from scratch; only pending ones may be left unassigned
+    const movable = [];
+    for (const [apartmentId, entries] of timelines) {
+      movable.push(...entries.filter(entry => entry.movable));
+      timelines.set(apartmentId, entries.filter(entry => !movable.includes(entry)));
+    }
+    const entries = [...movable, ...unplaced].sort(byCheckIn);
+    const canSkip = (entry) => !originalApartment.get(entry.bookingId);
+
+    let best = { placed: entries.length - unplaced.length, timelines: null, unplaced };
+    let steps = 0;
+
+    const search = (index, placed, skipped) => {
+      if (++steps > MAX_SEARCH_STEPS || best.unplaced.length === 0) return;
+      if (placed + entries.length - index <= best.placed) return;
+
+      if (index === entries.length) {
+        best = { placed, timelines: cloneTimelines(timelines), unplaced: [...skipped] };
+        return;
+      }
+
+      const entry = entries[index];
+      const candidates = apartmentOrder
+        .filter(apartmentId => fits(apartmentId, entry))
+        .map(apartmentId => ({ apartmentId, cost: placementCost(apartmentId, entry) }))
+        .sort((a, b) => a.cost - b.cost);
+
+      for (const { apartmentId } of candidates) {
+        const timeline = timelines.get(apartmentId);
+        timeline.push(entry);
+        search(index + 1, placed + 1, skipped);
+        timeline.pop();
+      }
+
+      if (canSkip(entry)) {
+        skipped.push(entry);
+        search(index + 1, placed, skipped);
+        skipped.pop();
+      }
+    };
+
+    search(0, 0, []);
+
+    timelines = best.timelines || greedyTimelines;
+    unplaced = best.unplaced;
+  }
+
+  const finalApartment = new Map();
+  for (const [apartmentId, entries] of timelines) {
+    for (const entry of entries) {
+      if (entry.bookingId) {
+        finalApartment.set(entry.bookingId, apartmentId);
+      }
+    }
+  }
+
+  const changes = [];
+  for (const [bookingId, fromApartmentId] of originalApartment) {
+    const toApartmentId = finalApartment.get(bookingId) || null;
+    if (toApartmentId && toApartmentId !== fromApartmentId) {
+      changes.push({ bookingId, fromApartmentId, toApartmentId });
+    }
+  }
+
+  return {
+    changes,
+    unassignedBookingIds: unplaced.map(entry => entry.bookingId),
+    idleGapNightsBefore,
+    idleGapNightsAfter: countIdleGapNights(timelines)
+  };
+};
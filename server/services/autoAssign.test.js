@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { planAssignments } from './autoAssign.js';
+
+const apartment = (id, maxGuests) => ({ id, name: id, max_guests: maxGuests, beds: [] });
+
+const booking = (id, checkIn, checkOut, adults, apartmentId = null) => ({
+  id,
+  guest_name: `Guest ${id}`,
+  check_in: `${checkIn}T00:00:00Z`,
+  check_out: `${checkOut}T00:00:00Z`,
+  adults,
+  children: 0,
+  status: 'confirmed',
+  source: 'manual',
+  apartment_id: apartmentId
+});
+
+const assignments = (plan) => Object.fromEntries(plan.changes.map(change => [change.bookingId, change.toApartmentId]));
+
+describe('planAssignments', () => {
+  it('places every booking when the greedy pass takes the only apartment a later one fits', () => {
+    // The small party checks in first and takes the large apartment, which
+    // comes first by name
+    const plan = planAssignments({
+      apartments: [apartment('A', 4), apartment('B', 2)],
+      bookings: [
+        booking('small', '2027-01-01', '2027-01-05', 2),
+        booking('large', '2027-01-02', '2027-01-04', 4)
+      ]
+    });
+
+    expect(plan.unassignedBookingIds).toEqual([]);
+    expect(assignments(plan)).toEqual({ small: 'B', large: 'A' });
+  });
+
+  it('finds packings that need a long chain of moves', () => {
+    // Each party fits its own apartment and the larger ones; the greedy pass
+    // fills the largest apartments first
+    const plan = planAssignments({
+      apartments: [apartment('A', 5), apartment('B', 4), apartment('C', 3), apartment('D', 2)],
+      bookings: [
+        booking('two', '2027-01-01', '2027-01-08', 2),
+        booking('three', '2027-01-02', '2027-01-08', 3),
+        booking('four', '2027-01-03', '2027-01-08', 4),
+        booking('five', '2027-01-04', '2027-01-08', 5)
+      ]
+    });
+
+    expect(plan.unassignedBookingIds).toEqual([]);
+    expect(assignments(plan)).toEqual({ two: 'D', three: 'C', four: 'B', five: 'A' });
+  });
+
+  it('only moves stays that may be reshuffled', () => {
+    const apartments = [apartment('A', 4), apartment('B', 2)];
+    const bookings = [
+      booking('small', '2027-01-01', '2027-01-05', 2, 'A'),
+      booking('large', '2027-01-02', '2027-01-04', 4)
+    ];
+    const now = new Date('2026-12-01T00:00:00Z');
+
+    expect(planAssignments({ apartments, bookings, now }).unassignedBookingIds).toEqual(['large']);
+
+    const plan = planAssignments({ apartments, bookings, allowReshuffle: true, now });
+    expect(plan.unassignedBookingIds).toEqual([]);
+    expect(plan.changes).toEqual([
+      { bookingId: 'small', fromApartmentId: 'A', toApartmentId: 'B' },
+      { bookingId: 'large', fromApartmentId: null, toApartmentId: 'A' }
+    ]);
+  });
+
+  it('leaves over as few bookings as possible when not all of them fit', () => {
+    const plan = planAssignments({
+      apartments: [apartment('A', 4), apartment('B', 2)],
+      bookings: [
+        booking('first', '2027-01-01', '2027-01-05', 2),
+        booking('second', '2027-01-02', '2027-01-04', 4),
+        booking('third', '2027-01-03', '2027-01-06', 4)
+      ]
+    });
+
+    expect(plan.unassignedBookingIds).toHaveLength(1);
+    expect(plan.changes).toHaveLength(2);
+  });
+});
@@ -0,0 +1,79 @@
+import { dbGet, dbAll } from '../database/init.js';
+import { activeBookingCondition } from './bookingStatus.js';
+
+// Two stays overlap when each one starts before the other ends, so a
+// check-out and a check-in on the same day do not conflict.
+
+// Find an active booking in the apartment that overlaps the given range
+export const findOverlappingBooking = async (apartmentId, checkIn, checkOut, excludeBookingId = null, client = null) => {
+  const sql = `
+    SELECT * FROM bookings
+    WHERE apartment_id = $1
+    AND ${activeBookingCondition()}
+    AND check_in < $3 AND check_out > $2
+    AND ($4::varchar IS NULL OR id != $4)
+    LIMIT 1
+  `;
+  const params = [apartmentId, checkIn, checkOut, excludeBookingId];
+  return client ? (await client.query(sql, params)).rows[0] : dbGet(sql, params);
+};
+
+// Exclusion constraint on active manual bookings; see migrate-booking-overlaps.js
+export const BOOKING_OVERLAP_CONSTRAINT = 'bookings_no_overlap';
+
+export const isBookingOverlapError = (error) => {
+  return error?.code === '23P01' && error.constraint === BOOKING_OVERLAP_CONSTRAINT;
+};
+
+// The 409 body for a stay that overlaps another booking. After a constraint
+// violation the other booking has committed, so this finds it.
+export const describeBookingConflict = async (apartmentId, checkIn, checkOut, excludeBookingId = null) => ({
+  message: 'Apartment is not available for the selected dates',
+  conflictingBooking: await findOverlappingBooking(apartmentId, checkIn, checkOut, excludeBookingId)
+});
+
+// PostgreSQL prints a range bound as "2026-03-05 00:00:00+00"
+const parseRangeBound = (value) => new Date(value.replace(' ', 'T').replace(/([+-]\d\d)$/, '$1:00'));
+
+// The two stays named in an overlap violation's detail, which reads
+// Key (apartment_id, tstzrange(...))=(<apartment>, ["<from>","<to>")) conflicts with existing key (...)=(...)
+export const parseBookingOverlapDetail = (detail) => {
+  const keys = [...(detail || '').matchAll(/=\((.+?), [[(]"([^"]+)","([^"]+)"[)\]]\)/g)]
+    .map(([, apartmentId, checkIn, checkOut]) => ({
+      apartmentId,
+      checkIn: parseRangeBound(checkIn),
+      checkOut: parseRangeBound(checkOut)
+    }));
+  if (keys.length !== 2 || keys.some(key => isNaN(key.checkIn) || isNaN(key.checkOut))) return null;
+
+  const [stay, existing] = keys;
+  return { stay, existing };
+};
+
+// Find a maintenance, cleaning or owner block that overlaps the given range
+export const findOverlappingBlock = async (apartmentId, startDate, endDate, excludeBlockId = null, client = null) => {
+  const sql = `
+    SELECT * FROM apartment_blocks
+    WHERE apartment_id = $1
+    AND start_date < $3 AND end_date > $2
+    AND ($4::varchar IS NULL OR id != $4)
+    LIMIT 1
+  `;
+  const params = [apartmentId, startDate, endDate, excludeBlockId];
+  return client ? (await client.query(sql, params)).rows[0] : dbGet(sql, params);
+};
+
+// IDs of apartments that have an active booking or a block overlapping the given range
+export const getUnavailableApartmentIds = async (checkIn, checkOut) => {
+  const rows = await dbAll(`
+    SELECT apartment_id FROM bookings
+    WHERE apartment_id IS NOT NULL
+    AND ${activeBookingCondition()}
+    AND check_in < $2 AND check_out > $1
+    UNION
+    SELECT apartment_id FROM apartment_blocks
+    WHERE start_date < $2 AND end_date > $1
+  `, [checkIn, checkOut]);
+
+  return rows.map(row => row.apartment_id);
+};
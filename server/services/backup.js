@@ -0,0 +1,694 @@
+import bcrypt from 'bcryptjs';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import { dbAll, withTransaction } from '../database/init.js';
+import { BOOKING_STATUSES, activeBookingCondition, isActiveStatus } from './bookingStatus.js';
+import { PAYMENT_METHODS, PAYMENT_TYPES } from './payments.js';
+import { APPOINTMENT_TYPES } from './appointments.js';
+import { GUEST_COLUMNS } from './guests.js';
+
+// The backup file format. Each table's rows are stored with their database
+// columns (JSON text columns as JSON), validated with the schemas below on
+// import. Older files are upgraded one version at a time before validation.
+
+export const BACKUP_VERSION = '2.0';
+
+export class BackupFormatError extends Error {
+  constructor(message, issues = []) {
+    super(message);
+    this.issues = issues;
+  }
+}
+
+// Thrown inside the import transaction to roll a dry run back
+class DryRunRollback extends Error {
+  constructor(result) {
+    super('Dry run');
+    this.result = result;
+  }
+}
+
+const timestamp = z.union([z.string(), z.date()]).transform((value, ctx) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid date' });
+    return z.NEVER;
+  }
+  return date.toISOString();
+});
+
+const nullable = (schema) => schema.nullish().transform(value => value ?? null);
+
+// PostgreSQL returns NUMERIC columns as strings
+const decimal = z.union([z.number(), z.string()]).pipe(z.coerce.number().finite());
+const integer = z.union([z.number(), z.string()]).pipe(z.coerce.number().int());
+
+// Booleans from before the boolean migration may be 0/1
+const flag = z.union([z.boolean(), z.number()]).transform(Boolean);
+
+// Columns stored as JSON text, which exports as parsed JSON
+const jsonText = (schema) => z.preprocess(value => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}, schema);
+const jsonList = jsonText(z.array(z.unknown())).nullish().transform(value => value ?? []);
+
+const id = z.string().min(1);
+const userRef = nullable(z.number().int());
+const createdAt = nullable(timestamp).transform(value => value ?? new Date().toISOString());
+
+// Invoice PDFs format amounts with Intl.NumberFormat, which rejects anything else
+const currency = z.string().regex(/^[A-Za-z]{3}$/, 'Invalid currency code');
+
+const schemas = {
+  users: z.object({
+    id: z.number().int(),
+    username: z.string().min(1),
+    email: z.string().min(1),
+    role: z.enum(['admin', 'manager', 'viewer']).default('viewer'),
+    active: flag.default(true),
+    created_at: createdAt,
+    last_login: nullable(timestamp)
+  }),
+  apartments: z.object({
+    id,
+    name: z.string().min(1),
+    properties: jsonList,
+    is_favorite: flag.default(false),
+    max_guests: nullable(integer.pipe(z.number().positive())),
+    beds: jsonList,
+    bedrooms: nullable(integer.pipe(z.number().nonnegative())),
+    floor: nullable(integer),
+    has_elevator: nullable(flag),
+    wheelchair_accessible: nullable(flag),
+    clinic_distance_m: nullable(integer.pipe(z.number().nonnegative())),
+    address: nullable(z.string()),
+    latitude: nullable(decimal.pipe(z.number().min(-90).max(90))),
+    longitude: nullable(decimal.pipe(z.number().min(-180).max(180))),
+    created_by: userRef,
+    created_at: createdAt,
+    updated_at: createdAt,
+    deleted_at: nullable(timestamp),
+    deleted_by: userRef
+  }),
+  ratePlans: z.object({
+    id,
+    apartment_id: id,
+    currency: currency.default('EUR'),
+    base_price: decimal.pipe(z.number().nonnegative()),
+    weekend_price: nullable(decimal.pipe(z.number().nonnegative())),
+    min_stay: integer.pipe(z.number().min(1)).default(1),
+    seasons: jsonList,
+    created_by: userRef,
+    created_at: createdAt,
+    updated_at: createdAt
+  }),
+  externalCalendars: z.object({
+    id,
+    apartment_id: id,
+    url: z.string().min(1),
+    label: nullable(z.string()),
+    last_synced_at: nullable(timestamp),
+    last_error: nullable(z.string()),
+    created_by: userRef,
+    created_at: createdAt,
+    updated_at: createdAt
+  }),
+  guests: z.object({
+    id,
+    full_name: z.string().min(1),
+    email: nullable(z.string()),
+    phone: nullable(z.string()),
+    nationality: nullable(z.string().max(2)),
+    passport_number: nullable(z.string()),
+    date_of_birth: nullable(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD')),
+    notes: nullable(z.string()),
+    created_by: userRef,
+    created_at: createdAt,
+    updated_at: createdAt
+  }),
+  bookings: z.object({
+    id,
+    guest_name: z.string().min(1),
+    guest_id: nullable(id),
+    adults: integer.pipe(z.number().min(1)).default(1),
+    children: integer.pipe(z.number().nonnegative()).default(0),
+    companions: z.array(z.string()).nullish().transform(value => value ?? []),
+    check_in: timestamp,
+    check_out: timestamp,
+    apartment_id: nullable(id),
+    temporary_apartment: nullable(z.string()),
+    status: z.enum(BOOKING_STATUSES).default('confirmed'),
+    source: z.enum(['manual', 'external']).default('manual'),
+    external_calendar_id: nullable(id),
+    external_uid: nullable(z.string()),
+    total_price: nullable(decimal),
+    currency: nullable(currency),
+    price_breakdown: nullable(jsonText(z.record(z.unknown()))),
+    created_by: userRef,
+    created_at: createdAt,
+    updated_at: createdAt,
+    deleted_at: nullable(timestamp),
+    deleted_by: userRef
+  }),
+  payments: z.object({
+    id,
+    booking_id: id,
+    type: z.enum(PAYMENT_TYPES).default('payment'),
+    amount: decimal.pipe(z.number().positive()),
+    currency,
+    method: z.enum(PAYMENT_METHODS).default('other'),
+    paid_at: timestamp,
+    notes: nullable(z.string()),
+    recorded_by: userRef,
+    created_at: createdAt
+  }),
+  treatmentAppointments: z.object({
+    id,
+    booking_id: id,
+    scheduled_at: timestamp,
+    type: z.enum(APPOINTMENT_TYPES).default('other'),
+    doctor: nullable(z.string()),
+    notes: nullable(z.string()),
+    created_at: createdAt
+  }),
+  invoices: z.object({
+    id,
+    invoice_number: z.string().min(1),
+    guest_name: z.string().min(1),
+    currency,
+    line_items: jsonList,
+    subtotal: decimal,
+    tax_rate: decimal.default(0),
+    tax_amount: decimal.default(0),
+    total: decimal,
+    paid_at: nullable(timestamp),
+    issued_by: userRef,
+    issued_at: createdAt,
+    booking_ids: z.array(id).default([])
+  }),
+  invoiceSequences: z.object({
+    year: integer,
+    last_number: integer
+  }),
+  apartmentBlocks: z.object({
+    id,
+    apartment_id: id,
+    start_date: timestamp,
+    end_date: timestamp,
+    type: z.enum(['maintenance', 'cleaning', 'owner_use']),
+    reason: nullable(z.string()),
+    created_by: userRef,
+    created_at: createdAt,
+    updated_at: createdAt
+  })
+};
+
+const backupSchema = z.object({
+  version: z.literal(BACKUP_VERSION),
+  exported_at: nullable(timestamp),
+  exported_by: nullable(z.string()),
+  data: z.object({
+    ...Object.fromEntries(Object.entries(schemas).map(([key, schema]) => [key, z.array(schema).default([])])),
+    // Exported for reference, never imported
+    auditLogs: z.array(z.unknown()).default([])
+  })
+});
+
+// How each backup table maps onto the database, in import order (parents
+// first). update lists the columns an existing row takes from the backup;
+// invoices are snapshots, so only their payment date changes.
+const TABLES = [
+  {
+    key: 'apartments',
+    table: 'apartments',
+    label: row => row.name,
+    json: ['properties', 'beds'],
+    update: [
+      'name', 'properties', 'is_favorite', 'max_guests', 'beds', 'bedrooms', 'floor', 'has_elevator',
+      'wheelchair_accessible', 'clinic_distance_m', 'address', 'latitude', 'longitude', 'updated_at',
+      'deleted_at', 'deleted_by'
+    ]
+  },
+  {
+    key: 'ratePlans',
+    table: 'rate_plans',
+    label: row => row.apartment_id,
+    json: ['seasons'],
+    references: { apartment_id: 'apartments' },
+    unique: [['apartment_id']],
+    update: ['currency', 'base_price', 'weekend_price', 'min_stay', 'seasons', 'updated_at']
+  },
+  {
+    key: 'externalCalendars',
+    table: 'external_calendars',
+    label: row => row.label || row.url,
+    references: { apartment_id: 'apartments' },
+    update: ['apartment_id', 'url', 'label', 'last_synced_at', 'last_error', 'updated_at']
+  },
+  {
+    key: 'guests',
+    table: 'guests',
+    select: `SELECT ${GUEST_COLUMNS} FROM guests g`,
+    label: row => row.full_name,
+    update: ['full_name', 'email', 'phone', 'nationality', 'passport_number', 'date_of_birth', 'notes', 'updated_at']
+  },
+  {
+    key: 'bookings',
+    table: 'bookings',
+    label: row => row.guest_name,
+    json: ['price_breakdown'],
+    references: { apartment_id: 'apartments', external_calendar_id: 'external_calendars' },
+    optionalReferences: { guest_id: 'guests' },
+    unique: [['external_calendar_id', 'external_uid']],
+    update: [
+      'guest_name', 'guest_id', 'adults', 'children', 'companions', 'check_in', 'check_out', 'apartment_id',
+      'temporary_apartment', 'status', 'source', 'external_calendar_id', 'external_uid', 'total_price',
+      'currency', 'price_breakdown', 'updated_at', 'deleted_at', 'deleted_by'
+    ]
+  },
+  {
+    key: 'payments',
+    table: 'payments',
+    label: row => `${row.type} ${row.amount} ${row.currency}`,
+    references: { booking_id: 'bookings' },
+    update: ['type', 'amount', 'currency', 'method', 'paid_at', 'notes']
+  },
+  {
+    key: 'treatmentAppointments',
+    table: 'treatment_appointments',
+    label: row => row.type,
+    references: { booking_id: 'bookings' },
+    update: ['scheduled_at', 'type', 'doctor', 'notes']
+  },
+  {
+    key: 'invoices',
+    table: 'invoices',
+    label: row => row.invoice_number,
+    json: ['line_items'],
+    unique: [['invoice_number']],
+    update: ['paid_at']
+  },
+  {
+    key: 'invoiceSequences',
+    table: 'invoice_sequences',
+    primaryKey: 'year',
+    label: row => String(row.year),
+    update: ['last_number']
+  },
+  {
+    key: 'apartmentBlocks',
+    table: 'apartment_blocks',
+    label: row => `${row.type} ${row.start_date.slice(0, 10)}`,
+    references: { apartment_id: 'apartments' },
+    update: ['start_date', 'end_date', 'type', 'reason', 'updated_at']
+  }
+];
+
+// Columns that hold a user ID, remapped to this database's users on import
+const USER_COLUMNS = ['created_by', 'deleted_by', 'recorded_by', 'issued_by'];
+
+// Tables emptied by a replace import, children first
+const REPLACE_ORDER = [
+  'invoices', 'payments', 'treatment_appointments', 'bookings', 'guests', 'apartment_blocks',
+  'external_calendars', 'rate_plans', 'apartments'
+];
+
+// Upgrades from each older version to the next one
+const UPGRADES = {
+  // 1.0 exported apartments and bookings in their API format, with camelCase
+  // copies of some columns
+  '1.0': (backup) => {
+    const data = backup.data || {};
+    return {
+      ...backup,
+      version: '2.0',
+      data: {
+        ...data,
+        apartments: (data.apartments || []).map(apartment => ({
+          ...apartment,
+          is_favorite: apartment.is_favorite ?? apartment.isFavorite,
+          max_guests: apartment.max_guests ?? apartment.maxGuests
+        })),
+        bookings: (data.bookings || []).map(booking => ({
+          ...booking,
+          check_in: booking.check_in ?? booking.checkIn,
+          check_out: booking.check_out ?? booking.checkOut
+        })),
+        payments: (data.payments || []).map(payment => ({
+          ...payment,
+          paid_at: payment.paid_at ?? payment.created_at
+        }))
+      }
+    };
+  }
+};
+
+// Upgrade a parsed backup file to the current version and validate it.
+// Throws BackupFormatError listing what is wrong.
+export const parseBackup = (raw) => {
+  if (!raw || typeof raw !== 'object' || !raw.data || !raw.version) {
+    throw new BackupFormatError('Invalid backup file format');
+  }
+
+  let backup = raw;
+  const upgradedFrom = raw.version;
+  while (backup.version !== BACKUP_VERSION) {
+    const upgrade = UPGRADES[backup.version];
+    if (!upgrade) {
+      throw new BackupFormatError(`Unsupported backup version ${backup.version}`);
+    }
+    backup = upgrade(backup);
+  }
+
+  const result = backupSchema.safeParse(backup);
+  if (!result.success) {
+    // A file with a systematic problem would list it for every row
+    throw new BackupFormatError('The backup file does not match the backup format', result.error.issues.slice(0, 100).map(issue => ({
+      path: issue.path.join('.'),
+      message: issue.message
+    })));
+  }
+
+  return { ...result.data, upgradedFrom };
+};
+
+// A database row in the backup format
+const toBackupRow = (spec, row) => {
+  const backupRow = { ...row };
+  for (const column of spec.json || []) {
+    if (typeof backupRow[column] === 'string') backupRow[column] = JSON.parse(backupRow[column]);
+  }
+  return backupRow;
+};
+
+// Every table in the current backup format. Password hashes are left out:
+// backups are downloaded and kept on disk.
+export const buildBackup = async (exportedBy) => {
+  const data = {
+    users: await dbAll('SELECT id, username, email, role, active, created_at, last_login FROM users ORDER BY created_at')
+  };
+
+  for (const spec of TABLES) {
+    const select = spec.select || `SELECT * FROM ${spec.table}`;
+    const rows = await dbAll(`${select} ORDER BY ${spec.primaryKey || 'id'}`);
+    data[spec.key] = rows.map(row => toBackupRow(spec, row));
+  }
+
+  const invoiceBookings = await dbAll('SELECT invoice_id, booking_id FROM invoice_bookings');
+  for (const invoice of data.invoices) {
+    invoice.booking_ids = invoiceBookings.filter(link => link.invoice_id === invoice.id).map(link => link.booking_id);
+  }
+
+  data.auditLogs = await dbAll('SELECT * FROM audit_logs ORDER BY timestamp DESC LIMIT 1000'); // Last 1000 audit logs
+
+  const statistics = {
+    ...Object.fromEntries(Object.entries(data).map(([key, rows]) => [`${key.replace(/s$/, '')}Count`, rows.length])),
+    bookingTotals: data.bookings.reduce((totals, booking) => {
+      if (booking.total_price !== null && booking.currency) {
+        totals[booking.currency] = Math.round(((totals[booking.currency] || 0) + Number(booking.total_price)) * 100) / 100;
+      }
+      return totals;
+    }, {})
+  };
+
+  return {
+    version: BACKUP_VERSION,
+    exported_at: new Date().toISOString(),
+    exported_by: exportedBy,
+    data,
+    statistics
+  };
+};
+
+const emptyTableDiff = () => ({ new: [], changed: [], unchanged: 0, conflicts: [], removed: 0 });
+
+// The fields of an existing row the backup would change, as { from, to }
+const diffFields = (schema, columns, existingRow, backupRow) => {
+  const parsed = schema.safeParse(existingRow);
+  const existing = parsed.success ? parsed.data : existingRow;
+  const changes = {};
+
+  for (const column of columns) {
+    if (JSON.stringify(existing[column] ?? null) !== JSON.stringify(backupRow[column] ?? null)) {
+      changes[column] = { from: existing[column] ?? null, to: backupRow[column] ?? null };
+    }
+  }
+
+  return changes;
+};
+
+// Match backup users to existing ones by username. Returns a map from backup
+// user IDs to IDs in this database. Existing accounts are never changed, so
+// an old backup cannot bring back a rotated password, an old role or a
+// deactivated account. Users missing from the backup are kept in replace
+// mode too, since the audit log refers to them.
+const importUsers = async (client, users, diff) => {
+  const userIds = new Map();
+  const existingUsers = (await client.query('SELECT * FROM users')).rows;
+
+  for (const user of users) {
+    const label = user.username;
+    const existing = existingUsers.find(candidate => candidate.username === user.username);
+    const emailOwner = existingUsers.find(candidate => candidate.email === user.email);
+
+    if (existing) {
+      userIds.set(user.id, existing.id);
+      diff.unchanged++;
+      continue;
+    }
+
+    if (emailOwner) {
+      diff.conflicts.push({ id: user.id, label, reason: `The email ${user.email} belongs to ${emailOwner.username}` });
+      continue;
+    }
+
+    // New accounts are created locked: the password is random and unknown,
+    // and an admin has to set a new one
+    const password = await bcrypt.hash(uuidv4(), 10);
+    const result = await client.query(`
+      INSERT INTO users (username, email, password, role, active, created_at, last_login)
+      VALUES ($1, $2, $3, $4, false, $5, $6)
+      RETURNING *
+    `, [user.username, user.email, password, user.role, user.created_at, user.last_login]);
+    existingUsers.push(result.rows[0]);
+    userIds.set(user.id, result.rows[0].id);
+    diff.new.push({ id: user.id, label, passwordReset: true });
+  }
+
+  return userIds;
+};
+
+const recordExists = async (client, table, id) => {
+  const result = await client.query(`SELECT 1 FROM ${table} WHERE id = $1`, [id]);
+  return result.rows.length > 0;
+};
+
+// Why a row cannot be imported, or null. Rows the database would reject
+// are skipped with a reason instead of failing the whole import.
+const findConflict = async (client, spec, row) => {
+  for (const [column, table] of Object.entries(spec.references || {})) {
+    if (row[column] && !(await recordExists(client, table, row[column]))) {
+      return { reason: `${column} ${row[column]} does not exist` };
+    }
+  }
+
+  for (const columns of spec.unique || []) {
+    if (columns.some(column => row[column] === null)) continue;
+    const result = await client.query(`
+      SELECT id FROM ${spec.table}
+      WHERE ${columns.map((column, index) => `${column} = $${index + 1}`).join(' AND ')} AND id != $${columns.length + 1}
+      LIMIT 1
+    `, [...columns.map(column => row[column]), row.id]);
+    if (result.rows.length > 0) {
+      return { reason: `${columns.join(', ')} is already used by ${result.rows[0].id}` };
+    }
+  }
+
+  // Only what the overlap constraint covers: active manual bookings
+  if (spec.table === 'bookings' && row.apartment_id && row.source === 'manual' &&
+    isActiveStatus(row.status) && !row.deleted_at) {
+    const result = await client.query(`
+      SELECT * FROM bookings
+      WHERE apartment_id = $1 AND source = 'manual' AND ${activeBookingCondition()}
+      AND check_in < $3 AND check_out > $2 AND id != $4
+      LIMIT 1
+    `, [row.apartment_id, row.check_in, row.check_out, row.id]);
+    if (result.rows.length > 0) {
+      return { reason: 'Apartment is not available for the selected dates', conflictingBooking: result.rows[0] };
+    }
+  }
+
+  return null;
+};
+
+// The table's columns; an invoice's bookings are stored in invoice_bookings
+const tableColumns = (spec) => Object.keys(schemas[spec.key].shape).filter(column => column !== 'booking_ids');
+
+const upsertRow = async (client, spec, row) => {
+  const columns = tableColumns(spec);
+  const values = columns.map(column => {
+    const value = row[column];
+    return (spec.json || []).includes(column) && value !== null ? JSON.stringify(value) : value;
+  });
+  const primaryKey = spec.primaryKey || 'id';
+  const update = spec.table === 'invoice_sequences'
+    // Never move an invoice counter backwards, or numbers would be reused
+    ? 'last_number = GREATEST(invoice_sequences.last_number, EXCLUDED.last_number)'
+    : spec.update.map(column => `${column} = EXCLUDED.${column}`).join(', ');
+
+  await client.query(`
+    INSERT INTO ${spec.table} (${columns.join(', ')})
+    VALUES (${columns.map((_, index) => `$${index + 1}`).join(', ')})
+    ON CONFLICT (${primaryKey}) DO UPDATE SET ${update}
+  `, values);
+
+  if (spec.table === 'invoices') {
+    for (const bookingId of row.booking_ids) {
+      await client.query(`
+        INSERT INTO invoice_bookings (invoice_id, booking_id)
+        SELECT $1, id FROM bookings WHERE id = $2
+        ON CONFLICT DO NOTHING
+      `, [row.id, bookingId]);
+    }
+  }
+};
+
+// Put back the calendar feeds a replace deleted, keeping their tokens so
+// subscribed calendars keep working. A feed for an apartment the backup does
+// not restore cannot come back, and is listed as a conflict.
+const restoreCalendarFeeds = async (client, feeds) => {
+  const tableDiff = emptyTableDiff();
+
+  for (const feed of feeds) {
+    const label = feed.label || feed.id;
+    if (feed.apartment_id && !(await recordExists(client, 'apartments', feed.apartment_id))) {
+      tableDiff.conflicts.push({
+        id: feed.id,
+        label,
+        reason: `apartment_id ${feed.apartment_id} is not in the backup, so the feed URL stops working`
+      });
+      tableDiff.removed++;
+      continue;
+    }
+
+    await client.query(`
+      INSERT INTO calendar_feeds (id, token, apartment_id, label, created_by, created_at, last_accessed_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `, [feed.id, feed.token, feed.apartment_id, feed.label, feed.created_by, feed.created_at, feed.last_accessed_at]);
+    tableDiff.unchanged++;
+  }
+
+  return tableDiff;
+};
+
+// Write a validated backup in the caller's transaction and return what it
+// changed per table: new and changed rows (with their field changes), rows
+// skipped as conflicts, and in replace mode how many existing rows it removed.
+const applyBackup = async (client, backup, { replace }) => {
+  const diff = { users: emptyTableDiff() };
+  const userIds = await importUsers(client, backup.data.users, diff.users);
+  const mapUser = (backupUserId) => (backupUserId === null ? null : userIds.get(backupUserId) ?? null);
+
+  // Compare against the rows as they were before a replace emptied the tables
+  const existingRows = {};
+  for (const spec of TABLES) {
+    const primaryKey = spec.primaryKey || 'id';
+    const rows = (await client.query(spec.select || `SELECT * FROM ${spec.table}`)).rows;
+    existingRows[spec.key] = new Map(rows.map(row => [String(row[primaryKey]), toBackupRow(spec, row)]));
+  }
+
+  // Calendar feeds are not in the backup format, but emptying apartments
+  // cascades into them, so a replace puts them back afterwards
+  const calendarFeeds = replace ? (await client.query('SELECT * FROM calendar_feeds')).rows : [];
+
+  if (replace) {
+    for (const table of REPLACE_ORDER) {
+      await client.query(`DELETE FROM ${table}`);
+    }
+  }
+
+  for (const spec of TABLES) {
+    const tableDiff = emptyTableDiff();
+    const schema = schemas[spec.key];
+    const primaryKey = spec.primaryKey || 'id';
+    const existing = existingRows[spec.key];
+    const backupKeys = new Set();
+
+    for (const backupRow of backup.data[spec.key]) {
+      const key = String(backupRow[primaryKey]);
+      const label = spec.label(backupRow);
+      backupKeys.add(key);
+
+      const row = { ...backupRow };
+      for (const column of USER_COLUMNS) {
+        if (column in row) row[column] = mapUser(row[column]);
+      }
+      for (const [column, table] of Object.entries(spec.optionalReferences || {})) {
+        if (row[column] && !(await recordExists(client, table, row[column]))) row[column] = null;
+      }
+
+      const conflict = await findConflict(client, spec, row);
+      if (conflict) {
+        tableDiff.conflicts.push({ id: key, label, ...conflict });
+        continue;
+      }
+
+      const existingRow = existing.get(key);
+      if (!existingRow) {
+        tableDiff.new.push({ id: key, label });
+      } else {
+        // After a replace every column comes from the backup
+        const changes = diffFields(schema, replace ? tableColumns(spec) : spec.update, existingRow, row);
+        if (Object.keys(changes).length > 0) {
+          tableDiff.changed.push({ id: key, label, changes });
+        } else {
+          tableDiff.unchanged++;
+        }
+      }
+
+      await upsertRow(client, spec, row);
+    }
+
+    if (replace) {
+      tableDiff.removed = [...existing.keys()].filter(key => !backupKeys.has(key)).length;
+    }
+
+    diff[spec.key] = tableDiff;
+  }
+
+  if (replace) {
+    diff.calendarFeeds = await restoreCalendarFeeds(client, calendarFeeds);
+  }
+
+  return diff;
+};
+
+// Import a validated backup in a single transaction: any failure rolls back
+// everything. A dry run does the same work and always rolls back, so its
+// diff is exactly what the import would do.
+export const importBackup = async (backup, { replace = false, dryRun = false }) => {
+  try {
+    return await withTransaction(async (client) => {
+      const diff = await applyBackup(client, backup, { replace });
+      if (dryRun) throw new DryRunRollback(diff);
+      return diff;
+    });
+  } catch (error) {
+    if (error instanceof DryRunRollback) return error.result;
+    throw error;
+  }
+};
+
+// Row counts per table from an import diff
+export const summarizeDiff = (diff) => Object.fromEntries(Object.entries(diff).map(([key, tableDiff]) => [key, {
+  new: tableDiff.new.length,
+  changed: tableDiff.changed.length,
+  unchanged: tableDiff.unchanged,
+  conflicts: tableDiff.conflicts.length,
+  removed: tableDiff.removed
+}]));
@@ -0,0 +1,145 @@
+import { v4 as uuidv4 } from 'uuid';
+import { activeBookingCondition } from './bookingStatus.js';
+import { findOverlappingBlock, findOverlappingBooking, isBookingOverlapError } from './availability.js';
+import { describeOverCapacity, fitsParty, getPartySize } from './apartments.js';
+import { priceBooking, toPriceColumns } from './pricing.js';
+
+// Batch booking import.
+//
+// Every row gets a result with one of these statuses:
+//   created    the booking was saved
+//   ready      valid, but not saved because an all-or-nothing batch failed
+//   invalid    missing or malformed data
+//   duplicate  the same guest and dates already exist or appear earlier in the batch
+//   conflict   the apartment is booked or blocked for those dates
+//
+// All-or-nothing batches roll back when any row is not created; best-effort
+// batches keep the rows that were.
+
+export const BATCH_MODES = ['all_or_nothing', 'best_effort'];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+
+const isDate = (value) => typeof value === 'string' && ISO_DATE.test(value) && !Number.isNaN(new Date(value).getTime());
+
+const isCount = (value, min) => value === undefined || value === null || (Number.isInteger(value) && value >= min);
+
+// Problems with the row itself, before looking at the database
+const validateRow = (row) => {
+  if (!row || typeof row !== 'object') return 'Row must be an object';
+  if (typeof row.guest_name !== 'string' || !row.guest_name.trim()) return 'Guest name is required';
+  if (!isDate(row.check_in)) return 'Valid check-in date is required';
+  if (!isDate(row.check_out)) return 'Valid check-out date is required';
+  if (new Date(row.check_out) <= new Date(row.check_in)) return 'Check-out date must be after check-in date';
+  if (row.apartment_id && row.temporary_apartment) return 'A booking cannot have both an apartment and a temporary apartment';
+  if (!isCount(row.adults, 1)) return 'Adults must be at least 1';
+  if (!isCount(row.children, 0)) return 'Children must be zero or more';
+  return null;
+};
+
+const importRow = async (client, row, userId, seenKeys) => {
+  const problem = validateRow(row);
+  if (problem) return { status: 'invalid', message: problem };
+
+  const guestName = row.guest_name.trim();
+  const checkIn = new Date(row.check_in).toISOString();
+  const checkOut = new Date(row.check_out).toISOString();
+  const apartmentId = row.apartment_id || null;
+  const temporaryApartment = row.temporary_apartment?.trim() || null;
+  const adults = row.adults ?? 1;
+  const children = row.children ?? 0;
+
+  const key = `${guestName.toLowerCase()}|${checkIn}|${checkOut}`;
+  if (seenKeys.has(key)) {
+    return { status: 'duplicate', message: 'The same guest and dates appear earlier in this import' };
+  }
+  seenKeys.add(key);
+
+  const { rows: [existing] } = await client.query(`
+    SELECT id FROM bookings
+    WHERE lower(guest_name) = lower($1) AND check_in = $2 AND check_out = $3
+    AND ${activeBookingCondition()}
+    LIMIT 1
+  `, [guestName, checkIn, checkOut]);
+  if (existing) {
+    return { status: 'duplicate', message: 'This booking already exists', booking_id: existing.id };
+  }
+
+  if (apartmentId) {
+    const { rows: [apartment] } = await client.query('SELECT * FROM apartments WHERE id = $1 AND deleted_at IS NULL', [apartmentId]);
+    if (!apartment) {
+      return { status: 'invalid', message: 'Apartment not found' };
+    }
+
+    const partySize = getPartySize({ adults, children });
+    if (!fitsParty(apartment, partySize)) {
+      return { status: 'invalid', message: describeOverCapacity(apartment, partySize) };
+    }
+
+    const overlappingBooking = await findOverlappingBooking(apartmentId, checkIn, checkOut, null, client);
+    if (overlappingBooking) {
+      return {
+        status: 'conflict',
+        message: 'Apartment is not available for the selected dates',
+        conflictingBooking: overlappingBooking
+      };
+    }
+
+    const overlappingBlock = await findOverlappingBlock(apartmentId, checkIn, checkOut, null, client);
+    if (overlappingBlock) {
+      return {
+        status: 'conflict',
+        message: 'Apartment is blocked for the selected dates',
+        conflictingBlock: overlappingBlock
+      };
+    }
+  }
+
+  const quote = await priceBooking(apartmentId, checkIn, checkOut, client);
+  if (quote && !quote.meetsMinimumStay) {
+    return { status: 'invalid', message: `Minimum stay for this apartment is ${quote.minStay} nights` };
+  }
+
+  const id = uuidv4();
+
+  // A savepoint lets a best-effort batch carry on after a booking that
+  // another request saved in the meantime
+  await client.query('SAVEPOINT batch_row');
+  try {
+    await client.query(`
+      INSERT INTO bookings (id, guest_name, check_in, check_out, apartment_id, temporary_apartment, adults, children, total_price, currency, price_breakdown, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+    `, [id, guestName, checkIn, checkOut, apartmentId, temporaryApartment, adults, children, ...toPriceColumns(quote), userId]);
+  } catch (error) {
+    if (!isBookingOverlapError(error)) throw error;
+    await client.query('ROLLBACK TO SAVEPOINT batch_row');
+    return {
+      status: 'conflict',
+      message: 'Apartment is not available for the selected dates',
+      conflictingBooking: await findOverlappingBooking(apartmentId, checkIn, checkOut, null, client)
+    };
+  }
+  await client.query('RELEASE SAVEPOINT batch_row');
+
+  await client.query(`
+    INSERT INTO audit_logs (user_id, action, table_name, record_id, new_values)
+    VALUES ($1, $2, $3, $4, $5)
+  `, [userId, 'CREATE', 'bookings', id, JSON.stringify(row)]);
+
+  return { status: 'created', booking_id: id };
+};
+
+// Import the rows inside the caller's transaction and report on each one
+export const importBookingRows = async (client, rows, userId) => {
+  // Overlaps must fail the row's own INSERT, not the final commit
+  await client.query('SET CONSTRAINTS ALL IMMEDIATE');
+
+  const seenKeys = new Set();
+  const results = [];
+
+  for (const [index, row] of rows.entries()) {
+    results.push({ row: index, ...await importRow(client, row, userId, seenKeys) });
+  }
+
+  return results;
+};
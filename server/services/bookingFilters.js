@@ -0,0 +1,61 @@
+import { query } from 'express-validator';
+import { BOOKING_STATUSES } from './bookingStatus.js';
+
+// Filters and sort order shared by the bookings list and its exports.
+// Filters combine with AND; from/to select stays overlapping that window.
+
+// Sort keys and the columns they order by
+export const BOOKING_SORT_COLUMNS = {
+  check_in: 'b.check_in',
+  check_out: 'b.check_out',
+  guest_name: 'b.guest_name',
+  apartment: 'a.name',
+  status: 'b.status',
+  total_price: 'b.total_price',
+  created_at: 'b.created_at'
+};
+
+export const bookingFilterValidators = [
+  query('from').optional().isISO8601().withMessage('Valid from date is required'),
+  query('to').optional().isISO8601().withMessage('Valid to date is required'),
+  query('status').optional().custom((value) => {
+    if (String(value).split(',').every(status => BOOKING_STATUSES.includes(status))) {
+      return true;
+    }
+    throw new Error('Invalid booking status');
+  }),
+  query('unassigned').optional().isBoolean().withMessage('Unassigned must be true or false').toBoolean(),
+  query('sort').optional().isIn(Object.keys(BOOKING_SORT_COLUMNS)).withMessage('Invalid sort key'),
+  query('order').optional().isIn(['asc', 'desc']).withMessage('Order must be asc or desc')
+];
+
+// WHERE and ORDER BY clauses for a request's filters, leaving out bookings in
+// the trash. The bookings table is aliased b and apartments a; params are
+// numbered from $1.
+export const buildBookingFilters = (filters) => {
+  const {
+    from, to, status, apartment_id, guest_id, guest_name, unassigned, sort = 'check_in', order = 'desc'
+  } = filters;
+
+  const conditions = ['b.deleted_at IS NULL'];
+  const params = [];
+  const addCondition = (sql, value) => {
+    params.push(value);
+    conditions.push(sql.replace('?', `$${params.length}`));
+  };
+
+  if (from) addCondition('b.check_out > ?', from);
+  if (to) addCondition('b.check_in < ?', to);
+  if (status) addCondition('b.status = ANY(?)', String(status).split(','));
+  if (apartment_id) addCondition('b.apartment_id = ?', apartment_id);
+  if (guest_id) addCondition('b.guest_id = ?', guest_id);
+  if (guest_name) addCondition('b.guest_name ILIKE ?', `%${guest_name}%`);
+  if (unassigned) conditions.push('b.apartment_id IS NULL AND b.temporary_apartment IS NULL');
+
+  return {
+    whereClause: `WHERE ${conditions.join(' AND ')}`,
+    // The id tie-breaker keeps pages stable when sort values repeat
+    orderClause: `ORDER BY ${BOOKING_SORT_COLUMNS[sort]} ${order.toUpperCase()} NULLS LAST, b.id`,
+    params
+  };
+};
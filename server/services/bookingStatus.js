@@ -0,0 +1,28 @@
+// Booking lifecycle statuses and the transitions allowed between them
+
+export const BOOKING_STATUSES = ['tentative', 'confirmed', 'checked_in', 'checked_out', 'cancelled', 'no_show'];
+
+// Statuses that no longer occupy the apartment
+export const INACTIVE_STATUSES = ['cancelled', 'no_show'];
+
+export const STATUS_TRANSITIONS = {
+  tentative: ['confirmed', 'cancelled'],
+  confirmed: ['tentative', 'checked_in', 'cancelled', 'no_show'],
+  checked_in: ['checked_out'],
+  checked_out: [],
+  cancelled: ['confirmed'],
+  no_show: []
+};
+
+export const canTransition = (from, to) => {
+  return (STATUS_TRANSITIONS[from] || []).includes(to);
+};
+
+export const isActiveStatus = (status) => !INACTIVE_STATUSES.includes(status);
+
+// SQL condition matching bookings that still occupy their apartment: not
+// cancelled or no-show, and not in the trash
+export const activeBookingCondition = (alias = '') => {
+  const prefix = alias ? `${alias}.` : '';
+  return `${prefix}status NOT IN (${INACTIVE_STATUSES.map(status => `'${status}'`).join(', ')}) AND ${prefix}deleted_at IS NULL`;
+};
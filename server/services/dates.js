@@ -0,0 +1,88 @@
+// Calendar-day helpers.
+//
+// Booking times are stored as instants, but nights, seasons and all-day
+// calendar events are counted in the clinic's time zone. Set APP_TIMEZONE
+// (e.g. "Europe/Istanbul") when the server runs in a different zone.
+
+const TIME_ZONE = process.env.APP_TIMEZONE || undefined;
+
+const formatter = new Intl.DateTimeFormat('en-CA', {
+  timeZone: TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  hourCycle: 'h23'
+});
+
+const getParts = (date) => {
+  return Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]));
+};
+
+// Milliseconds the clinic's wall clock is ahead of UTC at this instant
+const getOffset = (date) => {
+  const parts = getParts(date);
+  const wallClock = Date.UTC(
+    Number(parts.year), Number(parts.month) - 1, Number(parts.day),
+    Number(parts.hour), Number(parts.minute), Number(parts.second)
+  );
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// "YYYY-MM-DD" of an instant in the clinic's time zone
+export const toDateKey = (value) => {
+  const parts = getParts(new Date(value));
+  return `${parts.year}-${parts.month}-${parts.day}`;
+};
+
+// "YYYY-MM-DD HH:mm" of an instant in the clinic's time zone
+export const toDateTimeKey = (value) => {
+  const parts = getParts(new Date(value));
+  return `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute}`;
+};
+
+// Instant of a wall-clock time on a clinic calendar day
+export const fromDateKey = (key, hours = 0, minutes = 0, seconds = 0) => {
+  const [year, month, day] = key.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+
+  // Correct twice so days that change DST still land on the right offset
+  let instant = wallClock - getOffset(new Date(wallClock));
+  instant = wallClock - getOffset(new Date(instant));
+  return new Date(instant);
+};
+
+export const addDays = (key, days) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+// One key per night: the check-in day up to, not including, check-out day
+export const getNightKeys = (checkIn, checkOut) => {
+  const nights = [];
+  const lastNight = toDateKey(checkOut);
+
+  for (let key = toDateKey(checkIn); key < lastNight; key = addDays(key, 1)) {
+    nights.push(key);
+  }
+
+  return nights;
+};
+
+// Friday and Saturday nights
+export const isWeekendNight = (key) => {
+  const weekday = new Date(`${key}T00:00:00Z`).getUTCDay();
+  return weekday === 5 || weekday === 6;
+};
+
+const dayFormatter = new Intl.DateTimeFormat('en-GB', {
+  timeZone: TIME_ZONE,
+  day: 'numeric',
+  month: 'short',
+  year: 'numeric'
+});
+
+// "12 Mar 2026" in the clinic's time zone, for documents handed to guests
+export const formatDay = (value) => dayFormatter.format(new Date(value));
@@ -0,0 +1,52 @@
+// Server-sent events broadcaster for live data changes.
+// Routes call broadcast() after a successful mutation and every connected
+// client receives the event so it can update its local store incrementally.
+
+const HEARTBEAT_INTERVAL = 25000; // Keep proxies from closing idle connections
+
+const clients = new Set();
+let nextEventId = 1;
+
+export const addClient = (req, res) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.write('retry: 5000\n\n');
+
+  const client = { res, userId: req.user?.id };
+  clients.add(client);
+
+  const heartbeat = setInterval(() => {
+    res.write(': heartbeat\n\n');
+  }, HEARTBEAT_INTERVAL);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    clients.delete(client);
+  });
+};
+
+export const broadcast = (type, payload, userId = null) => {
+  const message = JSON.stringify({
+    type,
+    payload,
+    userId,
+    timestamp: new Date().toISOString()
+  });
+
+  const eventId = nextEventId++;
+
+  for (const client of clients) {
+    try {
+      client.res.write(`id: ${eventId}\nevent: change\ndata: ${message}\n\n`);
+    } catch (error) {
+      console.error('Failed to write event to client:', error);
+      clients.delete(client);
+    }
+  }
+};
+
+export const getClientCount = () => clients.size;
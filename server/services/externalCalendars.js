@@ -0,0 +1,218 @@
+import fs from 'fs/promises';
+import { fileURLToPath } from 'url';
+import { v4 as uuidv4 } from 'uuid';
+import { dbRun, dbAll, withTransaction } from '../database/init.js';
+import { broadcast } from './events.js';
+import { activeBookingCondition } from './bookingStatus.js';
+import { parseCalendar } from './ical.js';
+
+// Sync job for external iCal feeds (Airbnb, Booking.com, ...). Every event in
+// a feed becomes a read-only "external" booking on the apartment, so the
+// normal overlap checks refuse double bookings against platform reservations.
+
+const FETCH_TIMEOUT_MS = 15000;
+const DEFAULT_SYNC_INTERVAL_MINUTES = 30;
+
+// file:// URLs read any file the server can, so they are only accepted with
+// ALLOW_FILE_CALENDARS=1, for exercising the sync against a local fixture
+export const allowsFileCalendars = () => process.env.ALLOW_FILE_CALENDARS === '1';
+
+// Accepts http(s) and webcal URLs, and file:// URLs when allowed
+export const fetchCalendarText = async (url) => {
+  const parsed = new URL(url.replace(/^webcals?:\/\//i, 'https://'));
+
+  if (parsed.protocol === 'file:') {
+    if (!allowsFileCalendars()) {
+      throw new Error('File calendar URLs need ALLOW_FILE_CALENDARS=1');
+    }
+    return fs.readFile(fileURLToPath(parsed), 'utf-8');
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`Unsupported calendar URL protocol: ${parsed.protocol}`);
+  }
+
+  const response = await fetch(parsed, {
+    headers: { Accept: 'text/calendar' },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Calendar responded with HTTP ${response.status}`);
+  }
+
+  return response.text();
+};
+
+const toGuestName = (calendar, event) => {
+  return [calendar.label, event.summary].filter(Boolean).join(' - ') || 'External booking';
+};
+
+const sameTime = (a, b) => new Date(a).getTime() === new Date(b).getTime();
+
+const getBookingsWithDetails = (ids) => dbAll(`
+  SELECT b.*, a.name as apartment_name, u.username as created_by_username
+  FROM bookings b
+  LEFT JOIN apartments a ON b.apartment_id = a.id
+  LEFT JOIN users u ON b.created_by = u.id
+  WHERE b.id = ANY($1)
+`, [ids]);
+
+// Fetch one calendar and mirror its events into bookings
+export const syncExternalCalendar = async (calendar) => {
+  try {
+    const events = parseCalendar(await fetchCalendarText(calendar.url));
+
+    const result = await withTransaction(async (client) => {
+      const { rows: existing } = await client.query(
+        'SELECT * FROM bookings WHERE external_calendar_id = $1',
+        [calendar.id]
+      );
+      const existingByUid = new Map(existing.map(booking => [booking.external_uid, booking]));
+
+      const createdIds = [];
+      const updatedIds = [];
+      const seenUids = new Set();
+
+      for (const event of events) {
+        // Feeds occasionally repeat an event; the first one wins
+        if (seenUids.has(event.uid)) continue;
+        seenUids.add(event.uid);
+
+        const guestName = toGuestName(calendar, event);
+        const booking = existingByUid.get(event.uid);
+
+        // Deleted bookings stay in the trash until an admin restores or purges them
+        if (booking?.deleted_at) continue;
+
+        if (!booking) {
+          const id = uuidv4();
+          await client.query(`
+            INSERT INTO bookings (id, guest_name, check_in, check_out, apartment_id, status, source, external_calendar_id, external_uid, created_by)
+            VALUES ($1, $2, $3, $4, $5, 'confirmed', 'external', $6, $7, $8)
+          `, [id, guestName, event.start.toISOString(), event.end.toISOString(), calendar.apartment_id, calendar.id, event.uid, calendar.created_by]);
+          createdIds.push(id);
+        } else if (
+          booking.guest_name !== guestName ||
+          !sameTime(booking.check_in, event.start) ||
+          !sameTime(booking.check_out, event.end) ||
+          booking.apartment_id !== calendar.apartment_id
+        ) {
+          await client.query(`
+            UPDATE bookings SET guest_name = $1, check_in = $2, check_out = $3, apartment_id = $4, updated_at = CURRENT_TIMESTAMP
+            WHERE id = $5
+          `, [guestName, event.start.toISOString(), event.end.toISOString(), calendar.apartment_id, booking.id]);
+          updatedIds.push(booking.id);
+        }
+      }
+
+      // Reservations cancelled on the platform disappear from the feed. They
+      // are deleted for good, so they are logged as purged; no user did it.
+      const removed = existing.filter(booking => !seenUids.has(booking.external_uid));
+      const removedIds = removed.map(booking => booking.id);
+
+      if (removedIds.length > 0) {
+        await client.query('DELETE FROM bookings WHERE id = ANY($1)', [removedIds]);
+      }
+      for (const booking of removed) {
+        await client.query(`
+          INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values)
+          VALUES ($1, $2, $3, $4, $5)
+        `, [null, 'PURGE', 'bookings', booking.id, JSON.stringify(booking)]);
+      }
+
+      // The platform is the source of truth, so an overlap with one of our own
+      // bookings is reported rather than refused
+      const { rows: conflicts } = await client.query(`
+        SELECT e.id as external_booking_id, e.guest_name as external_guest_name,
+               b.id as booking_id, b.guest_name, b.check_in, b.check_out
+        FROM bookings e
+        JOIN bookings b ON b.apartment_id = e.apartment_id
+          AND b.source = 'manual'
+          AND b.check_in < e.check_out
+          AND b.check_out > e.check_in
+        WHERE e.external_calendar_id = $1
+          AND e.deleted_at IS NULL
+          AND ${activeBookingCondition('b')}
+      `, [calendar.id]);
+
+      return { createdIds, updatedIds, removedIds, conflicts };
+    });
+
+    // Kept on the calendar so the overlaps stay visible after a scheduled sync
+    await dbRun(`
+      UPDATE external_calendars SET last_synced_at = CURRENT_TIMESTAMP, last_error = NULL, last_conflicts = $2
+      WHERE id = $1
+    `, [calendar.id, result.conflicts.length > 0 ? JSON.stringify(result.conflicts) : null]);
+
+    const changedBookings = await getBookingsWithDetails([...result.createdIds, ...result.updatedIds]);
+    for (const booking of changedBookings) {
+      const type = result.createdIds.includes(booking.id) ? 'booking.created' : 'booking.updated';
+      broadcast(type, {
+        ...booking,
+        checkIn: new Date(booking.check_in),
+        checkOut: new Date(booking.check_out)
+      });
+    }
+    for (const id of result.removedIds) {
+      broadcast('booking.deleted', { id });
+    }
+
+    if (result.conflicts.length > 0) {
+      console.warn(`External calendar ${calendar.id} overlaps ${result.conflicts.length} existing bookings`);
+    }
+
+    return {
+      created: result.createdIds.length,
+      updated: result.updatedIds.length,
+      removed: result.removedIds.length,
+      conflicts: result.conflicts
+    };
+  } catch (error) {
+    await dbRun(
+      'UPDATE external_calendars SET last_error = $1 WHERE id = $2',
+      [error.message, calendar.id]
+    );
+    throw error;
+  }
+};
+
+// Sync every configured calendar; one failing feed does not stop the rest.
+// Calendars of apartments in the trash are skipped.
+export const syncAllExternalCalendars = async () => {
+  const calendars = await dbAll(`
+    SELECT ec.* FROM external_calendars ec
+    JOIN apartments a ON ec.apartment_id = a.id
+    WHERE a.deleted_at IS NULL
+    ORDER BY ec.created_at
+  `);
+  const results = [];
+
+  for (const calendar of calendars) {
+    try {
+      const result = await syncExternalCalendar(calendar);
+      results.push({ id: calendar.id, ...result });
+    } catch (error) {
+      console.error(`External calendar sync error (${calendar.id}):`, error.message);
+      results.push({ id: calendar.id, error: error.message });
+    }
+  }
+
+  return results;
+};
+
+// Run the sync periodically in the server process
+export const startExternalCalendarSync = () => {
+  const minutes = Number(process.env.EXTERNAL_CALENDAR_SYNC_MINUTES) || DEFAULT_SYNC_INTERVAL_MINUTES;
+
+  const run = () => {
+    syncAllExternalCalendars().catch(error => {
+      console.error('External calendar sync error:', error);
+    });
+  };
+
+  setTimeout(run, 10 * 1000).unref();
+  setInterval(run, minutes * 60 * 1000).unref();
+
+  console.log(`External calendar sync scheduled every ${minutes} minutes`);
+};
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { syncExternalCalendar } from './externalCalendars.js';
+
+// An in-memory stand-in for the bookings a calendar owns and the writes the
+// sync makes, so the sync runs without PostgreSQL
+const db = vi.hoisted(() => ({ bookings: [], conflicts: [], writes: [] }));
+
+vi.mock('../database/init.js', () => {
+  const client = {
+    query: async (sql, params) => {
+      if (sql.includes('SELECT * FROM bookings WHERE external_calendar_id')) {
+        return { rows: db.bookings };
+      }
+      if (sql.includes('as external_booking_id')) {
+        return { rows: db.conflicts };
+      }
+      if (!sql.trim().startsWith('SELECT')) db.writes.push({ sql: sql.trim(), params });
+      return { rows: [] };
+    }
+  };
+
+  return {
+    dbAll: async () => [],
+    dbRun: async (sql, params) => {
+      db.writes.push({ sql: sql.trim(), params });
+    },
+    withTransaction: async (callback) => callback(client)
+  };
+});
+
+const FIXTURE_URL = new URL('../fixtures/external-calendar.ics', import.meta.url).href;
+
+const calendar = {
+  id: 'calendar-1',
+  apartment_id: 'apartment-1',
+  url: FIXTURE_URL,
+  label: 'Airbnb',
+  created_by: 1
+};
+
+const writesTo = (statement) => db.writes.filter(write => write.sql.startsWith(statement));
+
+describe('syncExternalCalendar', () => {
+  beforeEach(() => {
+    db.bookings = [];
+    db.conflicts = [];
+    db.writes = [];
+    vi.stubEnv('ALLOW_FILE_CALENDARS', '1');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('creates a booking for every event in the fixture feed', async () => {
+    const result = await syncExternalCalendar(calendar);
+
+    expect(result).toMatchObject({ created: 3, updated: 0, removed: 0 });
+    expect(writesTo('INSERT INTO bookings').map(({ params }) => [params[1], params[2], params[3], params[4], params[6]])).toEqual([
+      ['Airbnb - Reserved', '2027-01-08T00:00:00.000Z', '2027-01-12T00:00:00.000Z', 'apartment-1', '1418fb94e984-1f0b3a3e5b8a6a2b9f6e2c6d2a1e3f4b@airbnb.com'],
+      ['Airbnb - Airbnb (Not available)', '2027-01-15T00:00:00.000Z', '2027-01-20T00:00:00.000Z', 'apartment-1', '9a2f7c11d3b4-0c8e5f6a7b8c9d0e1f2a3b4c5d6e7f8a@airbnb.com'],
+      ['Airbnb - CLOSED - Not available', '2027-02-01T14:00:00.000Z', '2027-02-05T10:00:00.000Z', 'apartment-1', 'booking-com-4711@admin.booking.com']
+    ]);
+  });
+
+  it('updates changed events and removes events gone from the feed', async () => {
+    db.bookings = [
+      {
+        id: 'booking-1',
+        guest_name: 'Airbnb - Reserved',
+        check_in: new Date('2027-01-08T00:00:00Z'),
+        check_out: new Date('2027-01-11T00:00:00Z'),
+        apartment_id: 'apartment-1',
+        external_uid: '1418fb94e984-1f0b3a3e5b8a6a2b9f6e2c6d2a1e3f4b@airbnb.com'
+      },
+      {
+        id: 'booking-2',
+        guest_name: 'Airbnb - Reserved',
+        check_in: new Date('2027-03-01T00:00:00Z'),
+        check_out: new Date('2027-03-04T00:00:00Z'),
+        apartment_id: 'apartment-1',
+        external_uid: 'cancelled-on-the-platform@airbnb.com'
+      }
+    ];
+
+    const result = await syncExternalCalendar(calendar);
+
+    expect(result).toMatchObject({ created: 2, updated: 1, removed: 1 });
+    expect(writesTo('UPDATE bookings SET guest_name')[0].params.slice(1, 3)).toEqual(['2027-01-08T00:00:00.000Z', '2027-01-12T00:00:00.000Z']);
+    expect(writesTo('DELETE FROM bookings')[0].params).toEqual([['booking-2']]);
+    expect(writesTo('INSERT INTO audit_logs').map(({ params }) => params.slice(0, 4))).toEqual([[null, 'PURGE', 'bookings', 'booking-2']]);
+    expect(JSON.parse(writesTo('INSERT INTO audit_logs')[0].params[4])).toMatchObject({ external_uid: 'cancelled-on-the-platform@airbnb.com' });
+  });
+
+  it('keeps overlaps with manual bookings on the calendar', async () => {
+    db.conflicts = [{ external_booking_id: 'booking-9', external_guest_name: 'Airbnb - Reserved', booking_id: 'booking-3', guest_name: 'Anna Müller' }];
+
+    const result = await syncExternalCalendar(calendar);
+
+    expect(result.conflicts).toEqual(db.conflicts);
+    const [update] = writesTo('UPDATE external_calendars SET last_synced_at');
+    expect(update.params).toEqual(['calendar-1', JSON.stringify(db.conflicts)]);
+  });
+
+  it('refuses file URLs unless ALLOW_FILE_CALENDARS is set', async () => {
+    vi.stubEnv('ALLOW_FILE_CALENDARS', '');
+
+    await expect(syncExternalCalendar(calendar)).rejects.toThrow('File calendar URLs need ALLOW_FILE_CALENDARS=1');
+    expect(writesTo('INSERT INTO bookings')).toEqual([]);
+    expect(writesTo('UPDATE external_calendars SET last_error')[0].params).toEqual(['File calendar URLs need ALLOW_FILE_CALENDARS=1', 'calendar-1']);
+  });
+});
@@ -0,0 +1,95 @@
+// Guest profiles and duplicate detection.
+//
+// Names are typed by hand from emails, passports and spreadsheets, so the
+// same patient turns up as "José García", "Jose Garcia" or "Garcia Jose".
+// Names in any script are compared without accents, case, punctuation or
+// word order, and count as the same person above NAME_SIMILARITY_THRESHOLD.
+// A matching email address or phone number is a duplicate whatever the name
+// says.
+
+// Guest columns for queries that alias guests as "g". Dates of birth are
+// calendar dates, so they leave the database as "YYYY-MM-DD" strings rather
+// than local-midnight timestamps.
+export const GUEST_COLUMNS = `
+  g.id, g.full_name, g.email, g.phone, g.nationality, g.passport_number,
+  to_char(g.date_of_birth, 'YYYY-MM-DD') as date_of_birth,
+  g.notes, g.created_by, g.created_at, g.updated_at
+`;
+
+const NAME_SIMILARITY_THRESHOLD = 0.8;
+
+// Phone numbers match on their last digits so "+49 151 2345678" and
+// "0151 2345678" are the same number
+const PHONE_MATCH_DIGITS = 8;
+
+// Letters that are written without an accent on some keyboards but do not
+// decompose into a base letter and a mark
+const LETTER_FOLDS = { ı: 'i', ø: 'o', đ: 'd', ł: 'l', ß: 'ss', æ: 'ae', œ: 'oe', þ: 'th' };
+
+export const normalizeName = (name = '') => {
+  return name
+    .toLowerCase()
+    .replace(/[ıøđłßæœþ]/g, letter => LETTER_FOLDS[letter])
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+};
+
+const normalizePhone = (phone = '') => phone.replace(/\D/g, '').slice(-PHONE_MATCH_DIGITS);
+
+const levenshtein = (a, b) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+// 1 for the same name, 0 for nothing in common
+export const nameSimilarity = (a, b) => {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+
+  const longest = Math.max(left.length, right.length);
+  return 1 - levenshtein(left, right) / longest;
+};
+
+// Existing guests that are probably the candidate, best match first
+export const findPossibleDuplicates = (candidate, guests) => {
+  const email = candidate.email ? candidate.email.trim().toLowerCase() : '';
+  const phone = candidate.phone ? normalizePhone(candidate.phone) : '';
+
+  return guests
+    .map(guest => {
+      const reasons = [];
+      const similarity = nameSimilarity(candidate.full_name, guest.full_name);
+
+      if (similarity >= NAME_SIMILARITY_THRESHOLD) reasons.push('name');
+      if (email && guest.email && guest.email.trim().toLowerCase() === email) reasons.push('email');
+      if (phone.length === PHONE_MATCH_DIGITS && guest.phone && normalizePhone(guest.phone) === phone) reasons.push('phone');
+
+      return { ...guest, similarity: Math.round(similarity * 100) / 100, match_reasons: reasons };
+    })
+    .filter(guest => guest.match_reasons.length > 0)
+    .sort((a, b) => b.match_reasons.length - a.match_reasons.length || b.similarity - a.similarity);
+};
+
+// Whether a free-text booking name probably belongs to the guest
+export const isLikelySameGuest = (guestName, bookingName) => {
+  return nameSimilarity(guestName, bookingName) >= NAME_SIMILARITY_THRESHOLD;
+};
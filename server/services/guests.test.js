@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { findPossibleDuplicates, nameSimilarity, normalizeName } from './guests.js';
+
+describe('normalizeName', () => {
+  it('drops accents, case, punctuation and word order', () => {
+    expect(normalizeName('García, José')).toBe('garcia jose');
+  });
+
+  it('keeps letters from other scripts', () => {
+    expect(normalizeName('Иван Петров')).toBe('иван петров');
+    expect(normalizeName('محمد أحمد')).toBe('احمد محمد');
+  });
+
+  it('folds letters that have no decomposition', () => {
+    expect(normalizeName('Işık Yılmaz')).toBe('isik yilmaz');
+    expect(normalizeName('Łukasz Øster')).toBe('lukasz oster');
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('matches the same name in any script', () => {
+    expect(nameSimilarity('Иван Петров', 'Иван Петров')).toBe(1);
+    expect(nameSimilarity('Петров Иван', 'Иван Петров')).toBe(1);
+    expect(nameSimilarity('محمد أحمد', 'محمد احمد')).toBe(1);
+    expect(nameSimilarity('Işık Yılmaz', 'Isik Yilmaz')).toBe(1);
+  });
+
+  it('tells different names apart', () => {
+    expect(nameSimilarity('Иван Петров', 'Ольга Смирнова')).toBeLessThan(0.8);
+    expect(nameSimilarity('محمد أحمد', 'فاطمة علي')).toBeLessThan(0.8);
+  });
+});
+
+describe('findPossibleDuplicates', () => {
+  it('finds a guest whose name is written in Cyrillic', () => {
+    const guests = [
+      { id: 'g1', full_name: 'Иван Петров' },
+      { id: 'g2', full_name: 'Ольга Смирнова' }
+    ];
+
+    expect(findPossibleDuplicates({ full_name: 'Петров Иван' }, guests).map(guest => guest.id)).toEqual(['g1']);
+  });
+});
@@ -0,0 +1,181 @@
+import { addDays, fromDateKey, toDateKey } from './dates.js';
+
+// Minimal iCalendar (RFC 5545) reader and writer for booking feeds
+
+const PRODUCT_ID = '-//DentLeon Suits//Rental Manager//EN';
+const UID_DOMAIN = 'dentalsuite-rental-manager';
+
+const pad = (value) => String(value).padStart(2, '0');
+
+// Escape text values: backslash, semicolon, comma and newlines
+const escapeText = (value) => String(value ?? '')
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets must be folded with CRLF + space
+const foldLine = (line) => {
+  const chunks = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+};
+
+// All-day events use the clinic's calendar day
+const formatDate = (value) => toDateKey(value).replace(/-/g, '');
+
+const formatDateTime = (value) => {
+  const date = new Date(value);
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+};
+
+// Render an all-day VEVENT. `end` is exclusive, which matches check-out days.
+const renderEvent = ({ uid, start, end, summary, location, description, status, updatedAt }) => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${uid}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatDateTime(updatedAt || new Date())}`,
+    `DTSTART;VALUE=DATE:${formatDate(start)}`,
+    `DTEND;VALUE=DATE:${formatDate(end)}`,
+    `SUMMARY:${escapeText(summary)}`
+  ];
+
+  if (location) {
+    lines.push(`LOCATION:${escapeText(location)}`);
+  }
+  if (description) {
+    lines.push(`DESCRIPTION:${escapeText(description)}`);
+  }
+  if (status) {
+    lines.push(`STATUS:${status}`);
+  }
+  if (updatedAt) {
+    lines.push(`LAST-MODIFIED:${formatDateTime(updatedAt)}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+export const renderCalendar = ({ name, events }) => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap(renderEvent),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+const unescapeText = (value) => value
+  .replace(/\\n/gi, '\n')
+  .replace(/\\([\\;,])/g, '$1');
+
+// DATE values (YYYYMMDD) become midnight on the clinic's calendar, matching
+// how the app stores booking days. DATE-TIME values honour a trailing Z and
+// are otherwise read as clinic wall-clock time.
+const parseDateValue = (value) => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const key = `${year}-${month}-${day}`;
+
+  if (hours === undefined) {
+    return { date: fromDateKey(key), allDay: true };
+  }
+
+  if (utc) {
+    return { date: new Date(`${key}T${hours}:${minutes}:${seconds}Z`), allDay: false };
+  }
+
+  return { date: fromDateKey(key, Number(hours), Number(minutes), Number(seconds)), allDay: false };
+};
+
+// Parse VEVENTs into { uid, start, end, summary }. Cancelled events and
+// events without a UID or a valid date range are skipped.
+export const parseCalendar = (text) => {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events = [];
+  let current = null;
+  let nestedDepth = 0; // VALARM and friends inside a VEVENT
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      nestedDepth = 0;
+      continue;
+    }
+
+    if (line === 'END:VEVENT') {
+      if (current) {
+        events.push(current);
+      }
+      current = null;
+      continue;
+    }
+
+    if (!current) continue;
+
+    if (line.startsWith('BEGIN:')) {
+      nestedDepth++;
+      continue;
+    }
+    if (line.startsWith('END:')) {
+      nestedDepth = Math.max(0, nestedDepth - 1);
+      continue;
+    }
+    if (nestedDepth > 0) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const name = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1);
+    current[name] = value;
+  }
+
+  return events.flatMap((event) => {
+    if (!event.UID || !event.DTSTART) return [];
+    if ((event.STATUS || '').toUpperCase() === 'CANCELLED') return [];
+
+    const start = parseDateValue(event.DTSTART);
+    if (!start) return [];
+
+    let end = event.DTEND ? parseDateValue(event.DTEND) : null;
+    if (!end && start.allDay) {
+      // An all-day event without DTEND lasts one day
+      end = { date: fromDateKey(addDays(toDateKey(start.date), 1)), allDay: true };
+    }
+
+    if (!end || end.date <= start.date) return [];
+
+    return [{
+      uid: unescapeText(event.UID),
+      start: start.date,
+      end: end.date,
+      summary: event.SUMMARY ? unescapeText(event.SUMMARY) : null
+    }];
+  });
+};
@@ -0,0 +1,246 @@
+import fs from 'fs';
+import PDFDocument from 'pdfkit';
+import { formatDay, toDateKey } from './dates.js';
+
+// Accommodation invoices for patient stays.
+//
+// Invoice numbers run per year without gaps ("INV-2026-00001"): the counter
+// row is bumped in the same transaction that inserts the invoice, so a
+// rolled-back invoice gives its number back. Line items are copied from the
+// bookings' price breakdowns when the invoice is issued and never change
+// afterwards. Rate plan prices are net; INVOICE_TAX_RATE (percent) is added.
+
+const INVOICE_PREFIX = process.env.INVOICE_PREFIX || 'INV';
+
+const COMPANY = {
+  name: process.env.INVOICE_COMPANY_NAME || 'DentalSuite',
+  address: process.env.INVOICE_COMPANY_ADDRESS || '',
+  taxId: process.env.INVOICE_COMPANY_TAX_ID || '',
+  logoPath: process.env.INVOICE_LOGO_PATH || '',
+  footer: process.env.INVOICE_FOOTER || 'Thank you for staying with us.'
+};
+
+const BRAND_COLOR = '#0f4c81';
+
+const RULE_LABELS = {
+  base: 'Nightly rate',
+  weekend: 'Weekend rate',
+  season: 'Season',
+  season_weekend: 'Season weekend'
+};
+
+const toCents = (amount) => Math.round(Number(amount) * 100);
+
+export const getTaxRate = () => Number(process.env.INVOICE_TAX_RATE || 0);
+
+// Reserve the next number for the current year; call inside withTransaction
+export const nextInvoiceNumber = async (client) => {
+  const year = Number(toDateKey(new Date()).slice(0, 4));
+  const result = await client.query(`
+    INSERT INTO invoice_sequences (year, last_number) VALUES ($1, 1)
+    ON CONFLICT (year) DO UPDATE SET last_number = invoice_sequences.last_number + 1
+    RETURNING last_number
+  `, [year]);
+
+  return `${INVOICE_PREFIX}-${year}-${String(result.rows[0].last_number).padStart(5, '0')}`;
+};
+
+// Collapse consecutive nights charged the same way into one rate line
+const groupNights = (nights) => {
+  const rates = [];
+
+  for (const night of nights) {
+    const label = night.season
+      ? `${night.season}${night.rule === 'season_weekend' ? ' (weekend)' : ''}`
+      : RULE_LABELS[night.rule] || RULE_LABELS.base;
+    const last = rates[rates.length - 1];
+
+    if (last && last.price === night.price && last.label === label) {
+      last.nights++;
+    } else {
+      rates.push({ label, nights: 1, price: night.price });
+    }
+  }
+
+  return rates.map(rate => ({ ...rate, amount: (rate.nights * toCents(rate.price)) / 100 }));
+};
+
+// Bookings are rows joined with apartment_name
+export const buildInvoiceLines = (bookings) => bookings.map(booking => {
+  const breakdown = booking.price_breakdown ? JSON.parse(booking.price_breakdown) : null;
+
+  return {
+    booking_id: booking.id,
+    apartment_name: booking.apartment_name || booking.temporary_apartment || null,
+    check_in: new Date(booking.check_in).toISOString(),
+    check_out: new Date(booking.check_out).toISOString(),
+    nights: breakdown ? breakdown.nightCount : null,
+    rates: breakdown ? groupNights(breakdown.nights) : [],
+    amount: Number(booking.total_price)
+  };
+});
+
+export const calculateTotals = (lines, taxRate) => {
+  const subtotalCents = lines.reduce((sum, line) => sum + toCents(line.amount), 0);
+  const taxCents = Math.round(subtotalCents * taxRate / 100);
+
+  return {
+    subtotal: subtotalCents / 100,
+    tax_rate: taxRate,
+    tax_amount: taxCents / 100,
+    total: (subtotalCents + taxCents) / 100
+  };
+};
+
+// An invoice marked paid by hand counts as paid whatever the ledger says
+const getPaymentStatus = (paidAt, amountPaid, total) => {
+  if (paidAt || amountPaid >= total) return 'paid';
+  return amountPaid > 0 ? 'partially_paid' : 'unpaid';
+};
+
+// Convert an invoices row (NUMERIC columns arrive as strings); amount_paid
+// comes from the payments ledger when the query selects it
+export const formatInvoice = (row) => {
+  if (!row) return null;
+  const total = Number(row.total);
+  const amountPaid = Number(row.amount_paid || 0);
+  return {
+    ...row,
+    line_items: JSON.parse(row.line_items || '[]'),
+    subtotal: Number(row.subtotal),
+    tax_rate: Number(row.tax_rate),
+    tax_amount: Number(row.tax_amount),
+    total,
+    amount_paid: amountPaid,
+    balance_due: Math.max(0, (toCents(total) - toCents(amountPaid)) / 100),
+    payment_status: getPaymentStatus(row.paid_at, amountPaid, total)
+  };
+};
+
+const PAYMENT_STATUS_LABELS = {
+  paid: 'Paid',
+  partially_paid: 'Partially paid',
+  unpaid: 'Unpaid'
+};
+
+const formatMoney = (amount, currency) => {
+  return new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(amount);
+};
+
+// Write the invoice as a PDF to a writable stream (e.g. the response)
+export const renderInvoicePdf = (invoice, stream) => {
+  const doc = new PDFDocument({ size: 'A4', margin: 50, info: { Title: `Invoice ${invoice.invoice_number}` } });
+  const money = (amount) => formatMoney(amount, invoice.currency);
+  const left = doc.page.margins.left;
+  const right = doc.page.width - doc.page.margins.right;
+  const width = right - left;
+
+  doc.pipe(stream);
+
+  // Header band with the clinic's name and details
+  doc.rect(0, 0, doc.page.width, 110).fill(BRAND_COLOR);
+  let headerTextX = left;
+  if (COMPANY.logoPath && fs.existsSync(COMPANY.logoPath)) {
+    doc.image(COMPANY.logoPath, left, 25, { fit: [60, 60] });
+    headerTextX = left + 75;
+  }
+  doc.fillColor('#ffffff').font('Helvetica-Bold').fontSize(20).text(COMPANY.name, headerTextX, 32);
+  doc.font('Helvetica').fontSize(9);
+  if (COMPANY.address) doc.text(COMPANY.address, headerTextX, doc.y + 4);
+  if (COMPANY.taxId) doc.text(`Tax ID: ${COMPANY.taxId}`, headerTextX);
+  doc.font('Helvetica-Bold').fontSize(24).text('INVOICE', left, 40, { width, align: 'right' });
+
+  // Invoice details and recipient
+  doc.fillColor('#000000').font('Helvetica').fontSize(10);
+  const detailsTop = 140;
+  doc.font('Helvetica-Bold').text('Billed to', left, detailsTop);
+  doc.font('Helvetica').text(invoice.guest_name, left, detailsTop + 15);
+
+  const details = [
+    ['Invoice number', invoice.invoice_number],
+    ['Issue date', formatDay(invoice.issued_at)],
+    ['Payment status', invoice.paid_at ? `Paid on ${formatDay(invoice.paid_at)}` : PAYMENT_STATUS_LABELS[invoice.payment_status]]
+  ];
+  details.forEach(([label, value], index) => {
+    const y = detailsTop + index * 15;
+    doc.font('Helvetica-Bold').text(label, right - 250, y, { width: 110 });
+    doc.font('Helvetica').text(value, right - 140, y, { width: 140, align: 'right' });
+  });
+
+  // Line items
+  const columns = { description: left, nights: left + 300, rate: left + 350, amount: right - 90 };
+  let y = detailsTop + 75;
+
+  doc.rect(left, y - 6, width, 20).fill('#eef2f7');
+  doc.fillColor('#000000').font('Helvetica-Bold').fontSize(9);
+  doc.text('Description', columns.description + 5, y);
+  doc.text('Nights', columns.nights, y, { width: 45, align: 'right' });
+  doc.text('Rate', columns.rate, y, { width: 80, align: 'right' });
+  doc.text('Amount', columns.amount, y, { width: 85, align: 'right' });
+  y += 24;
+
+  for (const line of invoice.line_items) {
+    if (y > doc.page.height - 200) {
+      doc.addPage();
+      y = doc.page.margins.top;
+    }
+
+    const stay = `${formatDay(line.check_in)} – ${formatDay(line.check_out)}`;
+    doc.font('Helvetica-Bold').fontSize(10)
+      .text(line.apartment_name ? `Accommodation: ${line.apartment_name}` : 'Accommodation', columns.description + 5, y, { width: 290 });
+    doc.font('Helvetica').fontSize(9).fillColor('#555555').text(stay, columns.description + 5, doc.y + 2, { width: 290 });
+    doc.fillColor('#000000');
+    if (line.rates.length === 0) {
+      doc.text(line.nights === null ? '' : String(line.nights), columns.nights, y, { width: 45, align: 'right' });
+      doc.text(money(line.amount), columns.amount, y, { width: 85, align: 'right' });
+    }
+    y = doc.y + 6;
+
+    for (const rate of line.rates) {
+      doc.fontSize(9).text(rate.label, columns.description + 15, y, { width: 280 });
+      doc.text(String(rate.nights), columns.nights, y, { width: 45, align: 'right' });
+      doc.text(money(rate.price), columns.rate, y, { width: 80, align: 'right' });
+      doc.text(money(rate.amount), columns.amount, y, { width: 85, align: 'right' });
+      y += 14;
+    }
+
+    doc.moveTo(left, y + 2).lineTo(right, y + 2).strokeColor('#dddddd').stroke();
+    y += 12;
+  }
+
+  // Totals
+  const totals = [
+    ['Subtotal', money(invoice.subtotal)],
+    [`Tax (${invoice.tax_rate}%)`, money(invoice.tax_amount)]
+  ];
+  for (const [label, value] of totals) {
+    doc.font('Helvetica').fontSize(10).text(label, right - 250, y, { width: 150 });
+    doc.text(value, right - 100, y, { width: 100, align: 'right' });
+    y += 16;
+  }
+  doc.rect(right - 255, y - 4, 255, 22).fill(BRAND_COLOR);
+  doc.fillColor('#ffffff').font('Helvetica-Bold').fontSize(11);
+  doc.text('Total', right - 250, y + 1, { width: 150 });
+  doc.text(money(invoice.total), right - 100, y + 1, { width: 95, align: 'right' });
+
+  if (invoice.amount_paid > 0 && !invoice.paid_at) {
+    doc.fillColor('#000000').font('Helvetica').fontSize(10);
+    y += 28;
+    doc.text('Paid to date', right - 250, y, { width: 150 });
+    doc.text(money(invoice.amount_paid), right - 100, y, { width: 100, align: 'right' });
+    y += 16;
+    doc.font('Helvetica-Bold').text('Balance due', right - 250, y, { width: 150 });
+    doc.text(money(invoice.balance_due), right - 100, y, { width: 100, align: 'right' });
+  }
+
+  if (invoice.payment_status === 'paid') {
+    doc.fillColor('#15803d').font('Helvetica-Bold').fontSize(28)
+      .text('PAID', left, y - 10, { width: 150 });
+  }
+
+  // Footer
+  doc.fillColor('#777777').font('Helvetica').fontSize(8)
+    .text(COMPANY.footer, left, doc.page.height - doc.page.margins.bottom - 20, { width, align: 'center' });
+
+  doc.end();
+};
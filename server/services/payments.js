@@ -0,0 +1,33 @@
+// Payments ledger helpers.
+//
+// Deposits and payments add to what a guest has paid, refunds subtract.
+// The balance due of a booking is its total price minus the amount paid.
+
+export const PAYMENT_TYPES = ['deposit', 'payment', 'refund'];
+
+export const PAYMENT_METHODS = ['cash', 'card', 'bank_transfer', 'other'];
+
+const SIGNED_AMOUNT = "CASE WHEN p.type = 'refund' THEN -p.amount ELSE p.amount END";
+
+// Select column for queries that alias bookings as "b"
+export const AMOUNT_PAID_COLUMN = `
+  COALESCE((SELECT SUM(${SIGNED_AMOUNT}) FROM payments p WHERE p.booking_id = b.id), 0) as amount_paid
+`;
+
+// Same, for all bookings on an invoice aliased as "i"
+export const INVOICE_AMOUNT_PAID_COLUMN = `
+  COALESCE((
+    SELECT SUM(${SIGNED_AMOUNT}) FROM payments p
+    JOIN invoice_bookings paid_ib ON paid_ib.booking_id = p.booking_id
+    WHERE paid_ib.invoice_id = i.id
+  ), 0) as amount_paid
+`;
+
+// Convert a payments row (NUMERIC columns arrive as strings)
+export const formatPayment = (row) => {
+  if (!row) return null;
+  return {
+    ...row,
+    amount: Number(row.amount)
+  };
+};
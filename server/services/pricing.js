@@ -0,0 +1,98 @@
+import { dbGet } from '../database/init.js';
+import { getNightKeys, isWeekendNight, toDateKey } from './dates.js';
+
+// Nightly pricing from an apartment's rate plan.
+//
+// A season overrides the base and weekend price for the nights it covers
+// (start and end dates inclusive). Weekend nights are Friday and Saturday.
+// Amounts are summed in cents so totals do not pick up float rounding.
+
+export const DEFAULT_CURRENCY = 'EUR';
+
+const toCents = (amount) => Math.round(Number(amount) * 100);
+
+const toAmount = (value) => (value === null || value === undefined ? null : Number(value));
+
+// Convert a rate_plans row (NUMERIC columns arrive as strings)
+export const formatRatePlan = (row) => {
+  if (!row) return null;
+  return {
+    ...row,
+    base_price: Number(row.base_price),
+    weekend_price: toAmount(row.weekend_price),
+    min_stay: Number(row.min_stay),
+    seasons: JSON.parse(row.seasons || '[]')
+  };
+};
+
+export const getRatePlan = async (apartmentId, client = null) => {
+  const sql = 'SELECT * FROM rate_plans WHERE apartment_id = $1';
+  const row = client
+    ? (await client.query(sql, [apartmentId])).rows[0]
+    : await dbGet(sql, [apartmentId]);
+  return formatRatePlan(row);
+};
+
+const findSeason = (ratePlan, dateKey) => {
+  return ratePlan.seasons.find(season => season.start_date <= dateKey && dateKey <= season.end_date) || null;
+};
+
+// A season starting on the check-in day sets the minimum stay
+export const getMinimumStay = (ratePlan, checkIn) => {
+  const season = findSeason(ratePlan, toDateKey(checkIn));
+  return (season && season.min_stay) || ratePlan.min_stay || 1;
+};
+
+const priceNight = (ratePlan, date) => {
+  const season = findSeason(ratePlan, date);
+  const weekend = isWeekendNight(date);
+
+  if (season) {
+    const useWeekend = weekend && season.weekend_price !== null && season.weekend_price !== undefined;
+    return {
+      date,
+      price: Number(useWeekend ? season.weekend_price : season.nightly_price),
+      rule: useWeekend ? 'season_weekend' : 'season',
+      season: season.name || null
+    };
+  }
+
+  const useWeekend = weekend && ratePlan.weekend_price !== null;
+  return {
+    date,
+    price: useWeekend ? ratePlan.weekend_price : ratePlan.base_price,
+    rule: useWeekend ? 'weekend' : 'base',
+    season: null
+  };
+};
+
+export const quoteStay = (ratePlan, checkIn, checkOut) => {
+  const nights = getNightKeys(checkIn, checkOut).map(date => priceNight(ratePlan, date));
+  const totalCents = nights.reduce((sum, night) => sum + toCents(night.price), 0);
+  const minStay = getMinimumStay(ratePlan, checkIn);
+
+  return {
+    ratePlanId: ratePlan.id,
+    currency: ratePlan.currency,
+    nightCount: nights.length,
+    nights,
+    total: totalCents / 100,
+    minStay,
+    meetsMinimumStay: nights.length >= minStay
+  };
+};
+
+// Quote a stay in an apartment; null when it has no rate plan
+export const priceBooking = async (apartmentId, checkIn, checkOut, client = null) => {
+  if (!apartmentId) return null;
+
+  const ratePlan = await getRatePlan(apartmentId, client);
+  return ratePlan ? quoteStay(ratePlan, checkIn, checkOut) : null;
+};
+
+// Values for the total_price, currency and price_breakdown booking columns
+export const toPriceColumns = (quote) => [
+  quote ? quote.total : null,
+  quote ? quote.currency : null,
+  quote ? JSON.stringify(quote) : null
+];
@@ -0,0 +1,90 @@
+import { addDays, getNightKeys, toDateTimeKey } from './dates.js';
+import { INACTIVE_STATUSES } from './bookingStatus.js';
+import { CSV_CONTENT_TYPE, XLSX_CONTENT_TYPE, dateCell, toCsv, toXlsx } from './spreadsheet.js';
+
+// Spreadsheet reports for managers: the bookings list and the occupancy
+// matrix shown by the dashboard calendar.
+
+export const REPORT_FORMATS = ['csv', 'xlsx'];
+
+// Longest occupancy report, in days
+export const MAX_OCCUPANCY_DAYS = 366;
+
+const STATUS_LABELS = {
+  tentative: 'Tentative',
+  confirmed: 'Confirmed',
+  checked_in: 'Checked in',
+  checked_out: 'Checked out',
+  cancelled: 'Cancelled',
+  no_show: 'No-show'
+};
+
+const BLOCK_TYPE_LABELS = {
+  maintenance: 'Maintenance',
+  cleaning: 'Cleaning',
+  owner_use: 'Owner use'
+};
+
+// Rows from the bookings list query (with apartment_name and created_by_username)
+export const buildBookingsSheet = (bookings) => ({
+  name: 'Bookings',
+  rows: [
+    ['Guest', 'Apartment', 'Check-in', 'Check-out', 'Nights', 'Status', 'Created by'],
+    ...bookings.map(booking => [
+      booking.guest_name,
+      booking.apartment_name || booking.temporary_apartment || '',
+      dateCell(toDateTimeKey(booking.check_in)),
+      dateCell(toDateTimeKey(booking.check_out)),
+      getNightKeys(booking.check_in, booking.check_out).length,
+      STATUS_LABELS[booking.status] || booking.status,
+      booking.source === 'external' ? 'External calendar' : booking.created_by_username || ''
+    ])
+  ]
+});
+
+// One row per apartment and one column per night in [from, to): the guest
+// staying, the block type, or empty when free. Cancelled and no-show
+// bookings leave the apartment free, as on the calendar.
+export const buildOccupancySheet = (apartments, bookings, blocks, from, to) => {
+  const days = [];
+  for (let key = from; key < to; key = addDays(key, 1)) days.push(key);
+
+  // "apartmentId:night" -> { label, booked }
+  const cells = new Map();
+  for (const block of blocks) {
+    for (const night of getNightKeys(block.start_date, block.end_date)) {
+      cells.set(`${block.apartment_id}:${night}`, { label: BLOCK_TYPE_LABELS[block.type] || block.type, booked: false });
+    }
+  }
+  for (const booking of bookings) {
+    if (!booking.apartment_id || INACTIVE_STATUSES.includes(booking.status)) continue;
+    for (const night of getNightKeys(booking.check_in, booking.check_out)) {
+      cells.set(`${booking.apartment_id}:${night}`, { label: booking.guest_name, booked: true });
+    }
+  }
+
+  return {
+    name: 'Occupancy',
+    rows: [
+      ['Apartment', ...days, 'Nights booked', 'Occupancy %'],
+      ...apartments.map(apartment => {
+        const row = days.map(day => cells.get(`${apartment.id}:${day}`));
+        const bookedNights = row.filter(cell => cell?.booked).length;
+        return [
+          apartment.name,
+          ...row.map(cell => cell?.label || ''),
+          bookedNights,
+          days.length > 0 ? Math.round((bookedNights / days.length) * 1000) / 10 : 0
+        ];
+      })
+    ]
+  };
+};
+
+// Send a sheet as a file download in the requested format
+export const sendSheet = (res, sheet, format, basename) => {
+  const body = format === 'xlsx' ? toXlsx([sheet]) : toCsv(sheet.rows);
+  res.setHeader('Content-Type', format === 'xlsx' ? XLSX_CONTENT_TYPE : CSV_CONTENT_TYPE);
+  res.setHeader('Content-Disposition', `attachment; filename="${basename}.${format}"`);
+  res.send(body);
+};
@@ -0,0 +1,216 @@
+import { dbAll, dbGet } from '../database/init.js';
+import { broadcast } from './events.js';
+import { findOverlappingBlock, findOverlappingBooking } from './availability.js';
+import { isActiveStatus } from './bookingStatus.js';
+import { AMOUNT_PAID_COLUMN } from './payments.js';
+import { APPOINTMENTS_COLUMN } from './appointments.js';
+import { formatApartment } from './apartments.js';
+
+// Bringing deleted bookings and apartments back.
+//
+// Deleting one moves it to the trash (deleted_at is set), so restoring it
+// clears deleted_at again. Deletions from before the trash existed removed
+// the row and logged it as old_values, with the rows the database
+// cascade-deleted along with it under _cascade; restoring those inserts
+// everything again with the original IDs. Either way the restore happens in
+// the caller's transaction.
+
+export const RESTORABLE_TABLES = ['bookings', 'apartments'];
+
+// Tables removed with a record by ON DELETE CASCADE, in the order they can be
+// inserted again
+const CASCADE_TABLES = {
+  bookings: ['treatment_appointments', 'payments', 'invoice_bookings'],
+  apartments: ['rate_plans', 'external_calendars', 'apartment_blocks', 'calendar_feeds', 'bookings']
+};
+
+// References that may have been deleted since; restored rows lose them
+const OPTIONAL_REFERENCES = {
+  created_by: 'users',
+  recorded_by: 'users',
+  guest_id: 'guests'
+};
+
+// References a row cannot exist without; the row is left out when they are gone
+const REQUIRED_REFERENCES = {
+  invoice_id: 'invoices',
+  external_calendar_id: 'external_calendars'
+};
+
+export class RestoreConflictError extends Error {
+  constructor(message, details = {}) {
+    super(message);
+    this.details = details;
+  }
+}
+
+const recordExists = async (client, table, id) => {
+  const result = await client.query(`SELECT 1 FROM ${table} WHERE id = $1`, [id]);
+  return result.rows.length > 0;
+};
+
+// A booking can only come back to an apartment that is not in the trash
+// and, unless it was cancelled, to dates that are still free
+const checkBookingConflicts = async (client, booking) => {
+  if (!booking.apartment_id) return;
+
+  const { rows: [apartment] } = await client.query('SELECT deleted_at FROM apartments WHERE id = $1', [booking.apartment_id]);
+  if (!apartment || apartment.deleted_at) {
+    throw new RestoreConflictError('The booking\'s apartment has been deleted. Restore the apartment first.');
+  }
+
+  if (!isActiveStatus(booking.status)) return;
+
+  const conflictingBooking = await findOverlappingBooking(booking.apartment_id, booking.check_in, booking.check_out, booking.id, client);
+  if (conflictingBooking) {
+    throw new RestoreConflictError('Apartment is not available for the selected dates', { conflictingBooking });
+  }
+
+  const conflictingBlock = await findOverlappingBlock(booking.apartment_id, booking.check_in, booking.check_out, null, client);
+  if (conflictingBlock) {
+    throw new RestoreConflictError('Apartment is blocked for the selected dates', { conflictingBlock });
+  }
+};
+
+// The row with dangling optional references cleared, or null when a
+// required one is gone
+const resolveReferences = async (client, row) => {
+  const resolved = { ...row };
+
+  for (const [column, table] of Object.entries(REQUIRED_REFERENCES)) {
+    if (resolved[column] && !(await recordExists(client, table, resolved[column]))) return null;
+  }
+  for (const [column, table] of Object.entries(OPTIONAL_REFERENCES)) {
+    if (resolved[column] && !(await recordExists(client, table, resolved[column]))) resolved[column] = null;
+  }
+
+  return resolved;
+};
+
+// Insert the logged values into the columns the table still has. Returns
+// false when a row with the same key already exists.
+const insertRow = async (client, table, row) => {
+  const result = await client.query(`
+    SELECT column_name FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = $1
+  `, [table]);
+  const columns = result.rows.map(column => column.column_name).filter(column => row[column] !== undefined);
+
+  const inserted = await client.query(`
+    INSERT INTO ${table} (${columns.join(', ')})
+    VALUES (${columns.map((_, index) => `$${index + 1}`).join(', ')})
+    ON CONFLICT DO NOTHING
+  `, columns.map(column => row[column]));
+
+  return inserted.rowCount > 0;
+};
+
+const insertWithCascade = async (client, table, { _cascade: cascade = {}, ...values }) => {
+  const row = await resolveReferences(client, values);
+  if (!row || !(await insertRow(client, table, row))) return;
+
+  for (const childTable of CASCADE_TABLES[table] || []) {
+    for (const child of cascade[childTable] || []) {
+      await insertWithCascade(client, childTable, child);
+    }
+  }
+};
+
+// Take a record out of the trash. Throws RestoreConflictError when it is
+// no longer there or a booking would overlap another booking or a block.
+export const restoreFromTrash = async (client, table, id) => {
+  const { rows: [record] } = await client.query(`SELECT * FROM ${table} WHERE id = $1 FOR UPDATE`, [id]);
+
+  if (!record) {
+    throw new RestoreConflictError('This record has been permanently deleted');
+  }
+  if (!record.deleted_at) {
+    throw new RestoreConflictError('This record has already been restored');
+  }
+  if (table === 'bookings') {
+    await checkBookingConflicts(client, record);
+  }
+
+  await client.query(`
+    UPDATE ${table} SET deleted_at = NULL, deleted_by = NULL, updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1
+  `, [id]);
+
+  return { ...record, deleted_at: null, deleted_by: null };
+};
+
+// Undo the deletion a DELETE audit entry logged. Returns the restored values.
+export const restoreDeletedRecord = async (client, entry) => {
+  const { _cascade, ...record } = JSON.parse(entry.old_values);
+  const table = entry.table_name;
+
+  if (await recordExists(client, table, record.id)) {
+    return restoreFromTrash(client, table, record.id);
+  }
+
+  // Only deletions from before the trash kept enough to insert the record again
+  const { rows: purged } = await client.query(`
+    SELECT 1 FROM audit_logs WHERE action = 'PURGE' AND table_name = $1 AND record_id = $2
+  `, [table, record.id]);
+  if (!_cascade || purged.length > 0) {
+    throw new RestoreConflictError('This record has been permanently deleted');
+  }
+
+  if (table === 'bookings') {
+    await checkBookingConflicts(client, record);
+  }
+
+  await insertWithCascade(client, table, { ...record, _cascade });
+  return record;
+};
+
+const getBookingWithDetails = async (id) => {
+  const booking = await dbGet(`
+    SELECT b.*, a.name as apartment_name, u.username as created_by_username, ${AMOUNT_PAID_COLUMN}, ${APPOINTMENTS_COLUMN}
+    FROM bookings b
+    LEFT JOIN apartments a ON b.apartment_id = a.id
+    LEFT JOIN users u ON b.created_by = u.id
+    WHERE b.id = $1
+  `, [id]);
+
+  return {
+    ...booking,
+    checkIn: new Date(booking.check_in),
+    checkOut: new Date(booking.check_out)
+  };
+};
+
+// After the restore has committed, tell clients about the record (and, for
+// an apartment, the blocks and bookings that come back into view with it).
+// Returns the record in the format its own API uses.
+export const broadcastRestored = async (table, id, userId) => {
+  if (table === 'bookings') {
+    const booking = await getBookingWithDetails(id);
+    broadcast('booking.created', booking, userId);
+    return booking;
+  }
+
+  const apartment = formatApartment(await dbGet(`
+    SELECT a.*, u.username as created_by_username
+    FROM apartments a
+    LEFT JOIN users u ON a.created_by = u.id
+    WHERE a.id = $1
+  `, [id]));
+  broadcast('apartment.created', apartment, userId);
+
+  const blocks = await dbAll(`
+    SELECT ab.*, a.name as apartment_name, u.username as created_by_username
+    FROM apartment_blocks ab
+    LEFT JOIN apartments a ON ab.apartment_id = a.id
+    LEFT JOIN users u ON ab.created_by = u.id
+    WHERE ab.apartment_id = $1
+  `, [id]);
+  for (const block of blocks) broadcast('block.created', block, userId);
+
+  const bookings = await dbAll('SELECT id FROM bookings WHERE apartment_id = $1 AND deleted_at IS NULL', [id]);
+  for (const booking of bookings) {
+    broadcast('booking.created', await getBookingWithDetails(booking.id), userId);
+  }
+
+  return apartment;
+};
@@ -0,0 +1,298 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { promisify } from 'util';
+import zlib from 'zlib';
+import { dbAll, dbGet, dbRun } from '../database/init.js';
+import { BackupFormatError, buildBackup, parseBackup } from './backup.js';
+
+// Backups kept on the server. The scheduler writes a gzipped backup to
+// BACKUP_DIR on the cron schedule in BACKUP_SCHEDULE, then thins the
+// directory out to the newest backup of each of the last BACKUP_KEEP_DAILY
+// days, BACKUP_KEEP_WEEKLY weeks and BACKUP_KEEP_MONTHLY months.
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_SCHEDULE = '0 2 * * *'; // Daily at 02:00
+const DEFAULT_RETENTION = { daily: 7, weekly: 4, monthly: 12 };
+
+// Only names the server writes, which also keeps requests inside the directory
+const FILENAME_PATTERN = /^dentalsuite-backup-[\dTZ-]+\.json\.gz$/;
+
+export const getBackupDir = () => process.env.BACKUP_DIR || path.join(__dirname, '../backups');
+
+// null when scheduled backups are turned off with BACKUP_SCHEDULE=off
+export const getBackupSchedule = () => {
+  const schedule = process.env.BACKUP_SCHEDULE || DEFAULT_SCHEDULE;
+  return schedule === 'off' ? null : schedule;
+};
+
+export const getRetention = () => ({
+  daily: Number(process.env.BACKUP_KEEP_DAILY) || DEFAULT_RETENTION.daily,
+  weekly: Number(process.env.BACKUP_KEEP_WEEKLY) || DEFAULT_RETENTION.weekly,
+  monthly: Number(process.env.BACKUP_KEEP_MONTHLY) || DEFAULT_RETENTION.monthly
+});
+
+export class StoredBackupError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+// The values one cron field allows: *, n, a-b, with an optional /step, comma separated
+const parseCronField = (field, { name, min, max }) => {
+  const values = new Set();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) throw new Error(`Invalid cron ${name}: ${part}`);
+
+    const start = match[1] === '*' ? min : Number(match[2]);
+    const end = match[1] === '*' ? max : match[3] !== undefined ? Number(match[3]) : match[4] ? max : start;
+    const step = match[4] ? Number(match[4]) : 1;
+    if (start < min || end > max || start > end || step < 1) throw new Error(`Invalid cron ${name}: ${part}`);
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+};
+
+// A function telling whether a Date falls on a five-field cron expression,
+// in the server's time zone. As in cron, a restricted day of month and day
+// of week match either.
+export const parseCronExpression = (expression) => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) throw new Error(`Cron expressions have 5 fields: ${expression}`);
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, index) => parseCronField(field, CRON_FIELDS[index]));
+  if (weekdays.has(7)) weekdays.add(0);
+  const anyDay = fields[2] === '*';
+  const anyWeekday = fields[4] === '*';
+
+  return (date) => {
+    const dayMatches = days.has(date.getDate());
+    const weekdayMatches = weekdays.has(date.getDay());
+    const dateMatches = anyDay || anyWeekday ? dayMatches && weekdayMatches : dayMatches || weekdayMatches;
+
+    return minutes.has(date.getMinutes()) && hours.has(date.getHours()) && months.has(date.getMonth() + 1) && dateMatches;
+  };
+};
+
+const checksumOf = (buffer) => crypto.createHash('sha256').update(buffer).digest('hex');
+
+const backupPath = (filename) => {
+  if (!FILENAME_PATTERN.test(filename)) {
+    throw new StoredBackupError(404, 'Backup not found');
+  }
+  return path.join(getBackupDir(), filename);
+};
+
+// Write a backup to the backup directory. userId is null for the scheduler.
+export const createStoredBackup = async (userId, username = 'scheduler') => {
+  const backup = await buildBackup(username);
+  const compressed = await gzip(JSON.stringify(backup));
+  const checksum = checksumOf(compressed);
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const filename = `dentalsuite-backup-${timestamp}.json.gz`;
+  const filePath = backupPath(filename);
+
+  // Written under a temporary name so a crash never leaves a partial backup
+  await fs.mkdir(getBackupDir(), { recursive: true });
+  await fs.writeFile(`${filePath}.tmp`, compressed);
+  await fs.rename(`${filePath}.tmp`, filePath);
+
+  await dbRun(`
+    INSERT INTO backup_metadata (filename, file_size, created_by, checksum)
+    VALUES ($1, $2, $3, $4)
+  `, [filename, compressed.length, userId, checksum]);
+
+  return { filename, size: compressed.length, checksum, statistics: backup.statistics };
+};
+
+// Backups in the directory, newest first, with who made them
+export const listStoredBackups = async () => {
+  let filenames;
+  try {
+    filenames = (await fs.readdir(getBackupDir())).filter(filename => FILENAME_PATTERN.test(filename));
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const metadata = await dbAll(`
+    SELECT bm.filename, bm.checksum, u.username as created_by_username
+    FROM backup_metadata bm
+    LEFT JOIN users u ON bm.created_by = u.id
+    WHERE bm.filename = ANY($1)
+  `, [filenames]);
+
+  const backups = await Promise.all(filenames.map(async (filename) => {
+    const stats = await fs.stat(backupPath(filename));
+    const record = metadata.find(row => row.filename === filename);
+    return {
+      filename,
+      size: stats.size,
+      created_at: stats.mtime.toISOString(),
+      checksum: record?.checksum || null,
+      created_by_username: record?.created_by_username || null
+    };
+  }));
+
+  return backups.sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
+
+export const getStoredBackupPath = async (filename) => {
+  const filePath = backupPath(filename);
+  try {
+    await fs.access(filePath);
+  } catch {
+    throw new StoredBackupError(404, 'Backup not found');
+  }
+  return filePath;
+};
+
+const readCompressed = async (filename) => fs.readFile(await getStoredBackupPath(filename));
+
+// The parsed JSON in a stored backup, ready for parseBackup
+export const readStoredBackup = async (filename) => {
+  const compressed = await readCompressed(filename);
+  try {
+    return JSON.parse(await gunzip(compressed));
+  } catch {
+    throw new StoredBackupError(422, 'The backup file is damaged');
+  }
+};
+
+// Check a stored backup without importing it: the file matches the
+// checksum recorded when it was written, decompresses and is a valid backup
+export const verifyStoredBackup = async (filename) => {
+  const compressed = await readCompressed(filename);
+  const record = await dbGet('SELECT checksum FROM backup_metadata WHERE filename = $1 ORDER BY id DESC LIMIT 1', [filename]);
+  const checksum = checksumOf(compressed);
+  const result = { filename, checksum, checksumMatches: record?.checksum ? record.checksum === checksum : null };
+
+  if (result.checksumMatches === false) {
+    return { ...result, valid: false, message: 'The file has changed since it was written' };
+  }
+
+  let backup;
+  try {
+    backup = parseBackup(JSON.parse(await gunzip(compressed)));
+  } catch (error) {
+    if (error instanceof BackupFormatError) {
+      return { ...result, valid: false, message: error.message, issues: error.issues };
+    }
+    return { ...result, valid: false, message: 'The backup file is damaged' };
+  }
+
+  return {
+    ...result,
+    valid: true,
+    message: 'The backup is valid',
+    version: backup.upgradedFrom,
+    exported_at: backup.exported_at,
+    counts: Object.fromEntries(Object.entries(backup.data).map(([key, rows]) => [key, rows.length]))
+  };
+};
+
+const dayKey = (date) => date.toISOString().slice(0, 10);
+const monthKey = (date) => date.toISOString().slice(0, 7);
+
+// Monday-based weeks, keyed by the Monday's date
+const weekKey = (date) => {
+  const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return dayKey(monday);
+};
+
+// Delete stored backups the retention rules no longer keep. Each rule keeps
+// the newest backup in each of its most recent periods.
+export const applyRetention = async () => {
+  const retention = getRetention();
+  const backups = await listStoredBackups();
+  const keep = new Set();
+
+  for (const [rule, keyOf] of [['daily', dayKey], ['weekly', weekKey], ['monthly', monthKey]]) {
+    const periods = new Set();
+    for (const backup of backups) {
+      const period = keyOf(new Date(backup.created_at));
+      if (periods.has(period)) continue;
+      if (periods.size >= retention[rule]) break;
+      periods.add(period);
+      keep.add(backup.filename);
+    }
+  }
+
+  const expired = backups.filter(backup => !keep.has(backup.filename));
+  for (const backup of expired) {
+    await fs.unlink(backupPath(backup.filename));
+  }
+
+  return expired.map(backup => backup.filename);
+};
+
+// Run scheduled backups in the server process
+export const startBackupSchedule = () => {
+  const schedule = getBackupSchedule();
+  if (!schedule) {
+    console.log('Scheduled backups are turned off');
+    return;
+  }
+
+  let matches;
+  try {
+    matches = parseCronExpression(schedule);
+  } catch (error) {
+    console.error('Scheduled backups are not running:', error.message);
+    return;
+  }
+
+  const run = async () => {
+    const backup = await createStoredBackup(null);
+    const deleted = await applyRetention();
+    console.log(`Backup: wrote ${backup.filename}${deleted.length > 0 ? `, removed ${deleted.length} old backups` : ''}`);
+  };
+
+  // Checked every minute; any minute the timer slept through still counts
+  let lastChecked = new Date();
+  let running = false;
+  setInterval(() => {
+    const now = new Date();
+    let due = false;
+    for (const minute = new Date(lastChecked); minute <= now; minute.setMinutes(minute.getMinutes() + 1)) {
+      minute.setSeconds(0, 0);
+      if (minute > lastChecked && matches(minute)) due = true;
+    }
+    lastChecked = now;
+
+    if (due && !running) {
+      running = true;
+      run()
+        .catch(error => {
+          console.error('Scheduled backup error:', error);
+        })
+        .finally(() => {
+          running = false;
+        });
+    }
+  }, 60 * 1000).unref();
+
+  const retention = getRetention();
+  console.log(`Backups scheduled at "${schedule}" in ${getBackupDir()}, keeping ${retention.daily} daily, ${retention.weekly} weekly and ${retention.monthly} monthly`);
+};
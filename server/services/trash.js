@@ -0,0 +1,95 @@
+import { dbAll, withTransaction } from '../database/init.js';
+
+// The trash. Deleted apartments and bookings keep their rows with
+// deleted_at set, hidden from everything else, until an admin purges them or
+// the retention job does once they are older than TRASH_RETENTION_DAYS.
+
+export const TRASH_TABLES = ['bookings', 'apartments'];
+
+const DEFAULT_RETENTION_DAYS = 30;
+const RETENTION_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export const getRetentionDays = () => Number(process.env.TRASH_RETENTION_DAYS) || DEFAULT_RETENTION_DAYS;
+
+export class TrashRequestError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Permanently delete a record in the trash, in the caller's transaction.
+// Purging an apartment also removes its bookings in the trash, blocks, rate
+// plan and calendars. userId is null for the retention job.
+export const purgeRecord = async (client, table, id, userId) => {
+  const { rows: [record] } = await client.query(
+    `SELECT * FROM ${table} WHERE id = $1 AND deleted_at IS NOT NULL FOR UPDATE`,
+    [id]
+  );
+  if (!record) {
+    throw new TrashRequestError(404, 'Not found in the trash');
+  }
+
+  if (table === 'apartments') {
+    const { rows: [{ count }] } = await client.query(
+      'SELECT COUNT(*)::int as count FROM bookings WHERE apartment_id = $1 AND deleted_at IS NULL',
+      [id]
+    );
+    if (count > 0) {
+      throw new TrashRequestError(409, 'The apartment has bookings that are not in the trash');
+    }
+  }
+
+  await client.query(`DELETE FROM ${table} WHERE id = $1`, [id]);
+
+  await client.query(`
+    INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values)
+    VALUES ($1, $2, $3, $4, $5)
+  `, [userId, 'PURGE', table, id, JSON.stringify(record)]);
+
+  return record;
+};
+
+// Purge everything that has been in the trash longer than the retention
+// period. Bookings go first so an apartment's own purge does not take them.
+export const purgeExpiredTrash = async () => {
+  const purged = { bookings: 0, apartments: 0 };
+
+  for (const table of TRASH_TABLES) {
+    const expired = await dbAll(`
+      SELECT id FROM ${table}
+      WHERE deleted_at < CURRENT_TIMESTAMP - make_interval(days => $1)
+    `, [getRetentionDays()]);
+
+    for (const { id } of expired) {
+      try {
+        await withTransaction(client => purgeRecord(client, table, id, null));
+        purged[table]++;
+      } catch (error) {
+        console.error(`Trash purge error (${table} ${id}):`, error.message);
+      }
+    }
+  }
+
+  return purged;
+};
+
+// Run the retention job daily in the server process
+export const startTrashRetention = () => {
+  const run = () => {
+    purgeExpiredTrash()
+      .then(({ bookings, apartments }) => {
+        if (bookings + apartments > 0) {
+          console.log(`Trash: purged ${bookings} bookings and ${apartments} apartments`);
+        }
+      })
+      .catch(error => {
+        console.error('Trash retention error:', error);
+      });
+  };
+
+  setTimeout(run, 60 * 1000).unref();
+  setInterval(run, RETENTION_INTERVAL_MS).unref();
+
+  console.log(`Trash retention: items are purged after ${getRetentionDays()} days`);
+};
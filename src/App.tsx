@@ -13,6 +13,9 @@ import BookingsPage from "./pages/BookingsPage";
 import AssignPage from "./pages/AssignPage";
 import LoginPage from "./pages/LoginPage";
 import AdminPage from "./pages/AdminPage";
+import OutstandingPage from "./pages/OutstandingPage";
+import GuestsPage from "./pages/GuestsPage";
+import GuestDetailPage from "./pages/GuestDetailPage";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -61,6 +64,30 @@ const App = () => (
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/guests" 
+              element={
+                <ProtectedRoute requiredRole="manager">
+                  <GuestsPage />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/guests/:id" 
+              element={
+                <ProtectedRoute requiredRole="manager">
+                  <GuestDetailPage />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/outstanding" 
+              element={
+                <ProtectedRoute requiredRole="manager">
+                  <OutstandingPage />
+                </ProtectedRoute>
+              } 
+            />
             <Route 
               path="/admin" 
               element={
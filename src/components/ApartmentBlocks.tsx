@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { PlusIcon, TrashIcon, Wrench } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DatePicker } from '@/components/ui/date-picker';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAppStore } from '@/store';
+import { useToast } from '@/hooks/use-toast';
+import { ApartmentBlock, BlockType, BLOCK_TYPE_LABELS } from '@/types';
+
+interface ApartmentBlocksProps {
+  apartmentId: string;
+  blocks: ApartmentBlock[];
+}
+
+export function ApartmentBlocks({ apartmentId, blocks }: ApartmentBlocksProps) {
+  const { addBlock, deleteBlock } = useAppStore();
+  const [showDialog, setShowDialog] = useState(false);
+  const [startDate, setStartDate] = useState<Date | null>(null);
+  const [endDate, setEndDate] = useState<Date | null>(null);
+  const [type, setType] = useState<BlockType>('maintenance');
+  const [reason, setReason] = useState('');
+  const { toast } = useToast();
+
+  const resetForm = () => {
+    setStartDate(null);
+    setEndDate(null);
+    setType('maintenance');
+    setReason('');
+  };
+
+  const handleCreate = async () => {
+    if (!startDate || !endDate || endDate <= startDate) {
+      toast({
+        title: "Invalid dates",
+        description: "The end date must be after the start date.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await addBlock({
+        apartmentId,
+        startDate,
+        endDate,
+        type,
+        reason: reason.trim() || undefined
+      });
+      setShowDialog(false);
+      resetForm();
+      toast({
+        title: "Dates blocked",
+        description: `The apartment is now unavailable for ${BLOCK_TYPE_LABELS[type].toLowerCase()}.`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to block dates. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (blockId: string) => {
+    try {
+      await deleteBlock(blockId);
+      toast({
+        title: "Block removed",
+        description: "The apartment is available again for those dates.",
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to remove block. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const sortedBlocks = [...blocks].sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">Blocked Periods</CardTitle>
+          <Button variant="outline" size="sm" onClick={() => setShowDialog(true)}>
+            <PlusIcon className="mr-2 h-4 w-4" />
+            Block Dates
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {sortedBlocks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No maintenance, cleaning or owner blocks.</p>
+        ) : (
+          <div className="space-y-3">
+            {sortedBlocks.map((block) => (
+              <div key={block.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div className="flex items-center gap-3">
+                  <Wrench className="h-4 w-4 text-muted-foreground" />
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="secondary">{BLOCK_TYPE_LABELS[block.type]}</Badge>
+                      {block.reason && <span className="text-sm">{block.reason}</span>}
+                    </div>
+                    <div className="text-sm text-muted-foreground mt-1">
+                      {format(block.startDate, 'MMM d')} - {format(block.endDate, 'MMM d, yyyy')}
+                    </div>
+                  </div>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(block.id)}>
+                  <TrashIcon className="h-4 w-4" />
+                  <span className="sr-only">Remove block</span>
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showDialog} onOpenChange={(open) => {
+        setShowDialog(open);
+        if (!open) resetForm();
+      }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Block Dates</DialogTitle>
+            <DialogDescription>
+              Take the apartment out of service. Blocked dates cannot be booked.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as BlockType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BLOCK_TYPE_LABELS) as BlockType[]).map((blockType) => (
+                    <SelectItem key={blockType} value={blockType}>
+                      {BLOCK_TYPE_LABELS[blockType]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label>Start Date</Label>
+                <DatePicker
+                  selected={startDate}
+                  onSelect={(date) => setStartDate(date || null)}
+                  placeholder="Select start date"
+                />
+              </div>
+              <div>
+                <Label>End Date</Label>
+                <DatePicker
+                  selected={endDate}
+                  onSelect={(date) => setEndDate(date || null)}
+                  placeholder="Select end date"
+                  disabled={!startDate}
+                  minDate={startDate || undefined}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="block-reason">Reason</Label>
+              <Input
+                id="block-reason"
+                placeholder="e.g., Boiler replacement"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={!startDate || !endDate}>
+              Block Dates
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
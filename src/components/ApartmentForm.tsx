@@ -1,7 +1,7 @@
 
 import React, { useState } from 'react';
-import { PlusIcon, XIcon } from 'lucide-react';
-import { useForm } from 'react-hook-form';
+import { PlusIcon, TrashIcon, XIcon } from 'lucide-react';
+import { useFieldArray, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 
@@ -17,11 +17,37 @@ import {
 } from '@/components/ui/form';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Apartment, apartmentSchema } from '@/types';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Apartment,
+  BED_TYPE_LABELS,
+  BedConfiguration,
+  BedType,
+  EMPTY_APARTMENT_ATTRIBUTES,
+  apartmentSchema,
+  getApartmentCapacity
+} from '@/types';
+import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 
 type FormValues = z.infer<typeof apartmentSchema>;
 
+type NumberAttribute = 'bedrooms' | 'floor' | 'clinicDistanceM' | 'latitude' | 'longitude';
+type BooleanAttribute = 'hasElevator' | 'wheelchairAccessible';
+
+// Radix selects cannot use an empty string, so unknown gets its own value
+const YES_NO_UNKNOWN = [
+  { value: 'unknown', label: 'Unknown' },
+  { value: 'yes', label: 'Yes' },
+  { value: 'no', label: 'No' }
+];
+
 interface ApartmentFormProps {
   apartment?: Apartment;
   onSubmit: (data: FormValues) => void;
@@ -35,14 +61,22 @@ export function ApartmentForm({
 }: ApartmentFormProps) {
   const [propertyInput, setPropertyInput] = useState('');
   const { toast } = useToast();
+  const { hasPermission } = useAuth();
+  const canEditAttributes = hasPermission('admin');
   
   const form = useForm<FormValues>({
     resolver: zodResolver(apartmentSchema),
     defaultValues: {
       name: apartment?.name || '',
-      properties: apartment?.properties || []
+      properties: apartment?.properties || [],
+      maxGuests: apartment?.maxGuests ?? null,
+      beds: apartment?.beds || [],
+      attributes: apartment?.attributes || EMPTY_APARTMENT_ATTRIBUTES
     }
   });
+
+  const beds = useFieldArray({ control: form.control, name: 'beds' });
+  const bedCapacity = getApartmentCapacity({ beds: form.watch('beds') as BedConfiguration[] });
   
   const addProperty = () => {
     if (!propertyInput.trim()) return;
@@ -69,6 +103,62 @@ export function ApartmentForm({
     );
   };
   
+  // Only admins may send attributes; the server rejects them from anyone else
+  const handleSubmit = (data: FormValues) => {
+    onSubmit(canEditAttributes ? data : { ...data, attributes: undefined });
+  };
+
+  const renderNumberAttribute = (name: NumberAttribute, label: string, props: React.ComponentProps<typeof Input> = {}) => (
+    <FormField
+      control={form.control}
+      name={`attributes.${name}`}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              disabled={!canEditAttributes}
+              placeholder="Unknown"
+              value={field.value ?? ''}
+              onChange={(e) => field.onChange(e.target.value === '' ? null : Number(e.target.value))}
+              {...props}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const renderBooleanAttribute = (name: BooleanAttribute, label: string) => (
+    <FormField
+      control={form.control}
+      name={`attributes.${name}`}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select
+            disabled={!canEditAttributes}
+            value={field.value === null || field.value === undefined ? 'unknown' : field.value ? 'yes' : 'no'}
+            onValueChange={(value) => field.onChange(value === 'unknown' ? null : value === 'yes')}
+          >
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {YES_NO_UNKNOWN.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </FormItem>
+      )}
+    />
+  );
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       e.preventDefault();
@@ -87,7 +177,7 @@ export function ApartmentForm({
         <Form {...form}>
           <form
             className="space-y-6"
-            onSubmit={form.handleSubmit(onSubmit)}
+            onSubmit={form.handleSubmit(handleSubmit)}
           >
             <FormField
               control={form.control}
@@ -139,6 +229,108 @@ export function ApartmentForm({
               </div>
             </div>
             
+            <div className="space-y-2">
+              <FormLabel>Beds</FormLabel>
+              {beds.fields.map((bed, index) => (
+                <div key={bed.id} className="flex gap-2">
+                  <FormField
+                    control={form.control}
+                    name={`beds.${index}.type`}
+                    render={({ field }) => (
+                      <Select value={field.value} onValueChange={(value) => field.onChange(value as BedType)}>
+                        <SelectTrigger className="flex-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(BED_TYPE_LABELS).map(([type, label]) => (
+                            <SelectItem key={type} value={type}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`beds.${index}.count`}
+                    render={({ field }) => (
+                      <Input
+                        type="number"
+                        min={1}
+                        className="w-20"
+                        value={field.value}
+                        onChange={(e) => field.onChange(Number(e.target.value))}
+                      />
+                    )}
+                  />
+                  <Button type="button" variant="ghost" size="icon" onClick={() => beds.remove(index)}>
+                    <TrashIcon className="h-4 w-4" />
+                    <span className="sr-only">Remove bed</span>
+                  </Button>
+                </div>
+              ))}
+              <Button type="button" variant="outline" size="sm" onClick={() => beds.append({ type: 'double', count: 1 })}>
+                <PlusIcon className="mr-1 h-4 w-4" />
+                Add bed
+              </Button>
+            </div>
+
+            <FormField
+              control={form.control}
+              name="maxGuests"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Max guests</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={1}
+                      placeholder={bedCapacity ? `${bedCapacity} (from beds)` : 'No limit'}
+                      value={field.value ?? ''}
+                      onChange={(e) => field.onChange(e.target.value === '' ? null : Number(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-3">
+              <div>
+                <FormLabel>Attributes</FormLabel>
+                {!canEditAttributes && (
+                  <p className="text-xs text-muted-foreground">Only admins can change apartment attributes.</p>
+                )}
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                {renderNumberAttribute('bedrooms', 'Bedrooms', { min: 0 })}
+                {renderNumberAttribute('floor', 'Floor', { placeholder: '0 = ground floor' })}
+                {renderNumberAttribute('clinicDistanceM', 'Distance to clinic (m)', { min: 0 })}
+                {renderBooleanAttribute('hasElevator', 'Elevator')}
+                {renderBooleanAttribute('wheelchairAccessible', 'Wheelchair accessible')}
+              </div>
+              <FormField
+                control={form.control}
+                name="attributes.address"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Address</FormLabel>
+                    <FormControl>
+                      <Input
+                        disabled={!canEditAttributes}
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(e.target.value || null)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                {renderNumberAttribute('latitude', 'Latitude', { step: 'any' })}
+                {renderNumberAttribute('longitude', 'Longitude', { step: 'any' })}
+              </div>
+            </div>
+
             <div className="flex justify-end gap-2">
               {onCancel && (
                 <Button type="button" variant="outline" onClick={onCancel}>
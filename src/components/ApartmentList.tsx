@@ -1,5 +1,5 @@
-import React from 'react';
-import { Edit2Icon, TrashIcon, Star, Check } from 'lucide-react';
+import React, { useState } from 'react';
+import { Edit2Icon, HistoryIcon, TrashIcon, Star, Check } from 'lucide-react';
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -12,7 +12,9 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { Apartment } from '@/types';
+import { RecordHistorySheet } from '@/components/RecordHistorySheet';
+import { useAuth } from '@/contexts/AuthContext';
+import { Apartment, describeApartmentAttributes } from '@/types';
 
 interface ApartmentListProps {
   apartments: Apartment[];
@@ -31,6 +33,8 @@ export function ApartmentList({
   selectedApartmentIds = [],
   onToggleSelect
 }: ApartmentListProps) {
+  const [historyApartment, setHistoryApartment] = useState<Apartment | null>(null);
+  const { hasPermission } = useAuth();
   const selectionEnabled = !!onToggleSelect;
   
   return (
@@ -85,12 +89,17 @@ export function ApartmentList({
                     </TableCell>
                     <TableCell>
                       <div className="flex flex-wrap gap-1">
+                        {describeApartmentAttributes(apartment.attributes).map((label) => (
+                          <Badge key={label} variant="secondary">
+                            {label}
+                          </Badge>
+                        ))}
                         {apartment.properties.map((property) => (
                           <Badge key={property} variant="outline">
                             {property}
                           </Badge>
                         ))}
-                        {apartment.properties.length === 0 && (
+                        {apartment.properties.length === 0 && describeApartmentAttributes(apartment.attributes).length === 0 && (
                           <span className="text-muted-foreground text-sm">None</span>
                         )}
                       </div>
@@ -116,6 +125,16 @@ export function ApartmentList({
                             </span>
                           </Button>
                         )}
+                        {hasPermission('manager') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setHistoryApartment(apartment)}
+                          >
+                            <HistoryIcon className="h-4 w-4" />
+                            <span className="sr-only">History of {apartment.name}</span>
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="icon"
@@ -140,6 +159,12 @@ export function ApartmentList({
             </TableBody>
           </Table>
         )}
+        <RecordHistorySheet
+          table="apartments"
+          recordId={historyApartment?.id || null}
+          title={historyApartment?.name || ''}
+          onClose={() => setHistoryApartment(null)}
+        />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,262 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp, Undo2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AuditLogChanges } from '@/components/AuditLogChanges';
+import { AuditLogEntry, AuditLogFacets, AuditLogQuery, auditLogsAPI, Pagination } from '@/lib/api';
+import { useAppStore } from '@/store';
+import { useToast } from '@/hooks/use-toast';
+
+const PAGE_SIZE = 50;
+
+// Radix selects cannot use an empty string as an item value
+const ALL = 'all';
+
+const actionBadgeClassNames: Record<string, string> = {
+  CREATE: 'bg-green-100 text-green-800 hover:bg-green-200',
+  UPDATE: 'bg-blue-100 text-blue-800 hover:bg-blue-200',
+  DELETE: 'bg-red-100 text-red-800 hover:bg-red-200',
+  RESTORE: 'bg-amber-100 text-amber-800 hover:bg-amber-200',
+  PURGE: 'bg-red-100 text-red-800 hover:bg-red-200'
+};
+
+// Deletions the server can undo
+const RESTORABLE_TABLES = ['bookings', 'apartments'];
+
+// The whole audit log, filterable, with each entry's field changes
+export function AuditLogBrowser() {
+  const [facets, setFacets] = useState<AuditLogFacets>({ tables: [], actions: [], users: [] });
+  const [userFilter, setUserFilter] = useState(ALL);
+  const [tableFilter, setTableFilter] = useState(ALL);
+  const [actionFilter, setActionFilter] = useState(ALL);
+  const [recordId, setRecordId] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [page, setPage] = useState(1);
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const { restoreDeleted } = useAppStore();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    auditLogsAPI.getFacets().then(setFacets).catch(() => {
+      // The filters still work by record and date without the menus
+    });
+  }, []);
+
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [userFilter, tableFilter, actionFilter, recordId, fromDate, toDate]);
+
+  const loadEntries = useCallback(async () => {
+    const query: AuditLogQuery = {
+      page,
+      limit: PAGE_SIZE,
+      user_id: userFilter !== ALL ? Number(userFilter) : undefined,
+      table: tableFilter !== ALL ? tableFilter : undefined,
+      action: actionFilter !== ALL ? actionFilter : undefined,
+      record_id: recordId.trim() || undefined,
+      from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+      to: toDate ? new Date(`${toDate}T23:59:59`).toISOString() : undefined
+    };
+
+    try {
+      const result = await auditLogsAPI.getPage(query);
+      setEntries(result.data);
+      setPagination(result.pagination);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to load the audit log.",
+        variant: "destructive",
+      });
+    }
+  }, [page, userFilter, tableFilter, actionFilter, recordId, fromDate, toDate, toast]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const handleRestore = async (entry: AuditLogEntry) => {
+    try {
+      await restoreDeleted(entry.id);
+      toast({
+        title: "Restored",
+        description: `The deleted ${entry.table_name === 'bookings' ? 'booking' : 'apartment'} has been put back.`,
+      });
+      loadEntries();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to restore the record.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={userFilter} onValueChange={setUserFilter}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="User" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All users</SelectItem>
+            {facets.users.map(user => (
+              <SelectItem key={user.id} value={String(user.id)}>{user.username}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={tableFilter} onValueChange={setTableFilter}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Table" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All tables</SelectItem>
+            {facets.tables.map(table => (
+              <SelectItem key={table} value={table}>{table}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={actionFilter} onValueChange={setActionFilter}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Action" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All actions</SelectItem>
+            {facets.actions.map(action => (
+              <SelectItem key={action} value={action}>{action}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder="Record ID"
+          value={recordId}
+          onChange={(e) => setRecordId(e.target.value)}
+          className="w-[220px]"
+        />
+        <Input
+          type="date"
+          value={fromDate}
+          onChange={(e) => setFromDate(e.target.value)}
+          className="w-[150px]"
+          aria-label="From"
+        />
+        <Input
+          type="date"
+          value={toDate}
+          onChange={(e) => setToDate(e.target.value)}
+          className="w-[150px]"
+          aria-label="To"
+        />
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-[40px]" />
+            <TableHead>Time</TableHead>
+            <TableHead>User</TableHead>
+            <TableHead>Action</TableHead>
+            <TableHead>Table</TableHead>
+            <TableHead>Record</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {entries.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center text-muted-foreground">
+                No audit log entries match the filters
+              </TableCell>
+            </TableRow>
+          ) : (
+            entries.map(entry => (
+              <React.Fragment key={entry.id}>
+                <TableRow
+                  className="cursor-pointer"
+                  onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                >
+                  <TableCell>
+                    {expandedId === entry.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{format(new Date(entry.timestamp), 'PP p')}</TableCell>
+                  <TableCell>{entry.username || 'System'}</TableCell>
+                  <TableCell>
+                    <Badge variant="secondary" className={actionBadgeClassNames[entry.action] || ''}>
+                      {entry.action}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{entry.table_name}</TableCell>
+                  <TableCell className="font-mono text-xs">{entry.record_id || '—'}</TableCell>
+                </TableRow>
+                {expandedId === entry.id && (
+                  <TableRow>
+                    <TableCell />
+                    <TableCell colSpan={5} className="space-y-2">
+                      <AuditLogChanges entry={entry} />
+                      {entry.action === 'DELETE' && RESTORABLE_TABLES.includes(entry.table_name) && (
+                        <Button variant="outline" size="sm" onClick={() => handleRestore(entry)}>
+                          <Undo2 className="h-4 w-4 mr-1" />
+                          Restore
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </React.Fragment>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      {pagination && pagination.total > 0 && (
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            {(pagination.page - 1) * pagination.limit + 1}–{Math.min(pagination.page * pagination.limit, pagination.total)} of {pagination.total} entries
+          </span>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page <= 1}
+              onClick={() => setPage(page - 1)}
+            >
+              <ChevronLeft className="h-4 w-4" />
+              Previous
+            </Button>
+            <span>Page {pagination.page} of {pagination.total_pages}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page >= pagination.total_pages}
+              onClick={() => setPage(page + 1)}
+            >
+              Next
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import React from 'react';
+import { AuditLogEntry } from '@/lib/api';
+import { diffAuditValues, formatAuditValue } from '@/lib/auditDiff';
+
+interface AuditLogChangesProps {
+  entry: AuditLogEntry;
+}
+
+// The fields an audit entry changed, old value struck through above the new one
+export function AuditLogChanges({ entry }: AuditLogChangesProps) {
+  const changes = diffAuditValues(entry.old_values, entry.new_values);
+
+  if (changes.length === 0) {
+    return <p className="text-xs text-muted-foreground">No field changes recorded</p>;
+  }
+
+  return (
+    <dl className="grid grid-cols-[minmax(100px,auto)_1fr] gap-x-4 gap-y-1 text-xs">
+      {changes.map(change => (
+        <React.Fragment key={change.field}>
+          <dt className="font-mono text-muted-foreground">{change.field}</dt>
+          <dd className="min-w-0 break-words">
+            {change.before !== undefined && (
+              <div className="text-red-700 line-through">{formatAuditValue(change.before)}</div>
+            )}
+            {change.after !== undefined && (
+              <div className="text-green-700">{formatAuditValue(change.after)}</div>
+            )}
+          </dd>
+        </React.Fragment>
+      ))}
+    </dl>
+  );
+}
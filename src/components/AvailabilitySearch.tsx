@@ -1,5 +1,5 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -23,13 +23,18 @@ import {
 import { Calendar } from '@/components/ui/calendar';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { cn } from '@/lib/utils';
-import { dateRangeSchema, Apartment } from '@/types';
+import { dateRangeSchema, describeApartmentAttributes, Apartment, ApartmentFilters } from '@/types';
 
 type FormValues = z.infer<typeof dateRangeSchema>;
 
+type NumberFilter = 'minBedrooms' | 'maxFloor' | 'maxClinicDistanceM';
+
 interface AvailabilitySearchProps {
-  onSearch: (start: Date, end: Date) => void;
+  onSearch: (start: Date, end: Date, filters: ApartmentFilters) => void;
   availableApartments: Apartment[] | null;
   onBookSelected: (checkIn: Date, checkOut: Date) => void;
 }
@@ -46,9 +51,18 @@ export function AvailabilitySearch({
       endDate: undefined
     }
   });
+  const [filters, setFilters] = useState<ApartmentFilters>({});
   
   const onSubmit = (data: FormValues) => {
-    onSearch(data.startDate, data.endDate);
+    onSearch(data.startDate, data.endDate, filters);
+  };
+
+  const setNumberFilter = (name: NumberFilter, value: string) => {
+    setFilters(current => ({ ...current, [name]: value === '' ? undefined : Number(value) }));
+  };
+
+  const setBooleanFilter = (name: 'elevator' | 'wheelchairAccessible', checked: boolean) => {
+    setFilters(current => ({ ...current, [name]: checked || undefined }));
   };
   
   const handleBookSelected = () => {
@@ -155,6 +169,60 @@ export function AvailabilitySearch({
               />
             </div>
             
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="filter-bedrooms">Min. bedrooms</Label>
+                <Input
+                  id="filter-bedrooms"
+                  type="number"
+                  min={0}
+                  placeholder="Any"
+                  value={filters.minBedrooms ?? ''}
+                  onChange={(e) => setNumberFilter('minBedrooms', e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="filter-floor">Max. floor</Label>
+                <Input
+                  id="filter-floor"
+                  type="number"
+                  placeholder="Any (0 = ground floor)"
+                  value={filters.maxFloor ?? ''}
+                  onChange={(e) => setNumberFilter('maxFloor', e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="filter-distance">Max. distance to clinic (m)</Label>
+                <Input
+                  id="filter-distance"
+                  type="number"
+                  min={0}
+                  placeholder="Any"
+                  value={filters.maxClinicDistanceM ?? ''}
+                  onChange={(e) => setNumberFilter('maxClinicDistanceM', e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-6">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="filter-elevator"
+                  checked={filters.elevator === true}
+                  onCheckedChange={(checked) => setBooleanFilter('elevator', checked === true)}
+                />
+                <Label htmlFor="filter-elevator">Elevator</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="filter-wheelchair"
+                  checked={filters.wheelchairAccessible === true}
+                  onCheckedChange={(checked) => setBooleanFilter('wheelchairAccessible', checked === true)}
+                />
+                <Label htmlFor="filter-wheelchair">Wheelchair accessible</Label>
+              </div>
+            </div>
+            
             <div className="flex justify-end">
               <Button type="submit">Search</Button>
             </div>
@@ -177,6 +245,11 @@ export function AvailabilitySearch({
                   >
                     <div className="font-medium">{apartment.name}</div>
                     <div className="flex flex-wrap gap-1 mt-1">
+                      {describeApartmentAttributes(apartment.attributes).map((label) => (
+                        <Badge key={label} variant="secondary" className="text-xs">
+                          {label}
+                        </Badge>
+                      ))}
                       {apartment.properties.map((property) => (
                         <Badge key={property} variant="outline" className="text-xs">
                           {property}
@@ -0,0 +1,107 @@
+import React from 'react';
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from '@/components/ui/accordion';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { BackupImportResult } from '@/lib/api';
+import { formatAuditValue } from '@/lib/auditDiff';
+
+interface BackupImportPreviewProps {
+  result: BackupImportResult;
+}
+
+// Per-table counts of what a backup import would do, with the new, changed
+// and conflicting rows of each table underneath
+export function BackupImportPreview({ result }: BackupImportPreviewProps) {
+  const tables = Object.entries(result.diff);
+  const detailedTables = tables.filter(([, diff]) =>
+    diff.new.length + diff.changed.length + diff.conflicts.length > 0
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Backup format {result.version}. Nothing has been imported yet.
+      </p>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Table</TableHead>
+            <TableHead className="text-right">New</TableHead>
+            <TableHead className="text-right">Changed</TableHead>
+            <TableHead className="text-right">Unchanged</TableHead>
+            <TableHead className="text-right">Conflicts</TableHead>
+            {result.replaceMode && <TableHead className="text-right">Removed</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {tables.map(([table]) => {
+            const summary = result.summary[table];
+            return (
+              <TableRow key={table}>
+                <TableCell>{table}</TableCell>
+                <TableCell className="text-right">{summary.new}</TableCell>
+                <TableCell className="text-right">{summary.changed}</TableCell>
+                <TableCell className="text-right">{summary.unchanged}</TableCell>
+                <TableCell className={summary.conflicts > 0 ? 'text-right text-destructive' : 'text-right'}>
+                  {summary.conflicts}
+                </TableCell>
+                {result.replaceMode && <TableCell className="text-right">{summary.removed}</TableCell>}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      {detailedTables.length > 0 && (
+        <Accordion type="multiple" className="max-h-64 overflow-y-auto">
+          {detailedTables.map(([table, diff]) => (
+            <AccordionItem key={table} value={table}>
+              <AccordionTrigger className="text-sm">{table}</AccordionTrigger>
+              <AccordionContent className="space-y-2 text-xs">
+                {diff.conflicts.map(row => (
+                  <div key={`conflict-${row.id}`} className="text-destructive">
+                    Skipped {row.label} ({row.id}): {row.reason}
+                  </div>
+                ))}
+                {diff.new.map(row => (
+                  <div key={`new-${row.id}`} className="text-green-700">
+                    New: {row.label}
+                    {row.passwordReset && ' (backups hold no passwords; the account stays inactive until an admin sets one)'}
+                  </div>
+                ))}
+                {diff.changed.map(row => (
+                  <div key={`changed-${row.id}`}>
+                    <div>Changed: {row.label}</div>
+                    <dl className="ml-4 grid grid-cols-[minmax(100px,auto)_1fr] gap-x-4">
+                      {Object.entries(row.changes).map(([field, change]) => (
+                        <React.Fragment key={field}>
+                          <dt className="font-mono text-muted-foreground">{field}</dt>
+                          <dd className="min-w-0 break-words">
+                            <span className="text-red-700 line-through">{formatAuditValue(change.from)}</span>{' '}
+                            <span className="text-green-700">{formatAuditValue(change.to)}</span>
+                          </dd>
+                        </React.Fragment>
+                      ))}
+                    </dl>
+                  </div>
+                ))}
+              </AccordionContent>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
-
-import React, { useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
+import { TrashIcon, UploadIcon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
 import { 
   Dialog,
   DialogContent,
@@ -10,117 +13,233 @@ import {
   DialogTitle,
   DialogFooter,
 } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
 import { useToast } from '@/hooks/use-toast';
-import { parse, isValid } from 'date-fns';
-import { Booking } from '@/types';
+import { useAppStore } from '@/store';
+import { format, isValid } from 'date-fns';
+import { BookingImportPreview } from '@/components/BookingImportPreview';
+import {
+  buildPreview,
+  detectColumns,
+  detectDateFormat,
+  detectHeader,
+  ImportColumn,
+  ImportDateFormat,
+  ImportTable,
+  parseDelimitedText
+} from '@/lib/bookingImport';
+import { readSpreadsheetFile, SPREADSHEET_FILE_ACCEPT, SpreadsheetSheet } from '@/lib/spreadsheetFile';
+import {
+  BATCH_IMPORT_MODE_LABELS,
+  BATCH_ROW_STATUS_LABELS,
+  BatchImportMode,
+  BatchImportResult,
+  BatchRowResult,
+  BatchRowStatus,
+  ParsedBookingData
+} from '@/types';
+
+const statusBadgeClassNames: Record<BatchRowStatus, string> = {
+  created: 'bg-green-100 text-green-800 hover:bg-green-200',
+  ready: 'bg-gray-100 text-gray-700 hover:bg-gray-200',
+  invalid: 'bg-red-100 text-red-800 hover:bg-red-200',
+  duplicate: 'bg-amber-100 text-amber-800 hover:bg-amber-200',
+  conflict: 'bg-red-100 text-red-800 hover:bg-red-200'
+};
+
+// A submitted row and what the server said about it
+interface ImportRow {
+  data: ParsedBookingData;
+  result: BatchRowResult;
+}
+
+const DATE_TIME_INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
 
 interface BatchBookingImportProps {
-  onImport: (bookings: Omit<Booking, 'id'>[]) => void;
+  onImport: (bookings: ParsedBookingData[], mode: BatchImportMode) => Promise<BatchImportResult>;
 }
 
 export function BatchBookingImport({ onImport }: BatchBookingImportProps) {
   const [open, setOpen] = useState(false);
   const [inputData, setInputData] = useState('');
+  const [mode, setMode] = useState<BatchImportMode>('all_or_nothing');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ImportColumn[]>([]);
+  const [dateFormat, setDateFormat] = useState<ImportDateFormat>('dd.MM.yyyy');
+  const [sheets, setSheets] = useState<SpreadsheetSheet[]>([]);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { apartments } = useAppStore();
   const { toast } = useToast();
   
-  const parseExcelData = (input: string) => {
-    const lines = input.trim().split('\n');
-    const parsedBookings: Omit<Booking, 'id'>[] = [];
-    const errors: string[] = [];
-    
-    lines.forEach((line, index) => {
-      // First, try to split the line by tab character (common when pasting from Excel)
-      const parts = line.trim().split(/\t+/);
-      
-      let guestName: string;
-      let checkInStr: string;
-      let checkOutStr: string;
-      
-      if (parts.length >= 3) {
-        // We have tab-separated data (Excel paste)
-        guestName = parts[0].trim();
-        checkInStr = parts[1].trim();
-        checkOutStr = parts[2].trim();
-      } else {
-        // Try to extract using regex for space-delimited format
-        const nameAndDatesPattern = /^([^0-9]+?)[\s]+(\d{2}\.\d{2}\.\d{4}(?:\s*\/\s*\d{2}:\d{2})?)[\s]+(\d{2}\.\d{2}\.\d{4}(?:\s*\/\s*\d{2}:\d{2})?)$/;
-        
-        const match = line.match(nameAndDatesPattern);
-        
-        if (!match) {
-          errors.push(`Line ${index + 1}: Invalid format`);
-          return;
-        }
-        
-        guestName = match[1].trim();
-        checkInStr = match[2];
-        checkOutStr = match[3];
-      }
-      
-      // Process the date strings
-      const processDateString = (dateStr: string) => {
-        const parts = dateStr.split('/');
-        const datePart = parts[0].trim();
-        const timePart = parts.length > 1 ? parts[1].trim() : "00:00";
-        
-        return `${datePart} ${timePart}`;
-      };
-      
-      const processedCheckInStr = processDateString(checkInStr);
-      const processedCheckOutStr = processDateString(checkOutStr);
-      
-      const checkIn = parse(processedCheckInStr, 'dd.MM.yyyy HH:mm', new Date());
-      const checkOut = parse(processedCheckOutStr, 'dd.MM.yyyy HH:mm', new Date());
-      
-      if (!isValid(checkIn) || !isValid(checkOut)) {
-        errors.push(`Line ${index + 1}: Invalid date format for ${guestName}`);
-        return;
-      }
-      
-      if (checkIn >= checkOut) {
-        errors.push(`Line ${index + 1}: Check-out must be after check-in for ${guestName}`);
-        return;
-      }
+  const preview = useMemo(
+    () => (table ? buildPreview(table, mapping, dateFormat, apartments) : []),
+    [table, mapping, dateFormat, apartments]
+  );
+  const readyBookings = preview.flatMap(row => (row.booking ? [row.booking] : []));
+  
+  // Send rows to the server and merge the results into the table. Rows that
+  // were already created are never sent again.
+  const submit = async (bookings: ParsedBookingData[], previous: ImportRow[] = []) => {
+    setSubmitting(true);
+    try {
+      const result = await onImport(bookings, mode);
+      const submitted = bookings.map((data, index) => ({ data, result: { ...result.rows[index], row: index } }));
+      setRows([...previous, ...submitted]);
       
-      parsedBookings.push({
-        guestName,
-        checkIn,
-        checkOut,
+      const failedCount = submitted.filter(row => row.result.status !== 'created').length;
+      toast({
+        title: failedCount > 0 ? "Some rows need attention" : "Bookings imported",
+        description: failedCount > 0
+          ? `${result.createdCount} bookings created. Fix the ${failedCount} highlighted rows and resubmit them.`
+          : `Successfully imported ${result.createdCount} bookings`,
+        variant: failedCount > 0 ? "destructive" : "default",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Import failed",
+        description: error.response?.data?.message || "Failed to import bookings. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+  
+  const startPreview = (parsedRows: string[][]) => {
+    const parsedTable = { rows: parsedRows, hasHeader: detectHeader(parsedRows) };
+    const detectedMapping = detectColumns(parsedTable, apartments);
+    setTable(parsedTable);
+    setMapping(detectedMapping);
+    setDateFormat(detectDateFormat(parsedRows, detectedMapping));
+  };
+  
+  const handlePreview = () => {
+    const parsedRows = parseDelimitedText(inputData);
+    if (parsedRows.length === 0) {
+      toast({
+        title: "No bookings found",
+        description: "Paste rows with a guest name, check-in and check-out",
+        variant: "destructive",
       });
-    });
+      return;
+    }
     
-    return { parsedBookings, errors };
+    setSheets([]);
+    startPreview(parsedRows);
   };
   
-  const handleImport = () => {
-    const { parsedBookings, errors } = parseExcelData(inputData);
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
     
-    if (errors.length > 0) {
+    try {
+      const fileSheets = await readSpreadsheetFile(file);
+      if (fileSheets.length === 0) {
+        toast({
+          title: "No bookings found",
+          description: `${file.name} has no rows to import`,
+          variant: "destructive",
+        });
+        return;
+      }
+      
+      setSheets(fileSheets);
+      setSheetIndex(0);
+      startPreview(fileSheets[0].rows);
+    } catch (error: any) {
       toast({
-        title: "Import errors",
-        description: errors.join('\n').substring(0, 250) + (errors.join('\n').length > 250 ? '...' : ''),
+        title: "Could not read file",
+        description: error.message || "The file could not be read",
         variant: "destructive",
       });
-      return;
     }
+  };
+  
+  const handleSheetChange = (value: string) => {
+    setSheetIndex(Number(value));
+    startPreview(sheets[Number(value)].rows);
+  };
+  
+  // Toggling the header changes what the columns can be guessed from
+  const handleHeaderChange = (hasHeader: boolean) => {
+    if (!table) return;
+    const updatedTable = { ...table, hasHeader };
+    setTable(updatedTable);
+    setMapping(detectColumns(updatedTable, apartments));
+  };
+  
+  const handleImport = () => {
+    submit(readyBookings);
+  };
+  
+  const pendingRows = rows?.filter(row => row.result.status !== 'created') || [];
+  
+  const handleResubmit = () => {
+    if (!rows) return;
     
-    if (parsedBookings.length === 0) {
+    const incomplete = pendingRows.some(({ data }) =>
+      !data.guestName.trim() || !isValid(data.checkIn) || !isValid(data.checkOut) || data.checkOut <= data.checkIn
+    );
+    if (incomplete) {
       toast({
-        title: "No bookings found",
-        description: "Please check your input data format",
+        title: "Incomplete rows",
+        description: "Every row needs a guest name and a check-out after its check-in.",
         variant: "destructive",
       });
       return;
     }
     
-    onImport(parsedBookings);
-    setOpen(false);
-    setInputData('');
-    
-    toast({
-      title: "Bookings imported",
-      description: `Successfully imported ${parsedBookings.length} bookings`,
-    });
+    submit(pendingRows.map(row => row.data), rows.filter(row => row.result.status === 'created'));
+  };
+  
+  const updateRow = (target: ImportRow, data: Partial<ParsedBookingData>) => {
+    setRows(current => current?.map(row => (row === target ? { ...row, data: { ...row.data, ...data } } : row)) || null);
+  };
+  
+  const removeRow = (target: ImportRow) => {
+    setRows(current => current?.filter(row => row !== target) || null);
+  };
+  
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setRows(null);
+      setTable(null);
+      setSheets([]);
+      setInputData('');
+    }
+  };
+  
+  const renderDateInput = (row: ImportRow, field: 'checkIn' | 'checkOut') => {
+    if (row.result.status === 'created') {
+      return format(row.data[field], 'PP p');
+    }
+    return (
+      <Input
+        type="datetime-local"
+        value={isValid(row.data[field]) ? format(row.data[field], DATE_TIME_INPUT_FORMAT) : ''}
+        onChange={(e) => updateRow(row, { [field]: new Date(e.target.value) })}
+        className="w-[190px]"
+      />
+    );
   };
   
   return (
@@ -129,31 +248,164 @@ export function BatchBookingImport({ onImport }: BatchBookingImportProps) {
         Batch Import
       </Button>
       
-      <Dialog open={open} onOpenChange={setOpen}>
-        <DialogContent className="sm:max-w-md md:max-w-xl">
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className={rows || table ? "sm:max-w-3xl md:max-w-5xl" : "sm:max-w-md md:max-w-xl"}>
           <DialogHeader>
             <DialogTitle>Import Bookings</DialogTitle>
             <DialogDescription>
-              Paste data from Excel or in the format: Name DD.MM.YYYY / HH:MM DD.MM.YYYY / HH:MM
+              {rows
+                ? "Fix or remove the highlighted rows, then resubmit them."
+                : table
+                  ? "Check which column holds each field. Rows with highlighted cells are left out."
+                  : "Paste rows from a spreadsheet or upload a file with a guest name, check-in, check-out and optionally an apartment."}
             </DialogDescription>
           </DialogHeader>
           
-          <div className="py-4">
-            <Textarea
-              placeholder="David Smith	09.06.2025 / 11:45	16.06.2025 / 12:35"
-              value={inputData}
-              onChange={(e) => setInputData(e.target.value)}
-              className="h-64"
-            />
+          <div className="space-y-4 py-4">
+            {(rows || table) && (
+              <div className="flex items-center gap-3">
+                <Label htmlFor="batch-import-mode">If some rows fail</Label>
+                <Select value={mode} onValueChange={(value) => setMode(value as BatchImportMode)}>
+                  <SelectTrigger id="batch-import-mode" className="w-[220px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(BATCH_IMPORT_MODE_LABELS) as BatchImportMode[]).map((value) => (
+                      <SelectItem key={value} value={value}>{BATCH_IMPORT_MODE_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            
+            {rows ? (
+              <div className="max-h-[55vh] overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Guest</TableHead>
+                      <TableHead>Check-in</TableHead>
+                      <TableHead>Check-out</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead className="w-[50px]" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row, index) => (
+                      <TableRow
+                        key={index}
+                        className={['invalid', 'duplicate', 'conflict'].includes(row.result.status) ? 'bg-red-50' : ''}
+                      >
+                        <TableCell>
+                          {row.result.status === 'created' ? row.data.guestName : (
+                            <Input
+                              value={row.data.guestName}
+                              onChange={(e) => updateRow(row, { guestName: e.target.value })}
+                              className="min-w-[160px]"
+                            />
+                          )}
+                        </TableCell>
+                        <TableCell>{renderDateInput(row, 'checkIn')}</TableCell>
+                        <TableCell>{renderDateInput(row, 'checkOut')}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary" className={statusBadgeClassNames[row.result.status]}>
+                            {BATCH_ROW_STATUS_LABELS[row.result.status]}
+                          </Badge>
+                          {row.result.message && (
+                            <div className="mt-1 text-xs text-muted-foreground">{row.result.message}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {row.result.status !== 'created' && (
+                            <Button variant="ghost" size="icon" onClick={() => removeRow(row)}>
+                              <TrashIcon className="h-4 w-4" />
+                              <span className="sr-only">Remove row</span>
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : table ? (
+              <>
+                {sheets.length > 1 && (
+                  <div className="flex items-center gap-3">
+                    <Label htmlFor="batch-import-sheet">Sheet</Label>
+                    <Select value={String(sheetIndex)} onValueChange={handleSheetChange}>
+                      <SelectTrigger id="batch-import-sheet" className="w-[220px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {sheets.map((sheet, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {sheet.name} ({sheet.rows.length} rows)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <BookingImportPreview
+                  table={table}
+                  mapping={mapping}
+                  dateFormat={dateFormat}
+                  preview={preview}
+                  onHeaderChange={handleHeaderChange}
+                  onMappingChange={setMapping}
+                  onDateFormatChange={setDateFormat}
+                />
+                <p className="text-sm text-muted-foreground">
+                  {readyBookings.length} of {preview.length} rows ready to import
+                </p>
+              </>
+            ) : (
+              <>
+                <Textarea
+                  placeholder={"Guest\tCheck-in\tCheck-out\tApartment\nDavid Smith\t09.06.2025 / 11:45\t16.06.2025 / 12:35\tApartment 1"}
+                  value={inputData}
+                  onChange={(e) => setInputData(e.target.value)}
+                  className="h-64"
+                />
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={SPREADSHEET_FILE_ACCEPT}
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+                <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                  <UploadIcon className="mr-2 h-4 w-4" />
+                  Upload .xlsx, .ods or .csv
+                </Button>
+              </>
+            )}
           </div>
           
           <DialogFooter>
-            <Button variant="secondary" onClick={() => setOpen(false)}>
-              Cancel
-            </Button>
-            <Button onClick={handleImport}>
-              Import Bookings
-            </Button>
+            {table && !rows ? (
+              <Button variant="secondary" onClick={() => setTable(null)}>
+                Back
+              </Button>
+            ) : (
+              <Button variant="secondary" onClick={() => handleOpenChange(false)}>
+                {rows ? 'Close' : 'Cancel'}
+              </Button>
+            )}
+            {rows ? (
+              <Button onClick={handleResubmit} disabled={submitting || pendingRows.length === 0}>
+                Resubmit {pendingRows.length} rows
+              </Button>
+            ) : table ? (
+              <Button onClick={handleImport} disabled={submitting || readyBookings.length === 0}>
+                Import {readyBookings.length} rows
+              </Button>
+            ) : (
+              <Button onClick={handlePreview} disabled={!inputData.trim()}>
+                Preview
+              </Button>
+            )}
           </DialogFooter>
         </DialogContent>
       </Dialog>
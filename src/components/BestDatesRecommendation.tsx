@@ -1,14 +1,33 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, addDays, isSunday, isSaturday, addMonths, subMonths } from 'date-fns';
 import { ChevronLeft, ChevronRight, Calendar, TrendingUp, Star } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { useAppStore } from '@/store';
 
 export function BestDatesRecommendation() {
   const [selectedMonth, setSelectedMonth] = useState(new Date());
   const [stayDuration, setStayDuration] = useState(3);
-  const { apartments, bookings, getAvailableApartments } = useAppStore();
+  const [treatmentDaysInput, setTreatmentDaysInput] = useState('');
+  const { apartments, bookings, bookingsLoadedSince, ensureBookingsLoaded, getAvailableApartments } = useAppStore();
+
+  useEffect(() => {
+    ensureBookingsLoaded(startOfMonth(selectedMonth), endOfMonth(selectedMonth));
+  }, [selectedMonth, bookingsLoadedSince, ensureBookingsLoaded]);
+
+  // Days of the stay with clinic appointments, counted from 1 (e.g. "1, 6")
+  const treatmentDays = useMemo(() => {
+    const days = treatmentDaysInput
+      .split(/[\s,;]+/)
+      .map(Number)
+      .filter(day => Number.isInteger(day) && day >= 1 && day <= 14);
+    return Array.from(new Set(days)).sort((a, b) => a - b);
+  }, [treatmentDaysInput]);
+
+  // The stay has to last until the last treatment day
+  const lastTreatmentDay = treatmentDays.length > 0 ? treatmentDays[treatmentDays.length - 1] : 0;
+  const effectiveDuration = Math.max(stayDuration, lastTreatmentDay);
 
   const handlePreviousMonth = () => setSelectedMonth(subMonths(selectedMonth, 1));
   const handleNextMonth = () => setSelectedMonth(addMonths(selectedMonth, 1));
@@ -19,15 +38,18 @@ export function BestDatesRecommendation() {
     const monthStart = startOfMonth(selectedMonth);
     const monthEnd = endOfMonth(selectedMonth);
     const daysInMonth = eachDayOfInterval({ start: monthStart, end: monthEnd });
+
+    // Stays touching the month; the rest can't affect any day in it
+    const monthBookings = bookings.filter(booking => booking.checkIn <= monthEnd && booking.checkOut >= monthStart);
     
     // Calculate occupancy for each possible stay period
     const stayPeriods = daysInMonth
       .filter(day => {
-        const endDate = addDays(day, stayDuration - 1);
+        const endDate = addDays(day, effectiveDuration - 1);
         return endDate <= monthEnd; // Ensure stay doesn't go beyond the month
       })
       .map(startDate => {
-        const endDate = addDays(startDate, stayDuration - 1);
+        const endDate = addDays(startDate, effectiveDuration - 1);
         const stayDays = eachDayOfInterval({ start: startDate, end: endDate });
         
         // Get available apartments for this period
@@ -36,15 +58,14 @@ export function BestDatesRecommendation() {
         
         // Calculate total occupancy for this period
         let totalOccupancy = 0;
-        let hasSunday = false;
-        let hasWeekendStart = false;
+        const hasWeekendStart = isSaturday(startDate);
+
+        // The clinic is closed on Sundays, so no treatment day may fall on one
+        const hasSundayTreatment = treatmentDays.some(day => isSunday(addDays(startDate, day - 1)));
         
-        stayDays.forEach(day => {
-          if (isSunday(day)) hasSunday = true;
-          if (isSaturday(startDate)) hasWeekendStart = true;
-          
+        stayDays.forEach(day => {          
           // Count how many apartments are booked on this day
-          const dayBookings = bookings.filter(booking => {
+          const dayBookings = monthBookings.filter(booking => {
             const bookingStart = new Date(booking.checkIn);
             const bookingEnd = new Date(booking.checkOut);
             return day >= bookingStart && day <= bookingEnd;
@@ -63,8 +84,8 @@ export function BestDatesRecommendation() {
         // Bonus for having favorite apartments available
         if (hasFavoriteAvailable) score += 0.1;
         
-        // Penalty for including Sunday (dental work can't be done)
-        if (hasSunday) score -= 0.3;
+        // Penalty for a treatment day on a Sunday (dental work can't be done)
+        if (hasSundayTreatment) score -= 0.3;
         
         // Penalty for starting on Saturday (weekend start)
         if (hasWeekendStart) score -= 0.2;
@@ -74,7 +95,7 @@ export function BestDatesRecommendation() {
           endDate,
           occupancyRate,
           score,
-          hasSunday,
+          hasSundayTreatment,
           hasWeekendStart,
           hasFavoriteAvailable,
           formatRange: `${format(startDate, 'MMM d')} - ${format(endDate, 'MMM d')}`
@@ -84,7 +105,7 @@ export function BestDatesRecommendation() {
       .slice(0, 5); // Take top 5 recommendations
     
     return stayPeriods;
-  }, [selectedMonth, stayDuration, apartments, bookings, getAvailableApartments]);
+  }, [selectedMonth, effectiveDuration, treatmentDays, apartments, bookings, getAvailableApartments]);
 
   return (
     <Card>
@@ -141,6 +162,21 @@ export function BestDatesRecommendation() {
             </div>
           </div>
         </div>
+
+        <div className="flex items-center space-x-2">
+          <span className="text-sm font-medium">Treatment days</span>
+          <Input
+            value={treatmentDaysInput}
+            onChange={(e) => setTreatmentDaysInput(e.target.value)}
+            placeholder="e.g. 1, 6"
+            className="h-8 w-32"
+          />
+          {effectiveDuration > stayDuration && (
+            <span className="text-xs text-muted-foreground">
+              Stays last {effectiveDuration} days to cover day {lastTreatmentDay}.
+            </span>
+          )}
+        </div>
         
         <div className="space-y-2">
           <h4 className="text-sm font-medium text-muted-foreground">Recommended Date Ranges:</h4>
@@ -159,9 +195,9 @@ export function BestDatesRecommendation() {
                     {period.hasFavoriteAvailable && (
                       <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
                     )}
-                    {period.hasSunday && (
+                    {period.hasSundayTreatment && (
                       <span className="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded">
-                        Includes Sunday
+                        Treatment on Sunday
                       </span>
                     )}
                     {period.hasWeekendStart && (
@@ -178,7 +214,7 @@ export function BestDatesRecommendation() {
             </div>
           ) : (
             <p className="text-sm text-muted-foreground">
-              No suitable date ranges found for {stayDuration} days in {format(selectedMonth, 'MMMM yyyy')}.
+              No suitable date ranges found for {effectiveDuration} days in {format(selectedMonth, 'MMMM yyyy')}.
             </p>
           )}
         </div>
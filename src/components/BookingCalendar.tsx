@@ -1,12 +1,13 @@
 
-import React, { useState } from 'react';
-import { format, differenceInDays, addDays } from 'date-fns';
+import React, { useState, useEffect, useMemo } from 'react';
+import { format, differenceInDays, addDays, endOfMonth, endOfWeek, startOfMonth, startOfWeek } from 'date-fns';
 import { Calendar } from '@/components/ui/calendar';
 import { Card, CardContent } from '@/components/ui/card';
-import { Apartment, Booking } from '@/types';
+import { Apartment, Booking, TreatmentAppointment, APPOINTMENT_TYPE_LABELS } from '@/types';
 import { Badge } from '@/components/ui/badge';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { DayContentProps } from 'react-day-picker';
+import { useAppStore } from '@/store';
 
 interface BookingCalendarProps {
   bookings: Booking[];
@@ -15,9 +16,22 @@ interface BookingCalendarProps {
 
 export function BookingCalendar({ bookings, apartments }: BookingCalendarProps) {
   const [month, setMonth] = useState<Date>(new Date());
+  const { bookingsLoadedSince, ensureBookingsLoaded } = useAppStore();
+
+  useEffect(() => {
+    ensureBookingsLoaded(startOfMonth(month), endOfMonth(month));
+  }, [month, bookingsLoadedSince, ensureBookingsLoaded]);
+
+  // Only stays overlapping the visible days, including the leading and
+  // trailing days of the neighbouring months, need day markers
+  const visibleBookings = useMemo(() => {
+    const visibleStart = startOfWeek(startOfMonth(month));
+    const visibleEnd = endOfWeek(endOfMonth(month));
+    return bookings.filter(booking => booking.checkIn <= visibleEnd && booking.checkOut >= visibleStart);
+  }, [bookings, month]);
   
   // Get all dates where there are bookings
-  const bookingDates = bookings.reduce((dates, booking) => {
+  const bookingDates = visibleBookings.reduce((dates, booking) => {
     const daysCount = differenceInDays(booking.checkOut, booking.checkIn);
     const apartment = apartments.find(a => a.id === booking.apartmentId);
     
@@ -45,6 +59,19 @@ export function BookingCalendar({ bookings, apartments }: BookingCalendarProps)
     return dates;
   }, {} as Record<string, (Booking & { apartmentName: string })[]>);
   
+  // Treatment appointments by day, for the markers
+  const appointmentDates = visibleBookings.reduce((dates, booking) => {
+    const apartment = apartments.find(a => a.id === booking.apartmentId);
+    if (!apartment) return dates;
+
+    for (const appointment of booking.appointments || []) {
+      const dateStr = format(appointment.scheduledAt, 'yyyy-MM-dd');
+      dates[dateStr] = [...(dates[dateStr] || []), { ...appointment, guestName: booking.guestName }];
+    }
+
+    return dates;
+  }, {} as Record<string, (TreatmentAppointment & { guestName: string })[]>);
+
   // Create a modifiers object for the calendar
   const modifiers = {
     booked: Object.keys(bookingDates).map(dateStr => new Date(dateStr)),
@@ -55,11 +82,15 @@ export function BookingCalendar({ bookings, apartments }: BookingCalendarProps)
     const day = props.date;
     const dateStr = format(day, 'yyyy-MM-dd');
     const dayBookings = bookingDates[dateStr] || [];
+    const dayAppointments = appointmentDates[dateStr] || [];
     const isBooked = dayBookings.length > 0;
     
     return (
       <div className={`relative h-full w-full ${isBooked ? 'bg-red-100' : ''}`}>
         <div className="text-center">{format(day, 'd')}</div>
+        {dayAppointments.length > 0 && (
+          <div className="absolute top-0.5 right-0.5 h-1.5 w-1.5 rounded-full bg-blue-500" />
+        )}
         {isBooked && (
           <div className="absolute bottom-0 left-0 right-0">
             <div className="flex justify-center">
@@ -79,6 +110,13 @@ export function BookingCalendar({ bookings, apartments }: BookingCalendarProps)
                             <span>: {booking.guestName}</span>
                           </div>
                         ))}
+                        {dayAppointments.map((appointment, index) => (
+                          <div key={`${appointment.id}-${index}`} className="mb-1 text-blue-700">
+                            {format(appointment.scheduledAt, 'HH:mm')} {APPOINTMENT_TYPE_LABELS[appointment.type]}
+                            <span>: {appointment.guestName}</span>
+                            {appointment.doctor && <span> ({appointment.doctor})</span>}
+                          </div>
+                        ))}
                       </div>
                     </TooltipContent>
                   </Tooltip>
@@ -121,6 +159,10 @@ export function BookingCalendar({ bookings, apartments }: BookingCalendarProps)
             <div className="w-4 h-4 rounded-full bg-white border mr-2"></div>
             <span className="text-sm">Available</span>
           </div>
+          <div className="flex items-center">
+            <div className="w-2 h-2 rounded-full bg-blue-500 mr-2"></div>
+            <span className="text-sm">Treatment appointment</span>
+          </div>
         </div>
       </div>
       
@@ -147,6 +189,16 @@ export function BookingCalendar({ bookings, apartments }: BookingCalendarProps)
                         <div>to {format(booking.checkOut, 'MMM d, yyyy')}</div>
                       </div>
                     </div>
+                    {booking.appointments && booking.appointments.length > 0 && (
+                      <div className="mt-2 space-y-0.5 text-xs text-blue-700">
+                        {booking.appointments.map((appointment, index) => (
+                          <div key={`${appointment.id}-${index}`}>
+                            {format(appointment.scheduledAt, 'MMM d, HH:mm')} · {APPOINTMENT_TYPE_LABELS[appointment.type]}
+                            {appointment.doctor && ` · ${appointment.doctor}`}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               );
@@ -1,9 +1,9 @@
-import React, { useState } from 'react';
-import { useForm } from 'react-hook-form';
+import React, { useState, useEffect } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { format, parse, isValid } from 'date-fns';
-import { CalendarIcon } from 'lucide-react';
+import { format, parse, isValid, setHours, startOfDay } from 'date-fns';
+import { CalendarIcon, PlusIcon, TrashIcon, UserPlusIcon, XIcon } from 'lucide-react';
 
 import { Button } from '@/components/ui/button';
 import {
@@ -30,13 +30,74 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { cn } from '@/lib/utils';
-import { bookingSchema, Apartment, Booking, ParsedBookingData } from '@/types';
+import { cn, formatCurrency } from '@/lib/utils';
+import { guestsAPI, ratePlansAPI, Guest, PriceQuote } from '@/lib/api';
+import { GuestFormDialog } from '@/components/GuestFormDialog';
+import {
+  bookingSchema,
+  fitsParty,
+  getApartmentCapacity,
+  getPartySize,
+  isAppointmentCovered,
+  Apartment,
+  AppointmentType,
+  APPOINTMENT_TYPE_LABELS,
+  Booking,
+  ParsedBookingData
+} from '@/types';
 import { useToast } from '@/hooks/use-toast';
 import { Checkbox } from '@/components/ui/checkbox';
 
 type FormValues = z.infer<typeof bookingSchema>;
 
+// Radix selects cannot use an empty string as an item value
+const NO_GUEST_PROFILE = 'none';
+
+const PRICE_RULE_LABELS: Record<PriceQuote['nights'][number]['rule'], string> = {
+  base: 'base rate',
+  weekend: 'weekend rate',
+  season: 'season',
+  season_weekend: 'season weekend'
+};
+
+// Group consecutive nights charged the same way, e.g. "3 × €80.00 base rate"
+function PriceQuoteSummary({ quote }: { quote: PriceQuote }) {
+  const groups: { count: number; price: number; label: string }[] = [];
+
+  for (const night of quote.nights) {
+    const label = night.season
+      ? `${night.season} ${night.rule === 'season_weekend' ? 'weekend' : ''}`.trim()
+      : PRICE_RULE_LABELS[night.rule];
+    const last = groups[groups.length - 1];
+
+    if (last && last.price === night.price && last.label === label) {
+      last.count++;
+    } else {
+      groups.push({ count: 1, price: night.price, label });
+    }
+  }
+
+  return (
+    <div className="rounded-md border p-3 space-y-1 text-sm">
+      <div className="flex justify-between font-medium">
+        <span>{quote.nightCount} night{quote.nightCount !== 1 ? 's' : ''}</span>
+        <span>{formatCurrency(quote.total, quote.currency)}</span>
+      </div>
+      {groups.map((group, index) => (
+        <div key={index} className="flex justify-between text-muted-foreground">
+          <span>{group.count} × {formatCurrency(group.price, quote.currency)} {group.label}</span>
+          <span>{formatCurrency(group.count * group.price, quote.currency)}</span>
+        </div>
+      ))}
+      {!quote.meetsMinimumStay && (
+        <p className="text-destructive">
+          Minimum stay for these dates is {quote.minStay} nights.
+        </p>
+      )}
+    </div>
+  );
+}
+
 interface BookingFormProps {
   apartments: Apartment[];
   booking?: Booking;
@@ -60,38 +121,152 @@ export function BookingForm({
   
   // Create a modified schema based on the skipApartment state
   const getValidationSchema = () => {
-    if (skipApartment) {
+    const schema = skipApartment
       // Create a schema without the apartmentId requirement
-      return z.object({
+      ? z.object({
         guestName: bookingSchema.shape.guestName,
+        guestId: bookingSchema.shape.guestId,
         checkIn: bookingSchema.shape.checkIn,
         checkOut: bookingSchema.shape.checkOut,
-        apartmentId: z.string().optional() // Make truly optional
+        apartmentId: z.string().optional(), // Make truly optional
+        adults: bookingSchema.shape.adults,
+        children: bookingSchema.shape.children,
+        companions: bookingSchema.shape.companions,
+        appointments: bookingSchema.shape.appointments
+      })
+      : bookingSchema; // Use the original schema
+
+    return schema.superRefine((data, ctx) => {
+      // The whole party has to fit in the apartment
+      const partySize = getPartySize(data);
+      const apartment = apartments.find(a => a.id === data.apartmentId);
+      if (apartment && !fitsParty(apartment, partySize)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${apartment.name} sleeps only ${getApartmentCapacity(apartment)} guests`,
+          path: ['apartmentId']
+        });
+      }
+
+      if ((data.companions?.length || 0) >= partySize) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "There are more companions than guests in the party",
+          path: ['companions']
+        });
+      }
+
+      // The stay has to cover every treatment appointment
+      data.appointments?.forEach((appointment, index) => {
+        if (appointment.scheduledAt && data.checkIn && data.checkOut &&
+          !isAppointmentCovered({ scheduledAt: appointment.scheduledAt }, data.checkIn, data.checkOut)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Appointment must fall within the stay",
+            path: ['appointments', index, 'scheduledAt']
+          });
+        }
       });
-    }
-    return bookingSchema; // Use the original schema
+    });
   };
   
   const form = useForm<FormValues>({
     resolver: zodResolver(getValidationSchema()),
     defaultValues: booking ? {
       guestName: booking.guestName,
+      guestId: booking.guestId || '',
       checkIn: booking.checkIn,
       checkOut: booking.checkOut,
-      apartmentId: booking.apartmentId
+      apartmentId: booking.apartmentId,
+      adults: booking.adults ?? 1,
+      children: booking.children ?? 0,
+      companions: booking.companions || [],
+      appointments: booking.appointments || []
     } : {
       guestName: '',
+      guestId: '',
       checkIn: undefined,
       checkOut: undefined,
-      apartmentId: ''
+      apartmentId: '',
+      adults: 1,
+      children: 0,
+      companions: [],
+      appointments: []
     },
     mode: 'onChange'
   });
+
+  const appointmentFields = useFieldArray({
+    control: form.control,
+    name: 'appointments'
+  });
   
   // Update form validation when skipApartment changes
   React.useEffect(() => {
     form.trigger();
   }, [skipApartment, form]);
+
+  const [guests, setGuests] = useState<Guest[]>([]);
+  const [showGuestForm, setShowGuestForm] = useState(false);
+
+  useEffect(() => {
+    guestsAPI.getAll()
+      .then(setGuests)
+      .catch(error => console.error('Failed to load guests:', error));
+  }, []);
+
+  const selectGuest = (guest: Guest | null) => {
+    form.setValue('guestId', guest ? guest.id : '');
+    if (guest) {
+      form.setValue('guestName', guest.full_name, { shouldValidate: true });
+    }
+  };
+
+  const [quote, setQuote] = useState<PriceQuote | null>(null);
+  const [quoteMessage, setQuoteMessage] = useState<string | null>(null);
+  const [watchCheckIn, watchCheckOut, watchApartmentId] = form.watch(['checkIn', 'checkOut', 'apartmentId']);
+  const [watchAdults, watchChildren, watchCompanions] = form.watch(['adults', 'children', 'companions']);
+  const partySize = getPartySize({ adults: watchAdults, children: watchChildren });
+
+  const setCompanions = (companions: string[]) => {
+    form.setValue('companions', companions, { shouldValidate: true });
+  };
+
+  // Live quote from the apartment's rate plan
+  useEffect(() => {
+    if (skipApartment || !watchApartmentId || !watchCheckIn || !watchCheckOut || watchCheckOut <= watchCheckIn) {
+      setQuote(null);
+      setQuoteMessage(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const newQuote = await ratePlansAPI.quote(
+          watchApartmentId,
+          watchCheckIn.toISOString(),
+          watchCheckOut.toISOString()
+        );
+        if (!cancelled) {
+          setQuote(newQuote);
+          setQuoteMessage(null);
+        }
+      } catch (error: any) {
+        if (!cancelled) {
+          setQuote(null);
+          setQuoteMessage(error.response?.status === 404
+            ? 'This apartment has no rate plan, so the stay will not be priced.'
+            : 'Could not calculate a price for this stay.');
+        }
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [skipApartment, watchApartmentId, watchCheckIn, watchCheckOut]);
   
   const parseExcelData = (input: string): ParsedBookingData | null => {
     // First, try to split the input by tab character (common when pasting from Excel)
@@ -185,6 +360,14 @@ export function BookingForm({
     }
   };
 
+  const handleAddAppointment = () => {
+    appointmentFields.append({
+      scheduledAt: setHours(startOfDay(form.getValues().checkIn || new Date()), 9),
+      type: 'consultation',
+      doctor: ''
+    });
+  };
+
   const handleSubmit = (data: FormValues) => {
     const formData = { ...data };
     
@@ -233,6 +416,40 @@ export function BookingForm({
             className="space-y-6"
             onSubmit={form.handleSubmit(handleSubmit)}
           >
+            <FormField
+              control={form.control}
+              name="guestId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Guest Profile</FormLabel>
+                  <div className="flex gap-2">
+                    <Select
+                      value={field.value || NO_GUEST_PROFILE}
+                      onValueChange={(value) => selectGuest(guests.find(guest => guest.id === value) || null)}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_GUEST_PROFILE}>No profile</SelectItem>
+                        {guests.map((guest) => (
+                          <SelectItem key={guest.id} value={guest.id}>
+                            {guest.full_name}{guest.email ? ` (${guest.email})` : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button type="button" variant="outline" onClick={() => setShowGuestForm(true)}>
+                      <UserPlusIcon className="mr-1 h-4 w-4" />
+                      New
+                    </Button>
+                  </div>
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="guestName"
@@ -333,6 +550,87 @@ export function BookingForm({
               />
             </div>
 
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="adults"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Adults</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="children"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Children</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="companions"
+                render={() => (
+                  <FormItem>
+                    <div className="flex items-center justify-between">
+                      <FormLabel>Companions</FormLabel>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setCompanions([...(watchCompanions || []), ''])}
+                      >
+                        <PlusIcon className="mr-1 h-4 w-4" />
+                        Add companion
+                      </Button>
+                    </div>
+                    {(watchCompanions || []).map((companion, index) => (
+                      <div key={index} className="flex gap-2">
+                        <Input
+                          placeholder="Companion name"
+                          value={companion}
+                          onChange={(e) => setCompanions((watchCompanions || []).map((name, i) => i === index ? e.target.value : name))}
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setCompanions((watchCompanions || []).filter((_, i) => i !== index))}
+                        >
+                          <XIcon className="h-4 w-4" />
+                          <span className="sr-only">Remove companion</span>
+                        </Button>
+                      </div>
+                    ))}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
             <div className="flex items-center space-x-2 mb-4">
               <Checkbox 
                 id="skipApartment" 
@@ -372,11 +670,18 @@ export function BookingForm({
                             No available apartments
                           </div>
                         ) : (
-                          apartmentsToShow.map((apartment) => (
-                            <SelectItem key={apartment.id} value={apartment.id}>
-                              {apartment.name}
-                            </SelectItem>
-                          ))
+                          apartmentsToShow.map((apartment) => {
+                            const capacity = getApartmentCapacity(apartment);
+                            return (
+                              <SelectItem
+                                key={apartment.id}
+                                value={apartment.id}
+                                disabled={!fitsParty(apartment, partySize) && apartment.id !== field.value}
+                              >
+                                {apartment.name}{capacity !== null && ` (sleeps ${capacity})`}
+                              </SelectItem>
+                            );
+                          })
                         )}
                       </SelectContent>
                     </Select>
@@ -386,6 +691,81 @@ export function BookingForm({
               />
             )}
             
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <FormLabel>Treatment Appointments</FormLabel>
+                <Button type="button" variant="outline" size="sm" onClick={handleAddAppointment}>
+                  <PlusIcon className="mr-1 h-4 w-4" />
+                  Add appointment
+                </Button>
+              </div>
+              {appointmentFields.fields.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Optional. The stay must cover every appointment in the patient's treatment plan.
+                </p>
+              )}
+              {appointmentFields.fields.map((appointment, index) => (
+                <div key={appointment.id} className="grid grid-cols-1 md:grid-cols-[14rem_12rem_1fr_auto] gap-2 items-start">
+                  <FormField
+                    control={form.control}
+                    name={`appointments.${index}.scheduledAt`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input
+                            type="datetime-local"
+                            value={field.value && isValid(field.value) ? format(field.value, "yyyy-MM-dd'T'HH:mm") : ''}
+                            onChange={(e) => field.onChange(e.target.value ? new Date(e.target.value) : undefined)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`appointments.${index}.type`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {(Object.keys(APPOINTMENT_TYPE_LABELS) as AppointmentType[]).map((type) => (
+                              <SelectItem key={type} value={type}>{APPOINTMENT_TYPE_LABELS[type]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`appointments.${index}.doctor`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input placeholder="Doctor (optional)" {...field} value={field.value || ''} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="button" variant="ghost" size="icon" onClick={() => appointmentFields.remove(index)}>
+                    <TrashIcon className="h-4 w-4" />
+                    <span className="sr-only">Remove appointment</span>
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {quote && <PriceQuoteSummary quote={quote} />}
+            {quoteMessage && (
+              <p className="text-sm text-muted-foreground">{quoteMessage}</p>
+            )}
+            
             <div className="flex justify-end gap-2">
               {onCancel && (
                 <Button type="button" variant="outline" onClick={onCancel}>
@@ -398,6 +778,17 @@ export function BookingForm({
             </div>
           </form>
         </Form>
+
+        <GuestFormDialog
+          open={showGuestForm}
+          initialName={form.getValues().guestName}
+          onClose={() => setShowGuestForm(false)}
+          onSaved={(guest) => {
+            setShowGuestForm(false);
+            setGuests(current => current.some(g => g.id === guest.id) ? current : [...current, guest]);
+            selectGuest(guest);
+          }}
+        />
       </CardContent>
     </Card>
   );
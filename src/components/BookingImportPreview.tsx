@@ -0,0 +1,145 @@
+import React from 'react';
+import { format } from 'date-fns';
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  IMPORT_COLUMN_LABELS,
+  IMPORT_DATE_FORMAT_LABELS,
+  ImportColumn,
+  ImportDateFormat,
+  ImportPreviewRow,
+  ImportTable
+} from '@/lib/bookingImport';
+
+interface BookingImportPreviewProps {
+  table: ImportTable;
+  mapping: ImportColumn[];
+  dateFormat: ImportDateFormat;
+  preview: ImportPreviewRow[];
+  onHeaderChange: (hasHeader: boolean) => void;
+  onMappingChange: (mapping: ImportColumn[]) => void;
+  onDateFormatChange: (dateFormat: ImportDateFormat) => void;
+}
+
+// The pasted cells with a field picker above each column. Cells that fail
+// validation are highlighted, with the reason in the last column.
+export function BookingImportPreview({
+  table,
+  mapping,
+  dateFormat,
+  preview,
+  onHeaderChange,
+  onMappingChange,
+  onDateFormatChange
+}: BookingImportPreviewProps) {
+  const headerCells = table.hasHeader ? table.rows[0] : [];
+
+  // Each field except "ignore" belongs to one column, so picking it for a
+  // column releases it from the previous one
+  const handleColumnChange = (index: number, column: ImportColumn) => {
+    onMappingChange(mapping.map((current, i) => {
+      if (i === index) return column;
+      return column !== 'ignore' && current === column ? 'ignore' : current;
+    }));
+  };
+
+  const hasError = (row: ImportPreviewRow, index: number) =>
+    row.errors.some(error => error.column === mapping[index]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="import-has-header"
+            checked={table.hasHeader}
+            onCheckedChange={(checked) => onHeaderChange(checked === true)}
+          />
+          <Label htmlFor="import-has-header">First row is a header</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="import-date-format">Dates</Label>
+          <Select value={dateFormat} onValueChange={(value) => onDateFormatChange(value as ImportDateFormat)}>
+            <SelectTrigger id="import-date-format" className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(IMPORT_DATE_FORMAT_LABELS) as ImportDateFormat[]).map((value) => (
+                <SelectItem key={value} value={value}>{IMPORT_DATE_FORMAT_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="max-h-[50vh] overflow-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[40px]">#</TableHead>
+              {mapping.map((column, index) => (
+                <TableHead key={index} className="min-w-[140px] py-2 align-top">
+                  <Select value={column} onValueChange={(value) => handleColumnChange(index, value as ImportColumn)}>
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(IMPORT_COLUMN_LABELS) as ImportColumn[]).map((value) => (
+                        <SelectItem key={value} value={value}>{IMPORT_COLUMN_LABELS[value]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {headerCells[index] && (
+                    <div className="mt-1 truncate text-xs font-normal">{headerCells[index]}</div>
+                  )}
+                </TableHead>
+              ))}
+              <TableHead className="min-w-[200px]">Check</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {preview.map((row, rowIndex) => (
+              <TableRow key={rowIndex} className={row.booking ? '' : 'bg-red-50'}>
+                <TableCell className="text-muted-foreground">{rowIndex + 1}</TableCell>
+                {mapping.map((column, index) => (
+                  <TableCell
+                    key={index}
+                    className={`${hasError(row, index) ? 'bg-red-100 text-red-800' : ''} ${column === 'ignore' ? 'text-muted-foreground' : ''}`}
+                  >
+                    {row.cells[index] || ''}
+                  </TableCell>
+                ))}
+                <TableCell className="text-xs">
+                  {row.booking ? (
+                    <span className="text-green-700">
+                      {format(row.booking.checkIn, 'PP p')} – {format(row.booking.checkOut, 'PP p')}
+                    </span>
+                  ) : (
+                    <span className="text-red-700">{row.errors.map(error => error.message).join('. ')}</span>
+                  )}
+                  {row.apartmentNote && <div className="text-amber-700">{row.apartmentNote}</div>}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
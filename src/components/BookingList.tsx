@@ -1,6 +1,7 @@
-import React from 'react';
-import { Edit2Icon, TrashIcon, XIcon } from 'lucide-react';
+import React, { useState } from 'react';
+import { Edit2Icon, FileTextIcon, HistoryIcon, TrashIcon, WalletIcon, XIcon } from 'lucide-react';
 import { format } from 'date-fns';
+import { Link } from 'react-router-dom';
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -13,6 +14,7 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/contexts/AuthContext';
 import {
   Select,
   SelectContent,
@@ -20,7 +22,29 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Booking, Apartment } from '@/types';
+import {
+  Booking,
+  Apartment,
+  BookingStatus,
+  BOOKING_STATUS_LABELS,
+  BOOKING_STATUS_TRANSITIONS,
+  getPartySize,
+  isActiveBooking,
+  isExternalBooking
+} from '@/types';
+import { formatCurrency } from '@/lib/utils';
+import { InvoiceDialog } from '@/components/InvoiceDialog';
+import { PaymentsDialog } from '@/components/PaymentsDialog';
+import { RecordHistorySheet } from '@/components/RecordHistorySheet';
+
+const statusBadgeClassNames: Record<BookingStatus, string> = {
+  tentative: 'bg-amber-100 text-amber-800 hover:bg-amber-200',
+  confirmed: 'bg-green-100 text-green-800 hover:bg-green-200',
+  checked_in: 'bg-blue-100 text-blue-800 hover:bg-blue-200',
+  checked_out: 'bg-gray-100 text-gray-700 hover:bg-gray-200',
+  cancelled: 'bg-red-100 text-red-800 hover:bg-red-200',
+  no_show: 'bg-red-100 text-red-800 hover:bg-red-200'
+};
 
 interface BookingListProps {
   bookings: Booking[];
@@ -30,6 +54,7 @@ interface BookingListProps {
   showAssignButton?: boolean;
   onAssign?: (booking: Booking) => void;
   onUpdateAssignment?: (bookingId: string, apartmentId: string | null) => void;
+  onUpdateStatus?: (bookingId: string, status: BookingStatus) => void;
 }
 
 export function BookingList({
@@ -39,8 +64,14 @@ export function BookingList({
   onDelete,
   showAssignButton = false,
   onAssign,
-  onUpdateAssignment
+  onUpdateAssignment,
+  onUpdateStatus
 }: BookingListProps) {
+  const [invoiceBooking, setInvoiceBooking] = useState<Booking | null>(null);
+  const [paymentsBooking, setPaymentsBooking] = useState<Booking | null>(null);
+  const [historyBooking, setHistoryBooking] = useState<Booking | null>(null);
+  const { hasPermission } = useAuth();
+
   const getApartmentName = (apartmentId?: string, temporaryApartment?: string) => {
     if (temporaryApartment) return `${temporaryApartment} (Temporary)`;
     if (!apartmentId) return 'Unassigned';
@@ -59,6 +90,40 @@ export function BookingList({
       onUpdateAssignment(bookingId, null);
     }
   };
+
+  const renderStatus = (booking: Booking) => {
+    const badge = (
+      <Badge variant="secondary" className={statusBadgeClassNames[booking.status]}>
+        {BOOKING_STATUS_LABELS[booking.status]}
+      </Badge>
+    );
+    const nextStatuses = BOOKING_STATUS_TRANSITIONS[booking.status];
+
+    if (!onUpdateStatus || nextStatuses.length === 0 || isExternalBooking(booking)) {
+      return badge;
+    }
+
+    return (
+      <Select
+        value={booking.status}
+        onValueChange={(value) => onUpdateStatus(booking.id, value as BookingStatus)}
+      >
+        <SelectTrigger className="w-[150px]">
+          <SelectValue>{badge}</SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={booking.status}>
+            {BOOKING_STATUS_LABELS[booking.status]}
+          </SelectItem>
+          {nextStatuses.map((status) => (
+            <SelectItem key={status} value={status}>
+              {BOOKING_STATUS_LABELS[status]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  };
   
   return (
     <Card className="w-full">
@@ -78,16 +143,39 @@ export function BookingList({
                 <TableHead>Apartment</TableHead>
                 <TableHead>Check-in</TableHead>
                 <TableHead>Check-out</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Total</TableHead>
                 <TableHead className="w-[150px]">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {bookings.map((booking) => (
-                <TableRow key={booking.id}>
-                  <TableCell className="font-medium">{booking.guestName}</TableCell>
+                <TableRow key={booking.id} className={isActiveBooking(booking) ? '' : 'opacity-60'}>
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-2">
+                      {booking.guestId && hasPermission('manager') ? (
+                        <Link to={`/guests/${booking.guestId}`} className="hover:underline">
+                          {booking.guestName}
+                        </Link>
+                      ) : (
+                        booking.guestName
+                      )}
+                      {isExternalBooking(booking) && (
+                        <Badge variant="outline" title="Synced from an external calendar">External</Badge>
+                      )}
+                    </div>
+                    {getPartySize(booking) > 1 && (
+                      <div
+                        className="text-xs font-normal text-muted-foreground"
+                        title={booking.companions?.length ? `With ${booking.companions.join(', ')}` : undefined}
+                      >
+                        Party of {getPartySize(booking)}
+                      </div>
+                    )}
+                  </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-2">
-                      {onUpdateAssignment ? (
+                      {onUpdateAssignment && !isExternalBooking(booking) ? (
                         <>
                           {booking.temporaryApartment ? (
                             <div className="flex items-center gap-2">
@@ -158,6 +246,20 @@ export function BookingList({
                   </TableCell>
                   <TableCell>{format(booking.checkIn, 'PP')}</TableCell>
                   <TableCell>{format(booking.checkOut, 'PP')}</TableCell>
+                  <TableCell>{renderStatus(booking)}</TableCell>
+                  <TableCell className="text-right">
+                    {booking.totalPrice !== undefined
+                      ? formatCurrency(booking.totalPrice, booking.currency)
+                      : '—'}
+                    {booking.balanceDue !== undefined && booking.balanceDue > 0 && booking.status !== 'cancelled' && (
+                      <div className="text-xs text-destructive">
+                        Due {formatCurrency(booking.balanceDue, booking.currency)}
+                      </div>
+                    )}
+                    {booking.balanceDue !== undefined && booking.balanceDue <= 0 && (
+                      <div className="text-xs text-green-700">Paid</div>
+                    )}
+                  </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-2">
                       {showAssignButton && !booking.apartmentId && !booking.temporaryApartment && onAssign && (
@@ -169,22 +271,56 @@ export function BookingList({
                           Assign
                         </Button>
                       )}
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => onEdit(booking)}
-                      >
-                        <Edit2Icon className="h-4 w-4" />
-                        <span className="sr-only">Edit booking</span>
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => onDelete(booking.id)}
-                      >
-                        <TrashIcon className="h-4 w-4" />
-                        <span className="sr-only">Delete booking</span>
-                      </Button>
+                      {!isExternalBooking(booking) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setPaymentsBooking(booking)}
+                        >
+                          <WalletIcon className="h-4 w-4" />
+                          <span className="sr-only">Payments</span>
+                        </Button>
+                      )}
+                      {booking.totalPrice !== undefined && booking.status !== 'cancelled' && !isExternalBooking(booking) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setInvoiceBooking(booking)}
+                        >
+                          <FileTextIcon className="h-4 w-4" />
+                          <span className="sr-only">Invoice</span>
+                        </Button>
+                      )}
+                      {hasPermission('manager') && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setHistoryBooking(booking)}
+                        >
+                          <HistoryIcon className="h-4 w-4" />
+                          <span className="sr-only">History</span>
+                        </Button>
+                      )}
+                      {!isExternalBooking(booking) && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => onEdit(booking)}
+                          >
+                            <Edit2Icon className="h-4 w-4" />
+                            <span className="sr-only">Edit booking</span>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => onDelete(booking.id)}
+                          >
+                            <TrashIcon className="h-4 w-4" />
+                            <span className="sr-only">Delete booking</span>
+                          </Button>
+                        </>
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>
@@ -192,6 +328,14 @@ export function BookingList({
             </TableBody>
           </Table>
         )}
+        <InvoiceDialog booking={invoiceBooking} onClose={() => setInvoiceBooking(null)} />
+        <PaymentsDialog booking={paymentsBooking} onClose={() => setPaymentsBooking(null)} />
+        <RecordHistorySheet
+          table="bookings"
+          recordId={historyBooking?.id || null}
+          title={historyBooking ? `${historyBooking.guestName}, ${format(historyBooking.checkIn, 'PP')} – ${format(historyBooking.checkOut, 'PP')}` : ''}
+          onClose={() => setHistoryBooking(null)}
+        />
       </CardContent>
     </Card>
   );
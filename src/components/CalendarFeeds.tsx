@@ -0,0 +1,164 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { CalendarPlus, CopyIcon, TrashIcon } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { calendarFeedsAPI, CalendarFeed } from '@/lib/api';
+
+interface CalendarFeedsProps {
+  // Omit for the portfolio-wide feed
+  apartmentId?: string;
+}
+
+export function CalendarFeeds({ apartmentId }: CalendarFeedsProps) {
+  const { hasPermission } = useAuth();
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [label, setLabel] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const canManage = hasPermission('manager');
+
+  const loadFeeds = useCallback(async () => {
+    try {
+      const allFeeds = await calendarFeedsAPI.getAll();
+      setFeeds(allFeeds.filter(feed => (feed.apartment_id || undefined) === apartmentId));
+    } catch (error) {
+      console.error('Failed to load calendar feeds:', error);
+    }
+  }, [apartmentId]);
+
+  useEffect(() => {
+    if (canManage) {
+      loadFeeds();
+    }
+  }, [canManage, loadFeeds]);
+
+  if (!canManage) {
+    return null;
+  }
+
+  const handleCreate = async () => {
+    setLoading(true);
+    try {
+      const feed = await calendarFeedsAPI.create({
+        apartment_id: apartmentId || null,
+        label: label.trim() || undefined
+      });
+      setFeeds(current => [feed, ...current]);
+      setLabel('');
+      toast({
+        title: "Feed created",
+        description: "Copy the URL into Google Calendar or Outlook to subscribe.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to create calendar feed. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (feed: CalendarFeed) => {
+    try {
+      await calendarFeedsAPI.revoke(feed.id);
+      setFeeds(current => current.filter(f => f.id !== feed.id));
+      toast({
+        title: "Feed revoked",
+        description: "Calendars subscribed to this URL will stop updating.",
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to revoke calendar feed. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCopy = async (feed: CalendarFeed) => {
+    try {
+      await navigator.clipboard.writeText(calendarFeedsAPI.getFeedUrl(feed));
+      toast({
+        title: "Copied",
+        description: "Feed URL copied to the clipboard.",
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Could not access the clipboard. Copy the URL manually.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">
+          {apartmentId ? 'Calendar Feeds' : 'Portfolio Calendar Feeds'}
+        </CardTitle>
+        <CardDescription>
+          {apartmentId
+            ? 'Share this apartment\'s bookings with cleaners as a read-only calendar subscription.'
+            : 'Share bookings for all apartments, including temporary accommodation, as one calendar.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            placeholder="Label, e.g., Cleaning team"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+          />
+          <Button variant="outline" onClick={handleCreate} disabled={loading}>
+            <CalendarPlus className="mr-2 h-4 w-4" />
+            Generate
+          </Button>
+        </div>
+
+        {feeds.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No feeds have been generated yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {feeds.map((feed) => (
+              <div key={feed.id} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-medium">{feed.label || 'Untitled feed'}</div>
+                    <div className="text-xs text-muted-foreground">
+                      Created {format(new Date(feed.created_at), 'MMM d, yyyy')}
+                      {feed.created_by_username && ` by ${feed.created_by_username}`}
+                      {' · '}
+                      {feed.last_accessed_at
+                        ? `Last synced ${format(new Date(feed.last_accessed_at), 'MMM d, HH:mm')}`
+                        : 'Never synced'}
+                    </div>
+                  </div>
+                  <div className="flex">
+                    <Button variant="ghost" size="icon" onClick={() => handleCopy(feed)}>
+                      <CopyIcon className="h-4 w-4" />
+                      <span className="sr-only">Copy feed URL</span>
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleRevoke(feed)}>
+                      <TrashIcon className="h-4 w-4" />
+                      <span className="sr-only">Revoke feed</span>
+                    </Button>
+                  </div>
+                </div>
+                <Input readOnly value={calendarFeedsAPI.getFeedUrl(feed)} className="text-xs font-mono" onFocus={(e) => e.target.select()} />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
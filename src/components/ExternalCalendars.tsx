@@ -0,0 +1,196 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, PlusIcon, RefreshCw, TrashIcon } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { externalCalendarsAPI, ExternalCalendar, ExternalCalendarSyncResult } from '@/lib/api';
+
+interface ExternalCalendarsProps {
+  apartmentId: string;
+}
+
+export function ExternalCalendars({ apartmentId }: ExternalCalendarsProps) {
+  const { hasPermission } = useAuth();
+  const [calendars, setCalendars] = useState<ExternalCalendar[]>([]);
+  const [url, setUrl] = useState('');
+  const [label, setLabel] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [syncingId, setSyncingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const canManage = hasPermission('manager');
+
+  // Feed URLs carry the platforms' secret tokens, so only managers see them
+  const loadCalendars = useCallback(async () => {
+    if (!canManage) return;
+    try {
+      setCalendars(await externalCalendarsAPI.getAll({ apartment_id: apartmentId }));
+    } catch (error) {
+      console.error('Failed to load external calendars:', error);
+    }
+  }, [apartmentId, canManage]);
+
+  useEffect(() => {
+    loadCalendars();
+  }, [loadCalendars]);
+
+  const describeSync = (result: ExternalCalendarSyncResult) => {
+    const summary = `${result.created} added, ${result.updated} updated, ${result.removed} removed.`;
+    return result.conflicts.length > 0
+      ? `${summary} ${result.conflicts.length} overlap existing bookings: ${result.conflicts.map(conflict => conflict.guest_name).join(', ')}.`
+      : summary;
+  };
+
+  const handleAdd = async () => {
+    setSaving(true);
+    try {
+      const { syncResult, ...calendar } = await externalCalendarsAPI.create({
+        apartment_id: apartmentId,
+        url: url.trim(),
+        label: label.trim() || undefined
+      });
+      setCalendars(current => [...current, calendar]);
+      setUrl('');
+      setLabel('');
+      toast({
+        title: syncResult ? "Calendar added" : "Calendar added, but sync failed",
+        description: syncResult ? describeSync(syncResult) : calendar.last_error,
+        variant: syncResult && syncResult.conflicts.length === 0 ? "default" : "destructive",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.response?.data?.errors?.[0]?.msg || error.response?.data?.message || "Failed to add calendar. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSync = async (calendar: ExternalCalendar) => {
+    setSyncingId(calendar.id);
+    try {
+      const { syncResult, ...updated } = await externalCalendarsAPI.sync(calendar.id);
+      setCalendars(current => current.map(c => c.id === updated.id ? updated : c));
+      toast({
+        title: "Calendar synced",
+        description: describeSync(syncResult),
+        variant: syncResult.conflicts.length === 0 ? "default" : "destructive",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Sync failed",
+        description: error.response?.data?.message || "Failed to sync calendar. Please try again.",
+        variant: "destructive",
+      });
+      loadCalendars();
+    } finally {
+      setSyncingId(null);
+    }
+  };
+
+  const handleDelete = async (calendar: ExternalCalendar) => {
+    try {
+      await externalCalendarsAPI.delete(calendar.id);
+      setCalendars(current => current.filter(c => c.id !== calendar.id));
+      toast({
+        title: "Calendar removed",
+        description: "Bookings imported from this calendar were removed.",
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to remove calendar. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!canManage) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">External Calendars</CardTitle>
+        <CardDescription>
+          Import reservations from Airbnb, Booking.com and other platforms so they cannot be double booked.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_10rem_auto] gap-2">
+          <Input
+            placeholder="iCal URL, e.g., https://www.airbnb.com/calendar/ical/..."
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+          />
+          <Input
+            placeholder="Label, e.g., Airbnb"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+          />
+          <Button variant="outline" onClick={handleAdd} disabled={saving || !url.trim()}>
+            <PlusIcon className="mr-2 h-4 w-4" />
+            Add
+          </Button>
+        </div>
+
+        {calendars.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No external calendars connected.</p>
+        ) : (
+          <div className="space-y-3">
+            {calendars.map((calendar) => (
+              <div key={calendar.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div className="min-w-0">
+                  <div className="font-medium">{calendar.label || 'External calendar'}</div>
+                  <div className="text-xs text-muted-foreground truncate">{calendar.url}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {calendar.booking_count} booking{calendar.booking_count !== 1 ? 's' : ''}
+                    {' · '}
+                    {calendar.last_synced_at
+                      ? `Synced ${format(new Date(calendar.last_synced_at), 'MMM d, HH:mm')}`
+                      : 'Not synced yet'}
+                  </div>
+                  {calendar.last_error && (
+                    <div className="flex items-center gap-1 text-xs text-destructive mt-1">
+                      <AlertTriangle className="h-3 w-3" />
+                      {calendar.last_error}
+                    </div>
+                  )}
+                  {calendar.last_conflicts.length > 0 && (
+                    <div className="flex items-center gap-1 text-xs text-destructive mt-1">
+                      <AlertTriangle className="h-3 w-3 shrink-0" />
+                      Overlaps {calendar.last_conflicts.length} existing booking{calendar.last_conflicts.length !== 1 ? 's' : ''}:{' '}
+                      {calendar.last_conflicts.map(conflict => conflict.guest_name).join(', ')}
+                    </div>
+                  )}
+                </div>
+                <div className="flex shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleSync(calendar)}
+                    disabled={syncingId === calendar.id}
+                  >
+                    <RefreshCw className={`h-4 w-4 ${syncingId === calendar.id ? 'animate-spin' : ''}`} />
+                    <span className="sr-only">Sync now</span>
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(calendar)}>
+                    <TrashIcon className="h-4 w-4" />
+                    <span className="sr-only">Remove calendar</span>
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { guestsAPI, Guest, GuestDuplicate, GuestInput } from '@/lib/api';
+
+interface GuestFormDialogProps {
+  open: boolean;
+  guest?: Guest | null; // Edit this guest instead of creating one
+  initialName?: string;
+  onClose: () => void;
+  onSaved: (guest: Guest) => void;
+}
+
+const MATCH_REASON_LABELS: Record<GuestDuplicate['match_reasons'][number], string> = {
+  name: 'Similar name',
+  email: 'Same email',
+  phone: 'Same phone'
+};
+
+const emptyForm = (name = ''): GuestInput => ({
+  full_name: name,
+  email: '',
+  phone: '',
+  nationality: '',
+  passport_number: '',
+  date_of_birth: '',
+  notes: ''
+});
+
+export function GuestFormDialog({ open, guest, initialName, onClose, onSaved }: GuestFormDialogProps) {
+  const [form, setForm] = useState<GuestInput>(emptyForm());
+  const [duplicates, setDuplicates] = useState<GuestDuplicate[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setDuplicates([]);
+    setForm(guest ? {
+      full_name: guest.full_name,
+      email: guest.email || '',
+      phone: guest.phone || '',
+      nationality: guest.nationality || '',
+      passport_number: guest.passport_number || '',
+      date_of_birth: guest.date_of_birth || '',
+      notes: guest.notes || ''
+    } : emptyForm(initialName));
+  }, [open, guest, initialName]);
+
+  const setField = (field: keyof GuestInput, value: string) => {
+    setForm(current => ({ ...current, [field]: value }));
+  };
+
+  const handleSave = async (force = false) => {
+    setSaving(true);
+    try {
+      const saved = guest
+        ? await guestsAPI.update(guest.id, form)
+        : await guestsAPI.create(form, force);
+      toast({
+        title: guest ? "Guest updated" : "Guest created",
+        description: `${saved.full_name} has been saved.`,
+      });
+      onSaved(saved);
+    } catch (error: any) {
+      if (error.response?.status === 409 && error.response.data?.duplicates) {
+        setDuplicates(error.response.data.duplicates);
+      } else {
+        toast({
+          title: "Error",
+          description: error.response?.data?.errors?.[0]?.msg || error.response?.data?.message || "Failed to save guest. Please try again.",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{guest ? 'Edit Guest' : 'New Guest'}</DialogTitle>
+          <DialogDescription>
+            Contact details and documents for the patient.
+          </DialogDescription>
+        </DialogHeader>
+
+        {duplicates.length > 0 ? (
+          <div className="space-y-3">
+            <p className="text-sm">
+              This guest may already exist. Use an existing profile or create a new one anyway.
+            </p>
+            {duplicates.map((duplicate) => (
+              <div key={duplicate.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div>
+                  <div className="font-medium">{duplicate.full_name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {[duplicate.email, duplicate.phone].filter(Boolean).join(' · ') || 'No contact details'}
+                    {duplicate.last_check_in && ` · Last stay ${format(new Date(duplicate.last_check_in), 'PP')}`}
+                  </div>
+                  <div className="flex gap-1 mt-1">
+                    {duplicate.match_reasons.map((reason) => (
+                      <Badge key={reason} variant="secondary">{MATCH_REASON_LABELS[reason]}</Badge>
+                    ))}
+                  </div>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => onSaved(duplicate)}>
+                  Use this guest
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="guest-name">Full name</Label>
+              <Input id="guest-name" value={form.full_name} onChange={(e) => setField('full_name', e.target.value)} />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="guest-email">Email</Label>
+                <Input id="guest-email" type="email" value={form.email || ''} onChange={(e) => setField('email', e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="guest-phone">Phone</Label>
+                <Input id="guest-phone" value={form.phone || ''} onChange={(e) => setField('phone', e.target.value)} />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="guest-nationality">Nationality</Label>
+                <Input
+                  id="guest-nationality"
+                  placeholder="e.g. DE"
+                  maxLength={2}
+                  value={form.nationality || ''}
+                  onChange={(e) => setField('nationality', e.target.value.toUpperCase())}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="guest-passport">Passport number</Label>
+                <Input id="guest-passport" value={form.passport_number || ''} onChange={(e) => setField('passport_number', e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="guest-birth">Date of birth</Label>
+                <Input id="guest-birth" type="date" value={form.date_of_birth || ''} onChange={(e) => setField('date_of_birth', e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="guest-notes">Notes</Label>
+              <Textarea id="guest-notes" value={form.notes || ''} onChange={(e) => setField('notes', e.target.value)} />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {duplicates.length > 0 ? (
+            <>
+              <Button variant="outline" onClick={() => setDuplicates([])}>
+                Back
+              </Button>
+              <Button onClick={() => handleSave(true)} disabled={saving}>
+                Create anyway
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button onClick={() => handleSave()} disabled={saving || !form.full_name.trim()}>
+                {guest ? 'Save' : 'Create'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,227 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { DownloadIcon } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/utils';
+import { invoicesAPI, Invoice } from '@/lib/api';
+import { useAppStore } from '@/store';
+import { Booking, isExternalBooking } from '@/types';
+
+interface InvoiceDialogProps {
+  booking: Booking | null;
+  onClose: () => void;
+}
+
+const PAYMENT_STATUS_LABELS: Record<Invoice['payment_status'], string> = {
+  paid: 'Paid',
+  partially_paid: 'Partially paid',
+  unpaid: 'Unpaid'
+};
+
+const sameGuest = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const downloadInvoice = async (invoice: Invoice) => {
+  const blob = await invoicesAPI.downloadPdf(invoice.id);
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${invoice.invoice_number}.pdf`;
+  link.click();
+  window.URL.revokeObjectURL(url);
+};
+
+export function InvoiceDialog({ booking, onClose }: InvoiceDialogProps) {
+  const { bookings } = useAppStore();
+  const { hasPermission } = useAuth();
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [creating, setCreating] = useState(false);
+  const { toast } = useToast();
+
+  const canManage = hasPermission('manager');
+
+  const loadInvoices = useCallback(async () => {
+    if (!booking) return;
+    try {
+      setInvoices(await invoicesAPI.getAll({ guest_name: booking.guestName }));
+    } catch (error) {
+      console.error('Failed to load invoices:', error);
+    }
+  }, [booking]);
+
+  useEffect(() => {
+    setInvoices([]);
+    setSelectedIds(booking ? [booking.id] : []);
+    loadInvoices();
+  }, [booking, loadInvoices]);
+
+  if (!booking) {
+    return null;
+  }
+
+  const invoicedIds = new Set(invoices.flatMap(invoice => invoice.booking_ids));
+  const bookingInvoices = invoices.filter(invoice => invoice.booking_ids.includes(booking.id));
+
+  // Other stays of the same guest that can go on the same invoice
+  const candidates = bookings
+    .filter(b =>
+      sameGuest(b.guestName, booking.guestName) &&
+      b.totalPrice !== undefined &&
+      b.currency === booking.currency &&
+      b.status !== 'cancelled' &&
+      !isExternalBooking(b) &&
+      !invoicedIds.has(b.id)
+    )
+    .sort((a, b) => a.checkIn.getTime() - b.checkIn.getTime());
+
+  const selectedTotal = candidates
+    .filter(b => selectedIds.includes(b.id))
+    .reduce((sum, b) => sum + Math.round((b.totalPrice ?? 0) * 100), 0) / 100;
+
+  const toggleSelected = (bookingId: string, checked: boolean) => {
+    setSelectedIds(current => checked ? [...current, bookingId] : current.filter(id => id !== bookingId));
+  };
+
+  const handleDownload = async (invoice: Invoice) => {
+    try {
+      await downloadInvoice(invoice);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to download invoice. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const invoice = await invoicesAPI.create(selectedIds);
+      setInvoices(current => [invoice, ...current]);
+      toast({
+        title: "Invoice issued",
+        description: `Invoice ${invoice.invoice_number} for ${formatCurrency(invoice.total, invoice.currency)}.`,
+      });
+      await downloadInvoice(invoice);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to issue invoice. Please try again.",
+        variant: "destructive",
+      });
+      loadInvoices();
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleTogglePaid = async (invoice: Invoice) => {
+    try {
+      const updated = await invoicesAPI.setPaid(invoice.id, !invoice.paid_at);
+      setInvoices(current => current.map(i => i.id === updated.id ? updated : i));
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to update payment status. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Invoice for {booking.guestName}</DialogTitle>
+          <DialogDescription>
+            {bookingInvoices.length > 0
+              ? 'This stay has already been invoiced.'
+              : 'Choose the stays to include. Each invoice gets the next invoice number.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {bookingInvoices.length > 0 ? (
+          <div className="space-y-3">
+            {bookingInvoices.map((invoice) => (
+              <div key={invoice.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div>
+                  <div className="font-medium">{invoice.invoice_number}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {format(new Date(invoice.issued_at), 'PP')}
+                    {' · '}
+                    {formatCurrency(invoice.total, invoice.currency)}
+                    {invoice.booking_ids.length > 1 && ` · ${invoice.booking_ids.length} stays`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {canManage ? (
+                    <Button variant="ghost" size="sm" onClick={() => handleTogglePaid(invoice)}>
+                      <Badge variant={invoice.payment_status === 'paid' ? 'default' : 'secondary'}>
+                        {PAYMENT_STATUS_LABELS[invoice.payment_status]}
+                      </Badge>
+                    </Button>
+                  ) : (
+                    <Badge variant={invoice.payment_status === 'paid' ? 'default' : 'secondary'}>
+                      {PAYMENT_STATUS_LABELS[invoice.payment_status]}
+                    </Badge>
+                  )}
+                  <Button variant="outline" size="icon" onClick={() => handleDownload(invoice)}>
+                    <DownloadIcon className="h-4 w-4" />
+                    <span className="sr-only">Download PDF</span>
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {candidates.map((candidate) => (
+              <label key={candidate.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-gray-50">
+                <Checkbox
+                  checked={selectedIds.includes(candidate.id)}
+                  disabled={candidate.id === booking.id || !canManage}
+                  onCheckedChange={(checked) => toggleSelected(candidate.id, checked === true)}
+                />
+                <span className="flex-1 text-sm">
+                  {format(candidate.checkIn, 'PP')} – {format(candidate.checkOut, 'PP')}
+                </span>
+                <span className="text-sm">
+                  {formatCurrency(candidate.totalPrice ?? 0, candidate.currency)}
+                </span>
+              </label>
+            ))}
+            <div className="flex justify-between pt-2 border-t text-sm font-medium">
+              <span>Total before tax</span>
+              <span>{formatCurrency(selectedTotal, booking.currency)}</span>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          {bookingInvoices.length === 0 && canManage && (
+            <Button onClick={handleCreate} disabled={creating || selectedIds.length === 0}>
+              Issue & Download
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { MainNav } from './MainNav';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
@@ -14,6 +14,7 @@ import {
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { LogOut, User, Settings } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useAppStore } from '@/store';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -22,6 +23,13 @@ interface LayoutProps {
 export function Layout({ children }: LayoutProps) {
   const { user, logout } = useAuth();
   const { toast } = useToast();
+  const connectLiveUpdates = useAppStore((state) => state.connectLiveUpdates);
+
+  // Keep apartments and bookings in sync with changes made by other users
+  useEffect(() => {
+    if (!user) return;
+    return connectLiveUpdates();
+  }, [user, connectLiveUpdates]);
 
   const handleLogout = async () => {
     try {
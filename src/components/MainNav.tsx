@@ -14,7 +14,9 @@ export function MainNav() {
     { label: 'Dashboard', path: '/', minRole: 'viewer' },
     { label: 'Apartments', path: '/apartments', minRole: 'manager' },
     { label: 'Bookings', path: '/bookings', minRole: 'manager' },
+    { label: 'Guests', path: '/guests', minRole: 'manager' },
     { label: 'Assign', path: '/assign', minRole: 'viewer' },
+    { label: 'Outstanding', path: '/outstanding', minRole: 'manager' },
   ];
 
   if (!user) return null;
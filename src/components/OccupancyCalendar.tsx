@@ -1,6 +1,6 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, addMonths, subMonths, addDays, differenceInDays } from 'date-fns';
-import { Calendar as CalendarIcon, ChevronLeft, ChevronRight, Star, Check, X } from 'lucide-react';
+import { Calendar as CalendarIcon, ChevronLeft, ChevronRight, Star, Check, X, Wrench, Stethoscope } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAppStore } from '@/store';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -8,6 +8,11 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Label } from '@/components/ui/label';
 import { DatePicker } from '@/components/ui/date-picker';
+import { ReportExportButton } from '@/components/ReportExportButton';
+import { useAuth } from '@/contexts/AuthContext';
+import { ReportFormat, reportsAPI } from '@/lib/api';
+import { downloadBlob } from '@/lib/utils';
+import { APPOINTMENT_TYPE_LABELS, BLOCK_TYPE_LABELS, BOOKING_STATUS_LABELS, isActiveBooking } from '@/types';
 
 export function OccupancyCalendar() {
   const [currentMonth, setCurrentMonth] = useState<Date>(new Date());
@@ -16,11 +21,35 @@ export function OccupancyCalendar() {
     to: null
   });
   const [selectedApartments, setSelectedApartments] = useState<string[]>([]);
-  const { apartments, bookings } = useAppStore();
+  const { apartments, bookings: allBookings, blocks, bookingsLoadedSince, ensureBookingsLoaded } = useAppStore();
+  const { hasPermission } = useAuth();
+
+  // The store only holds recent bookings; load the month being viewed
+  useEffect(() => {
+    ensureBookingsLoaded(startOfMonth(currentMonth), endOfMonth(currentMonth));
+  }, [currentMonth, bookingsLoadedSince, ensureBookingsLoaded]);
+  
+  // Only stays overlapping the visible month, so the day cells scan a short
+  // list. Cancelled and no-show bookings leave the apartment free.
+  const bookings = useMemo(() => {
+    const monthStart = startOfMonth(currentMonth);
+    const nextMonthStart = addMonths(monthStart, 1);
+    return allBookings.filter(booking =>
+      isActiveBooking(booking) && booking.checkIn < nextMonthStart && booking.checkOut > monthStart
+    );
+  }, [allBookings, currentMonth]);
   
   // Navigate to next/previous month
   const handlePreviousMonth = () => setCurrentMonth(subMonths(currentMonth, 1));
   const handleNextMonth = () => setCurrentMonth(addMonths(currentMonth, 1));
+
+  // Download the visible month as a spreadsheet
+  const handleExport = async (reportFormat: ReportFormat) => {
+    const from = format(startOfMonth(currentMonth), 'yyyy-MM-dd');
+    const to = format(addMonths(startOfMonth(currentMonth), 1), 'yyyy-MM-dd');
+    const blob = await reportsAPI.exportOccupancy({ from, to }, reportFormat);
+    downloadBlob(blob, `occupancy-${format(currentMonth, 'yyyy-MM')}.${reportFormat}`);
+  };
   
   // Get days in current month
   const daysInMonth = useMemo(() => {
@@ -50,12 +79,16 @@ export function OccupancyCalendar() {
           return day >= bookingStart && day < bookingEnd; // Exclude checkout day
         });
         
-        availability[apartment.id][dateStr] = !isBooked;
+        const isBlocked = blocks.some(block => 
+          block.apartmentId === apartment.id && day >= block.startDate && day < block.endDate
+        );
+        
+        availability[apartment.id][dateStr] = !isBooked && !isBlocked;
       });
     });
     
     return availability;
-  }, [apartments, bookings, daysInMonth]);
+  }, [apartments, bookings, blocks, daysInMonth]);
 
   // Find available apartments for selected date range
   const availableApartmentsForRange = useMemo(() => {
@@ -86,6 +119,31 @@ export function OccupancyCalendar() {
     });
   };
 
+  // Treatment appointments by apartment and day, e.g. "apt-1:2026-03-12"
+  const appointmentsByCell = useMemo(() => {
+    const cells: Record<string, string[]> = {};
+
+    bookings.forEach(booking => {
+      if (!booking.apartmentId) return;
+
+      booking.appointments?.forEach(appointment => {
+        const key = `${booking.apartmentId}:${format(appointment.scheduledAt, 'yyyy-MM-dd')}`;
+        const doctor = appointment.doctor ? `, ${appointment.doctor}` : '';
+        const label = `${format(appointment.scheduledAt, 'HH:mm')} ${APPOINTMENT_TYPE_LABELS[appointment.type]} (${booking.guestName}${doctor})`;
+        cells[key] = [...(cells[key] || []), label];
+      });
+    });
+
+    return cells;
+  }, [bookings]);
+
+  // Get maintenance, cleaning or owner block for a specific day and apartment
+  const getBlockForDay = (apartmentId: string, day: Date) => {
+    return blocks.find(block => 
+      block.apartmentId === apartmentId && day >= block.startDate && day < block.endDate
+    );
+  };
+
   // Render apartment row
   const renderApartmentRow = (apartment: any) => {
     const isSelected = selectedApartments.includes(apartment.id);
@@ -116,8 +174,23 @@ export function OccupancyCalendar() {
             const dateStr = format(day, 'yyyy-MM-dd');
             const isAvailable = apartmentAvailability[apartment.id]?.[dateStr] !== false;
             const booking = getBookingForDay(apartment.id, day);
+            const block = booking ? undefined : getBlockForDay(apartment.id, day);
             const isInSelectedRange = selectedDateRange.from && selectedDateRange.to &&
               day >= selectedDateRange.from && day <= selectedDateRange.to;
+            const isTentative = booking?.status === 'tentative';
+            const appointments = appointmentsByCell[`${apartment.id}:${dateStr}`];
+            
+            if (block) {
+              return (
+                <div
+                  key={dateStr}
+                  className="h-8 sm:h-10 border border-gray-200 flex items-center justify-center text-xs bg-gray-200 bg-[repeating-linear-gradient(45deg,transparent,transparent_4px,rgba(0,0,0,0.06)_4px,rgba(0,0,0,0.06)_8px)]"
+                  title={`${BLOCK_TYPE_LABELS[block.type]}${block.reason ? `: ${block.reason}` : ''}`}
+                >
+                  <Wrench className="h-2 w-2 sm:h-3 sm:w-3 text-gray-600" />
+                </div>
+              );
+            }
             
             return (
               <div
@@ -127,20 +200,25 @@ export function OccupancyCalendar() {
                     ? isInSelectedRange 
                       ? 'bg-green-200' 
                       : 'bg-green-50 hover:bg-green-100'
-                    : 'bg-red-100'
+                    : isTentative
+                      ? 'bg-amber-100'
+                      : 'bg-red-100'
                 }`}
-                title={
+                title={[
                   isAvailable 
                     ? 'Available' 
                     : booking 
-                      ? `Booked by ${booking.guestName}`
-                      : 'Unavailable'
-                }
+                      ? `Booked by ${booking.guestName} (${BOOKING_STATUS_LABELS[booking.status]})`
+                      : 'Unavailable',
+                  ...(appointments || [])
+                ].join('\n')}
               >
-                {isAvailable ? (
+                {appointments ? (
+                  <Stethoscope className="h-2 w-2 sm:h-3 sm:w-3 text-blue-600" />
+                ) : isAvailable ? (
                   <Check className="h-2 w-2 sm:h-3 sm:w-3 text-green-600" />
                 ) : (
-                  <X className="h-2 w-2 sm:h-3 sm:w-3 text-red-600" />
+                  <X className={`h-2 w-2 sm:h-3 sm:w-3 ${isTentative ? 'text-amber-600' : 'text-red-600'}`} />
                 )}
               </div>
             );
@@ -176,6 +254,7 @@ export function OccupancyCalendar() {
               <h3 className="font-medium text-sm sm:text-base">{format(currentMonth, 'MMMM yyyy')}</h3>
             </div>
             <div className="flex items-center space-x-1 sm:space-x-2">
+              {hasPermission('manager') && <ReportExportButton size="sm" onExport={handleExport} />}
               <Button variant="outline" size="sm" onClick={handlePreviousMonth}>
                 <ChevronLeft className="h-3 w-3 sm:h-4 sm:w-4" />
                 <span className="sr-only sm:not-sr-only sm:ml-1 text-xs">Prev</span>
@@ -222,6 +301,22 @@ export function OccupancyCalendar() {
               </div>
               <span>Booked</span>
             </div>
+            <div className="flex items-center space-x-1 sm:space-x-2">
+              <div className="w-3 h-3 sm:w-4 sm:h-4 bg-amber-100 border border-amber-200 rounded flex items-center justify-center">
+                <X className="h-1.5 w-1.5 sm:h-2 sm:w-2 text-amber-600" />
+              </div>
+              <span>Tentative</span>
+            </div>
+            <div className="flex items-center space-x-1 sm:space-x-2">
+              <div className="w-3 h-3 sm:w-4 sm:h-4 bg-gray-200 border border-gray-300 rounded flex items-center justify-center">
+                <Wrench className="h-1.5 w-1.5 sm:h-2 sm:w-2 text-gray-600" />
+              </div>
+              <span>Blocked</span>
+            </div>
+            <div className="flex items-center space-x-1 sm:space-x-2">
+              <Stethoscope className="h-3 w-3 sm:h-4 sm:w-4 text-blue-600" />
+              <span>Treatment appointment</span>
+            </div>
             <div className="flex items-center space-x-1 sm:space-x-2">
               <Star className="h-3 w-3 sm:h-4 sm:w-4 fill-yellow-400 text-yellow-400" />
               <span>Favorite</span>
@@ -0,0 +1,246 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { TrashIcon } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/utils';
+import { paymentsAPI, Payment } from '@/lib/api';
+import { useAppStore } from '@/store';
+import {
+  Booking,
+  PaymentMethod,
+  PaymentType,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_TYPE_LABELS
+} from '@/types';
+
+interface PaymentsDialogProps {
+  booking: Pick<Booking, 'id' | 'guestName' | 'totalPrice' | 'currency'> | null;
+  onClose: () => void;
+  onChange?: () => void;
+}
+
+const signedAmount = (payment: Payment) => (payment.type === 'refund' ? -payment.amount : payment.amount);
+
+export function PaymentsDialog({ booking, onClose, onChange }: PaymentsDialogProps) {
+  const { recordPayment, deletePayment } = useAppStore();
+  const { hasPermission } = useAuth();
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [type, setType] = useState<PaymentType>('deposit');
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [amount, setAmount] = useState('');
+  const [paidOn, setPaidOn] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const canManage = hasPermission('manager');
+
+  const bookingId = booking?.id;
+
+  const loadPayments = useCallback(async () => {
+    if (!bookingId) return;
+    try {
+      setPayments(await paymentsAPI.getAll({ booking_id: bookingId }));
+    } catch (error) {
+      console.error('Failed to load payments:', error);
+    }
+  }, [bookingId]);
+
+  useEffect(() => {
+    setPayments([]);
+    setAmount('');
+    setNotes('');
+    loadPayments();
+  }, [loadPayments]);
+
+  if (!booking) {
+    return null;
+  }
+
+  const currency = booking.currency || 'EUR';
+  const amountPaid = payments.reduce((sum, payment) => sum + Math.round(signedAmount(payment) * 100), 0) / 100;
+  const balanceDue = booking.totalPrice !== undefined
+    ? Math.round((booking.totalPrice - amountPaid) * 100) / 100
+    : undefined;
+
+  const handleRecord = async () => {
+    setSaving(true);
+    try {
+      const payment = await recordPayment({
+        booking_id: booking.id,
+        amount: Number(amount),
+        type,
+        method,
+        currency,
+        paid_at: new Date(`${paidOn}T12:00:00`).toISOString(),
+        notes: notes.trim() || undefined
+      });
+      setPayments(current => [payment, ...current]);
+      setAmount('');
+      setNotes('');
+      onChange?.();
+      toast({
+        title: `${PAYMENT_TYPE_LABELS[payment.type]} recorded`,
+        description: `${formatCurrency(payment.amount, payment.currency)} from ${booking.guestName}.`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.response?.data?.errors?.[0]?.msg || error.response?.data?.message || "Failed to record payment. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (payment: Payment) => {
+    try {
+      await deletePayment(payment);
+      setPayments(current => current.filter(p => p.id !== payment.id));
+      onChange?.();
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to delete payment. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Payments for {booking.guestName}</DialogTitle>
+          <DialogDescription>
+            Deposits and payments reduce the balance due; refunds increase it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-2 text-sm">
+          <div className="p-2 bg-gray-50 rounded-lg">
+            <div className="text-muted-foreground">Total</div>
+            <div className="font-medium">
+              {booking.totalPrice !== undefined ? formatCurrency(booking.totalPrice, currency) : '—'}
+            </div>
+          </div>
+          <div className="p-2 bg-gray-50 rounded-lg">
+            <div className="text-muted-foreground">Paid</div>
+            <div className="font-medium">{formatCurrency(amountPaid, currency)}</div>
+          </div>
+          <div className="p-2 bg-gray-50 rounded-lg">
+            <div className="text-muted-foreground">Balance due</div>
+            <div className={`font-medium ${balanceDue !== undefined && balanceDue > 0 ? 'text-destructive' : ''}`}>
+              {balanceDue !== undefined ? formatCurrency(balanceDue, currency) : '—'}
+            </div>
+          </div>
+        </div>
+
+        {canManage && (
+          <div className="space-y-2 border-t pt-4">
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1">
+                <Label>Type</Label>
+                <Select value={type} onValueChange={(value) => setType(value as PaymentType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PAYMENT_TYPE_LABELS) as PaymentType[]).map((value) => (
+                      <SelectItem key={value} value={value}>{PAYMENT_TYPE_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Method</Label>
+                <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map((value) => (
+                      <SelectItem key={value} value={value}>{PAYMENT_METHOD_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="payment-amount">Amount ({currency})</Label>
+                <Input
+                  id="payment-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-[10rem_1fr] gap-2">
+              <Input type="date" value={paidOn} onChange={(e) => setPaidOn(e.target.value)} />
+              <Input placeholder="Notes (optional)" value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={handleRecord} disabled={saving || !(Number(amount) > 0) || !paidOn}>
+                Record {PAYMENT_TYPE_LABELS[type]}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2 border-t pt-4 max-h-60 overflow-y-auto">
+          {payments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No payments recorded.</p>
+          ) : (
+            payments.map((payment) => (
+              <div key={payment.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg text-sm">
+                <div>
+                  <div className="font-medium">
+                    {PAYMENT_TYPE_LABELS[payment.type]} · {PAYMENT_METHOD_LABELS[payment.method]}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {format(new Date(payment.paid_at), 'PP')}
+                    {payment.recorded_by_username && ` · ${payment.recorded_by_username}`}
+                    {payment.notes && ` · ${payment.notes}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={payment.type === 'refund' ? 'text-destructive' : ''}>
+                    {formatCurrency(signedAmount(payment), payment.currency)}
+                  </span>
+                  {canManage && (
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(payment)}>
+                      <TrashIcon className="h-4 w-4" />
+                      <span className="sr-only">Delete payment</span>
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
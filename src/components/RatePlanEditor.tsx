@@ -0,0 +1,326 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { PlusIcon, TrashIcon } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/utils';
+import { ratePlansAPI, RatePlan } from '@/lib/api';
+
+interface RatePlanEditorProps {
+  apartmentId: string;
+}
+
+// Inputs are kept as strings and converted when saving
+interface SeasonDraft {
+  name: string;
+  startDate: string;
+  endDate: string;
+  nightlyPrice: string;
+  weekendPrice: string;
+  minStay: string;
+}
+
+interface RatePlanDraft {
+  currency: string;
+  basePrice: string;
+  weekendPrice: string;
+  minStay: string;
+  seasons: SeasonDraft[];
+}
+
+const emptyDraft: RatePlanDraft = {
+  currency: 'EUR',
+  basePrice: '',
+  weekendPrice: '',
+  minStay: '1',
+  seasons: []
+};
+
+const emptySeason: SeasonDraft = {
+  name: '',
+  startDate: '',
+  endDate: '',
+  nightlyPrice: '',
+  weekendPrice: '',
+  minStay: ''
+};
+
+const toText = (value: number | null | undefined) => (value === null || value === undefined ? '' : String(value));
+
+const toDraft = (ratePlan: RatePlan): RatePlanDraft => ({
+  currency: ratePlan.currency,
+  basePrice: toText(ratePlan.base_price),
+  weekendPrice: toText(ratePlan.weekend_price),
+  minStay: toText(ratePlan.min_stay),
+  seasons: ratePlan.seasons.map(season => ({
+    name: season.name || '',
+    startDate: season.start_date,
+    endDate: season.end_date,
+    nightlyPrice: toText(season.nightly_price),
+    weekendPrice: toText(season.weekend_price),
+    minStay: toText(season.min_stay)
+  }))
+});
+
+const toNumberOrNull = (value: string) => (value.trim() === '' ? null : Number(value));
+
+export function RatePlanEditor({ apartmentId }: RatePlanEditorProps) {
+  const { hasPermission } = useAuth();
+  const [ratePlan, setRatePlan] = useState<RatePlan | null>(null);
+  const [draft, setDraft] = useState<RatePlanDraft>(emptyDraft);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const canManage = hasPermission('manager');
+
+  const loadRatePlan = useCallback(async () => {
+    try {
+      const loaded = await ratePlansAPI.getForApartment(apartmentId);
+      setRatePlan(loaded);
+      setDraft(toDraft(loaded));
+    } catch (error: any) {
+      setRatePlan(null);
+      setDraft(emptyDraft);
+      if (error.response?.status !== 404) {
+        console.error('Failed to load rate plan:', error);
+      }
+    }
+  }, [apartmentId]);
+
+  useEffect(() => {
+    loadRatePlan();
+  }, [loadRatePlan]);
+
+  const updateSeason = (index: number, changes: Partial<SeasonDraft>) => {
+    setDraft(current => ({
+      ...current,
+      seasons: current.seasons.map((season, i) => (i === index ? { ...season, ...changes } : season))
+    }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const saved = await ratePlansAPI.save(apartmentId, {
+        currency: draft.currency.trim().toUpperCase(),
+        base_price: Number(draft.basePrice),
+        weekend_price: toNumberOrNull(draft.weekendPrice),
+        min_stay: Number(draft.minStay) || 1,
+        seasons: draft.seasons.map(season => ({
+          name: season.name.trim() || null,
+          start_date: season.startDate,
+          end_date: season.endDate,
+          nightly_price: Number(season.nightlyPrice),
+          weekend_price: toNumberOrNull(season.weekendPrice),
+          min_stay: toNumberOrNull(season.minStay)
+        }))
+      });
+      setRatePlan(saved);
+      setDraft(toDraft(saved));
+      toast({
+        title: "Rate plan saved",
+        description: "New bookings for this apartment will be priced with these rates.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.response?.data?.errors?.[0]?.msg || error.response?.data?.message || "Failed to save rate plan. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await ratePlansAPI.delete(apartmentId);
+      setRatePlan(null);
+      setDraft(emptyDraft);
+      toast({
+        title: "Rate plan removed",
+        description: "Existing booking totals are kept.",
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to remove rate plan. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!canManage) {
+    if (!ratePlan) {
+      return null;
+    }
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Rates</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-1 text-sm">
+          <div>Nightly: {formatCurrency(ratePlan.base_price, ratePlan.currency)}</div>
+          {ratePlan.weekend_price !== null && (
+            <div>Weekend: {formatCurrency(ratePlan.weekend_price, ratePlan.currency)}</div>
+          )}
+          <div>Minimum stay: {ratePlan.min_stay} night{ratePlan.min_stay !== 1 ? 's' : ''}</div>
+          {ratePlan.seasons.map((season, index) => (
+            <div key={index} className="text-muted-foreground">
+              {season.name || 'Season'} ({season.start_date} – {season.end_date}):{' '}
+              {formatCurrency(season.nightly_price, ratePlan.currency)}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Rates</CardTitle>
+        <CardDescription>
+          Nightly prices used to quote and total new bookings. Weekend prices apply to Friday and Saturday nights.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="rate-currency">Currency</Label>
+            <Input
+              id="rate-currency"
+              maxLength={3}
+              value={draft.currency}
+              onChange={(e) => setDraft({ ...draft, currency: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rate-base">Nightly</Label>
+            <Input
+              id="rate-base"
+              type="number"
+              min="0"
+              step="0.01"
+              value={draft.basePrice}
+              onChange={(e) => setDraft({ ...draft, basePrice: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rate-weekend">Weekend</Label>
+            <Input
+              id="rate-weekend"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Same"
+              value={draft.weekendPrice}
+              onChange={(e) => setDraft({ ...draft, weekendPrice: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rate-min-stay">Min. nights</Label>
+            <Input
+              id="rate-min-stay"
+              type="number"
+              min="1"
+              value={draft.minStay}
+              onChange={(e) => setDraft({ ...draft, minStay: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Seasons</Label>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDraft({ ...draft, seasons: [...draft.seasons, { ...emptySeason }] })}
+            >
+              <PlusIcon className="mr-2 h-4 w-4" />
+              Add Season
+            </Button>
+          </div>
+
+          {draft.seasons.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No seasonal prices.</p>
+          ) : (
+            draft.seasons.map((season, index) => (
+              <div key={index} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Name, e.g., Summer"
+                    value={season.name}
+                    onChange={(e) => updateSeason(index, { name: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDraft({ ...draft, seasons: draft.seasons.filter((_, i) => i !== index) })}
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                    <span className="sr-only">Remove season</span>
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    type="date"
+                    value={season.startDate}
+                    onChange={(e) => updateSeason(index, { startDate: e.target.value })}
+                  />
+                  <Input
+                    type="date"
+                    value={season.endDate}
+                    onChange={(e) => updateSeason(index, { endDate: e.target.value })}
+                  />
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Nightly"
+                    value={season.nightlyPrice}
+                    onChange={(e) => updateSeason(index, { nightlyPrice: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Weekend"
+                    value={season.weekendPrice}
+                    onChange={(e) => updateSeason(index, { weekendPrice: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min="1"
+                    placeholder="Min. nights"
+                    value={season.minStay}
+                    onChange={(e) => updateSeason(index, { minStay: e.target.value })}
+                  />
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          {ratePlan && (
+            <Button variant="outline" onClick={handleDelete}>
+              Remove
+            </Button>
+          )}
+          <Button onClick={handleSave} disabled={saving || draft.basePrice.trim() === ''}>
+            {ratePlan ? 'Save Rates' : 'Create Rate Plan'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { AuditLogChanges } from '@/components/AuditLogChanges';
+import { AuditLogEntry, auditLogsAPI } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+
+// Most recent changes shown for one record
+const HISTORY_LIMIT = 100;
+
+interface RecordHistorySheetProps {
+  table: 'bookings' | 'apartments';
+  recordId: string | null;
+  title: string;
+  onClose: () => void;
+}
+
+// Who changed a booking or apartment, when, and which fields
+export function RecordHistorySheet({ table, recordId, title, onClose }: RecordHistorySheetProps) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!recordId) return;
+
+    setLoading(true);
+    auditLogsAPI.getPage({ table, record_id: recordId, limit: HISTORY_LIMIT })
+      .then(result => setEntries(result.data))
+      .catch((error: any) => {
+        toast({
+          title: "Error",
+          description: error.response?.data?.message || "Failed to load the history.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [table, recordId, toast]);
+
+  return (
+    <Sheet open={!!recordId} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>History</SheetTitle>
+          <SheetDescription>{title}</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-4 space-y-4">
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No changes recorded</p>
+          ) : (
+            entries.map(entry => (
+              <div key={entry.id} className="space-y-2 border-b pb-3">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{entry.action}</Badge>
+                    <span>{entry.username || 'System'}</span>
+                  </div>
+                  <span className="text-xs text-muted-foreground">{format(new Date(entry.timestamp), 'PP p')}</span>
+                </div>
+                <AuditLogChanges entry={entry} />
+              </div>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { DownloadIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ReportFormat } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+
+const FORMAT_LABELS: Record<ReportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (.xlsx)'
+};
+
+interface ReportExportButtonProps {
+  label?: string;
+  size?: 'default' | 'sm';
+  onExport: (format: ReportFormat) => Promise<void>;
+}
+
+export function ReportExportButton({ label = 'Export', size = 'default', onExport }: ReportExportButtonProps) {
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleExport = async (format: ReportFormat) => {
+    setExporting(true);
+    try {
+      await onExport(format);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to export the report. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size={size} disabled={exporting}>
+          <DownloadIcon className="mr-2 h-4 w-4" />
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {(Object.keys(FORMAT_LABELS) as ReportFormat[]).map((format) => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+            {FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,252 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Download, RotateCcw, Save, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { BackupImportPreview } from '@/components/BackupImportPreview';
+import { BackupImportResult, StoredBackup, StoredBackups as StoredBackupList, backupAPI, getErrorMessage } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+
+// Backups the server keeps, written on its schedule or on demand, to
+// download, verify or restore
+export function StoredBackups() {
+  const [stored, setStored] = useState<StoredBackupList | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [backupToRestore, setBackupToRestore] = useState<StoredBackup | null>(null);
+  const [replaceMode, setReplaceMode] = useState(false);
+  const [restorePreview, setRestorePreview] = useState<BackupImportResult | null>(null);
+  const { toast } = useToast();
+
+  const loadBackups = useCallback(async () => {
+    try {
+      setStored(await backupAPI.getStored());
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error) || "Failed to load stored backups.",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadBackups();
+  }, [loadBackups]);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const backup = await backupAPI.createStored();
+      toast({
+        title: "Backup stored",
+        description: `${backup.filename} has been written on the server.`,
+      });
+      loadBackups();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error) || "Failed to create the backup.",
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDownload = async (backup: StoredBackup) => {
+    try {
+      const blob = await backupAPI.downloadStored(backup.filename);
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = backup.filename;
+      link.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error) || "Failed to download the backup.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleVerify = async (backup: StoredBackup) => {
+    try {
+      const result = await backupAPI.verifyStored(backup.filename);
+      const rows = Object.values(result.counts || {}).reduce((total, count) => total + count, 0);
+      toast({
+        title: result.valid ? "Backup verified" : "Backup is not valid",
+        description: result.valid
+          ? `${result.message}: format ${result.version}, ${rows} rows${result.checksumMatches ? ', checksum matches' : ''}.`
+          : `${result.message}${result.issues?.length ? `: ${result.issues[0].path} ${result.issues[0].message}` : '.'}`,
+        variant: result.valid ? undefined : "destructive",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error) || "Failed to verify the backup.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openRestoreDialog = (backup: StoredBackup) => {
+    setBackupToRestore(backup);
+    setReplaceMode(false);
+    setRestorePreview(null);
+  };
+
+  const handlePreviewRestore = async () => {
+    if (!backupToRestore) return;
+
+    try {
+      setRestorePreview(await backupAPI.restoreStored(backupToRestore.filename, replaceMode, true));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error) || "Failed to preview the restore.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backupToRestore) return;
+
+    try {
+      const result = await backupAPI.restoreStored(backupToRestore.filename, replaceMode);
+      const conflicts = Object.values(result.summary).reduce((total, summary) => total + summary.conflicts, 0);
+      toast({
+        title: "Restore successful",
+        description: `Restored ${backupToRestore.filename}.${conflicts > 0 ? ` ${conflicts} rows were skipped because of conflicts.` : ''}`,
+      });
+      setBackupToRestore(null);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error) || "Failed to restore the backup.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!stored) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          {stored.schedule
+            ? `Written on the schedule "${stored.schedule}". The newest backup of the last ${stored.retention.daily} days, ${stored.retention.weekly} weeks and ${stored.retention.monthly} months is kept.`
+            : 'Scheduled backups are turned off.'}
+        </p>
+        <Button onClick={handleCreate} disabled={creating} variant="outline">
+          <Save className="mr-2 h-4 w-4" />
+          Back Up Now
+        </Button>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Created</TableHead>
+            <TableHead>Size</TableHead>
+            <TableHead>By</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {stored.backups.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={4} className="text-center text-muted-foreground">
+                No backups stored on the server yet
+              </TableCell>
+            </TableRow>
+          ) : (
+            stored.backups.map(backup => (
+              <TableRow key={backup.filename}>
+                <TableCell className="whitespace-nowrap">{format(new Date(backup.created_at), 'PP p')}</TableCell>
+                <TableCell>{(backup.size / 1024).toFixed(1)}KB</TableCell>
+                <TableCell>{backup.created_by_username || 'Schedule'}</TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => handleDownload(backup)}>
+                      <Download className="h-4 w-4 mr-1" />
+                      Download
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleVerify(backup)}>
+                      <ShieldCheck className="h-4 w-4 mr-1" />
+                      Verify
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => openRestoreDialog(backup)}>
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Restore
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      <Dialog open={!!backupToRestore} onOpenChange={(open) => !open && setBackupToRestore(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Restore Backup</DialogTitle>
+            <DialogDescription>
+              Restore {backupToRestore?.filename}. Warning: This will modify your database.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="restoreReplaceMode"
+                checked={replaceMode}
+                onChange={(e) => {
+                  setReplaceMode(e.target.checked);
+                  setRestorePreview(null);
+                }}
+              />
+              <Label htmlFor="restoreReplaceMode" className="text-sm">
+                Replace existing data (WARNING: This will delete current data)
+              </Label>
+            </div>
+            {restorePreview && <BackupImportPreview result={restorePreview} />}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBackupToRestore(null)}>
+              Cancel
+            </Button>
+            <Button variant="outline" onClick={handlePreviewRestore}>
+              Preview Changes
+            </Button>
+            <Button onClick={handleRestore}>
+              Restore
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
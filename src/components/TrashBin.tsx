@@ -0,0 +1,209 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Trash2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { TrashContents, TrashTable, trashAPI } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+
+interface TrashItem {
+  table: TrashTable;
+  id: string;
+  label: string;
+}
+
+// Deleted apartments and bookings, to restore or delete for good
+export function TrashBin() {
+  const [trash, setTrash] = useState<TrashContents | null>(null);
+  const [itemToPurge, setItemToPurge] = useState<TrashItem | null>(null);
+  const { toast } = useToast();
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setTrash(await trashAPI.get());
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to load the trash.",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      await trashAPI.restore(item.table, item.id);
+      toast({
+        title: "Restored",
+        description: `Restored ${item.label}.`,
+      });
+      loadTrash();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || `Failed to restore ${item.label}.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const confirmPurge = async () => {
+    if (!itemToPurge) return;
+
+    try {
+      await trashAPI.purge(itemToPurge.table, itemToPurge.id);
+      toast({
+        title: "Permanently deleted",
+        description: `Deleted ${itemToPurge.label} for good.`,
+      });
+      loadTrash();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || `Failed to delete ${itemToPurge.label}.`,
+        variant: "destructive",
+      });
+    } finally {
+      setItemToPurge(null);
+    }
+  };
+
+  const renderActions = (item: TrashItem) => (
+    <div className="flex justify-end gap-2">
+      <Button variant="outline" size="sm" onClick={() => handleRestore(item)}>
+        <Undo2 className="h-4 w-4 mr-1" />
+        Restore
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => setItemToPurge(item)}>
+        <Trash2 className="h-4 w-4 mr-1" />
+        Delete forever
+      </Button>
+    </div>
+  );
+
+  if (!trash) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Items are deleted for good {trash.retention_days} days after they were moved to the trash.
+      </p>
+
+      <div className="space-y-2">
+        <h3 className="font-medium">Apartments</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Deleted</TableHead>
+              <TableHead>Deleted by</TableHead>
+              <TableHead>Bookings</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {trash.apartments.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No deleted apartments
+                </TableCell>
+              </TableRow>
+            ) : (
+              trash.apartments.map(apartment => (
+                <TableRow key={apartment.id}>
+                  <TableCell>{apartment.name}</TableCell>
+                  <TableCell className="whitespace-nowrap">{format(new Date(apartment.deleted_at), 'PP p')}</TableCell>
+                  <TableCell>{apartment.deleted_by_username || '—'}</TableCell>
+                  <TableCell>{apartment.booking_count}</TableCell>
+                  <TableCell>
+                    {renderActions({ table: 'apartments', id: apartment.id, label: apartment.name })}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="font-medium">Bookings</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Guest</TableHead>
+              <TableHead>Apartment</TableHead>
+              <TableHead>Stay</TableHead>
+              <TableHead>Deleted</TableHead>
+              <TableHead>Deleted by</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {trash.bookings.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  No deleted bookings
+                </TableCell>
+              </TableRow>
+            ) : (
+              trash.bookings.map(booking => (
+                <TableRow key={booking.id}>
+                  <TableCell>{booking.guest_name}</TableCell>
+                  <TableCell>{booking.apartment_name || booking.temporary_apartment || '—'}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {format(new Date(booking.check_in), 'PP')} – {format(new Date(booking.check_out), 'PP')}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{format(new Date(booking.deleted_at), 'PP p')}</TableCell>
+                  <TableCell>{booking.deleted_by_username || '—'}</TableCell>
+                  <TableCell>
+                    {renderActions({ table: 'bookings', id: booking.id, label: `the booking for ${booking.guest_name}` })}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <AlertDialog open={!!itemToPurge} onOpenChange={(open) => !open && setItemToPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete forever?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {itemToPurge?.table === 'apartments'
+                ? 'The apartment, its bookings in the trash, blocks, rate plan and calendars will be deleted. This cannot be undone.'
+                : 'The booking, its payments and appointments will be deleted. This cannot be undone.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmPurge}>Delete forever</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+// Writes the spreadsheet fixtures for spreadsheetFile.test.ts. The files are
+// committed; run `node src/lib/__fixtures__/generate.mjs` after changing this.
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import zlib from 'zlib';
+
+const directory = path.dirname(fileURLToPath(import.meta.url));
+
+// CRC-32 as zip uses it
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+const crc32 = (buffer) => {
+  let crc = 0xffffffff;
+  for (const byte of buffer) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// A zip archive. With zip64 the central directory stores sizes and offsets
+// in zip64 extra fields and ends with a zip64 end of central directory, as
+// writers do for archives over 4GB.
+const writeZip = (files, { zip64 = false } = {}) => {
+  const locals = [];
+  const centrals = [];
+  let offset = 0;
+
+  for (const [name, content, { store = false } = {}] of files) {
+    const data = Buffer.from(content);
+    const compressed = store ? data : zlib.deflateRawSync(data);
+    const nameBytes = Buffer.from(name);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(zip64 ? 45 : 20, 4);
+    local.writeUInt16LE(store ? 0 : 8, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, compressed);
+
+    const extra = zip64 ? Buffer.alloc(28) : Buffer.alloc(0);
+    if (zip64) {
+      extra.writeUInt16LE(0x0001, 0);
+      extra.writeUInt16LE(24, 2);
+      extra.writeBigUInt64LE(BigInt(data.length), 4);
+      extra.writeBigUInt64LE(BigInt(compressed.length), 12);
+      extra.writeBigUInt64LE(BigInt(offset), 20);
+    }
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(zip64 ? 45 : 20, 4);
+    central.writeUInt16LE(zip64 ? 45 : 20, 6);
+    central.writeUInt16LE(store ? 0 : 8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(zip64 ? 0xffffffff : compressed.length, 20);
+    central.writeUInt32LE(zip64 ? 0xffffffff : data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt16LE(extra.length, 30);
+    central.writeUInt32LE(zip64 ? 0xffffffff : offset, 42);
+    centrals.push(central, nameBytes, extra);
+
+    offset += local.length + nameBytes.length + compressed.length;
+  }
+
+  const directoryBytes = Buffer.concat(centrals);
+  const trailer = [];
+
+  if (zip64) {
+    const record = Buffer.alloc(56);
+    record.writeUInt32LE(0x06064b50, 0);
+    record.writeBigUInt64LE(44n, 4);
+    record.writeUInt16LE(45, 12);
+    record.writeUInt16LE(45, 14);
+    record.writeBigUInt64LE(BigInt(files.length), 24);
+    record.writeBigUInt64LE(BigInt(files.length), 32);
+    record.writeBigUInt64LE(BigInt(directoryBytes.length), 40);
+    record.writeBigUInt64LE(BigInt(offset), 48);
+
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeBigUInt64LE(BigInt(offset + directoryBytes.length), 8);
+    locator.writeUInt32LE(1, 16);
+    trailer.push(record, locator);
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(zip64 ? 0xffff : files.length, 8);
+  end.writeUInt16LE(zip64 ? 0xffff : files.length, 10);
+  end.writeUInt32LE(zip64 ? 0xffffffff : directoryBytes.length, 12);
+  end.writeUInt32LE(zip64 ? 0xffffffff : offset, 16);
+
+  return Buffer.concat([...locals, directoryBytes, ...trailer, end]);
+};
+
+// Excel serial date for a UTC time
+const serial = (iso) => Date.parse(`${iso}Z`) / 86400000 + 25569;
+
+const xlsxFiles = [
+  ['[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+</Types>`],
+  ['_rels/.rels', `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`],
+  ['xl/workbook.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <sheets>
+    <sheet name="Bookings" sheetId="1" r:id="rId1"/>
+    <sheet name="Notes" sheetId="2" r:id="rId2"/>
+    <sheet name="Empty" sheetId="3" r:id="rId3"/>
+  </sheets>
+</workbook>`],
+  ['xl/_rels/workbook.xml.rels', `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="/xl/worksheets/sheet2.xml"/>
+  <Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet3.xml"/>
+</Relationships>`],
+  ['xl/sharedStrings.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" count="6" uniqueCount="6">
+  <si><t>Guest</t></si>
+  <si><t>Check-in</t></si>
+  <si><t>Check-out</t></si>
+  <si><t>Apartment</t></si>
+  <si><r><t>Anna </t></r><r><rPr><b/></rPr><t>Müller</t></r></si>
+  <si><t xml:space="preserve"> Sea View 2 </t></si>
+</sst>`],
+  ['xl/styles.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+  <numFmts count="2">
+    <numFmt numFmtId="164" formatCode="dd/mm/yyyy\\ hh:mm"/>
+    <numFmt numFmtId="165" formatCode="&quot;Room&quot;\\ 0"/>
+  </numFmts>
+  <cellXfs count="4">
+    <xf numFmtId="0"/>
+    <xf numFmtId="14"/>
+    <xf numFmtId="164"/>
+    <xf numFmtId="165"/>
+  </cellXfs>
+</styleSheet>`],
+  ['xl/worksheets/sheet1.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+  <sheetData>
+    <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c><c r="D1" t="s"><v>3</v></c></row>
+    <row r="2"><c r="A2" t="s"><v>4</v></c><c r="B2" s="2"><v>${serial('2026-03-05T14:30:00')}</v></c><c r="C2" s="1"><v>${serial('2026-03-12T00:00:00')}</v></c><c r="D2" t="s"><v>5</v></c></row>
+    <row r="3"/>
+    <row r="5"><c r="A5" t="inlineStr"><is><t>Ben Ortiz</t></is></c><c r="C5" s="1"><v>${serial('2026-04-02T00:00:00')}</v></c><c r="D5" s="3"><v>7</v></c><c r="E5"/></row>
+  </sheetData>
+</worksheet>`],
+  ['xl/worksheets/sheet2.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+  <sheetData>
+    <row r="1"><c r="A1" t="inlineStr"><is><t>VIP</t></is></c><c r="B1" t="b"><v>1</v></c><c r="C1" t="str"><v>=A1</v></c></row>
+  </sheetData>
+</worksheet>`],
+  ['xl/worksheets/sheet3.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+  <sheetData><row r="1"><c r="A1"/></row></sheetData>
+</worksheet>`]
+];
+
+const odsFiles = [
+  ['mimetype', 'application/vnd.oasis.opendocument.spreadsheet', { store: true }],
+  ['META-INF/manifest.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.2">
+  <manifest:file-entry manifest:full-path="/" manifest:media-type="application/vnd.oasis.opendocument.spreadsheet"/>
+  <manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>
+</manifest:manifest>`],
+  ['content.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0" xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0" xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0" office:version="1.2">
+  <office:body>
+    <office:spreadsheet>
+      <table:table table:name="Bookings">
+        <table:table-row>
+          <table:table-cell office:value-type="string"><text:p>Guest</text:p></table:table-cell>
+          <table:table-cell office:value-type="string"><text:p>Check-in</text:p></table:table-cell>
+          <table:table-cell office:value-type="string"><text:p>Check-out</text:p></table:table-cell>
+          <table:table-cell table:number-columns-repeated="1021"/>
+        </table:table-row>
+        <table:table-row>
+          <table:table-cell office:value-type="string"><text:p>Anna Müller</text:p></table:table-cell>
+          <table:table-cell office:value-type="date" office:date-value="2026-03-05T14:30:00"><text:p>05.03.26 14:30</text:p></table:table-cell>
+          <table:table-cell office:value-type="date" office:date-value="2026-03-12"><text:p>12.03.26</text:p></table:table-cell>
+        </table:table-row>
+        <table:table-row table:number-rows-repeated="2">
+          <table:table-cell table:number-columns-repeated="1024"/>
+        </table:table-row>
+        <table:table-row>
+          <table:table-cell office:value-type="string"><text:p>Ben Ortiz</text:p></table:table-cell>
+          <table:table-cell table:number-columns-repeated="2"/>
+          <table:table-cell office:value-type="string"><text:p>Sea</text:p><text:p>View 2</text:p></table:table-cell>
+        </table:table-row>
+        <table:table-row table:number-rows-repeated="1048571">
+          <table:table-cell table:number-columns-repeated="1024"/>
+        </table:table-row>
+      </table:table>
+      <table:table table:name="Notes">
+        <table:table-row>
+          <table:table-cell office:value-type="string" table:number-columns-repeated="2"><text:p>VIP</text:p></table:table-cell>
+        </table:table-row>
+      </table:table>
+      <table:table table:name="Empty">
+        <table:table-row><table:table-cell/></table:table-row>
+      </table:table>
+    </office:spreadsheet>
+  </office:body>
+</office:document-content>`]
+];
+
+const csv = [
+  'Guest,Check-in,Check-out,Apartment',
+  '"Müller, Anna",2026-03-05 14:30,2026-03-12,"Sea View 2"',
+  '',
+  '   ',
+  'Ben Ortiz,2026-03-28,2026-04-02,',
+  ''
+].join('\r\n');
+
+fs.writeFileSync(path.join(directory, 'bookings.xlsx'), writeZip(xlsxFiles));
+fs.writeFileSync(path.join(directory, 'bookings-zip64.xlsx'), writeZip(xlsxFiles, { zip64: true }));
+fs.writeFileSync(path.join(directory, 'bookings.ods'), writeZip(odsFiles));
+fs.writeFileSync(path.join(directory, 'bookings.csv'), csv);
@@ -1,5 +1,17 @@
 import axios from 'axios';
 import { config } from './config';
+import {
+  ApartmentAttributes,
+  ApartmentFilters,
+  AppointmentType,
+  BatchImportMode,
+  BatchRowStatus,
+  BedConfiguration,
+  BlockType,
+  BookingStatus,
+  PaymentMethod,
+  PaymentType
+} from '@/types';
 
 const API_BASE_URL = config.API_URL;
 
@@ -20,19 +32,55 @@ interface Apartment {
   name: string;
   properties: string[];
   isFavorite: boolean;
+  max_guests?: number | null;
+  maxGuests: number | null;
+  beds: BedConfiguration[];
+  attributes: ApartmentAttributes;
   created_by: number;
   created_at: string;
   updated_at: string;
   created_by_username?: string;
 }
 
-interface Booking {
+interface TreatmentAppointmentInput {
+  scheduled_at: string;
+  type: AppointmentType;
+  doctor?: string;
+  notes?: string;
+}
+
+export interface Booking {
   id: string;
   guest_name: string;
+  guest_id?: string | null;
   checkIn: Date;
   checkOut: Date;
   apartment_id?: string;
   temporary_apartment?: string;
+  status: BookingStatus;
+  source?: 'manual' | 'external';
+  external_calendar_id?: string;
+  total_price?: number | string | null;
+  currency?: string | null;
+  amount_paid?: number | string;
+  appointments?: (TreatmentAppointmentInput & { id: string })[];
+  adults?: number;
+  children?: number;
+  companions?: string[];
+  apartment_name?: string;
+  created_by: number;
+  created_at: string;
+  updated_at: string;
+  created_by_username?: string;
+}
+
+export interface ApartmentBlock {
+  id: string;
+  apartment_id: string;
+  start_date: string;
+  end_date: string;
+  type: BlockType;
+  reason?: string;
   apartment_name?: string;
   created_by: number;
   created_at: string;
@@ -40,20 +88,434 @@ interface Booking {
   created_by_username?: string;
 }
 
+export interface RateSeason {
+  name?: string | null;
+  start_date: string; // YYYY-MM-DD, inclusive
+  end_date: string; // YYYY-MM-DD, inclusive
+  nightly_price: number;
+  weekend_price?: number | null;
+  min_stay?: number | null;
+}
+
+export interface RatePlan {
+  id: string;
+  apartment_id: string;
+  currency: string;
+  base_price: number;
+  weekend_price: number | null;
+  min_stay: number;
+  seasons: RateSeason[];
+  apartment_name?: string;
+  updated_at: string;
+}
+
+export interface PriceQuote {
+  ratePlanId: string;
+  currency: string;
+  nightCount: number;
+  nights: { date: string; price: number; rule: 'base' | 'weekend' | 'season' | 'season_weekend'; season: string | null }[];
+  total: number;
+  minStay: number;
+  meetsMinimumStay: boolean;
+}
+
+export interface InvoiceLine {
+  booking_id: string;
+  apartment_name: string | null;
+  check_in: string;
+  check_out: string;
+  nights: number | null;
+  rates: { label: string; nights: number; price: number; amount: number }[];
+  amount: number;
+}
+
+export interface Invoice {
+  id: string;
+  invoice_number: string;
+  guest_name: string;
+  currency: string;
+  line_items: InvoiceLine[];
+  subtotal: number;
+  tax_rate: number;
+  tax_amount: number;
+  total: number;
+  paid_at: string | null;
+  amount_paid: number;
+  balance_due: number;
+  payment_status: 'paid' | 'partially_paid' | 'unpaid';
+  booking_ids: string[];
+  issued_by: number;
+  issued_by_username?: string;
+  issued_at: string;
+}
+
+export interface Payment {
+  id: string;
+  booking_id: string;
+  type: PaymentType;
+  amount: number;
+  currency: string;
+  method: PaymentMethod;
+  paid_at: string;
+  notes?: string | null;
+  guest_name?: string;
+  recorded_by: number;
+  recorded_by_username?: string;
+  created_at: string;
+}
+
+export interface OutstandingBooking {
+  id: string;
+  guest_name: string;
+  checkIn: string;
+  checkOut: string;
+  status: BookingStatus;
+  apartment_id?: string | null;
+  temporary_apartment?: string | null;
+  apartment_name?: string | null;
+  total_price: number;
+  currency: string;
+  amount_paid: number;
+  balance_due: number;
+}
+
+export interface Guest {
+  id: string;
+  full_name: string;
+  email?: string | null;
+  phone?: string | null;
+  nationality?: string | null; // ISO 3166-1 alpha-2, e.g. "DE"
+  passport_number?: string | null;
+  date_of_birth?: string | null; // YYYY-MM-DD
+  notes?: string | null;
+  stay_count: number;
+  last_check_in?: string | null;
+  created_by_username?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type GuestInput = Partial<Pick<Guest, 'email' | 'phone' | 'nationality' | 'passport_number' | 'date_of_birth' | 'notes'>> & {
+  full_name: string;
+};
+
+// An existing guest the server thinks is the same person
+export interface GuestDuplicate extends Guest {
+  similarity: number;
+  match_reasons: ('name' | 'email' | 'phone')[];
+}
+
+export interface GuestDetail extends Guest {
+  bookings: Booking[];
+  possible_bookings: Booking[]; // Unlinked bookings under a similar name
+}
+
+export interface ExternalCalendar {
+  id: string;
+  apartment_id: string;
+  url: string;
+  label?: string;
+  last_synced_at?: string;
+  last_error?: string;
+  last_conflicts: ExternalCalendarConflict[]; // From the last sync
+  booking_count: number;
+  apartment_name?: string;
+  created_at: string;
+}
+
+// A manual booking that overlaps a reservation from the feed
+export interface ExternalCalendarConflict {
+  external_booking_id: string;
+  external_guest_name: string;
+  booking_id: string;
+  guest_name: string;
+  check_in: string;
+  check_out: string;
+}
+
+export interface ExternalCalendarSyncResult {
+  created: number;
+  updated: number;
+  removed: number;
+  conflicts: ExternalCalendarConflict[];
+}
+
+export interface CalendarFeed {
+  id: string;
+  token: string;
+  apartment_id: string | null;
+  label?: string;
+  apartment_name?: string;
+  created_by: number;
+  created_at: string;
+  last_accessed_at?: string;
+  created_by_username?: string;
+}
+
 interface ApartmentUpdate {
   name?: string;
   properties?: string[];
   isFavorite?: boolean;
+  maxGuests?: number | null;
+  beds?: BedConfiguration[];
+  attributes?: Partial<ApartmentAttributes>; // Admin only
 }
 
 interface BookingUpdate {
   guest_name?: string;
+  guest_id?: string | null;
   check_in?: string;
   check_out?: string;
   apartment_id?: string;
   temporary_apartment?: string;
+  adults?: number;
+  children?: number;
+  companions?: string[];
+  appointments?: TreatmentAppointmentInput[];
+}
+
+export type BookingSortKey = 'check_in' | 'check_out' | 'guest_name' | 'apartment' | 'status' | 'total_price' | 'created_at';
+
+// Filters for GET /bookings; from/to select stays overlapping that window
+export interface BookingQuery {
+  page?: number;
+  limit?: number;
+  from?: string;
+  to?: string;
+  status?: BookingStatus[];
+  apartment_id?: string;
+  guest_id?: string;
+  guest_name?: string;
+  unassigned?: boolean;
+  sort?: BookingSortKey;
+  order?: 'asc' | 'desc';
 }
 
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  total_pages: number;
+}
+
+export interface Paginated<T> {
+  data: T[];
+  pagination: Pagination;
+}
+
+// Largest page the server returns
+const MAX_PAGE_SIZE = 500;
+
+// Values logged with an audit entry: usually a JSON object, sometimes text
+export type AuditValues = Record<string, unknown> | string | null;
+
+export interface AuditLogEntry {
+  id: number;
+  user_id: number | null;
+  username: string | null;
+  action: string;
+  table_name: string;
+  record_id: string | null;
+  old_values: AuditValues;
+  new_values: AuditValues;
+  timestamp: string;
+}
+
+export interface AuditLogQuery {
+  page?: number;
+  limit?: number;
+  user_id?: number;
+  table?: string;
+  action?: string;
+  record_id?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface AuditLogFacets {
+  tables: string[];
+  actions: string[];
+  users: { id: number; username: string }[];
+}
+
+// Deleting a booking or apartment returns the audit entry to undo it with
+export interface DeleteResult {
+  message: string;
+  auditLogId: number;
+}
+
+export type RestoreResult =
+  | { message: string; table: 'bookings'; record: Booking }
+  | { message: string; table: 'apartments'; record: Apartment };
+
+export type TrashTable = 'bookings' | 'apartments';
+
+export interface TrashedApartment {
+  id: string;
+  name: string;
+  deleted_at: string;
+  deleted_by_username: string | null;
+  booking_count: number;
+}
+
+export interface TrashedBooking {
+  id: string;
+  guest_name: string;
+  check_in: string;
+  check_out: string;
+  status: BookingStatus;
+  apartment_id: string | null;
+  apartment_name: string | null;
+  temporary_apartment: string | null;
+  deleted_at: string;
+  deleted_by_username: string | null;
+}
+
+export interface TrashContents {
+  retention_days: number;
+  apartments: TrashedApartment[];
+  bookings: TrashedBooking[];
+}
+
+// What a backup import did, or would do in a dry run, to each table
+export interface BackupDiffRow {
+  id: string | number;
+  label: string;
+  passwordReset?: boolean;
+}
+
+export interface BackupTableDiff {
+  new: BackupDiffRow[];
+  changed: (BackupDiffRow & { changes: Record<string, { from: unknown; to: unknown }> })[];
+  unchanged: number;
+  conflicts: (BackupDiffRow & { reason: string })[];
+  removed: number;
+}
+
+export interface BackupTableSummary {
+  new: number;
+  changed: number;
+  unchanged: number;
+  conflicts: number;
+  removed: number;
+}
+
+export interface BackupImportResult {
+  message?: string;
+  dryRun: boolean;
+  replaceMode: boolean;
+  version: string;
+  summary: Record<string, BackupTableSummary>;
+  diff: Record<string, BackupTableDiff>;
+}
+
+export interface StoredBackup {
+  filename: string;
+  size: number;
+  created_at: string;
+  checksum: string | null;
+  created_by_username: string | null;
+}
+
+export interface StoredBackups {
+  schedule: string | null;
+  retention: { daily: number; weekly: number; monthly: number };
+  backups: StoredBackup[];
+}
+
+export interface BackupVerification {
+  filename: string;
+  valid: boolean;
+  message: string;
+  checksum: string;
+  checksumMatches: boolean | null;
+  version?: string;
+  exported_at?: string | null;
+  counts?: Record<string, number>;
+  issues?: { path: string; message: string }[];
+}
+
+export interface BatchBookingInput {
+  guest_name: string;
+  check_in: string;
+  check_out: string;
+  apartment_id?: string;
+  temporary_apartment?: string;
+  adults?: number;
+  children?: number;
+}
+
+// One entry per submitted row, in the same order
+export interface BatchRowResult {
+  row: number;
+  status: BatchRowStatus;
+  message?: string;
+  booking_id?: string;
+  conflictingBooking?: Booking;
+  conflictingBlock?: ApartmentBlock;
+}
+
+export interface BatchResult {
+  message: string;
+  mode: BatchImportMode;
+  createdCount: number;
+  results: BatchRowResult[];
+  bookings: Booking[];
+}
+
+export interface AutoAssignChange {
+  booking_id: string;
+  guest_name: string;
+  check_in: string;
+  check_out: string;
+  status: BookingStatus;
+  from_apartment_id: string | null;
+  from_apartment_name: string | null;
+  to_apartment_id: string;
+  to_apartment_name: string;
+}
+
+export interface AutoAssignPlan {
+  changes: AutoAssignChange[];
+  unassigned: { booking_id: string; guest_name: string; check_in: string; check_out: string }[];
+  summary: {
+    assigned: number;
+    moved: number;
+    unassigned: number;
+    idle_gap_nights_before: number;
+    idle_gap_nights_after: number;
+  };
+}
+
+// What each live event carries; deletions only send the ID
+type LiveEventPayloads = {
+  'booking.created': Booking;
+  'booking.updated': Booking;
+  'booking.deleted': { id: string };
+  'bookings.cleared': Record<string, never>;
+  'apartment.created': Apartment;
+  'apartment.updated': Apartment;
+  'apartment.deleted': { id: string };
+  'block.created': ApartmentBlock;
+  'block.updated': ApartmentBlock;
+  'block.deleted': { id: string };
+  'guest.created': Guest;
+  'guest.updated': Guest;
+  'guest.deleted': { id: string };
+  'data.reset': { summary: Record<string, BackupTableSummary> };
+};
+
+export type LiveEventType = keyof LiveEventPayloads;
+
+export type LiveEvent = {
+  [Type in LiveEventType]: {
+    type: Type;
+    payload: LiveEventPayloads[Type];
+    userId: number | null;
+    timestamp: string;
+  };
+}[LiveEventType];
+
 interface UserUpdate {
   username?: string;
   email?: string;
@@ -88,6 +550,8 @@ export const clearTokens = () => {
   localStorage.removeItem('user');
 };
 
+export const getAccessToken = () => accessToken;
+
 export const getStoredUser = (): User | null => {
   const user = localStorage.getItem('user');
   return user ? JSON.parse(user) : null;
@@ -148,6 +612,10 @@ api.interceptors.response.use(
   }
 );
 
+// The message the server sent with a failed request, if any
+export const getErrorMessage = (error: unknown): string | undefined =>
+  axios.isAxiosError<{ message?: string }>(error) ? error.response?.data?.message : undefined;
+
 // Auth API
 export const authAPI = {
   login: async (username: string, password: string) => {
@@ -193,7 +661,7 @@ export const apartmentsAPI = {
     return response.data;
   },
 
-  create: async (apartment: { name: string; properties: string[] }): Promise<Apartment> => {
+  create: async (apartment: { name: string; properties: string[] } & ApartmentUpdate): Promise<Apartment> => {
     const response = await api.post('/apartments', apartment);
     return response.data;
   },
@@ -203,7 +671,7 @@ export const apartmentsAPI = {
     return response.data;
   },
 
-  delete: async (id: string): Promise<{ message: string }> => {
+  delete: async (id: string): Promise<DeleteResult> => {
     const response = await api.delete(`/apartments/${id}`);
     return response.data;
   },
@@ -216,8 +684,26 @@ export const apartmentsAPI = {
 
 // Bookings API
 export const bookingsAPI = {
-  getAll: async (params?: { page?: number; limit?: number; apartment_id?: string; guest_name?: string }): Promise<Booking[]> => {
-    const response = await api.get('/bookings', { params });
+  getPage: async (params: BookingQuery = {}): Promise<Paginated<Booking>> => {
+    const response = await api.get('/bookings', {
+      params: { ...params, status: params.status?.length ? params.status.join(',') : undefined }
+    });
+    return response.data;
+  },
+
+  // Every booking matching the filters, fetched page by page
+  getAll: async (params: Omit<BookingQuery, 'page' | 'limit'> = {}): Promise<Booking[]> => {
+    const bookings: Booking[] = [];
+    for (let page = 1; ; page++) {
+      const { data, pagination } = await bookingsAPI.getPage({ ...params, page, limit: MAX_PAGE_SIZE });
+      bookings.push(...data);
+      if (page >= pagination.total_pages) return bookings;
+    }
+  },
+
+  // Every booking whose stay overlaps [from, to)
+  getRange: async (from: string, to: string, apartment_id?: string): Promise<Booking[]> => {
+    const response = await api.get('/bookings/range', { params: { from, to, apartment_id } });
     return response.data;
   },
 
@@ -228,10 +714,16 @@ export const bookingsAPI = {
 
   create: async (booking: {
     guest_name: string;
+    guest_id?: string;
     check_in: string;
     check_out: string;
     apartment_id?: string;
     temporary_apartment?: string;
+    status?: 'tentative' | 'confirmed';
+    adults?: number;
+    children?: number;
+    companions?: string[];
+    appointments?: TreatmentAppointmentInput[];
   }): Promise<Booking> => {
     const response = await api.post('/bookings', booking);
     return response.data;
@@ -242,21 +734,33 @@ export const bookingsAPI = {
     return response.data;
   },
 
-  delete: async (id: string): Promise<{ message: string }> => {
+  updateStatus: async (id: string, status: BookingStatus): Promise<Booking> => {
+    const response = await api.patch(`/bookings/${id}/status`, { status });
+    return response.data;
+  },
+
+  delete: async (id: string): Promise<DeleteResult> => {
     const response = await api.delete(`/bookings/${id}`);
     return response.data;
   },
 
-  getAvailableApartments: async (check_in: string, check_out: string): Promise<Apartment[]> => {
+  getAvailableApartments: async (check_in: string, check_out: string, party_size?: number, filters: ApartmentFilters = {}): Promise<Apartment[]> => {
     const response = await api.post('/bookings/available-apartments', {
       check_in,
       check_out,
+      party_size,
+      min_bedrooms: filters.minBedrooms,
+      max_floor: filters.maxFloor,
+      elevator: filters.elevator,
+      wheelchair_accessible: filters.wheelchairAccessible,
+      max_clinic_distance_m: filters.maxClinicDistanceM,
     });
     return response.data;
   },
 
-  batchCreate: async (bookings: Omit<Booking, 'id' | 'created_by' | 'created_at' | 'updated_at'>[]): Promise<{ message: string; createdCount: number; bookingIds: string[] }> => {
-    const response = await api.post('/bookings/batch', { bookings });
+  // A rejected all-or-nothing batch answers 409 with the same body
+  batchCreate: async (bookings: BatchBookingInput[], mode: BatchImportMode = 'all_or_nothing'): Promise<BatchResult> => {
+    const response = await api.post('/bookings/batch', { bookings, mode });
     return response.data;
   },
 
@@ -264,6 +768,163 @@ export const bookingsAPI = {
     const response = await api.delete('/bookings');
     return response.data;
   },
+
+  planAutoAssign: async (allowReshuffle = false): Promise<AutoAssignPlan> => {
+    const response = await api.post('/bookings/auto-assign', { allow_reshuffle: allowReshuffle });
+    return response.data;
+  },
+
+  applyAutoAssign: async (changes: AutoAssignChange[]): Promise<{ message: string; updatedCount: number; bookings: Booking[] }> => {
+    const response = await api.post('/bookings/auto-assign/apply', {
+      assignments: changes.map(change => ({
+        booking_id: change.booking_id,
+        apartment_id: change.to_apartment_id,
+        expected_apartment_id: change.from_apartment_id
+      }))
+    });
+    return response.data;
+  },
+};
+
+// Apartment blocks API
+export const blocksAPI = {
+  getAll: async (params?: { apartment_id?: string; from?: string; to?: string }): Promise<ApartmentBlock[]> => {
+    const response = await api.get('/blocks', { params });
+    return response.data;
+  },
+
+  create: async (block: {
+    apartment_id: string;
+    start_date: string;
+    end_date: string;
+    type: BlockType;
+    reason?: string;
+  }): Promise<ApartmentBlock> => {
+    const response = await api.post('/blocks', block);
+    return response.data;
+  },
+
+  update: async (id: string, updates: {
+    start_date?: string;
+    end_date?: string;
+    type?: BlockType;
+    reason?: string;
+  }): Promise<ApartmentBlock> => {
+    const response = await api.put(`/blocks/${id}`, updates);
+    return response.data;
+  },
+
+  delete: async (id: string): Promise<{ message: string }> => {
+    const response = await api.delete(`/blocks/${id}`);
+    return response.data;
+  },
+};
+
+// Rate plans API
+export const ratePlansAPI = {
+  getAll: async (): Promise<RatePlan[]> => {
+    const response = await api.get('/rate-plans');
+    return response.data;
+  },
+
+  getForApartment: async (apartmentId: string): Promise<RatePlan> => {
+    const response = await api.get(`/rate-plans/apartment/${apartmentId}`);
+    return response.data;
+  },
+
+  save: async (apartmentId: string, ratePlan: {
+    currency: string;
+    base_price: number;
+    weekend_price?: number | null;
+    min_stay: number;
+    seasons: RateSeason[];
+  }): Promise<RatePlan> => {
+    const response = await api.put(`/rate-plans/apartment/${apartmentId}`, ratePlan);
+    return response.data;
+  },
+
+  delete: async (apartmentId: string): Promise<{ message: string }> => {
+    const response = await api.delete(`/rate-plans/apartment/${apartmentId}`);
+    return response.data;
+  },
+
+  quote: async (apartment_id: string, check_in: string, check_out: string): Promise<PriceQuote> => {
+    const response = await api.post('/rate-plans/quote', { apartment_id, check_in, check_out });
+    return response.data;
+  },
+};
+
+// External calendars API (Airbnb, Booking.com iCal imports)
+export const externalCalendarsAPI = {
+  getAll: async (params?: { apartment_id?: string }): Promise<ExternalCalendar[]> => {
+    const response = await api.get('/external-calendars', { params });
+    return response.data;
+  },
+
+  create: async (calendar: { apartment_id: string; url: string; label?: string }): Promise<ExternalCalendar & { syncResult: ExternalCalendarSyncResult | null }> => {
+    const response = await api.post('/external-calendars', calendar);
+    return response.data;
+  },
+
+  sync: async (id: string): Promise<ExternalCalendar & { syncResult: ExternalCalendarSyncResult }> => {
+    const response = await api.post(`/external-calendars/${id}/sync`);
+    return response.data;
+  },
+
+  delete: async (id: string): Promise<{ message: string }> => {
+    const response = await api.delete(`/external-calendars/${id}`);
+    return response.data;
+  },
+};
+
+// Calendar feeds API
+export const calendarFeedsAPI = {
+  getAll: async (): Promise<CalendarFeed[]> => {
+    const response = await api.get('/calendar-feeds');
+    return response.data;
+  },
+
+  create: async (feed: { apartment_id: string | null; label?: string }): Promise<CalendarFeed> => {
+    const response = await api.post('/calendar-feeds', feed);
+    return response.data;
+  },
+
+  revoke: async (id: string): Promise<{ message: string }> => {
+    const response = await api.delete(`/calendar-feeds/${id}`);
+    return response.data;
+  },
+
+  // Absolute subscription URL for Google Calendar, Outlook and friends
+  getFeedUrl: (feed: CalendarFeed): string => {
+    const path = `${API_BASE_URL}/calendar/${feed.apartment_id || 'all'}.ics?token=${feed.token}`;
+    return new URL(path, window.location.origin).toString();
+  },
+};
+
+// Live updates API (server-sent events)
+export const eventsAPI = {
+  // Short-lived token that only opens the stream; EventSource cannot send
+  // the Authorization header
+  getStreamToken: async (): Promise<string> => {
+    const response = await api.post('/events/token');
+    return response.data.token;
+  },
+
+  subscribe: (token: string, onEvent: (event: LiveEvent) => void, onError: (source: EventSource) => void): EventSource => {
+    const url = `${API_BASE_URL}/events?token=${encodeURIComponent(token)}`;
+    const source = new EventSource(url);
+
+    source.addEventListener('change', (message) => {
+      try {
+        onEvent(JSON.parse((message as MessageEvent).data));
+      } catch (error) {
+        console.error('Failed to parse live event:', error);
+      }
+    });
+    source.onerror = () => onError(source);
+
+    return source;
+  },
 };
 
 // Users API (admin only)
@@ -311,6 +972,154 @@ export const usersAPI = {
   },
 };
 
+// Invoices API
+export const invoicesAPI = {
+  getAll: async (params?: { booking_id?: string; guest_name?: string }): Promise<Invoice[]> => {
+    const response = await api.get('/invoices', { params });
+    return response.data;
+  },
+
+  create: async (bookingIds: string[]): Promise<Invoice> => {
+    const response = await api.post('/invoices', { booking_ids: bookingIds });
+    return response.data;
+  },
+
+  setPaid: async (id: string, paid: boolean): Promise<Invoice> => {
+    const response = await api.patch(`/invoices/${id}/payment`, { paid });
+    return response.data;
+  },
+
+  downloadPdf: async (id: string): Promise<Blob> => {
+    const response = await api.get(`/invoices/${id}/pdf`, {
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+};
+
+// Payments API
+export const paymentsAPI = {
+  getAll: async (params?: { booking_id?: string }): Promise<Payment[]> => {
+    const response = await api.get('/payments', { params });
+    return response.data;
+  },
+
+  getOutstanding: async (): Promise<{ bookings: OutstandingBooking[]; totals: Record<string, number> }> => {
+    const response = await api.get('/payments/outstanding');
+    return response.data;
+  },
+
+  create: async (payment: {
+    booking_id: string;
+    amount: number;
+    type: PaymentType;
+    method: PaymentMethod;
+    currency?: string;
+    paid_at?: string;
+    notes?: string;
+  }): Promise<Payment> => {
+    const response = await api.post('/payments', payment);
+    return response.data;
+  },
+
+  delete: async (id: string): Promise<{ message: string }> => {
+    const response = await api.delete(`/payments/${id}`);
+    return response.data;
+  },
+};
+
+// Guests API
+export const guestsAPI = {
+  getAll: async (params?: { search?: string }): Promise<Guest[]> => {
+    const response = await api.get('/guests', { params });
+    return response.data;
+  },
+
+  getById: async (id: string): Promise<GuestDetail> => {
+    const response = await api.get(`/guests/${id}`);
+    return response.data;
+  },
+
+  // Rejected with 409 and { duplicates } when a similar guest exists, unless forced
+  create: async (guest: GuestInput, force = false): Promise<Guest> => {
+    const response = await api.post('/guests', { ...guest, force });
+    return response.data;
+  },
+
+  update: async (id: string, updates: Partial<GuestInput>): Promise<Guest> => {
+    const response = await api.put(`/guests/${id}`, updates);
+    return response.data;
+  },
+
+  delete: async (id: string): Promise<{ message: string }> => {
+    const response = await api.delete(`/guests/${id}`);
+    return response.data;
+  },
+};
+
+// Spreadsheet reports (manager or admin)
+export type ReportFormat = 'csv' | 'xlsx';
+
+export const reportsAPI = {
+  // The bookings list with the same filters and order as getPage
+  exportBookings: async (params: Omit<BookingQuery, 'page' | 'limit'>, format: ReportFormat): Promise<Blob> => {
+    const response = await api.get('/reports/bookings', {
+      params: { ...params, format, status: params.status?.length ? params.status.join(',') : undefined },
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  // Apartments by night for the days [from, to), as "yyyy-MM-dd"
+  exportOccupancy: async (
+    params: { from: string; to: string; apartment_id?: string },
+    format: ReportFormat
+  ): Promise<Blob> => {
+    const response = await api.get('/reports/occupancy', {
+      params: { ...params, format },
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+};
+
+// Audit log: the whole log for admins, one booking's or apartment's history for managers
+export const auditLogsAPI = {
+  getPage: async (params: AuditLogQuery = {}): Promise<Paginated<AuditLogEntry>> => {
+    const response = await api.get('/audit-logs', { params });
+    return response.data;
+  },
+
+  getFacets: async (): Promise<AuditLogFacets> => {
+    const response = await api.get('/audit-logs/facets');
+    return response.data;
+  },
+
+  // Undo a booking or apartment deletion; 409 when it cannot come back as it was
+  restore: async (id: number): Promise<RestoreResult> => {
+    const response = await api.post(`/audit-logs/${id}/restore`);
+    return response.data;
+  },
+};
+
+// Trash: deleted apartments and bookings until they are purged (admin only)
+export const trashAPI = {
+  get: async (): Promise<TrashContents> => {
+    const response = await api.get('/trash');
+    return response.data;
+  },
+
+  restore: async (table: TrashTable, id: string): Promise<RestoreResult> => {
+    const response = await api.post(`/trash/${table}/${id}/restore`);
+    return response.data;
+  },
+
+  purge: async (table: TrashTable, id: string): Promise<{ message: string }> => {
+    const response = await api.delete(`/trash/${table}/${id}`);
+    return response.data;
+  },
+};
+
 // Backup API (admin only)
 export const backupAPI = {
   export: async () => {
@@ -320,10 +1129,11 @@ export const backupAPI = {
     return response.data;
   },
 
-  import: async (file: File, replace: boolean = false) => {
+  import: async (file: File, replace: boolean = false, dryRun: boolean = false): Promise<BackupImportResult> => {
     const formData = new FormData();
     formData.append('backup', file);
     formData.append('replace', replace.toString());
+    formData.append('dry_run', dryRun.toString());
 
     const response = await api.post('/backup/import', formData, {
       headers: {
@@ -333,6 +1143,36 @@ export const backupAPI = {
     return response.data;
   },
 
+  getStored: async (): Promise<StoredBackups> => {
+    const response = await api.get('/backup/stored');
+    return response.data;
+  },
+
+  createStored: async (): Promise<{ filename: string; size: number; checksum: string }> => {
+    const response = await api.post('/backup/stored');
+    return response.data;
+  },
+
+  downloadStored: async (filename: string): Promise<Blob> => {
+    const response = await api.get(`/backup/stored/${encodeURIComponent(filename)}`, {
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  verifyStored: async (filename: string): Promise<BackupVerification> => {
+    const response = await api.post(`/backup/stored/${encodeURIComponent(filename)}/verify`);
+    return response.data;
+  },
+
+  restoreStored: async (filename: string, replace: boolean = false, dryRun: boolean = false): Promise<BackupImportResult> => {
+    const response = await api.post(`/backup/stored/${encodeURIComponent(filename)}/restore`, {
+      replace,
+      dry_run: dryRun,
+    });
+    return response.data;
+  },
+
   getHistory: async () => {
     const response = await api.get('/backup/history');
     return response.data;
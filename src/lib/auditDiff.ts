@@ -0,0 +1,53 @@
+import { AuditValues } from '@/lib/api';
+
+// Field-level changes between an audit entry's old and new values.
+//
+// UPDATE entries usually log the whole old record but only the fields that
+// were sent, so only fields present in the new values are compared.
+// CREATE entries have only new values and DELETE entries only old ones.
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Bookkeeping columns that change on every update, and the rows a deletion
+// cascaded to, which are kept for restoring rather than for reading
+const IGNORED_FIELDS = ['updated_at', '_cascade'];
+
+const isRecord = (values: AuditValues): values is Record<string, unknown> =>
+  values !== null && typeof values === 'object';
+
+// Compare through JSON so '{"a":1}' text and {a: 1} objects match the way
+// they are stored
+const toComparable = (value: unknown) => {
+  if (typeof value === 'string') {
+    try {
+      return JSON.stringify(JSON.parse(value));
+    } catch {
+      return JSON.stringify(value);
+    }
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export const diffAuditValues = (oldValues: AuditValues, newValues: AuditValues): FieldChange[] => {
+  if (!isRecord(oldValues) && !isRecord(newValues)) {
+    return oldValues === newValues ? [] : [{ field: 'value', before: oldValues, after: newValues }];
+  }
+
+  const before = isRecord(oldValues) ? oldValues : null;
+  const after = isRecord(newValues) ? newValues : null;
+
+  return Object.keys(after || before || {})
+    .filter(field => !IGNORED_FIELDS.includes(field))
+    .filter(field => !before || !after || toComparable(before[field]) !== toComparable(after[field]))
+    .map(field => ({ field, before: before?.[field], after: after?.[field] }));
+};
+
+export const formatAuditValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
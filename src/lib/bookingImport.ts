@@ -0,0 +1,267 @@
+import { isValid, parse, parseISO } from 'date-fns';
+
+import { Apartment, ParsedBookingData } from '@/types';
+
+// Spreadsheet import pipeline: cells -> column mapping -> validated bookings.
+//
+// Agencies send sheets with their own column order, extra columns and date
+// styles, so the columns are mapped to booking fields (guessed from the
+// header row and the cell contents, then adjustable) before anything is sent.
+
+export type ImportColumn = 'guestName' | 'checkIn' | 'checkOut' | 'apartment' | 'ignore';
+
+export const IMPORT_COLUMN_LABELS: Record<ImportColumn, string> = {
+  guestName: 'Guest name',
+  checkIn: 'Check-in',
+  checkOut: 'Check-out',
+  apartment: 'Apartment',
+  ignore: 'Ignore'
+};
+
+export type ImportDateFormat = 'dd.MM.yyyy' | 'dd/MM/yyyy' | 'MM/dd/yyyy' | 'yyyy-MM-dd';
+
+export const IMPORT_DATE_FORMAT_LABELS: Record<ImportDateFormat, string> = {
+  'dd.MM.yyyy': 'DD.MM.YYYY',
+  'dd/MM/yyyy': 'DD/MM/YYYY',
+  'MM/dd/yyyy': 'MM/DD/YYYY (US)',
+  'yyyy-MM-dd': 'YYYY-MM-DD (ISO)'
+};
+
+const DATE_FORMATS = Object.keys(IMPORT_DATE_FORMAT_LABELS) as ImportDateFormat[];
+
+// Header words that identify a column, checked in this order. Contact
+// details and notes are recognised so they are not mistaken for names.
+const HEADER_KEYWORDS: [ImportColumn, RegExp][] = [
+  ['ignore', /phone|tel|mobile|e-?mail|note|comment|remark/i],
+  ['checkIn', /check.?in|arrival|arrive|from|start/i],
+  ['checkOut', /check.?out|departure|depart|until|^to$|end/i],
+  ['apartment', /apartment|apt|unit|room|flat|property/i],
+  ['guestName', /name|guest|patient|client/i]
+];
+
+export interface ImportTable {
+  rows: string[][];
+  hasHeader: boolean;
+}
+
+export interface ImportFieldError {
+  column: ImportColumn;
+  message: string;
+}
+
+export interface ImportPreviewRow {
+  cells: string[];
+  booking: ParsedBookingData | null;
+  errors: ImportFieldError[];
+  // Shown when the apartment cell did not match a known apartment
+  apartmentNote?: string;
+}
+
+// The old fixed format, space separated: "Name 09.06.2025 / 11:45 16.06.2025 / 12:35"
+const LEGACY_LINE = /^([^0-9]+?)\s+(\d{2}\.\d{2}\.\d{4}(?:\s*\/\s*\d{2}:\d{2})?)\s+(\d{2}\.\d{2}\.\d{4}(?:\s*\/\s*\d{2}:\d{2})?)$/;
+
+// Split one CSV line, honouring double-quoted cells
+const splitQuoted = (line: string, delimiter: string) => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+
+  return cells;
+};
+
+// Pasted text is tab separated when copied from a spreadsheet; otherwise
+// guess between semicolons and commas by which one splits more lines
+const detectDelimiter = (lines: string[]) => {
+  if (lines.some(line => line.includes('\t'))) return '\t';
+  const count = (delimiter: string) => lines.filter(line => line.includes(delimiter)).length;
+  return count(';') >= count(',') && count(';') > 0 ? ';' : ',';
+};
+
+export const parseDelimitedText = (text: string): string[][] => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  const delimiter = detectDelimiter(lines);
+
+  return lines.map(line => {
+    const cells = (delimiter === '\t' ? line.split('\t') : splitQuoted(line, delimiter)).map(cell => cell.trim());
+    if (cells.filter(Boolean).length >= 3) return cells;
+
+    const match = line.trim().match(LEGACY_LINE);
+    return match ? [match[1].trim(), match[2], match[3]] : cells;
+  });
+};
+
+// "09.06.2025 / 11:45", "2025-06-09T11:45" or "6/9/2025 11:45 AM"
+export const parseImportDate = (value: string, dateFormat: ImportDateFormat): Date | null => {
+  const text = value.trim().replace(/\s*\/\s*(?=\d{1,2}:\d{2})/, ' ').replace(/\s+/g, ' ');
+  if (!text) return null;
+
+  if (dateFormat === 'yyyy-MM-dd') {
+    const date = parseISO(text.replace(' ', 'T'));
+    return isValid(date) ? date : null;
+  }
+
+  for (const pattern of [`${dateFormat} HH:mm`, `${dateFormat} H:mm`, `${dateFormat} h:mm a`, dateFormat]) {
+    const date = parse(text, pattern, new Date());
+    if (isValid(date)) return date;
+  }
+
+  // Single-digit days and months ("6/9/2025")
+  const loose = dateFormat.replace('dd', 'd').replace('MM', 'M');
+  for (const pattern of [`${loose} H:mm`, `${loose} h:mm a`, loose]) {
+    const date = parse(text, pattern, new Date());
+    if (isValid(date)) return date;
+  }
+
+  return null;
+};
+
+const looksLikeDate = (value: string) => DATE_FORMATS.some(dateFormat => parseImportDate(value, dateFormat) !== null);
+
+// A first row without any dates is taken to be a header
+export const detectHeader = (rows: string[][]) => {
+  if (rows.length < 2) return false;
+  return !rows[0].some(looksLikeDate) && rows[1].some(looksLikeDate);
+};
+
+// The format that reads the most date cells. Ambiguous sheets (all days up
+// to 12) fall back to the first format in the list.
+export const detectDateFormat = (rows: string[][], mapping: ImportColumn[]): ImportDateFormat => {
+  const dateCells = rows.flatMap(row => row.filter((_, index) => mapping[index] === 'checkIn' || mapping[index] === 'checkOut'));
+  let best: ImportDateFormat = DATE_FORMATS[0];
+  let bestCount = -1;
+
+  for (const dateFormat of DATE_FORMATS) {
+    const count = dateCells.filter(cell => parseImportDate(cell, dateFormat) !== null).length;
+    if (count > bestCount) {
+      best = dateFormat;
+      bestCount = count;
+    }
+  }
+
+  return best;
+};
+
+const normalizeName = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Exact name first (ignoring case, spaces and punctuation), then the only
+// apartment whose name contains the cell or is contained in it
+export const matchApartment = (value: string, apartments: Apartment[]): Apartment | null => {
+  const name = normalizeName(value);
+  if (!name) return null;
+
+  const exact = apartments.find(apartment => normalizeName(apartment.name) === name);
+  if (exact) return exact;
+
+  const partial = apartments.filter(apartment => {
+    const candidate = normalizeName(apartment.name);
+    return candidate.includes(name) || name.includes(candidate);
+  });
+  return partial.length === 1 ? partial[0] : null;
+};
+
+// Guess a role for each column from the header, then from the cell contents
+export const detectColumns = (table: ImportTable, apartments: Apartment[]): ImportColumn[] => {
+  const [first = []] = table.rows;
+  const body = table.hasHeader ? table.rows.slice(1) : table.rows;
+  const columnCount = Math.max(0, ...table.rows.map(row => row.length));
+  const mapping: ImportColumn[] = Array(columnCount).fill('ignore');
+  const recognised = new Set<number>();
+  const taken = new Set<ImportColumn>();
+
+  const assign = (index: number, column: ImportColumn) => {
+    mapping[index] = column;
+    recognised.add(index);
+    if (column !== 'ignore') taken.add(column);
+  };
+
+  if (table.hasHeader) {
+    first.forEach((header, index) => {
+      const match = HEADER_KEYWORDS.find(([column, pattern]) => pattern.test(header) && (column === 'ignore' || !taken.has(column)));
+      if (match) assign(index, match[0]);
+    });
+  }
+
+  for (let index = 0; index < columnCount; index++) {
+    if (recognised.has(index)) continue;
+    const cells = body.map(row => row[index] || '').filter(Boolean);
+    if (cells.length === 0) continue;
+
+    if (cells.every(looksLikeDate)) {
+      if (!taken.has('checkIn')) assign(index, 'checkIn');
+      else if (!taken.has('checkOut')) assign(index, 'checkOut');
+    } else if (!taken.has('apartment') && apartments.length > 0 &&
+      cells.filter(cell => matchApartment(cell, apartments)).length > cells.length / 2) {
+      assign(index, 'apartment');
+    } else if (!taken.has('guestName') && cells.some(cell => /[a-z]/i.test(cell)) && !cells.some(cell => /@|^\+?[\d\s()-]{6,}$/.test(cell))) {
+      assign(index, 'guestName');
+    }
+  }
+
+  return mapping;
+};
+
+// Validate every row against the mapping; rows with errors have no booking
+export const buildPreview = (
+  table: ImportTable,
+  mapping: ImportColumn[],
+  dateFormat: ImportDateFormat,
+  apartments: Apartment[]
+): ImportPreviewRow[] => {
+  const body = table.hasHeader ? table.rows.slice(1) : table.rows;
+  const cellFor = (cells: string[], column: ImportColumn) => {
+    const index = mapping.indexOf(column);
+    return index >= 0 ? (cells[index] || '').trim() : '';
+  };
+
+  return body.map(cells => {
+    const errors: ImportFieldError[] = [];
+    const guestName = cellFor(cells, 'guestName');
+    const checkIn = parseImportDate(cellFor(cells, 'checkIn'), dateFormat);
+    const checkOut = parseImportDate(cellFor(cells, 'checkOut'), dateFormat);
+
+    if (!guestName) errors.push({ column: 'guestName', message: 'Guest name is missing' });
+    if (!checkIn) errors.push({ column: 'checkIn', message: 'Check-in is not a valid date' });
+    if (!checkOut) errors.push({ column: 'checkOut', message: 'Check-out is not a valid date' });
+    if (checkIn && checkOut && checkOut <= checkIn) {
+      errors.push({ column: 'checkOut', message: 'Check-out must be after check-in' });
+    }
+
+    // An unknown apartment is kept as a temporary apartment rather than dropped
+    const apartmentName = cellFor(cells, 'apartment');
+    const apartment = apartmentName ? matchApartment(apartmentName, apartments) : null;
+    const apartmentNote = apartmentName && !apartment
+      ? `No apartment matches "${apartmentName}"; it will be imported as a temporary apartment`
+      : undefined;
+
+    return {
+      cells,
+      errors,
+      apartmentNote,
+      booking: !checkIn || !checkOut || errors.length > 0 ? null : {
+        guestName,
+        checkIn,
+        checkOut,
+        apartmentId: apartment?.id,
+        temporaryApartment: apartmentName && !apartment ? apartmentName : undefined
+      }
+    };
+  });
+};
@@ -0,0 +1,76 @@
+import fs from 'fs';
+import path from 'path';
+import { JSDOM } from 'jsdom';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { readSpreadsheetFile } from '@/lib/spreadsheetFile';
+
+// Fixtures are written by __fixtures__/generate.mjs
+const fixture = (name: string) =>
+  new File([fs.readFileSync(path.join(__dirname, '__fixtures__', name))], name);
+
+beforeAll(() => {
+  // Node has the zip streams the reader uses but not the browser's XML parser
+  globalThis.DOMParser = new JSDOM().window.DOMParser;
+});
+
+describe('readSpreadsheetFile', () => {
+  const xlsxSheets = [
+    {
+      name: 'Bookings',
+      rows: [
+        ['Guest', 'Check-in', 'Check-out', 'Apartment'],
+        ['Anna Müller', '2026-03-05 14:30', '2026-03-12 00:00', 'Sea View 2'],
+        ['Ben Ortiz', '', '2026-04-02 00:00', '7']
+      ]
+    },
+    { name: 'Notes', rows: [['VIP', 'TRUE', '=A1']] }
+  ];
+
+  it('reads every sheet of an .xlsx workbook', async () => {
+    expect(await readSpreadsheetFile(fixture('bookings.xlsx'))).toEqual(xlsxSheets);
+  });
+
+  it('reads an .xlsx workbook in a zip64 archive', async () => {
+    expect(await readSpreadsheetFile(fixture('bookings-zip64.xlsx'))).toEqual(xlsxSheets);
+  });
+
+  it('reads every sheet of an .ods spreadsheet', async () => {
+    expect(await readSpreadsheetFile(fixture('bookings.ods'))).toEqual([
+      {
+        name: 'Bookings',
+        rows: [
+          ['Guest', 'Check-in', 'Check-out'],
+          ['Anna Müller', '2026-03-05 14:30', '2026-03-12 00:00'],
+          ['Ben Ortiz', '', '', 'Sea View 2']
+        ]
+      },
+      { name: 'Notes', rows: [['VIP', 'VIP']] }
+    ]);
+  });
+
+  it('reads a .csv file as one sheet', async () => {
+    expect(await readSpreadsheetFile(fixture('bookings.csv'))).toEqual([
+      {
+        name: 'bookings.csv',
+        rows: [
+          ['Guest', 'Check-in', 'Check-out', 'Apartment'],
+          ['Müller, Anna', '2026-03-05 14:30', '2026-03-12', 'Sea View 2'],
+          ['Ben Ortiz', '2026-03-28', '2026-04-02', '']
+        ]
+      }
+    ]);
+  });
+
+  it('rejects an archive whose directory points past the end of the file', async () => {
+    const bytes = new Uint8Array(fs.readFileSync(path.join(__dirname, '__fixtures__', 'bookings.xlsx')));
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    view.setUint32(bytes.length - 6, bytes.length + 100, true);
+
+    await expect(readSpreadsheetFile(new File([bytes], 'bookings.xlsx')))
+      .rejects.toThrow('The file is not a valid spreadsheet');
+  });
+
+  it('rejects other file types', async () => {
+    await expect(readSpreadsheetFile(new File(['x'], 'bookings.pdf'))).rejects.toThrow('Upload an .xlsx, .ods or .csv file');
+  });
+});
@@ -0,0 +1,298 @@
+import { parseDelimitedText } from '@/lib/bookingImport';
+
+// Read uploaded spreadsheets into rows of cell text for the booking import
+// pipeline. .xlsx and .ods are zip archives of XML, unpacked with the
+// browser's DecompressionStream and DOMParser; .csv goes through the same
+// parser as pasted text.
+//
+// Date cells are written as "yyyy-MM-dd HH:mm" so they read with the ISO
+// date format whatever the sheet displayed them as.
+
+export interface SpreadsheetSheet {
+  name: string;
+  rows: string[][];
+}
+
+export const SPREADSHEET_FILE_ACCEPT = '.xlsx,.ods,.csv';
+
+const ODS_TABLE_NS = 'urn:oasis:names:tc:opendocument:xmlns:table:1.0';
+const ODS_OFFICE_NS = 'urn:oasis:names:tc:opendocument:xmlns:office:1.0';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// Built-in Excel number formats that display dates or times
+const XLSX_DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// Days between the 1900 and 1970 epochs, counting Excel's phantom 29 Feb 1900
+const XLSX_EPOCH_OFFSET = 25569;
+const XLSX_1904_OFFSET = 1462;
+
+// --- zip ---
+
+const INVALID_FILE = 'The file is not a valid spreadsheet';
+
+// A 64-bit zip field as a number; spreadsheets never come near 2^53 bytes
+const readUint64 = (view: DataView, offset: number) => Number(view.getBigUint64(offset, true));
+
+// Zip64 archives mark 32-bit fields with 0xFFFFFFFF and store the real
+// values, in order, in the entry's 0x0001 extra field
+const readZip64Extra = (view: DataView, start: number, length: number, fields: number[]) => {
+  const values = [...fields];
+  for (let offset = start; offset + 4 <= start + length;) {
+    const id = view.getUint16(offset, true);
+    const size = view.getUint16(offset + 2, true);
+    if (id === 0x0001) {
+      let position = offset + 4;
+      values.forEach((value, index) => {
+        if (value === 0xffffffff && position + 8 <= offset + 4 + size) {
+          values[index] = readUint64(view, position);
+          position += 8;
+        }
+      });
+    }
+    offset += 4 + size;
+  }
+  return values;
+};
+
+// The uploaded bytes are untrusted, so every offset is checked against the
+// buffer before it is read
+const readZip = async (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const check = (condition: boolean) => {
+    if (!condition) throw new Error(INVALID_FILE);
+  };
+
+  // End of central directory: the last 0x06054b50 signature
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  check(end !== -1);
+
+  let count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  // Zip64: the locator just before the end record points at the zip64 end record
+  if ((count === 0xffff || offset === 0xffffffff) && end >= 20 && view.getUint32(end - 20, true) === 0x07064b50) {
+    const zip64End = readUint64(view, end - 12);
+    check(zip64End + 56 <= bytes.length && view.getUint32(zip64End, true) === 0x06064b50);
+    count = readUint64(view, zip64End + 32);
+    offset = readUint64(view, zip64End + 48);
+  }
+
+  const entries = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < count; i++) {
+    check(offset + 46 <= bytes.length && view.getUint32(offset, true) === 0x02014b50);
+    const method = view.getUint16(offset + 10, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    check(offset + 46 + nameLength + extraLength <= bytes.length);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    const [, compressedSize, localOffset] = readZip64Extra(view, offset + 46 + nameLength, extraLength, [
+      view.getUint32(offset + 24, true),
+      view.getUint32(offset + 20, true),
+      view.getUint32(offset + 42, true)
+    ]);
+
+    check(localOffset + 30 <= bytes.length && view.getUint32(localOffset, true) === 0x04034b50);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    check(dataStart + compressedSize <= bytes.length);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0 || method === 8) {
+      entries.set(name, method === 0 ? data : await inflate(data));
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+const inflate = async (data: Uint8Array) => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const readXml = (entries: Map<string, Uint8Array>, path: string) => {
+  const data = entries.get(path);
+  return data ? new DOMParser().parseFromString(new TextDecoder().decode(data), 'application/xml') : null;
+};
+
+// Elements by local name, whatever prefix the file gives the namespace
+const elements = (parent: Document | Element, localName: string) =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+const children = (parent: Element, localName: string) =>
+  Array.from(parent.children).filter(child => child.localName === localName);
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatDateTime = (date: Date) =>
+  `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`;
+
+// Trim cells, drop empty rows and the empty cells that trail each row
+const tidyRows = (rows: string[][]) => rows
+  .map(row => {
+    const cells = row.map(cell => cell.trim());
+    while (cells.length > 0 && !cells[cells.length - 1]) cells.pop();
+    return cells;
+  })
+  .filter(row => row.length > 0);
+
+// --- xlsx ---
+
+// "AB12" -> 27
+const columnIndex = (ref: string) => {
+  const letters = ref.replace(/\d+$/, '').toUpperCase();
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+// A custom format is a date format if it has date or time tokens outside
+// quoted text and [colour] sections
+const isDateFormatCode = (formatCode: string) =>
+  /[dmyhs]/i.test(formatCode.replace(/"[^"]*"|\[[^\]]*\]|\\./g, ''));
+
+const readXlsxDateStyles = (styles: Document | null) => {
+  if (!styles) return [];
+  const dateFormatIds = new Set(XLSX_DATE_FORMAT_IDS);
+
+  for (const numFmt of elements(styles, 'numFmt')) {
+    if (isDateFormatCode(numFmt.getAttribute('formatCode') || '')) {
+      dateFormatIds.add(Number(numFmt.getAttribute('numFmtId')));
+    }
+  }
+
+  const [cellXfs] = elements(styles, 'cellXfs');
+  return cellXfs
+    ? children(cellXfs, 'xf').map(xf => dateFormatIds.has(Number(xf.getAttribute('numFmtId'))))
+    : [];
+};
+
+const readXlsx = async (buffer: ArrayBuffer): Promise<SpreadsheetSheet[]> => {
+  const entries = await readZip(buffer);
+  const workbook = readXml(entries, 'xl/workbook.xml');
+  if (!workbook) throw new Error('The file is not a valid .xlsx workbook');
+
+  const sharedStrings = (() => {
+    const document = readXml(entries, 'xl/sharedStrings.xml');
+    return document
+      ? elements(document, 'si').map(si => elements(si, 't').map(t => t.textContent || '').join(''))
+      : [];
+  })();
+  const dateStyles = readXlsxDateStyles(readXml(entries, 'xl/styles.xml'));
+  const [workbookPr] = elements(workbook, 'workbookPr');
+  const epochOffset = XLSX_EPOCH_OFFSET - (['1', 'true'].includes(workbookPr?.getAttribute('date1904') || '') ? XLSX_1904_OFFSET : 0);
+
+  const targets = new Map<string, string>();
+  const relationships = readXml(entries, 'xl/_rels/workbook.xml.rels');
+  for (const relationship of relationships ? elements(relationships, 'Relationship') : []) {
+    const target = relationship.getAttribute('Target') || '';
+    targets.set(relationship.getAttribute('Id') || '', target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  }
+
+  const readCell = (cell: Element) => {
+    const type = cell.getAttribute('t');
+    const value = children(cell, 'v')[0]?.textContent || '';
+
+    if (type === 's') return sharedStrings[Number(value)] || '';
+    if (type === 'inlineStr') return elements(cell, 't').map(t => t.textContent || '').join('');
+    if (type === 'b') return value === '1' ? 'TRUE' : 'FALSE';
+    if (type && type !== 'n') return value;
+
+    if (value && dateStyles[Number(cell.getAttribute('s') || 0)]) {
+      return formatDateTime(new Date(Math.round((Number(value) - epochOffset) * 86400000)));
+    }
+    return value;
+  };
+
+  return elements(workbook, 'sheet').flatMap(sheet => {
+    const path = targets.get(sheet.getAttributeNS(RELATIONSHIPS_NS, 'id') || '');
+    const document = path ? readXml(entries, path) : null;
+    if (!document) return [];
+
+    const rows = elements(document, 'row').map(row => {
+      const cells: string[] = [];
+      children(row, 'c').forEach(cell => {
+        const ref = cell.getAttribute('r');
+        const index = ref ? columnIndex(ref) : cells.length;
+        while (cells.length < index) cells.push('');
+        cells[index] = readCell(cell);
+      });
+      return cells;
+    });
+
+    return [{ name: sheet.getAttribute('name') || `Sheet ${sheet.getAttribute('sheetId')}`, rows: tidyRows(rows) }];
+  });
+};
+
+// --- ods ---
+
+const readOds = async (buffer: ArrayBuffer): Promise<SpreadsheetSheet[]> => {
+  const entries = await readZip(buffer);
+  const content = readXml(entries, 'content.xml');
+  if (!content) throw new Error('The file is not a valid .ods spreadsheet');
+
+  const readCell = (cell: Element) => {
+    const valueType = cell.getAttributeNS(ODS_OFFICE_NS, 'value-type');
+    if (valueType === 'date') {
+      const [date, time = '00:00'] = (cell.getAttributeNS(ODS_OFFICE_NS, 'date-value') || '').split('T');
+      return `${date} ${time.slice(0, 5)}`;
+    }
+    return elements(cell, 'p').map(p => p.textContent || '').join(' ');
+  };
+
+  return elements(content, 'table').filter(table => table.namespaceURI === ODS_TABLE_NS).map(table => {
+    const rows: string[][] = [];
+
+    for (const row of elements(table, 'table-row')) {
+      const cells: string[] = [];
+      // Blank cells are repeated to the end of the sheet; only add them
+      // once something follows
+      let pendingBlanks = 0;
+
+      for (const cell of Array.from(row.children)) {
+        if (cell.localName !== 'table-cell' && cell.localName !== 'covered-table-cell') continue;
+        const repeat = Number(cell.getAttributeNS(ODS_TABLE_NS, 'number-columns-repeated') || 1);
+        const text = readCell(cell);
+
+        if (!text.trim()) {
+          pendingBlanks += repeat;
+          continue;
+        }
+        cells.push(...Array(pendingBlanks).fill(''), ...Array(Math.min(repeat, 1000)).fill(text));
+        pendingBlanks = 0;
+      }
+
+      if (cells.length > 0) {
+        const repeat = Number(row.getAttributeNS(ODS_TABLE_NS, 'number-rows-repeated') || 1);
+        for (let i = 0; i < Math.min(repeat, 1000); i++) rows.push([...cells]);
+      }
+    }
+
+    return { name: table.getAttributeNS(ODS_TABLE_NS, 'name') || 'Sheet', rows: tidyRows(rows) };
+  });
+};
+
+// Every sheet in the file, empty sheets left out
+export const readSpreadsheetFile = async (file: File): Promise<SpreadsheetSheet[]> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  let sheets: SpreadsheetSheet[];
+
+  if (extension === 'xlsx') {
+    sheets = await readXlsx(await file.arrayBuffer());
+  } else if (extension === 'ods') {
+    sheets = await readOds(await file.arrayBuffer());
+  } else if (extension === 'csv') {
+    sheets = [{ name: file.name, rows: parseDelimitedText(await file.text()) }];
+  } else {
+    throw new Error('Upload an .xlsx, .ods or .csv file');
+  }
+
+  return sheets.filter(sheet => sheet.rows.length > 0);
+};
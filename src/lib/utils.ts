@@ -4,3 +4,26 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function formatCurrency(amount: number, currency = "EUR") {
+  return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount)
+}
+
+// "DE" -> "Germany"; unknown codes are shown as they are
+export function formatCountry(code: string) {
+  try {
+    return new Intl.DisplayNames(undefined, { type: "region" }).of(code.toUpperCase()) || code
+  } catch {
+    return code
+  }
+}
+
+// Save a downloaded file under the given name
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = window.URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  window.URL.revokeObjectURL(url)
+}
@@ -42,10 +42,16 @@ import {
   Edit, 
   Trash2, 
   Key,
-  BarChart3
+  BarChart3,
+  History,
+  ArchiveRestore
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { usersAPI, backupAPI } from '@/lib/api';
+import { usersAPI, backupAPI, BackupImportResult } from '@/lib/api';
+import { AuditLogBrowser } from '@/components/AuditLogBrowser';
+import { TrashBin } from '@/components/TrashBin';
+import { BackupImportPreview } from '@/components/BackupImportPreview';
+import { StoredBackups } from '@/components/StoredBackups';
 
 interface User {
   id: number;
@@ -69,6 +75,7 @@ const AdminPage = () => {
   const [importFile, setImportFile] = useState<File | null>(null);
   const [showImportDialog, setShowImportDialog] = useState(false);
   const [replaceMode, setReplaceMode] = useState(false);
+  const [importPreview, setImportPreview] = useState<BackupImportResult | null>(null);
   const { toast } = useToast();
 
   // Form states
@@ -229,11 +236,15 @@ const AdminPage = () => {
       setShowImportDialog(false);
       setImportFile(null);
       setReplaceMode(false);
+      setImportPreview(null);
       await loadData(); // Refresh data
-      
+
+      const imported = (table: string) => result.summary[table].new + result.summary[table].changed;
+      const conflicts = Object.values(result.summary).reduce((total, summary) => total + summary.conflicts, 0);
+      const skipped = conflicts > 0 ? ` ${conflicts} rows were skipped because of conflicts.` : '';
       toast({
         title: "Import successful",
-        description: `Data imported successfully. ${result.imported.apartments} apartments, ${result.imported.bookings} bookings, ${result.imported.users} users.`,
+        description: `Data imported successfully. ${imported('apartments')} apartments, ${imported('bookings')} bookings, ${imported('users')} users.${skipped}`,
       });
     } catch (error: any) {
       toast({
@@ -244,6 +255,23 @@ const AdminPage = () => {
     }
   };
 
+  const handlePreviewImport = async () => {
+    if (!importFile) return;
+
+    try {
+      setImportPreview(await backupAPI.import(importFile, replaceMode, true));
+    } catch (error: any) {
+      const issues = error.response?.data?.issues as { path: string; message: string }[] | undefined;
+      toast({
+        title: "Error",
+        description: issues?.length
+          ? `${error.response.data.message}: ${issues.slice(0, 3).map(issue => `${issue.path} ${issue.message}`).join('; ')}`
+          : error.response?.data?.message || "Failed to preview the import.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const openUserDialog = (user?: User) => {
     if (user) {
       setEditingUser(user);
@@ -307,6 +335,14 @@ const AdminPage = () => {
               <BarChart3 className="mr-2 h-4 w-4" />
               Statistics
             </TabsTrigger>
+            <TabsTrigger value="audit">
+              <History className="mr-2 h-4 w-4" />
+              Audit Log
+            </TabsTrigger>
+            <TabsTrigger value="trash">
+              <ArchiveRestore className="mr-2 h-4 w-4" />
+              Trash
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="users">
@@ -417,6 +453,18 @@ const AdminPage = () => {
                   </Button>
                 </CardContent>
               </Card>
+
+              <Card className="md:col-span-2">
+                <CardHeader>
+                  <CardTitle>Stored Backups</CardTitle>
+                  <CardDescription>
+                    Compressed backups kept on the server
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <StoredBackups />
+                </CardContent>
+              </Card>
             </div>
           </TabsContent>
 
@@ -460,6 +508,34 @@ const AdminPage = () => {
               </div>
             )}
           </TabsContent>
+
+          <TabsContent value="audit">
+            <Card>
+              <CardHeader>
+                <CardTitle>Audit Log</CardTitle>
+                <CardDescription>
+                  Every change made through the app. Select an entry to see the fields it changed.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AuditLogBrowser />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="trash">
+            <Card>
+              <CardHeader>
+                <CardTitle>Trash</CardTitle>
+                <CardDescription>
+                  Deleted apartments and bookings. Restore them, or delete them for good.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TrashBin />
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
 
         {/* User Dialog */}
@@ -586,7 +662,7 @@ const AdminPage = () => {
 
         {/* Import Data Dialog */}
         <Dialog open={showImportDialog} onOpenChange={setShowImportDialog}>
-          <DialogContent>
+          <DialogContent className="max-w-2xl">
             <DialogHeader>
               <DialogTitle>Import Backup Data</DialogTitle>
               <DialogDescription>
@@ -600,7 +676,10 @@ const AdminPage = () => {
                   id="backupFile"
                   type="file"
                   accept=".json"
-                  onChange={(e) => setImportFile(e.target.files?.[0] || null)}
+                  onChange={(e) => {
+                    setImportFile(e.target.files?.[0] || null);
+                    setImportPreview(null);
+                  }}
                 />
               </div>
               <div className="flex items-center space-x-2">
@@ -608,7 +687,10 @@ const AdminPage = () => {
                   type="checkbox"
                   id="replaceMode"
                   checked={replaceMode}
-                  onChange={(e) => setReplaceMode(e.target.checked)}
+                  onChange={(e) => {
+                    setReplaceMode(e.target.checked);
+                    setImportPreview(null);
+                  }}
                 />
                 <Label htmlFor="replaceMode" className="text-sm">
                   Replace existing data (WARNING: This will delete current data)
@@ -617,15 +699,19 @@ const AdminPage = () => {
               {replaceMode && (
                 <div className="p-4 bg-destructive/10 border border-destructive/20 rounded-md">
                   <p className="text-sm text-destructive">
-                    ⚠️ Replace mode will delete ALL existing apartments, bookings, and users (except current user) before importing.
+                    ⚠️ Replace mode will delete ALL existing apartments, bookings, and related data before importing. Users missing from the backup are deactivated.
                   </p>
                 </div>
               )}
+              {importPreview && <BackupImportPreview result={importPreview} />}
             </div>
             <DialogFooter>
               <Button variant="outline" onClick={() => setShowImportDialog(false)}>
                 Cancel
               </Button>
+              <Button variant="outline" onClick={handlePreviewImport} disabled={!importFile}>
+                Preview Changes
+              </Button>
               <Button onClick={handleImportData} disabled={!importFile}>
                 Import Data
               </Button>
@@ -5,6 +5,10 @@ import { format, startOfMonth, endOfMonth, eachDayOfInterval, addMonths, subMont
 import { Button } from '@/components/ui/button';
 import { ApartmentForm } from '@/components/ApartmentForm';
 import { ApartmentList } from '@/components/ApartmentList';
+import { ApartmentBlocks } from '@/components/ApartmentBlocks';
+import { CalendarFeeds } from '@/components/CalendarFeeds';
+import { ExternalCalendars } from '@/components/ExternalCalendars';
+import { RatePlanEditor } from '@/components/RatePlanEditor';
 import { useAppStore } from '@/store';
 import { Layout } from '@/components/Layout';
 import { 
@@ -17,21 +21,29 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { Apartment, Booking } from '@/types';
+import { Apartment, ApartmentBlock, Booking, BLOCK_TYPE_LABELS, describeApartmentAttributes, isActiveBooking } from '@/types';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 
+// How long a deleted apartment's toast offers to undo, in milliseconds
+const UNDO_DURATION = 10000;
+
 const ApartmentsPage = () => {
   const { 
     apartments, 
     bookings, 
+    blocks,
     loading,
     refreshData,
+    bookingsLoadedSince,
+    ensureBookingsLoaded,
     addApartment, 
     updateApartment, 
     deleteApartment, 
+    restoreDeleted,
     toggleApartmentFavorite 
   } = useAppStore();
   
@@ -49,19 +61,11 @@ const ApartmentsPage = () => {
     };
     loadData();
   }, []);
-  
-  // Auto-refresh data every 30 seconds for real-time sync
-  useEffect(() => {
-    const interval = setInterval(async () => {
-      try {
-        await refreshData();
-      } catch (error) {
-        console.error('Auto-refresh failed:', error);
-      }
-    }, 30000); // 30 seconds
 
-    return () => clearInterval(interval);
-  }, [refreshData]);
+  // Load bookings for the month shown in the apartment detail
+  useEffect(() => {
+    ensureBookingsLoaded(startOfMonth(currentMonth), endOfMonth(currentMonth));
+  }, [currentMonth, bookingsLoadedSince, ensureBookingsLoaded]);
   
   const handleAddNew = () => {
     setEditingApartment(null);
@@ -77,10 +81,26 @@ const ApartmentsPage = () => {
     setApartmentToDelete(apartmentId);
   };
   
+  const handleUndoDelete = async (auditLogId: number) => {
+    try {
+      await restoreDeleted(auditLogId);
+      toast({
+        title: "Apartment restored",
+        description: "The apartment has been put back.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to restore the apartment.",
+        variant: "destructive",
+      });
+    }
+  };
+  
   const confirmDelete = async () => {
     if (apartmentToDelete) {
       try {
-        await deleteApartment(apartmentToDelete);
+        const auditLogId = await deleteApartment(apartmentToDelete);
         setApartmentToDelete(null);
         // Clear selection if deleted apartment was selected
         if (selectedApartmentId === apartmentToDelete) {
@@ -89,6 +109,12 @@ const ApartmentsPage = () => {
         toast({
           title: "Apartment deleted",
           description: "The apartment has been removed successfully.",
+          duration: UNDO_DURATION,
+          action: (
+            <ToastAction altText="Undo the deletion" onClick={() => handleUndoDelete(auditLogId)}>
+              Undo
+            </ToastAction>
+          ),
         });
       } catch {
         toast({
@@ -175,6 +201,13 @@ const ApartmentsPage = () => {
     ? bookings.filter(booking => booking.apartmentId === selectedApartmentId)
     : [];
 
+  // Get maintenance, cleaning and owner blocks for selected apartment
+  const selectedApartmentBlocks = useMemo(() => {
+    return selectedApartmentId
+      ? blocks.filter(block => block.apartmentId === selectedApartmentId)
+      : [];
+  }, [blocks, selectedApartmentId]);
+
   // Get days in current month for calendar view
   const daysInMonth = useMemo(() => {
     return eachDayOfInterval({
@@ -187,26 +220,30 @@ const ApartmentsPage = () => {
   const apartmentAvailability = useMemo(() => {
     if (!selectedApartmentId) return {};
     
-    const availability: Record<string, { isAvailable: boolean; booking?: Booking }> = {};
+    const availability: Record<string, { isAvailable: boolean; booking?: Booking; block?: ApartmentBlock }> = {};
     
     daysInMonth.forEach(day => {
       const dateStr = format(day, 'yyyy-MM-dd');
       
       // Check if apartment is booked on this day
       const booking = selectedApartmentBookings.find(booking => {
+        if (!isActiveBooking(booking)) return false;
         const bookingStart = new Date(booking.checkIn);
         const bookingEnd = new Date(booking.checkOut);
         return day >= bookingStart && day < bookingEnd;
       });
       
+      const block = selectedApartmentBlocks.find(block => day >= block.startDate && day < block.endDate);
+      
       availability[dateStr] = {
-        isAvailable: !booking,
-        booking: booking
+        isAvailable: !booking && !block,
+        booking: booking,
+        block: block
       };
     });
     
     return availability;
-  }, [selectedApartmentId, selectedApartmentBookings, daysInMonth]);
+  }, [selectedApartmentId, selectedApartmentBookings, selectedApartmentBlocks, daysInMonth]);
 
   return (
     <Layout>
@@ -288,6 +325,24 @@ const ApartmentsPage = () => {
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
+                      <div>
+                        <h4 className="font-medium mb-2">Attributes</h4>
+                        <div className="flex flex-wrap gap-2">
+                          {describeApartmentAttributes(selectedApartment.attributes).length > 0 ? (
+                            describeApartmentAttributes(selectedApartment.attributes).map((label) => (
+                              <Badge key={label} variant="secondary">
+                                {label}
+                              </Badge>
+                            ))
+                          ) : (
+                            <span className="text-muted-foreground text-sm">No attributes defined</span>
+                          )}
+                        </div>
+                        {selectedApartment.attributes?.address && (
+                          <p className="text-sm text-muted-foreground mt-2">{selectedApartment.attributes.address}</p>
+                        )}
+                      </div>
+
                       <div>
                         <h4 className="font-medium mb-2">Properties</h4>
                         <div className="flex flex-wrap gap-2">
@@ -374,14 +429,18 @@ const ApartmentsPage = () => {
                               relative p-2 text-center text-xs border rounded
                               ${dayData?.isAvailable 
                                 ? 'bg-green-50 border-green-200 text-green-800' 
-                                : 'bg-red-50 border-red-200 text-red-800'
+                                : dayData?.block
+                                  ? 'bg-gray-100 border-gray-300 text-gray-700'
+                                  : 'bg-red-50 border-red-200 text-red-800'
                               }
                               ${isToday ? 'ring-2 ring-blue-500' : ''}
                             `}
                             title={
                               dayData?.booking 
                                 ? `Booked by ${dayData.booking.guestName}`
-                                : 'Available'
+                                : dayData?.block
+                                  ? BLOCK_TYPE_LABELS[dayData.block.type]
+                                  : 'Available'
                             }
                           >
                             <div className="font-medium">{format(day, 'd')}</div>
@@ -390,6 +449,11 @@ const ApartmentsPage = () => {
                                 {dayData.booking.guestName}
                               </div>
                             )}
+                            {dayData?.block && (
+                              <div className="text-xs truncate mt-1 leading-tight">
+                                {BLOCK_TYPE_LABELS[dayData.block.type]}
+                              </div>
+                            )}
                           </div>
                         );
                       })}
@@ -403,10 +467,25 @@ const ApartmentsPage = () => {
                         <div className="w-3 h-3 bg-red-50 border border-red-200 rounded"></div>
                         <span>Booked</span>
                       </div>
+                      <div className="flex items-center gap-1">
+                        <div className="w-3 h-3 bg-gray-100 border border-gray-300 rounded"></div>
+                        <span>Blocked</span>
+                      </div>
                     </div>
                   </CardContent>
                 </Card>
 
+                <ApartmentBlocks
+                  apartmentId={selectedApartment.id}
+                  blocks={selectedApartmentBlocks}
+                />
+
+                <RatePlanEditor apartmentId={selectedApartment.id} />
+
+                <ExternalCalendars apartmentId={selectedApartment.id} />
+
+                <CalendarFeeds apartmentId={selectedApartment.id} />
+
                 {/* Bookings List */}
                 {selectedApartmentBookings.length > 0 && (
                   <Card>
@@ -442,6 +521,8 @@ const ApartmentsPage = () => {
                 )}
               </>
             )}
+
+            <CalendarFeeds />
           </div>
         )}
       </div>
@@ -1,12 +1,12 @@
 import React, { useState } from 'react';
 import { format } from 'date-fns';
-import { PlayIcon } from 'lucide-react';
+import { ArrowRightIcon, PlayIcon } from 'lucide-react';
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { BookingList } from '@/components/BookingList';
 import { useAppStore } from '@/store';
 import { Layout } from '@/components/Layout';
-import { Booking } from '@/types';
+import { Booking, getPartySize } from '@/types';
 import {
   Dialog,
   DialogContent,
@@ -27,13 +27,27 @@ import { useToast } from '@/hooks/use-toast';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { bookingsAPI, AutoAssignPlan } from '@/lib/api';
 
 const AssignPage = () => {
-  const { apartments, bookings, updateBooking, getAvailableApartments } = useAppStore();
+  const { apartments, bookings, updateBooking, getAvailableApartments, refreshData } = useAppStore();
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
   const [selectedApartmentId, setSelectedApartmentId] = useState<string>('');
   const [isTemporaryMode, setIsTemporaryMode] = useState(false);
   const [temporaryApartmentName, setTemporaryApartmentName] = useState('');
+  const [showAutoAssign, setShowAutoAssign] = useState(false);
+  const [allowReshuffle, setAllowReshuffle] = useState(false);
+  const [plan, setPlan] = useState<AutoAssignPlan | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
   const { toast } = useToast();
   
   // Get unassigned bookings
@@ -41,7 +55,7 @@ const AssignPage = () => {
   
   // Get available apartments for the selected booking
   const availableApartments = selectedBooking 
-    ? getAvailableApartments(selectedBooking.checkIn, selectedBooking.checkOut)
+    ? getAvailableApartments(selectedBooking.checkIn, selectedBooking.checkOut, getPartySize(selectedBooking))
     : [];
   
   const handleAssign = (booking: Booking) => {
@@ -99,57 +113,60 @@ const AssignPage = () => {
     setTemporaryApartmentName('');
   };
   
-  // Auto-assign algorithm with favorite prioritization
-  const autoAssignBookings = async () => {
-    if (unassignedBookings.length === 0) {
+  const loadPlan = async (allowReshuffle: boolean) => {
+    setIsPlanning(true);
+    try {
+      const newPlan = await bookingsAPI.planAutoAssign(allowReshuffle);
+      setPlan(newPlan);
+    } catch (error: any) {
       toast({
-        title: "No unassigned bookings",
-        description: "There are no bookings that need assignment.",
+        title: "Auto-assignment failed",
+        description: error.response?.data?.message || "Could not calculate an assignment plan. Please try again.",
+        variant: "destructive",
       });
-      return;
-    }
-    
-    // Sort bookings by check-in date (earlier first)
-    const sortedBookings = [...unassignedBookings].sort(
-      (a, b) => a.checkIn.getTime() - b.checkIn.getTime()
-    );
-    
-    let assignedCount = 0;
-    let failedCount = 0;
-    
-    // Try to assign each booking
-    for (const booking of sortedBookings) {
-      try {
-        // Get available apartments for this booking's date range
-        const availableApts = getAvailableApartments(booking.checkIn, booking.checkOut);
-        
-        if (availableApts.length > 0) {
-          // Prioritize favorite apartments (getAvailableApartments already sorts by favorites)
-          const favoriteApt = availableApts.find(apt => apt.isFavorite);
-          const apartmentToAssign = favoriteApt || availableApts[0];
-          
-          await updateBooking(booking.id, { apartmentId: apartmentToAssign.id });
-          assignedCount++;
-        } else {
-          failedCount++;
-        }
-      } catch (error) {
-        console.error('Failed to assign booking:', booking.id, error);
-        failedCount++;
-      }
+    } finally {
+      setIsPlanning(false);
     }
+  };
+  
+  const openAutoAssign = () => {
+    setAllowReshuffle(false);
+    setShowAutoAssign(true);
+    loadPlan(false);
+  };
+  
+  const handleReshuffleChange = (checked: boolean) => {
+    setAllowReshuffle(checked);
+    loadPlan(checked);
+  };
+  
+  const closeAutoAssign = () => {
+    setShowAutoAssign(false);
+    setPlan(null);
+  };
+  
+  const handleApplyPlan = async () => {
+    if (!plan || plan.changes.length === 0) return;
     
-    if (assignedCount > 0) {
+    setIsApplying(true);
+    try {
+      const result = await bookingsAPI.applyAutoAssign(plan.changes);
+      await refreshData();
+      closeAutoAssign();
       toast({
         title: "Auto-assignment complete",
-        description: `Successfully assigned ${assignedCount} of ${sortedBookings.length} bookings to apartments.${failedCount > 0 ? ` ${failedCount} assignments failed.` : ''}`,
+        description: `Updated ${result.updatedCount} bookings.${plan.unassigned.length > 0 ? ` ${plan.unassigned.length} bookings could not be placed.` : ''}`,
       });
-    } else {
+    } catch (error: any) {
       toast({
         title: "Auto-assignment failed",
-        description: "Could not find available apartments for any of the unassigned bookings.",
+        description: error.response?.data?.message || "Failed to apply the assignment plan. Please try again.",
         variant: "destructive",
       });
+      // Bookings may have changed under us, so show a fresh plan
+      loadPlan(allowReshuffle);
+    } finally {
+      setIsApplying(false);
     }
   };
   
@@ -159,7 +176,7 @@ const AssignPage = () => {
         <div className="flex items-center justify-between">
           <h2 className="text-3xl font-bold">Assign Apartments</h2>
           <div className="flex space-x-2">
-            <Button onClick={autoAssignBookings} disabled={unassignedBookings.length === 0}>
+            <Button onClick={openAutoAssign} disabled={unassignedBookings.length === 0}>
               <PlayIcon className="mr-2 h-4 w-4" />
               Auto Assign All
             </Button>
@@ -273,6 +290,98 @@ const AssignPage = () => {
             </Button>
           </DialogFooter>
         </DialogContent>
+      </Dialog>      
+      <Dialog open={showAutoAssign} onOpenChange={(open) => !open && closeAutoAssign()}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Auto Assign Preview</DialogTitle>
+            <DialogDescription>
+              Review the proposed assignments. Nothing is saved until you apply the plan.
+            </DialogDescription>
+          </DialogHeader>
+          
+          <div className="space-y-4">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="allow-reshuffle"
+                checked={allowReshuffle}
+                disabled={isPlanning || isApplying}
+                onCheckedChange={(checked) => handleReshuffleChange(checked === true)}
+              />
+              <Label htmlFor="allow-reshuffle" className="text-sm font-medium">
+                Allow re-shuffling existing assignments that have not started yet
+              </Label>
+            </div>
+            
+            {isPlanning || !plan ? (
+              <div className="text-center py-6 text-muted-foreground">
+                Calculating assignment plan...
+              </div>
+            ) : (
+              <>
+                <div className="text-sm text-muted-foreground">
+                  {plan.summary.assigned} to assign, {plan.summary.moved} to move, {plan.summary.unassigned} without a free apartment.
+                  {' '}Idle nights between stays: {plan.summary.idle_gap_nights_before} → {plan.summary.idle_gap_nights_after}.
+                </div>
+                
+                {plan.changes.length === 0 ? (
+                  <div className="text-center py-6 text-muted-foreground">
+                    No assignments can be made with the current availability.
+                  </div>
+                ) : (
+                  <div className="max-h-80 overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Guest</TableHead>
+                          <TableHead>Dates</TableHead>
+                          <TableHead>Apartment</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {plan.changes.map((change) => (
+                          <TableRow key={change.booking_id}>
+                            <TableCell className="font-medium">{change.guest_name}</TableCell>
+                            <TableCell>
+                              {format(new Date(change.check_in), 'MMM d')} - {format(new Date(change.check_out), 'MMM d, yyyy')}
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <span className={change.from_apartment_name ? 'line-through text-muted-foreground' : 'text-muted-foreground'}>
+                                  {change.from_apartment_name || 'Unassigned'}
+                                </span>
+                                <ArrowRightIcon className="h-3 w-3" />
+                                <span>{change.to_apartment_name}</span>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+                
+                {plan.unassigned.length > 0 && (
+                  <div className="text-sm text-destructive">
+                    Still unassigned: {plan.unassigned.map(booking => booking.guest_name).join(', ')}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+          
+          <DialogFooter>
+            <Button variant="outline" onClick={closeAutoAssign}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleApplyPlan}
+              disabled={isPlanning || isApplying || !plan || plan.changes.length === 0}
+            >
+              {isApplying ? 'Applying...' : 'Apply Plan'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
       </Dialog>
     </Layout>
   );
@@ -1,11 +1,20 @@
-import React, { useState, useMemo } from 'react';
-import { PlusIcon } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { ChevronLeft, ChevronRight, PlusIcon } from 'lucide-react';
+import { format } from 'date-fns';
 
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { BookingForm } from '@/components/BookingForm';
 import { BookingList } from '@/components/BookingList';
 import { BatchBookingImport } from '@/components/BatchBookingImport';
+import { ReportExportButton } from '@/components/ReportExportButton';
 import { useAppStore } from '@/store';
 import { Layout } from '@/components/Layout';
 import { 
@@ -18,31 +27,115 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { Booking } from '@/types';
+import {
+  BatchImportMode,
+  Booking,
+  BookingStatus,
+  BOOKING_STATUS_LABELS,
+  ParsedBookingData,
+  TreatmentAppointment
+} from '@/types';
+import { BookingQuery, BookingSortKey, Pagination, ReportFormat, reportsAPI } from '@/lib/api';
+import { downloadBlob } from '@/lib/utils';
+import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+
+const PAGE_SIZE = 25;
+
+// How long a deleted booking's toast offers to undo, in milliseconds
+const UNDO_DURATION = 10000;
+
+// Radix selects cannot use an empty string as an item value
+const ALL = 'all';
+const UNASSIGNED = 'unassigned';
+
+const SORT_OPTIONS: { value: string; label: string; sort: BookingSortKey; order: 'asc' | 'desc' }[] = [
+  { value: 'check_in_desc', label: 'Check-in (newest first)', sort: 'check_in', order: 'desc' },
+  { value: 'check_in_asc', label: 'Check-in (oldest first)', sort: 'check_in', order: 'asc' },
+  { value: 'check_out_asc', label: 'Check-out', sort: 'check_out', order: 'asc' },
+  { value: 'guest_name_asc', label: 'Guest name', sort: 'guest_name', order: 'asc' },
+  { value: 'apartment_asc', label: 'Apartment', sort: 'apartment', order: 'asc' },
+  { value: 'created_at_desc', label: 'Recently created', sort: 'created_at', order: 'desc' }
+];
 
 const BookingsPage = () => {
-  const { apartments, bookings, addBooking, updateBooking, deleteBooking } = useAppStore();
+  const {
+    apartments,
+    bookings: storeBookings,
+    fetchBookingsPage,
+    addBooking,
+    updateBooking,
+    updateBookingStatus,
+    deleteBooking,
+    restoreDeleted,
+    importBookings
+  } = useAppStore();
   const [showForm, setShowForm] = useState(false);
   const [editingBooking, setEditingBooking] = useState<Booking | null>(null);
   const [bookingToDelete, setBookingToDelete] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [guestName, setGuestName] = useState('');
+  const [statusFilter, setStatusFilter] = useState<string>(ALL);
+  const [apartmentFilter, setApartmentFilter] = useState<string>(ALL);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [sortOption, setSortOption] = useState(SORT_OPTIONS[0].value);
+  const [page, setPage] = useState(1);
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const { hasPermission } = useAuth();
   const { toast } = useToast();
   
-  // Filter bookings based on search term
-  const filteredBookings = useMemo(() => {
-    if (!searchTerm.trim()) return bookings;
-    
-    const search = searchTerm.toLowerCase();
-    return bookings.filter(booking => {
-      const guestName = booking.guestName.toLowerCase();
-      const apartmentName = booking.apartmentId 
-        ? apartments.find(apt => apt.id === booking.apartmentId)?.name?.toLowerCase() || ''
-        : '';
-      
-      return guestName.includes(search) || apartmentName.includes(search);
-    });
-  }, [bookings, searchTerm, apartments]);
+  const canExport = hasPermission('manager');
+
+  // Search as the user types, without a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setGuestName(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [guestName, statusFilter, apartmentFilter, fromDate, toDate, sortOption]);
+
+  // The list filters, shared by the page and the export
+  const filters = useMemo((): Omit<BookingQuery, 'page' | 'limit'> => {
+    const { sort, order } = SORT_OPTIONS.find(option => option.value === sortOption) || SORT_OPTIONS[0];
+    return {
+      sort,
+      order,
+      guest_name: guestName || undefined,
+      status: statusFilter !== ALL ? [statusFilter as BookingStatus] : undefined,
+      apartment_id: apartmentFilter !== ALL && apartmentFilter !== UNASSIGNED ? apartmentFilter : undefined,
+      unassigned: apartmentFilter === UNASSIGNED || undefined,
+      from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+      to: toDate ? new Date(`${toDate}T23:59:59`).toISOString() : undefined
+    };
+  }, [guestName, statusFilter, apartmentFilter, fromDate, toDate, sortOption]);
+
+  const loadBookings = useCallback(async () => {
+    const query: BookingQuery = { ...filters, page, limit: PAGE_SIZE };
+
+    try {
+      const result = await fetchBookingsPage(query);
+      setBookings(result.bookings);
+      setPagination(result.pagination);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to load bookings.",
+        variant: "destructive",
+      });
+    }
+  }, [fetchBookingsPage, page, filters, toast]);
+
+  // Reload the page whenever the store's bookings change, which covers both
+  // our own edits and live updates from other users
+  useEffect(() => {
+    loadBookings();
+  }, [loadBookings, storeBookings]);
   
   const handleAddNew = () => {
     setEditingBooking(null);
@@ -58,14 +151,36 @@ const BookingsPage = () => {
     setBookingToDelete(bookingId);
   };
   
+  const handleUndoDelete = async (auditLogId: number) => {
+    try {
+      await restoreDeleted(auditLogId);
+      toast({
+        title: "Booking restored",
+        description: "The booking has been put back.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to restore the booking.",
+        variant: "destructive",
+      });
+    }
+  };
+  
   const confirmDelete = async () => {
     if (bookingToDelete) {
       try {
-        await deleteBooking(bookingToDelete);
+        const auditLogId = await deleteBooking(bookingToDelete);
         setBookingToDelete(null);
         toast({
           title: "Booking deleted",
           description: "The booking has been removed successfully.",
+          duration: UNDO_DURATION,
+          action: (
+            <ToastAction altText="Undo the deletion" onClick={() => handleUndoDelete(auditLogId)}>
+              Undo
+            </ToastAction>
+          ),
         });
       } catch {
         toast({
@@ -77,7 +192,7 @@ const BookingsPage = () => {
     }
   };
   
-  const handleFormSubmit = async (data: { guestName: string; checkIn: Date; checkOut: Date; apartmentId: string }) => {
+  const handleFormSubmit = async (data: { guestName: string; guestId?: string; checkIn: Date; checkOut: Date; apartmentId: string; adults?: number; children?: number; companions?: string[]; appointments?: TreatmentAppointment[] }) => {
     try {
       if (editingBooking) {
         await updateBooking(editingBooking.id, data);
@@ -94,33 +209,21 @@ const BookingsPage = () => {
       }
       setShowForm(false);
       setEditingBooking(null);
-    } catch {
+    } catch (error: any) {
       toast({
         title: "Error",
-        description: `Failed to ${editingBooking ? 'update' : 'create'} booking. Please try again.`,
+        description: error.response?.data?.message || `Failed to ${editingBooking ? 'update' : 'create'} booking. Please try again.`,
         variant: "destructive",
       });
     }
   };
 
-  const handleBatchImport = async (bookings: Array<{ guestName: string; checkIn: Date; checkOut: Date }>) => {
-    try {
-      for (const booking of bookings) {
-        await addBooking(booking);
-      }
-      
-      toast({
-        title: "Success",
-        description: `${bookings.length} bookings have been added`,
-      });
-    } catch {
-      toast({
-        title: "Error",
-        description: "Failed to import some bookings. Please try again.",
-        variant: "destructive",
-      });
-    }
+  const handleExport = async (reportFormat: ReportFormat) => {
+    const blob = await reportsAPI.exportBookings(filters, reportFormat);
+    downloadBlob(blob, `bookings-${format(new Date(), 'yyyy-MM-dd')}.${reportFormat}`);
   };
+  
+  const handleBatchImport = (bookings: ParsedBookingData[], mode: BatchImportMode) => importBookings(bookings, mode);
 
   const handleUpdateAssignment = async (bookingId: string, apartmentId: string | null) => {
     try {
@@ -154,12 +257,29 @@ const BookingsPage = () => {
     }
   };
   
+  const handleUpdateStatus = async (bookingId: string, status: BookingStatus) => {
+    try {
+      await updateBookingStatus(bookingId, status);
+      toast({
+        title: "Status updated",
+        description: `Booking marked as ${BOOKING_STATUS_LABELS[status].toLowerCase()}.`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.response?.data?.message || "Failed to update booking status. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+  
   return (
     <Layout>
       <div className="grid grid-cols-1 gap-8">
         <div className="flex items-center justify-between">
           <h2 className="text-3xl font-bold">Bookings</h2>
           <div className="flex space-x-2">
+            {canExport && <ReportExportButton onExport={handleExport} />}
             <BatchBookingImport onImport={handleBatchImport} />
             <Button onClick={handleAddNew}>
               <PlusIcon className="mr-2 h-4 w-4" />
@@ -169,13 +289,60 @@ const BookingsPage = () => {
         </div>
         
         {!showForm && (
-          <div className="flex items-center space-x-2">
+          <div className="flex flex-wrap items-center gap-2">
             <Input
-              placeholder="Search bookings by guest name or apartment..."
+              placeholder="Search bookings by guest name..."
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="max-w-sm"
             />
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                {(Object.keys(BOOKING_STATUS_LABELS) as BookingStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>{BOOKING_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={apartmentFilter} onValueChange={setApartmentFilter}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All apartments</SelectItem>
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {apartments.map((apartment) => (
+                  <SelectItem key={apartment.id} value={apartment.id}>{apartment.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              aria-label="Stays from"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="w-[150px]"
+            />
+            <Input
+              type="date"
+              aria-label="Stays until"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="w-[150px]"
+            />
+            <Select value={sortOption} onValueChange={setSortOption}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         )}
         
@@ -190,13 +357,39 @@ const BookingsPage = () => {
             }}
           />
         ) : (
-          <BookingList
-            bookings={filteredBookings}
-            apartments={apartments}
-            onEdit={handleEdit}
-            onDelete={handleDelete}
-            onUpdateAssignment={handleUpdateAssignment}
-          />
+          <div className="space-y-4">
+            <BookingList
+              bookings={bookings}
+              apartments={apartments}
+              onEdit={handleEdit}
+              onDelete={handleDelete}
+              onUpdateAssignment={handleUpdateAssignment}
+              onUpdateStatus={handleUpdateStatus}
+            />
+            {pagination && pagination.total > 0 && (
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>
+                  {(pagination.page - 1) * pagination.limit + 1}–{Math.min(pagination.page * pagination.limit, pagination.total)} of {pagination.total} bookings
+                </span>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                    <ChevronLeft className="h-4 w-4" />
+                    Previous
+                  </Button>
+                  <span>Page {pagination.page} of {pagination.total_pages}</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={page >= pagination.total_pages}
+                    onClick={() => setPage(page + 1)}
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
         )}
       </div>
       
@@ -0,0 +1,258 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeftIcon, LinkIcon, PencilIcon, TrashIcon } from 'lucide-react';
+
+import { Layout } from '@/components/Layout';
+import { GuestFormDialog } from '@/components/GuestFormDialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { guestsAPI, GuestDetail } from '@/lib/api';
+import { formatCountry, formatCurrency } from '@/lib/utils';
+import { useAppStore } from '@/store';
+import { BOOKING_STATUS_LABELS } from '@/types';
+
+type GuestBooking = GuestDetail['bookings'][number];
+
+function StaysTable({ bookings, action }: { bookings: GuestBooking[]; action?: (booking: GuestBooking) => React.ReactNode }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Stay</TableHead>
+          <TableHead>Apartment</TableHead>
+          <TableHead>Booked as</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="text-right">Total</TableHead>
+          {action && <TableHead className="w-[100px]" />}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {bookings.map((booking) => (
+          <TableRow key={booking.id}>
+            <TableCell>
+              {format(new Date(booking.checkIn), 'PP')} – {format(new Date(booking.checkOut), 'PP')}
+            </TableCell>
+            <TableCell>{booking.apartment_name || booking.temporary_apartment || 'Unassigned'}</TableCell>
+            <TableCell>{booking.guest_name}</TableCell>
+            <TableCell>
+              <Badge variant="secondary">{BOOKING_STATUS_LABELS[booking.status]}</Badge>
+            </TableCell>
+            <TableCell className="text-right">
+              {booking.total_price !== null && booking.total_price !== undefined
+                ? formatCurrency(Number(booking.total_price), booking.currency || undefined)
+                : '—'}
+            </TableCell>
+            {action && <TableCell>{action(booking)}</TableCell>}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+const GuestDetailPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const [guest, setGuest] = useState<GuestDetail | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const { updateBooking } = useAppStore();
+  const { hasPermission } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const loadGuest = useCallback(async () => {
+    if (!id) return;
+    try {
+      setGuest(await guestsAPI.getById(id));
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        setNotFound(true);
+      } else {
+        toast({
+          title: "Error",
+          description: "Failed to load guest.",
+          variant: "destructive",
+        });
+      }
+    }
+  }, [id, toast]);
+
+  useEffect(() => {
+    loadGuest();
+  }, [loadGuest]);
+
+  const handleLink = async (booking: GuestBooking) => {
+    if (!guest) return;
+    try {
+      await updateBooking(booking.id, { guestId: guest.id });
+      await loadGuest();
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to link booking. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!guest || !window.confirm(`Delete ${guest.full_name}? Their bookings are kept but unlinked.`)) return;
+    try {
+      await guestsAPI.delete(guest.id);
+      navigate('/guests');
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to delete guest. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (notFound) {
+    return (
+      <Layout>
+        <div className="text-center py-12 text-muted-foreground">
+          Guest not found. <Link to="/guests" className="underline">Back to guests</Link>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!guest) {
+    return (
+      <Layout>
+        <div className="text-center py-12 text-muted-foreground">Loading...</div>
+      </Layout>
+    );
+  }
+
+  const now = new Date();
+  const upcomingStays = guest.bookings
+    .filter(booking => new Date(booking.checkOut) >= now)
+    .sort((a, b) => new Date(a.checkIn).getTime() - new Date(b.checkIn).getTime());
+  const pastStays = guest.bookings.filter(booking => new Date(booking.checkOut) < now);
+
+  const details: [string, string | null | undefined][] = [
+    ['Email', guest.email],
+    ['Phone', guest.phone],
+    ['Nationality', guest.nationality && formatCountry(guest.nationality)],
+    ['Passport number', guest.passport_number],
+    ['Date of birth', guest.date_of_birth && format(new Date(`${guest.date_of_birth}T00:00:00`), 'PP')]
+  ];
+
+  return (
+    <Layout>
+      <div className="grid grid-cols-1 gap-8">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" asChild>
+              <Link to="/guests">
+                <ArrowLeftIcon className="h-4 w-4" />
+                <span className="sr-only">Back to guests</span>
+              </Link>
+            </Button>
+            <h2 className="text-3xl font-bold">{guest.full_name}</h2>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setEditing(true)}>
+              <PencilIcon className="mr-2 h-4 w-4" />
+              Edit
+            </Button>
+            {hasPermission('admin') && (
+              <Button variant="outline" onClick={handleDelete}>
+                <TrashIcon className="mr-2 h-4 w-4" />
+                Delete
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Details</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+            {details.map(([label, value]) => (
+              <div key={label}>
+                <div className="text-muted-foreground">{label}</div>
+                <div className="font-medium">{value || '—'}</div>
+              </div>
+            ))}
+            {guest.notes && (
+              <div className="sm:col-span-3">
+                <div className="text-muted-foreground">Notes</div>
+                <div className="whitespace-pre-wrap">{guest.notes}</div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Upcoming Stays</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {upcomingStays.length === 0
+              ? <p className="text-sm text-muted-foreground">No upcoming stays.</p>
+              : <StaysTable bookings={upcomingStays} />}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Past Stays</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {pastStays.length === 0
+              ? <p className="text-sm text-muted-foreground">No past stays.</p>
+              : <StaysTable bookings={pastStays} />}
+          </CardContent>
+        </Card>
+
+        {guest.possible_bookings.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Unlinked Bookings With a Similar Name</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <StaysTable
+                bookings={guest.possible_bookings}
+                action={(booking) => (
+                  <Button variant="outline" size="sm" onClick={() => handleLink(booking)}>
+                    <LinkIcon className="mr-1 h-3 w-3" />
+                    Link
+                  </Button>
+                )}
+              />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <GuestFormDialog
+        open={editing}
+        guest={guest}
+        onClose={() => setEditing(false)}
+        onSaved={() => {
+          setEditing(false);
+          loadGuest();
+        }}
+      />
+    </Layout>
+  );
+};
+
+export default GuestDetailPage;
@@ -0,0 +1,128 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { PlusIcon, SearchIcon } from 'lucide-react';
+
+import { Layout } from '@/components/Layout';
+import { GuestFormDialog } from '@/components/GuestFormDialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { guestsAPI, Guest } from '@/lib/api';
+import { formatCountry } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+
+const GuestsPage = () => {
+  const [guests, setGuests] = useState<Guest[]>([]);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const loadGuests = useCallback(async (term: string) => {
+    setLoading(true);
+    try {
+      setGuests(await guestsAPI.getAll(term ? { search: term } : undefined));
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to load guests.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  // Search as the user types, without a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => loadGuests(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search, loadGuests]);
+
+  return (
+    <Layout>
+      <div className="grid grid-cols-1 gap-8">
+        <div className="flex items-center justify-between">
+          <h2 className="text-3xl font-bold">Guests</h2>
+          <Button onClick={() => setShowForm(true)}>
+            <PlusIcon className="mr-2 h-4 w-4" />
+            New Guest
+          </Button>
+        </div>
+
+        <div className="relative max-w-sm">
+          <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by name, email, phone or passport"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            {guests.length === 0 ? (
+              <div className="text-center py-6 text-muted-foreground">
+                {loading ? 'Loading...' : 'No guests found.'}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Contact</TableHead>
+                    <TableHead>Nationality</TableHead>
+                    <TableHead className="text-right">Stays</TableHead>
+                    <TableHead>Last check-in</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {guests.map((guest) => (
+                    <TableRow key={guest.id}>
+                      <TableCell className="font-medium">
+                        <Link to={`/guests/${guest.id}`} className="hover:underline">
+                          {guest.full_name}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {[guest.email, guest.phone].filter(Boolean).join(' · ') || '—'}
+                      </TableCell>
+                      <TableCell>{guest.nationality ? formatCountry(guest.nationality) : '—'}</TableCell>
+                      <TableCell className="text-right">{guest.stay_count}</TableCell>
+                      <TableCell>
+                        {guest.last_check_in ? format(new Date(guest.last_check_in), 'PP') : '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <GuestFormDialog
+        open={showForm}
+        initialName={search.trim()}
+        onClose={() => setShowForm(false)}
+        onSaved={(guest) => {
+          setShowForm(false);
+          navigate(`/guests/${guest.id}`);
+        }}
+      />
+    </Layout>
+  );
+};
+
+export default GuestsPage;
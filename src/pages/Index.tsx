@@ -17,19 +17,6 @@ const Index = () => {
     };
     loadData();
   }, []);
-  
-  // Auto-refresh data every 30 seconds for real-time sync
-  useEffect(() => {
-    const interval = setInterval(async () => {
-      try {
-        await refreshData();
-      } catch (error) {
-        console.error('Auto-refresh failed:', error);
-      }
-    }, 30000); // 30 seconds
-
-    return () => clearInterval(interval);
-  }, [refreshData]);
 
   if (loading) {
     return (
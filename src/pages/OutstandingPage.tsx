@@ -0,0 +1,167 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { format } from 'date-fns';
+import { RefreshCw, WalletIcon } from 'lucide-react';
+
+import { Layout } from '@/components/Layout';
+import { PaymentsDialog } from '@/components/PaymentsDialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { paymentsAPI, OutstandingBooking } from '@/lib/api';
+import { formatCurrency } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { BOOKING_STATUS_LABELS } from '@/types';
+
+const OutstandingPage = () => {
+  const [bookings, setBookings] = useState<OutstandingBooking[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [arrivedOnly, setArrivedOnly] = useState(false);
+  const [paymentsBooking, setPaymentsBooking] = useState<OutstandingBooking | null>(null);
+  const { toast } = useToast();
+
+  const loadOutstanding = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await paymentsAPI.getOutstanding();
+      setBookings(result.bookings);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to load outstanding balances.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadOutstanding();
+  }, [loadOutstanding]);
+
+  // Guests who have already arrived should usually have settled up
+  const visibleBookings = useMemo(() => {
+    if (!arrivedOnly) return bookings;
+    const now = new Date();
+    return bookings.filter(booking => new Date(booking.checkIn) <= now);
+  }, [bookings, arrivedOnly]);
+
+  const totals = useMemo(() => {
+    return visibleBookings.reduce<Record<string, number>>((sums, booking) => {
+      sums[booking.currency] = Math.round(((sums[booking.currency] || 0) + booking.balance_due) * 100) / 100;
+      return sums;
+    }, {});
+  }, [visibleBookings]);
+
+  return (
+    <Layout>
+      <div className="grid grid-cols-1 gap-8">
+        <div className="flex items-center justify-between">
+          <h2 className="text-3xl font-bold">Outstanding Balances</h2>
+          <Button variant="outline" onClick={loadOutstanding} disabled={loading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Bookings with a balance</CardTitle>
+            </CardHeader>
+            <CardContent className="text-2xl font-bold">{visibleBookings.length}</CardContent>
+          </Card>
+          <Card className="sm:col-span-2">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Total outstanding</CardTitle>
+            </CardHeader>
+            <CardContent className="text-2xl font-bold">
+              {Object.keys(totals).length === 0
+                ? formatCurrency(0)
+                : Object.entries(totals).map(([currency, amount]) => formatCurrency(amount, currency)).join(' · ')}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Bookings</CardTitle>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={arrivedOnly} onCheckedChange={(checked) => setArrivedOnly(checked === true)} />
+              Only guests who have arrived
+            </label>
+          </CardHeader>
+          <CardContent>
+            {visibleBookings.length === 0 ? (
+              <div className="text-center py-6 text-muted-foreground">
+                {loading ? 'Loading...' : 'No outstanding balances.'}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Guest</TableHead>
+                    <TableHead>Apartment</TableHead>
+                    <TableHead>Stay</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right">Paid</TableHead>
+                    <TableHead className="text-right">Balance due</TableHead>
+                    <TableHead className="w-[60px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleBookings.map((booking) => (
+                    <TableRow key={booking.id}>
+                      <TableCell className="font-medium">{booking.guest_name}</TableCell>
+                      <TableCell>{booking.apartment_name || booking.temporary_apartment || 'Unassigned'}</TableCell>
+                      <TableCell>
+                        {format(new Date(booking.checkIn), 'PP')} – {format(new Date(booking.checkOut), 'PP')}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{BOOKING_STATUS_LABELS[booking.status]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(booking.total_price, booking.currency)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(booking.amount_paid, booking.currency)}</TableCell>
+                      <TableCell className="text-right font-medium text-destructive">
+                        {formatCurrency(booking.balance_due, booking.currency)}
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="icon" onClick={() => setPaymentsBooking(booking)}>
+                          <WalletIcon className="h-4 w-4" />
+                          <span className="sr-only">Record payment</span>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <PaymentsDialog
+        booking={paymentsBooking && {
+          id: paymentsBooking.id,
+          guestName: paymentsBooking.guest_name,
+          totalPrice: paymentsBooking.total_price,
+          currency: paymentsBooking.currency
+        }}
+        onClose={() => setPaymentsBooking(null)}
+        onChange={loadOutstanding}
+      />
+    </Layout>
+  );
+};
+
+export default OutstandingPage;
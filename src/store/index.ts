@@ -1,35 +1,166 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { areIntervalsOverlapping } from 'date-fns';
+import { addMonths, areIntervalsOverlapping, eachMonthOfInterval, format, startOfMonth, subMonths } from 'date-fns';
 
-import { Apartment, Booking } from '@/types';
-import { apartmentsAPI, bookingsAPI } from '@/lib/api';
+import {
+  Apartment,
+  ApartmentBlock,
+  ApartmentFilters,
+  BatchImportMode,
+  BatchImportResult,
+  Booking,
+  BookingStatus,
+  ParsedBookingData,
+  TreatmentAppointment,
+  fitsParty,
+  isActiveBooking,
+  isExternalBooking,
+  matchesApartmentFilters
+} from '@/types';
+import {
+  apartmentsAPI,
+  auditLogsAPI,
+  blocksAPI,
+  bookingsAPI,
+  eventsAPI,
+  paymentsAPI,
+  ApartmentBlock as ApiApartmentBlock,
+  BatchResult,
+  Booking as ApiBooking,
+  BookingQuery,
+  LiveEvent,
+  Pagination,
+  Payment
+} from '@/lib/api';
+
+const RECONNECT_DELAY = 5000;
+
+// The store keeps every stay from the start of last month onwards, which is
+// what availability checks need. Older months are loaded when a calendar
+// shows them.
+const LOADED_MONTHS_BACK = 1;
+
+// Month cache keys, e.g. "2026-03"; they sort chronologically as strings
+const monthKey = (date: Date) => format(date, 'yyyy-MM');
+
+// A single event stream is shared by every mounted subscriber
+let eventSource: EventSource | null = null;
+let subscriberCount = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let connecting = false;
+
+// Convert API appointment format to local format
+const formatAppointment = (appointment: NonNullable<ApiBooking['appointments']>[number]): TreatmentAppointment => ({
+  id: appointment.id,
+  scheduledAt: new Date(appointment.scheduled_at),
+  type: appointment.type,
+  doctor: appointment.doctor || undefined,
+  notes: appointment.notes || undefined
+});
+
+// Convert local appointments to the API format
+const toAppointmentInput = (appointments: TreatmentAppointment[]) => appointments.map(appointment => ({
+  scheduled_at: appointment.scheduledAt.toISOString(),
+  type: appointment.type,
+  doctor: appointment.doctor || undefined,
+  notes: appointment.notes || undefined
+}));
+
+// Convert API booking format to local format
+const formatBooking = (booking: any): Booking => {
+  const totalPrice = booking.total_price !== null && booking.total_price !== undefined ? Number(booking.total_price) : undefined;
+  const amountPaid = Number(booking.amount_paid || 0);
+
+  return {
+    id: booking.id,
+    guestName: booking.guest_name,
+    guestId: booking.guest_id || undefined,
+    checkIn: new Date(booking.checkIn || booking.check_in),
+    checkOut: new Date(booking.checkOut || booking.check_out),
+    apartmentId: booking.apartment_id || undefined,
+    temporaryApartment: booking.temporary_apartment || undefined,
+    status: booking.status || 'confirmed',
+    source: booking.source || 'manual',
+    totalPrice,
+    currency: booking.currency || undefined,
+    amountPaid,
+    balanceDue: totalPrice !== undefined ? Math.round((totalPrice - amountPaid) * 100) / 100 : undefined,
+    appointments: (booking.appointments || []).map(formatAppointment),
+    adults: booking.adults ?? 1,
+    children: booking.children ?? 0,
+    companions: booking.companions || []
+  };
+};
+
+// Convert API block format to local format
+const formatBlock = (block: ApiApartmentBlock): ApartmentBlock => ({
+  id: block.id,
+  apartmentId: block.apartment_id,
+  startDate: new Date(block.start_date),
+  endDate: new Date(block.end_date),
+  type: block.type,
+  reason: block.reason || undefined
+});
+
+const upsertById = <T extends { id: string }>(items: T[], item: T): T[] =>
+  items.some((existing) => existing.id === item.id)
+    ? items.map((existing) => (existing.id === item.id ? item : existing))
+    : [...items, item];
 
 interface AppState {
   apartments: Apartment[];
   bookings: Booking[];
+  blocks: ApartmentBlock[];
   loading: boolean;
   
+  // Month cache: every month from bookingsLoadedSince onwards is loaded, plus
+  // the earlier months in loadedMonths. bookingsLoadedSince is null while a
+  // full reload is in progress, so calendars can reload their month after it.
+  bookingsLoadedSince: string | null;
+  loadedMonths: Record<string, boolean>;
+  
   // Data fetching
   fetchApartments: () => Promise<void>;
   fetchBookings: () => Promise<void>;
+  ensureBookingsLoaded: (from: Date, to: Date) => Promise<void>;
+  fetchBookingsPage: (query: BookingQuery) => Promise<{ bookings: Booking[]; pagination: Pagination }>;
+  fetchBlocks: () => Promise<void>;
   refreshData: () => Promise<void>;
   
+  // Live updates
+  connectLiveUpdates: () => () => void;
+  applyLiveEvent: (event: LiveEvent) => void;
+  
   // Apartment actions
   addApartment: (apartment: Omit<Apartment, 'id'>) => Promise<void>;
   updateApartment: (id: string, apartment: Partial<Omit<Apartment, 'id'>>) => Promise<void>;
-  deleteApartment: (id: string) => Promise<void>;
+  // Deletions resolve to the audit log entry that restoreDeleted undoes them with
+  deleteApartment: (id: string) => Promise<number>;
   toggleApartmentFavorite: (id: string) => Promise<void>;
   
   // Booking actions
-  addBooking: (booking: Omit<Booking, 'id'>) => Promise<void>;
-  updateBooking: (id: string, booking: Partial<Omit<Booking, 'id'>>) => Promise<void>;
-  deleteBooking: (id: string) => Promise<void>;
+  addBooking: (booking: Omit<Booking, 'id' | 'status'> & { status?: 'tentative' | 'confirmed' }) => Promise<void>;
+  updateBooking: (id: string, booking: Partial<Omit<Booking, 'id' | 'status'>>) => Promise<void>;
+  updateBookingStatus: (id: string, status: BookingStatus) => Promise<void>;
+  deleteBooking: (id: string) => Promise<number>;
   deleteAllBookings: () => Promise<void>;
+  importBookings: (bookings: ParsedBookingData[], mode: BatchImportMode) => Promise<BatchImportResult>;
+  
+  restoreDeleted: (auditLogId: number) => Promise<void>;
+  
+  // Block actions
+  addBlock: (block: Omit<ApartmentBlock, 'id'>) => Promise<void>;
+  deleteBlock: (id: string) => Promise<void>;
+  
+  // Payment actions (the booking is reloaded to pick up its new balance)
+  recordPayment: (payment: Parameters<typeof paymentsAPI.create>[0]) => Promise<Payment>;
+  deletePayment: (payment: Payment) => Promise<void>;
   
   // Helper functions
-  getAvailableApartments: (checkIn: Date, checkOut: Date) => Apartment[];
+  getAvailableApartments: (checkIn: Date, checkOut: Date, partySize?: number, filters?: ApartmentFilters) => Apartment[];
   getBookingsByApartmentId: (apartmentId: string) => Booking[];
+  getBookingsInRange: (from: Date, to: Date) => Booking[];
+  getBlocksByApartmentId: (apartmentId: string) => ApartmentBlock[];
 }
 
 export const useAppStore = create<AppState>()(
@@ -38,7 +169,10 @@ export const useAppStore = create<AppState>()(
       return {
         apartments: [],
         bookings: [],
+        blocks: [],
         loading: false,
+        bookingsLoadedSince: null,
+        loadedMonths: {},
         
         // Data fetching
         fetchApartments: async () => {
@@ -54,27 +188,188 @@ export const useAppStore = create<AppState>()(
         
         fetchBookings: async () => {
           try {
-            set({ loading: true });
-            const bookings = await bookingsAPI.getAll();
-            // Convert API booking format to local format
-            const formattedBookings = bookings.map(booking => ({
-              id: booking.id,
-              guestName: booking.guest_name,
-              checkIn: new Date(booking.checkIn),
-              checkOut: new Date(booking.checkOut),
-              apartmentId: booking.apartment_id || undefined,
-              temporaryApartment: booking.temporary_apartment || undefined
-            }));
-            set({ bookings: formattedBookings, loading: false });
+            set({ loading: true, bookingsLoadedSince: null });
+            const since = subMonths(startOfMonth(new Date()), LOADED_MONTHS_BACK);
+            const bookings = await bookingsAPI.getAll({ from: since.toISOString() });
+            const formattedBookings = bookings.map(formatBooking);
+            // Older months are reloaded by whichever calendar shows them
+            set({
+              bookings: formattedBookings,
+              bookingsLoadedSince: monthKey(since),
+              loadedMonths: {},
+              loading: false
+            });
           } catch (error) {
             console.error('Failed to fetch bookings:', error);
             set({ loading: false });
           }
         },
+
+        // Load the months overlapping a window that are not cached yet, in one request
+        ensureBookingsLoaded: async (from, to) => {
+          const { bookingsLoadedSince, loadedMonths } = get();
+          if (!bookingsLoadedSince) return;
+          
+          const missing = eachMonthOfInterval({ start: from, end: to }).filter((month) => {
+            const key = monthKey(month);
+            return !loadedMonths[key] && key < bookingsLoadedSince;
+          });
+          if (missing.length === 0) return;
+          
+          const keys = missing.map(monthKey);
+          const setLoaded = (loaded: boolean) => set((state) => ({
+            loadedMonths: { ...state.loadedMonths, ...Object.fromEntries(keys.map((key) => [key, loaded])) }
+          }));
+          
+          // Mark them first so concurrent callers don't request them again
+          setLoaded(true);
+          try {
+            const bookings = await bookingsAPI.getRange(
+              missing[0].toISOString(),
+              addMonths(missing[missing.length - 1], 1).toISOString()
+            );
+            set((state) => ({
+              bookings: bookings.map(formatBooking).reduce(upsertById, state.bookings)
+            }));
+          } catch (error) {
+            console.error('Failed to fetch bookings:', error);
+            setLoaded(false);
+          }
+        },
+
+        // One page for paged lists; the store's bookings are left alone
+        fetchBookingsPage: async (query) => {
+          const { data, pagination } = await bookingsAPI.getPage(query);
+          return { bookings: data.map(formatBooking), pagination };
+        },
+        
+        fetchBlocks: async () => {
+          try {
+            const blocks = await blocksAPI.getAll();
+            set({ blocks: blocks.map(formatBlock) });
+          } catch (error) {
+            console.error('Failed to fetch blocks:', error);
+          }
+        },
         
         refreshData: async () => {
-          const { fetchApartments, fetchBookings } = get();
-          await Promise.all([fetchApartments(), fetchBookings()]);
+          const { fetchApartments, fetchBookings, fetchBlocks } = get();
+          await Promise.all([fetchApartments(), fetchBookings(), fetchBlocks()]);
+        },
+        
+        // Live updates
+        connectLiveUpdates: () => {
+          subscriberCount++;
+          
+          const reconnectLater = () => {
+            reconnectTimer = setTimeout(() => {
+              reconnectTimer = null;
+              if (subscriberCount > 0) open(true);
+            }, RECONNECT_DELAY);
+          };
+          
+          // Every connection needs a fresh stream token; fetching it also
+          // refreshes an expired session
+          const open = async (resync: boolean) => {
+            connecting = true;
+            let token: string;
+            try {
+              token = await eventsAPI.getStreamToken();
+            } catch (error) {
+              console.error('Failed to authorize live updates:', error);
+              connecting = false;
+              if (subscriberCount > 0) reconnectLater();
+              return;
+            }
+            connecting = false;
+            if (subscriberCount === 0) return;
+            
+            eventSource = eventsAPI.subscribe(token, get().applyLiveEvent, (source) => {
+              // The browser retries dropped connections itself, but with the
+              // expired stream token; once it gives up, start over
+              if (source.readyState !== EventSource.CLOSED || source !== eventSource) return;
+              eventSource = null;
+              reconnectLater();
+            });
+            
+            // Catch up on anything missed while disconnected
+            if (resync) {
+              get().refreshData();
+            }
+          };
+          
+          if (!eventSource && !reconnectTimer && !connecting) {
+            open(false);
+          }
+          
+          return () => {
+            subscriberCount = Math.max(0, subscriberCount - 1);
+            if (subscriberCount > 0) return;
+            if (reconnectTimer) {
+              clearTimeout(reconnectTimer);
+              reconnectTimer = null;
+            }
+            eventSource?.close();
+            eventSource = null;
+          };
+        },
+        
+        applyLiveEvent: (event) => {
+          const { type, payload } = event;
+          
+          switch (type) {
+            case 'booking.created':
+            case 'booking.updated':
+              set((state) => ({
+                bookings: upsertById(state.bookings, formatBooking(payload))
+              }));
+              break;
+            case 'booking.deleted':
+              set((state) => ({
+                bookings: state.bookings.filter((b) => b.id !== payload.id)
+              }));
+              break;
+            case 'bookings.cleared':
+              set((state) => ({
+                bookings: state.bookings.filter(isExternalBooking)
+              }));
+              break;
+            case 'apartment.created':
+            case 'apartment.updated':
+              set((state) => ({
+                apartments: upsertById(state.apartments, payload)
+              }));
+              break;
+            case 'apartment.deleted':
+              set((state) => ({
+                apartments: state.apartments.filter((a) => a.id !== payload.id),
+                bookings: state.bookings.filter((b) => b.apartmentId !== payload.id),
+                blocks: state.blocks.filter((b) => b.apartmentId !== payload.id)
+              }));
+              break;
+            case 'block.created':
+            case 'block.updated':
+              set((state) => ({
+                blocks: upsertById(state.blocks, formatBlock(payload))
+              }));
+              break;
+            case 'block.deleted':
+              set((state) => ({
+                blocks: state.blocks.filter((b) => b.id !== payload.id)
+              }));
+              break;
+            case 'guest.deleted':
+              // Deleting a profile unlinks its bookings
+              set((state) => ({
+                bookings: state.bookings.map((b) =>
+                  b.guestId === payload.id ? { ...b, guestId: undefined } : b
+                )
+              }));
+              break;
+            case 'data.reset':
+              get().refreshData();
+              break;
+          }
         },
         
         // Apartment actions
@@ -82,10 +377,13 @@ export const useAppStore = create<AppState>()(
           try {
             const newApartment = await apartmentsAPI.create({
               name: apartment.name,
-              properties: apartment.properties
+              properties: apartment.properties,
+              maxGuests: apartment.maxGuests,
+              beds: apartment.beds,
+              attributes: apartment.attributes
             });
             set((state) => ({
-              apartments: [...state.apartments, newApartment]
+              apartments: upsertById(state.apartments, newApartment)
             }));
           } catch (error) {
             console.error('Failed to add apartment:', error);
@@ -109,12 +407,14 @@ export const useAppStore = create<AppState>()(
         
         deleteApartment: async (id) => {
           try {
-            await apartmentsAPI.delete(id);
+            const { auditLogId } = await apartmentsAPI.delete(id);
             set((state) => ({
               apartments: state.apartments.filter((a) => a.id !== id),
-              // Also remove all bookings for this apartment
-              bookings: state.bookings.filter((b) => b.apartmentId !== id)
+              // Also remove all bookings and blocks for this apartment
+              bookings: state.bookings.filter((b) => b.apartmentId !== id),
+              blocks: state.blocks.filter((b) => b.apartmentId !== id)
             }));
+            return auditLogId;
           } catch (error) {
             console.error('Failed to delete apartment:', error);
             throw error;
@@ -140,24 +440,21 @@ export const useAppStore = create<AppState>()(
           try {
             const newBooking = await bookingsAPI.create({
               guest_name: booking.guestName,
+              guest_id: booking.guestId || undefined,
               check_in: booking.checkIn.toISOString(),
               check_out: booking.checkOut.toISOString(),
               apartment_id: booking.apartmentId,
-              temporary_apartment: booking.temporaryApartment
+              temporary_apartment: booking.temporaryApartment,
+              status: booking.status,
+              adults: booking.adults,
+              children: booking.children,
+              companions: booking.companions,
+              appointments: booking.appointments ? toAppointmentInput(booking.appointments) : undefined
             });
             
-            // Convert back to local format
-            const formattedBooking = {
-              id: newBooking.id,
-              guestName: newBooking.guest_name,
-              checkIn: new Date(newBooking.checkIn),
-              checkOut: new Date(newBooking.checkOut),
-              apartmentId: newBooking.apartment_id || undefined,
-              temporaryApartment: newBooking.temporary_apartment || undefined
-            };
-            
+            // The live event for this booking may arrive first, so upsert
             set((state) => ({
-              bookings: [...state.bookings, formattedBooking]
+              bookings: upsertById(state.bookings, formatBooking(newBooking))
             }));
           } catch (error) {
             console.error('Failed to add booking:', error);
@@ -169,26 +466,21 @@ export const useAppStore = create<AppState>()(
           try {
             const updateData: any = {};
             if (booking.guestName) updateData.guest_name = booking.guestName;
+            if (booking.guestId !== undefined) updateData.guest_id = booking.guestId || null;
             if (booking.checkIn) updateData.check_in = booking.checkIn.toISOString();
             if (booking.checkOut) updateData.check_out = booking.checkOut.toISOString();
             if (booking.apartmentId !== undefined) updateData.apartment_id = booking.apartmentId;
             if (booking.temporaryApartment !== undefined) updateData.temporary_apartment = booking.temporaryApartment;
+            if (booking.adults !== undefined) updateData.adults = booking.adults;
+            if (booking.children !== undefined) updateData.children = booking.children;
+            if (booking.companions !== undefined) updateData.companions = booking.companions;
+            if (booking.appointments !== undefined) updateData.appointments = toAppointmentInput(booking.appointments);
             
             const updatedBooking = await bookingsAPI.update(id, updateData);
             
-            // Convert back to local format
-            const formattedBooking = {
-              id: updatedBooking.id,
-              guestName: updatedBooking.guest_name,
-              checkIn: new Date(updatedBooking.checkIn),
-              checkOut: new Date(updatedBooking.checkOut),
-              apartmentId: updatedBooking.apartment_id || undefined,
-              temporaryApartment: updatedBooking.temporary_apartment || undefined
-            };
-            
             set((state) => ({
               bookings: state.bookings.map((b) => 
-                b.id === id ? formattedBooking : b
+                b.id === id ? formatBooking(updatedBooking) : b
               )
             }));
           } catch (error) {
@@ -197,44 +489,191 @@ export const useAppStore = create<AppState>()(
           }
         },
         
+        updateBookingStatus: async (id, status) => {
+          try {
+            const updatedBooking = await bookingsAPI.updateStatus(id, status);
+            set((state) => ({
+              bookings: state.bookings.map((b) => 
+                b.id === id ? formatBooking(updatedBooking) : b
+              )
+            }));
+          } catch (error) {
+            console.error('Failed to update booking status:', error);
+            throw error;
+          }
+        },
+        
         deleteBooking: async (id) => {
           try {
-            await bookingsAPI.delete(id);
+            const { auditLogId } = await bookingsAPI.delete(id);
             set((state) => ({
               bookings: state.bookings.filter((b) => b.id !== id)
             }));
+            return auditLogId;
           } catch (error) {
             console.error('Failed to delete booking:', error);
             throw error;
           }
         },
         
+        restoreDeleted: async (auditLogId) => {
+          try {
+            const result = await auditLogsAPI.restore(auditLogId);
+            if (result.table === 'bookings') {
+              set((state) => ({
+                bookings: upsertById(state.bookings, formatBooking(result.record))
+              }));
+            } else {
+              set((state) => ({
+                apartments: upsertById(state.apartments, result.record)
+              }));
+              // The apartment's blocks and bookings came back with it
+              await Promise.all([get().fetchBlocks(), get().fetchBookings()]);
+            }
+          } catch (error) {
+            console.error('Failed to restore deleted record:', error);
+            throw error;
+          }
+        },
+        
+        importBookings: async (bookings, mode) => {
+          try {
+            let result: BatchResult;
+            try {
+              result = await bookingsAPI.batchCreate(bookings.map((booking) => ({
+                guest_name: booking.guestName,
+                check_in: booking.checkIn.toISOString(),
+                check_out: booking.checkOut.toISOString(),
+                apartment_id: booking.apartmentId,
+                temporary_apartment: booking.temporaryApartment
+              })), mode);
+            } catch (error: any) {
+              // A rejected all-or-nothing batch still reports on every row
+              if (error.response?.status !== 409 || !error.response.data?.results) throw error;
+              result = error.response.data;
+            }
+            
+            set((state) => ({
+              bookings: result.bookings.map(formatBooking).reduce(upsertById, state.bookings)
+            }));
+            
+            return {
+              mode: result.mode,
+              createdCount: result.createdCount,
+              rows: result.results.map((row) => ({
+                row: row.row,
+                status: row.status,
+                message: row.conflictingBooking
+                  ? `${row.message} (booked by ${row.conflictingBooking.guest_name})`
+                  : row.message,
+                bookingId: row.booking_id
+              }))
+            };
+          } catch (error) {
+            console.error('Failed to import bookings:', error);
+            throw error;
+          }
+        },
+        
         deleteAllBookings: async () => {
           try {
             await bookingsAPI.deleteAll();
-            set({ bookings: [] });
+            set((state) => ({
+              bookings: state.bookings.filter(isExternalBooking)
+            }));
           } catch (error) {
             console.error('Failed to delete all bookings:', error);
             throw error;
           }
         },
         
+        // Block actions
+        addBlock: async (block) => {
+          try {
+            const newBlock = await blocksAPI.create({
+              apartment_id: block.apartmentId,
+              start_date: block.startDate.toISOString(),
+              end_date: block.endDate.toISOString(),
+              type: block.type,
+              reason: block.reason
+            });
+            set((state) => ({
+              blocks: upsertById(state.blocks, formatBlock(newBlock))
+            }));
+          } catch (error) {
+            console.error('Failed to add block:', error);
+            throw error;
+          }
+        },
+        
+        deleteBlock: async (id) => {
+          try {
+            await blocksAPI.delete(id);
+            set((state) => ({
+              blocks: state.blocks.filter((b) => b.id !== id)
+            }));
+          } catch (error) {
+            console.error('Failed to delete block:', error);
+            throw error;
+          }
+        },
+        
+        // Payment actions
+        recordPayment: async (payment) => {
+          try {
+            const newPayment = await paymentsAPI.create(payment);
+            const booking = await bookingsAPI.getById(payment.booking_id);
+            set((state) => ({
+              bookings: upsertById(state.bookings, formatBooking(booking))
+            }));
+            return newPayment;
+          } catch (error) {
+            console.error('Failed to record payment:', error);
+            throw error;
+          }
+        },
+        
+        deletePayment: async (payment) => {
+          try {
+            await paymentsAPI.delete(payment.id);
+            const booking = await bookingsAPI.getById(payment.booking_id);
+            set((state) => ({
+              bookings: upsertById(state.bookings, formatBooking(booking))
+            }));
+          } catch (error) {
+            console.error('Failed to delete payment:', error);
+            throw error;
+          }
+        },
+        
         // Helper functions
-        getAvailableApartments: (checkIn, checkOut) => {
-          const { apartments, bookings } = get();
+        getAvailableApartments: (checkIn, checkOut, partySize, filters = {}) => {
+          const { apartments, bookings, blocks } = get();
+          
+          // One pass over the bookings rather than one per apartment
+          const overlappingBookings = bookings.filter((booking) =>
+            isActiveBooking(booking) &&
+            areIntervalsOverlapping(
+              { start: booking.checkIn, end: booking.checkOut },
+              { start: checkIn, end: checkOut }
+            )
+          );
           
           const availableApartments = apartments.filter((apartment) => {
-            const apartmentBookings = bookings.filter(
-              (booking) => booking.apartmentId === apartment.id
-            );
+            const isBooked = overlappingBookings.some((booking) => booking.apartmentId === apartment.id);
             
-            const isAvailable = !apartmentBookings.some((booking) =>
+            const isBlocked = blocks.some((block) =>
+              block.apartmentId === apartment.id &&
               areIntervalsOverlapping(
-                { start: booking.checkIn, end: booking.checkOut },
+                { start: block.startDate, end: block.endDate },
                 { start: checkIn, end: checkOut }
               )
             );
             
+            const isAvailable = !isBooked && !isBlocked &&
+              (partySize === undefined || fitsParty(apartment, partySize)) &&
+              matchesApartmentFilters(apartment, filters);
+            
             return isAvailable;
           });
           
@@ -248,6 +687,16 @@ export const useAppStore = create<AppState>()(
         getBookingsByApartmentId: (apartmentId) => {
           const { bookings } = get();
           return bookings.filter((booking) => booking.apartmentId === apartmentId);
+        },
+        
+        getBookingsInRange: (from, to) => {
+          const { bookings } = get();
+          return bookings.filter((booking) => booking.checkIn < to && booking.checkOut > from);
+        },
+        
+        getBlocksByApartmentId: (apartmentId) => {
+          const { blocks } = get();
+          return blocks.filter((block) => block.apartmentId === apartmentId);
         }
       };
     },
@@ -6,26 +6,272 @@ export interface Apartment {
   name: string;
   properties: string[];
   isFavorite?: boolean; // Added favorite flag
+  maxGuests?: number | null; // Overrides what the beds sleep
+  beds?: BedConfiguration[];
+  attributes?: ApartmentAttributes;
 }
 
+// Typed apartment attributes, set by admins. null means unknown.
+export interface ApartmentAttributes {
+  bedrooms: number | null;
+  floor: number | null; // 0 is the ground floor
+  hasElevator: boolean | null;
+  wheelchairAccessible: boolean | null;
+  clinicDistanceM: number | null; // Walking distance to the clinic in metres
+  address: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export const EMPTY_APARTMENT_ATTRIBUTES: ApartmentAttributes = {
+  bedrooms: null,
+  floor: null,
+  hasElevator: null,
+  wheelchairAccessible: null,
+  clinicDistanceM: null,
+  address: null,
+  latitude: null,
+  longitude: null
+};
+
+// Short labels for the known attributes, e.g. ["2 bedrooms", "Ground floor"]
+export const describeApartmentAttributes = (attributes?: ApartmentAttributes) => {
+  if (!attributes) return [];
+  const labels: string[] = [];
+
+  if (attributes.bedrooms !== null) {
+    labels.push(attributes.bedrooms === 0 ? 'Studio' : `${attributes.bedrooms} bedroom${attributes.bedrooms === 1 ? '' : 's'}`);
+  }
+  if (attributes.floor !== null) {
+    labels.push(attributes.floor === 0 ? 'Ground floor' : `Floor ${attributes.floor}`);
+  }
+  if (attributes.hasElevator !== null) {
+    labels.push(attributes.hasElevator ? 'Elevator' : 'No elevator');
+  }
+  if (attributes.wheelchairAccessible) {
+    labels.push('Wheelchair accessible');
+  }
+  if (attributes.clinicDistanceM !== null) {
+    labels.push(attributes.clinicDistanceM >= 1000
+      ? `${(attributes.clinicDistanceM / 1000).toFixed(1)} km to clinic`
+      : `${attributes.clinicDistanceM} m to clinic`);
+  }
+
+  return labels;
+};
+
+// Attribute filters for availability searches. Apartments whose attribute is
+// unknown do not match a filter on it, as on the server.
+export interface ApartmentFilters {
+  minBedrooms?: number;
+  maxFloor?: number;
+  elevator?: boolean;
+  wheelchairAccessible?: boolean;
+  maxClinicDistanceM?: number;
+}
+
+export const matchesApartmentFilters = (apartment: Pick<Apartment, 'attributes'>, filters: ApartmentFilters) => {
+  const attributes = apartment.attributes || EMPTY_APARTMENT_ATTRIBUTES;
+
+  if (filters.minBedrooms !== undefined && !(attributes.bedrooms !== null && attributes.bedrooms >= filters.minBedrooms)) return false;
+  if (filters.maxFloor !== undefined && !(attributes.floor !== null && attributes.floor <= filters.maxFloor)) return false;
+  if (filters.elevator && attributes.hasElevator !== true) return false;
+  if (filters.wheelchairAccessible && attributes.wheelchairAccessible !== true) return false;
+  if (filters.maxClinicDistanceM !== undefined &&
+    !(attributes.clinicDistanceM !== null && attributes.clinicDistanceM <= filters.maxClinicDistanceM)) return false;
+
+  return true;
+};
+
+// Sleeping arrangements
+export type BedType = 'single' | 'double' | 'sofa_bed' | 'bunk' | 'cot';
+
+export const BED_TYPE_LABELS: Record<BedType, string> = {
+  single: 'Single bed',
+  double: 'Double bed',
+  sofa_bed: 'Sofa bed',
+  bunk: 'Bunk bed',
+  cot: 'Cot'
+};
+
+// Mirrors the server's capacity rules
+export const BED_SLEEPS: Record<BedType, number> = {
+  single: 1,
+  double: 2,
+  sofa_bed: 2,
+  bunk: 2,
+  cot: 1
+};
+
+export interface BedConfiguration {
+  type: BedType;
+  count: number;
+}
+
+// Max guests when set, otherwise what the beds sleep; null when unknown
+export const getApartmentCapacity = (apartment: Pick<Apartment, 'maxGuests' | 'beds'>) => {
+  if (apartment.maxGuests) return apartment.maxGuests;
+  const sleeps = (apartment.beds || []).reduce((total, bed) => total + BED_SLEEPS[bed.type] * bed.count, 0);
+  return sleeps > 0 ? sleeps : null;
+};
+
+export const fitsParty = (apartment: Pick<Apartment, 'maxGuests' | 'beds'>, partySize: number) => {
+  const capacity = getApartmentCapacity(apartment);
+  return capacity === null || partySize <= capacity;
+};
+
+// Booking lifecycle status
+export type BookingStatus = 'tentative' | 'confirmed' | 'checked_in' | 'checked_out' | 'cancelled' | 'no_show';
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  tentative: 'Tentative',
+  confirmed: 'Confirmed',
+  checked_in: 'Checked in',
+  checked_out: 'Checked out',
+  cancelled: 'Cancelled',
+  no_show: 'No-show'
+};
+
+// Mirrors the transitions enforced by the server
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  tentative: ['confirmed', 'cancelled'],
+  confirmed: ['tentative', 'checked_in', 'cancelled', 'no_show'],
+  checked_in: ['checked_out'],
+  checked_out: [],
+  cancelled: ['confirmed'],
+  no_show: []
+};
+
 // Booking model
 export interface Booking {
   id: string;
   guestName: string;
+  guestId?: string; // Guest profile, when the booking has been linked to one
   checkIn: Date;
   checkOut: Date;
   apartmentId?: string; // Changed to optional
   temporaryApartment?: string; // New field for temporary apartment custom names
+  status: BookingStatus;
+  source?: BookingSource; // External bookings are synced from a rental platform
+  totalPrice?: number; // Quoted from the apartment's rate plan when the stay was booked
+  currency?: string;
+  amountPaid?: number; // Deposits and payments minus refunds
+  balanceDue?: number; // Only known for priced bookings
+  appointments?: TreatmentAppointment[]; // Clinic visits the stay has to cover
+  adults?: number;
+  children?: number;
+  companions?: string[]; // Names of the people travelling with the guest
+}
+
+export const getPartySize = (booking: Pick<Booking, 'adults' | 'children'>) =>
+  (booking.adults ?? 1) + (booking.children ?? 0);
+
+export type BookingSource = 'manual' | 'external';
+
+// External bookings mirror another platform's calendar and cannot be edited here
+export const isExternalBooking = (booking: Pick<Booking, 'source'>) =>
+  booking.source === 'external';
+
+// Cancelled and no-show bookings no longer occupy their apartment
+export const isActiveBooking = (booking: Pick<Booking, 'status'>) =>
+  booking.status !== 'cancelled' && booking.status !== 'no_show';
+
+// Payments ledger
+export type PaymentType = 'deposit' | 'payment' | 'refund';
+
+export type PaymentMethod = 'cash' | 'card' | 'bank_transfer' | 'other';
+
+export const PAYMENT_TYPE_LABELS: Record<PaymentType, string> = {
+  deposit: 'Deposit',
+  payment: 'Payment',
+  refund: 'Refund'
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  bank_transfer: 'Bank transfer',
+  other: 'Other'
+};
+
+// Treatment appointments scheduled during a patient's stay
+export type AppointmentType =
+  | 'consultation'
+  | 'implant_surgery'
+  | 'extraction'
+  | 'follow_up'
+  | 'prosthetic_fitting'
+  | 'other';
+
+export const APPOINTMENT_TYPE_LABELS: Record<AppointmentType, string> = {
+  consultation: 'Consultation',
+  implant_surgery: 'Implant surgery',
+  extraction: 'Extraction',
+  follow_up: 'Follow-up',
+  prosthetic_fitting: 'Prosthetic fitting',
+  other: 'Other'
+};
+
+export interface TreatmentAppointment {
+  id?: string;
+  scheduledAt: Date;
+  type: AppointmentType;
+  doctor?: string;
+  notes?: string;
+}
+
+// An appointment is covered when it is scheduled between check-in and check-out
+export const isAppointmentCovered = (
+  appointment: Pick<TreatmentAppointment, 'scheduledAt'>,
+  checkIn: Date,
+  checkOut: Date
+) => {
+  const time = appointment.scheduledAt.getTime();
+  return time >= checkIn.getTime() && time <= checkOut.getTime();
+};
+
+// Apartment block model (takes an apartment out of service)
+export type BlockType = 'maintenance' | 'cleaning' | 'owner_use';
+
+export const BLOCK_TYPE_LABELS: Record<BlockType, string> = {
+  maintenance: 'Maintenance',
+  cleaning: 'Cleaning',
+  owner_use: 'Owner use'
+};
+
+export interface ApartmentBlock {
+  id: string;
+  apartmentId: string;
+  startDate: Date;
+  endDate: Date;
+  type: BlockType;
+  reason?: string;
 }
 
 // Form schemas
 export const apartmentSchema = z.object({
   name: z.string().min(1, "Name is required"),
-  properties: z.array(z.string())
+  properties: z.array(z.string()),
+  maxGuests: z.number().int().positive().nullable().optional(),
+  beds: z.array(z.object({
+    type: z.enum(['single', 'double', 'sofa_bed', 'bunk', 'cot']),
+    count: z.number().int().positive("Bed count must be at least 1")
+  })).optional(),
+  attributes: z.object({
+    bedrooms: z.number().int().min(0, "Bedrooms must be zero or more").nullable(),
+    floor: z.number().int().nullable(),
+    hasElevator: z.boolean().nullable(),
+    wheelchairAccessible: z.boolean().nullable(),
+    clinicDistanceM: z.number().int().min(0, "Distance must be zero or more").nullable(),
+    address: z.string().nullable(),
+    latitude: z.number().min(-90).max(90, "Latitude must be between -90 and 90").nullable(),
+    longitude: z.number().min(-180).max(180, "Longitude must be between -180 and 180").nullable()
+  }).optional()
 });
 
 export const bookingSchema = z.object({
   guestName: z.string().min(1, "Guest name is required"),
+  guestId: z.string().optional(),
   checkIn: z.date({
     required_error: "Check-in date is required"
   }),
@@ -35,7 +281,18 @@ export const bookingSchema = z.object({
     message: "Check-out date must be in the future"
   }),
   apartmentId: z.string().min(1, "Apartment is required").optional(), // Made optional
-  temporaryApartment: z.string().optional() // New field for temporary apartments
+  temporaryApartment: z.string().optional(), // New field for temporary apartments
+  adults: z.number().int().min(1, "At least one adult is required").optional(),
+  children: z.number().int().min(0).optional(),
+  companions: z.array(z.string().min(1, "Companion name is required")).optional(),
+  appointments: z.array(z.object({
+    scheduledAt: z.date({
+      required_error: "Appointment date is required"
+    }),
+    type: z.enum(['consultation', 'implant_surgery', 'extraction', 'follow_up', 'prosthetic_fitting', 'other']),
+    doctor: z.string().optional(),
+    notes: z.string().optional()
+  })).optional()
 });
 
 export const dateRangeSchema = z.object({
@@ -54,4 +311,38 @@ export interface ParsedBookingData {
   guestName: string;
   checkIn: Date;
   checkOut: Date;
+  apartmentId?: string;
+  temporaryApartment?: string;
+}
+
+// All-or-nothing imports save no rows unless every row can be saved
+export type BatchImportMode = 'all_or_nothing' | 'best_effort';
+
+export const BATCH_IMPORT_MODE_LABELS: Record<BatchImportMode, string> = {
+  all_or_nothing: 'All or nothing',
+  best_effort: 'Import the valid rows'
+};
+
+// "ready" rows were valid but not saved because the rest of the batch failed
+export type BatchRowStatus = 'created' | 'ready' | 'invalid' | 'duplicate' | 'conflict';
+
+export const BATCH_ROW_STATUS_LABELS: Record<BatchRowStatus, string> = {
+  created: 'Created',
+  ready: 'Not saved',
+  invalid: 'Invalid',
+  duplicate: 'Duplicate',
+  conflict: 'Conflict'
+};
+
+export interface BatchRowResult {
+  row: number;
+  status: BatchRowStatus;
+  message?: string;
+  bookingId?: string;
+}
+
+export interface BatchImportResult {
+  mode: BatchImportMode;
+  createdCount: number;
+  rows: BatchRowResult[];
 }
@@ -0,0 +1,18 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  test: {
+    environment: "node",
+    // The expected dates in the tests are written in UTC
+    env: {
+      TZ: "UTC",
+      APP_TIMEZONE: "UTC",
+    },
+  },
+});